@@ -0,0 +1,83 @@
+/**
+ * GameBoost AI - Contrato da Ponte do Preload
+ * Tipos de `window.backend` e `window.env` compartilhados entre preload (implementação)
+ * e renderer (consumo); o preload é tipado contra estas interfaces para os dois lados não divergirem.
+ */
+
+import type {
+  FrameMetrics, HotkeyAction, HotkeyConfig, HotkeyRegistration, LhmStartResult, PresentMonStatus, PresentMonSubscribeOptions,
+  PSResult, ToolsAvailability, TrayCommand, TrayState
+} from './protocol'
+import type { OperationArgs, OperationName, OperationResults } from './operations'
+import type { Snapshot } from '../src/engine/sensors/types'
+import type { RawProcess } from '../src/engine/processes/types'
+
+export interface FileReadResult {
+  success: boolean
+  content?: string
+  error?: string
+}
+
+export interface ElevationResult {
+  success: boolean
+  message: string
+}
+
+export interface EnvironmentInfo {
+  isDesktop: boolean
+  isAdmin: boolean
+  // Operações administrativas disponíveis (app elevado ou helper privilegiado)
+  privileged: boolean
+  platform: string
+  arch: string
+  version: string
+}
+
+export interface BackendBridge {
+  // Operações do catálogo (validadas e montadas no main)
+  invoke<N extends OperationName>(name: N, args?: OperationArgs<N>, requestId?: string): Promise<PSResult<OperationResults[N]>>
+  cancel(requestId: string): Promise<boolean>
+  // Leitura de texto restrita aos diretórios do app e das ferramentas
+  readFile(filePath: string): Promise<FileReadResult>
+  // Reinicia o app como administrador (a instância atual encerra se o UAC for aceito)
+  requestElevation(): Promise<ElevationResult>
+  // Sensores de /proc e /sys (hwmon, drm); vazio fora do Linux
+  readLinuxSensors(): Promise<Snapshot>
+  // Processos de /proc (CPU% por diferença entre chamadas); vazio fora do Linux
+  listLinuxProcesses(): Promise<RawProcess[]>
+  // PresentMon e LibreHardwareMonitor presentes em tools/
+  getToolsAvailability(): Promise<ToolsAvailability>
+  // Inicia/encerra o LibreHardwareMonitor incluído no app
+  startLhm(): Promise<LhmStartResult>
+  stopLhm(): Promise<void>
+  // Inscreve nas métricas de frame-time do PresentMon; retorna a função de cancelamento
+  subscribeFrameMetrics(
+    options: PresentMonSubscribeOptions,
+    onMetrics: (metrics: FrameMetrics) => void,
+    onStatus?: (status: PresentMonStatus) => void
+  ): () => void
+  // Publica perfis, temperaturas e disponibilidade de reversão para o ícone da bandeja
+  updateTray(state: TrayState): void
+  // Comandos do menu da bandeja; retorna a função de cancelamento
+  onTrayCommand(handler: (command: TrayCommand) => void): () => void
+  // Substitui os atalhos globais; retorna o resultado do registro de cada ação
+  registerHotkeys(config: HotkeyConfig): Promise<HotkeyRegistration[]>
+  // Atalhos disparados (exceto o overlay, alternado no main); retorna a função de cancelamento
+  onHotkey(handler: (action: HotkeyAction) => void): () => void
+}
+
+export interface EnvBridge {
+  isDesktop: true
+  // Resolvido pelo main antes de abrir a janela (disponível de forma síncrona)
+  isAdmin: boolean
+  platform: NodeJS.Platform
+  getInfo(): Promise<EnvironmentInfo>
+}
+
+declare global {
+  interface Window {
+    // Ausentes no preview web (fora do Electron)
+    backend?: BackendBridge
+    env?: EnvBridge
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { build } from 'esbuild'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PrivilegedBroker } from './broker'
+
+// Helper compilado como no app empacotado, iniciado pelo broker em modo stand-in (--dry-run)
+let buildDir: string
+let broker: PrivilegedBroker
+
+beforeAll(async () => {
+  buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gb-broker-'))
+  const helperScript = path.join(buildDir, 'helper.js')
+  await build({
+    entryPoints: [path.join(__dirname, 'helper.ts')],
+    outfile: helperScript,
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    logLevel: 'silent'
+  })
+
+  broker = new PrivilegedBroker({ helperScript, toolsDir: path.join(buildDir, 'tools'), mode: 'standin' })
+}, 30000)
+
+afterAll(async () => {
+  broker?.stop()
+  await fs.rm(buildDir, { recursive: true, force: true })
+})
+
+describe.runIf(process.platform === 'linux')('PrivilegedBroker (stand-in)', () => {
+  it('inicia o helper sob demanda e recebe o script sh da operação privilegiada', async () => {
+    expect(broker.isConnected()).toBe(false)
+
+    const result = await broker.invoke('linuxSetPriority', { name: 'cs2', level: 'High' }, 'req-priority')
+
+    expect(broker.isConnected()).toBe(true)
+    expect(result).toMatchObject({ requestId: 'req-priority', ok: true, code: 0 })
+    expect(result.stdout).toContain(`pgrep -x -- 'cs2'`)
+    expect(result.stdout).toContain('renice -n -10')
+  })
+
+  it('reutiliza a mesma conexão nas chamadas seguintes', async () => {
+    const [governor, drop] = await Promise.all([
+      broker.invoke('linuxSetPowerPlan', { plan: 'governor:performance' }, 'req-governor'),
+      broker.invoke('linuxFreeRam', {}, 'req-drop')
+    ])
+
+    expect(governor.stdout).toContain(`governor='performance'`)
+    expect(drop.stdout).toContain('/proc/sys/vm/drop_caches')
+  })
+
+  it('recusa operações não administrativas, de outra plataforma ou com argumentos inválidos', async () => {
+    const refused = await broker.invoke('linuxClearTemp', {}, 'req-temp')
+    expect(refused).toMatchObject({ ok: false, error: 'Operação não permitida no helper: linuxClearTemp' })
+
+    const windows = await broker.invoke('freeRam', {}, 'req-windows')
+    expect(windows.ok).toBe(false)
+    expect(windows.error).toContain('não disponível nesta plataforma')
+
+    const invalid = await broker.invoke('linuxSetPriority', { name: 'cs2; reboot', level: 'High' }, 'req-invalid')
+    expect(invalid.ok).toBe(false)
+    expect(invalid.error).toContain('Argumentos inválidos para linuxSetPriority')
+  })
+
+  it('encerra o helper ao fechar o canal e o reinicia na próxima chamada', async () => {
+    broker.stop()
+    expect(broker.isConnected()).toBe(false)
+
+    const result = await broker.invoke('linuxApplyPowerPlan', { mode: 'performance' }, 'req-restart')
+    expect(result.ok).toBe(true)
+    expect(result.stdout).toContain(`powerprofilesctl set 'performance'`)
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * GameBoost AI - Broker do Helper Privilegiado (processo main)
+ * O app roda sem elevação; operações administrativas são encaminhadas a um helper elevado
+ * sob demanda. O main abre o canal local (named pipe / socket Unix), inicia o helper com um
+ * token de sessão de uso único e aceita apenas a primeira conexão que apresentar esse token.
+ */
+
+import { spawn } from 'child_process'
+import * as crypto from 'crypto'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { promises as fs } from 'fs'
+import { HELPER_CONNECT_TIMEOUT, type HelperMessage, type HelperRequest, type PSResult } from './protocol'
+import { psQuote } from './operations'
+import { onMessages, sendMessage } from './channel'
+import { runPowerShell, failedResult } from './runner'
+
+// uac: Windows (Start-Process -Verb RunAs); pkexec: Linux (polkit); standin: helper local sem elevação, só monta os scripts
+export type HelperLaunchMode = 'uac' | 'pkexec' | 'standin'
+
+export interface BrokerOptions {
+  helperScript: string
+  toolsDir: string
+  mode: HelperLaunchMode
+}
+
+interface PendingRequest {
+  requestId: string
+  resolve: (result: PSResult) => void
+}
+
+function tokensMatch(received: string, expected: string): boolean {
+  const a = Buffer.from(received)
+  const b = Buffer.from(expected)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+export class PrivilegedBroker {
+  private socket: net.Socket | null = null
+  private connecting: Promise<net.Socket> | null = null
+  private sessionDir: string | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextId = 0
+
+  constructor(private options: BrokerOptions) {}
+
+  get mode(): HelperLaunchMode {
+    return this.options.mode
+  }
+
+  isConnected(): boolean {
+    return !!this.socket && !this.socket.destroyed
+  }
+
+  /**
+   * Executa a operação no helper, iniciando-o na primeira chamada
+   */
+  async invoke(name: string, args: unknown, requestId: string): Promise<PSResult> {
+    let socket: net.Socket
+    try {
+      socket = await this.connect()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return failedResult(requestId, `Helper privilegiado indisponível: ${message}`)
+    }
+
+    return new Promise<PSResult>((resolve) => {
+      const id = this.nextId++
+      this.pending.set(id, { requestId, resolve })
+      sendMessage(socket, { type: 'invoke', id, name, args, requestId } satisfies HelperRequest)
+    })
+  }
+
+  /**
+   * Cancela uma operação em andamento no helper (false se não pertence ao helper)
+   */
+  cancel(requestId: string): boolean {
+    const owned = Array.from(this.pending.values()).some(entry => entry.requestId === requestId)
+    if (!owned || !this.socket) return false
+
+    sendMessage(this.socket, { type: 'cancel', requestId } satisfies HelperRequest)
+    return true
+  }
+
+  /**
+   * Fecha o canal; o helper encerra ao perceber o fechamento
+   */
+  stop(): void {
+    this.socket?.destroy()
+    this.socket = null
+    this.cleanupSession()
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) return Promise.resolve(this.socket)
+    if (!this.connecting) {
+      this.connecting = this.launch().finally(() => { this.connecting = null })
+    }
+    return this.connecting
+  }
+
+  private async launch(): Promise<net.Socket> {
+    const token = crypto.randomBytes(32).toString('hex')
+    // Diretório da sessão criado com permissão apenas do usuário (0700 no Unix)
+    const sessionDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gb-helper-'))
+    this.sessionDir = sessionDir
+
+    const endpoint = process.platform === 'win32'
+      ? `\\\\.\\pipe\\gameboost-helper-${crypto.randomBytes(8).toString('hex')}`
+      : path.join(sessionDir, 'helper.sock')
+    const tokenFile = path.join(sessionDir, 'token')
+    await fs.writeFile(tokenFile, token, { mode: 0o600 })
+
+    const server = net.createServer()
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(endpoint, () => {
+          server.off('error', reject)
+          resolve()
+        })
+      })
+
+      const socket = await new Promise<net.Socket>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('o helper não conectou a tempo')), HELPER_CONNECT_TIMEOUT)
+        const fail = (error: Error) => {
+          clearTimeout(timer)
+          reject(error)
+        }
+
+        server.on('connection', (candidate) => {
+          let authenticated = false
+          candidate.on('error', () => {})
+
+          onMessages(candidate, (message: HelperMessage) => {
+            if (authenticated) {
+              this.onMessage(message)
+              return
+            }
+
+            // Apenas a primeira conexão com o token da sessão é aceita
+            if (this.socket || message?.type !== 'hello' || typeof message.token !== 'string' || !tokensMatch(message.token, token)) {
+              candidate.destroy()
+              return
+            }
+
+            authenticated = true
+            clearTimeout(timer)
+            this.attach(candidate)
+            resolve(candidate)
+          })
+        })
+
+        this.spawnHelper(endpoint, tokenFile, fail).catch(fail)
+      })
+
+      return socket
+    } catch (error) {
+      this.cleanupSession()
+      throw error
+    } finally {
+      // Nenhuma conexão nova depois da autenticação (a já aceita continua aberta)
+      server.close()
+    }
+  }
+
+  private async spawnHelper(endpoint: string, tokenFile: string, onEarlyExit: (error: Error) => void): Promise<void> {
+    const args = [this.options.helperScript, '--endpoint', endpoint, '--token-file', tokenFile, '--tools-dir', this.options.toolsDir]
+
+    if (this.options.mode === 'uac') {
+      // Start-Process -Verb RunAs não herda o ambiente: a variável é definida pelo cmd elevado
+      const command = `set ELECTRON_RUN_AS_NODE=1&& ${[process.execPath, ...args].map(arg => `"${arg}"`).join(' ')}`
+      const result = await runPowerShell(
+        `Start-Process -FilePath 'cmd.exe' -ArgumentList ${psQuote(`/d /s /c "${command}"`)} -Verb RunAs -WindowStyle Hidden -ErrorAction Stop`,
+        HELPER_CONNECT_TIMEOUT
+      )
+      if (!result.ok) throw new Error(result.stderr || result.error || 'elevação recusada')
+      return
+    }
+
+    const [command, commandArgs] = this.options.mode === 'pkexec'
+      ? ['pkexec', ['env', 'ELECTRON_RUN_AS_NODE=1', process.execPath, ...args]]
+      : [process.execPath, [...args, '--dry-run']]
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(command, commandArgs, {
+        env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+        stdio: 'ignore',
+        windowsHide: true
+      })
+      child.once('error', reject)
+      child.once('spawn', () => resolve())
+      // pkexec sai com 126 quando a autenticação é cancelada
+      child.once('exit', code => {
+        if (!this.isConnected()) onEarlyExit(new Error(`helper encerrado (código ${code})`))
+      })
+    })
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+
+    socket.on('close', () => {
+      if (this.socket === socket) this.socket = null
+      this.pending.forEach(entry => entry.resolve(failedResult(entry.requestId, 'Helper privilegiado encerrado')))
+      this.pending.clear()
+      this.cleanupSession()
+    })
+  }
+
+  private onMessage(message: HelperMessage): void {
+    if (message?.type !== 'result' || typeof message.id !== 'number') return
+
+    const entry = this.pending.get(message.id)
+    if (!entry) return
+    this.pending.delete(message.id)
+    entry.resolve(message.result)
+  }
+
+  private cleanupSession(): void {
+    if (!this.sessionDir) return
+    fs.rm(this.sessionDir, { recursive: true, force: true }).catch(() => {})
+    this.sessionDir = null
+  }
+}
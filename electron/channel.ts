@@ -0,0 +1,46 @@
+/**
+ * GameBoost AI - Canal JSON por Linha
+ * Enquadramento das mensagens trocadas entre o main e o helper privilegiado
+ */
+
+import type { Socket } from 'net'
+import { HELPER_MAX_MESSAGE_BYTES } from './protocol'
+
+/**
+ * Envia uma mensagem (uma linha JSON)
+ */
+export function sendMessage(socket: Socket, message: unknown): void {
+  if (!socket.destroyed) socket.write(`${JSON.stringify(message)}\n`)
+}
+
+/**
+ * Entrega cada linha JSON recebida; encerra o socket em mensagem inválida ou grande demais
+ */
+export function onMessages(socket: Socket, handler: (message: any) => void): void {
+  let buffer = ''
+
+  socket.setEncoding('utf8')
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+
+      if (line) {
+        let message: unknown
+        try {
+          message = JSON.parse(line)
+        } catch {
+          socket.destroy()
+          return
+        }
+        handler(message)
+      }
+      newline = buffer.indexOf('\n')
+    }
+
+    if (buffer.length > HELPER_MAX_MESSAGE_BYTES) socket.destroy()
+  })
+}
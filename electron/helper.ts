@@ -0,0 +1,103 @@
+/**
+ * GameBoost AI - Helper Privilegiado
+ * Processo separado, iniciado elevado (UAC no Windows, pkexec no Linux), que executa apenas
+ * as operações administrativas do catálogo da plataforma (PowerShell no Windows, sh como root no Linux). Conecta ao canal local aberto pelo main, autentica
+ * com o token de sessão e encerra quando o canal fecha.
+ *
+ * Uso: helper.js --endpoint <pipe|socket> --token-file <arquivo> --tools-dir <dir> [--dry-run]
+ */
+
+import * as net from 'net'
+import * as os from 'os'
+import * as fs from 'fs'
+import { prepareOperation, isPrivilegedOperation } from './operations'
+import { runPrepared, cancelPowerShell, cancelAllPowerShell, failedResult } from './runner'
+import { onMessages, sendMessage } from './channel'
+import type { HelperRequest, HelperMessage, PSResult } from './protocol'
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+const endpoint = readArg('--endpoint')
+const tokenFile = readArg('--token-file')
+const toolsDir = readArg('--tools-dir') || ''
+// Stand-in local: valida e monta o script, mas não executa (testes sem elevação)
+const dryRun = process.argv.includes('--dry-run')
+
+/**
+ * Executa uma operação administrativa (as demais são recusadas mesmo que válidas)
+ */
+async function execute(request: Extract<HelperRequest, { type: 'invoke' }>): Promise<PSResult> {
+  if (!isPrivilegedOperation(request.name)) {
+    return failedResult(request.requestId, `Operação não permitida no helper: ${String(request.name)}`)
+  }
+
+  const prepared = prepareOperation(request.name, request.args, { tmpDir: os.tmpdir(), toolsDir, platform: process.platform })
+  if (!prepared.ok) return failedResult(request.requestId, prepared.error)
+
+  if (dryRun) {
+    return {
+      requestId: request.requestId,
+      ok: true,
+      code: 0,
+      stdout: prepared.script.trim(),
+      stderr: '',
+      duration: 0,
+      timedOut: false,
+      cancelled: false
+    }
+  }
+  return runPrepared(prepared, request.requestId)
+}
+
+function isValidRequest(message: any): message is HelperRequest {
+  if (!message || typeof message.requestId !== 'string' || !/^[\w-]{1,64}$/.test(message.requestId)) return false
+  return message.type === 'cancel' || (message.type === 'invoke' && typeof message.id === 'number')
+}
+
+function main() {
+  if (!endpoint || !tokenFile) {
+    console.error('Uso: helper --endpoint <pipe|socket> --token-file <arquivo> --tools-dir <dir> [--dry-run]')
+    process.exit(2)
+  }
+
+  // O token é de uso único: o arquivo é removido assim que lido
+  let token: string
+  try {
+    token = fs.readFileSync(tokenFile, 'utf8').trim()
+    fs.unlinkSync(tokenFile)
+  } catch (error) {
+    console.error(`Token de sessão indisponível: ${error}`)
+    process.exit(2)
+  }
+
+  const socket = net.connect(endpoint)
+
+  socket.on('connect', () => {
+    sendMessage(socket, { type: 'hello', token, pid: process.pid } satisfies HelperMessage)
+  })
+
+  onMessages(socket, message => {
+    if (!isValidRequest(message)) return
+
+    if (message.type === 'cancel') {
+      cancelPowerShell(message.requestId)
+      return
+    }
+
+    execute(message).then(result => {
+      sendMessage(socket, { type: 'result', id: message.id, result } satisfies HelperMessage)
+    })
+  })
+
+  // Sem o main não há quem autorize operações: encerrar junto com o canal
+  socket.on('error', () => {})
+  socket.on('close', () => {
+    cancelAllPowerShell()
+    process.exit(0)
+  })
+}
+
+main()
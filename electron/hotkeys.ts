@@ -0,0 +1,51 @@
+/**
+ * GameBoost AI - Atalhos Globais (processo main)
+ * Registra os atalhos configurados no renderer, detecta conflitos (atalho em uso por outro
+ * aplicativo ou repetido entre ações) e repassa os disparos
+ */
+
+import { globalShortcut } from 'electron'
+import { HOTKEY_ACTIONS, type HotkeyAction, type HotkeyConfig, type HotkeyRegistration } from './protocol'
+
+export class HotkeyManager {
+  // Aceleradores registrados por este app (os demais não são tocados)
+  private registered: string[] = []
+
+  constructor(private onTrigger: (action: HotkeyAction) => void) {}
+
+  /**
+   * Substitui os atalhos registrados pela configuração recebida
+   */
+  apply(config: HotkeyConfig): HotkeyRegistration[] {
+    this.clear()
+
+    const seen = new Set<string>()
+
+    return HOTKEY_ACTIONS.map((action): HotkeyRegistration => {
+      const raw = config?.bindings?.[action]
+      const accelerator = typeof raw === 'string' && raw.trim() ? raw.trim() : null
+
+      if (!config?.enabled || !accelerator) return { action, accelerator, state: 'disabled' }
+
+      const key = accelerator.toLowerCase()
+      if (seen.has(key)) return { action, accelerator, state: 'conflict' }
+      seen.add(key)
+
+      try {
+        if (!globalShortcut.register(accelerator, () => this.onTrigger(action))) {
+          return { action, accelerator, state: 'conflict' }
+        }
+      } catch {
+        return { action, accelerator, state: 'invalid' }
+      }
+
+      this.registered.push(accelerator)
+      return { action, accelerator, state: 'registered' }
+    })
+  }
+
+  clear(): void {
+    this.registered.forEach(accelerator => globalShortcut.unregister(accelerator))
+    this.registered = []
+  }
+}
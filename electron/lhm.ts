@@ -0,0 +1,52 @@
+/**
+ * GameBoost AI - LibreHardwareMonitor (processo main)
+ * Inicia e encerra o LHM incluído em tools/; as leituras vêm do servidor web dele (data.json)
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import * as fs from 'fs'
+import type { LhmStartResult } from './protocol'
+
+export class LhmProcess {
+  private child: ChildProcess | null = null
+
+  constructor(private readonly executablePath: string) {}
+
+  isAvailable(): boolean {
+    return fs.existsSync(this.executablePath)
+  }
+
+  /**
+   * Inicia o LHM se ainda não estiver rodando por este app
+   */
+  start(): LhmStartResult {
+    if (this.child) return { started: true }
+    if (!this.isAvailable()) {
+      return { started: false, error: `LibreHardwareMonitor não encontrado em: ${this.executablePath}` }
+    }
+
+    let child: ChildProcess
+    try {
+      child = spawn(this.executablePath, [], { windowsHide: true, stdio: 'ignore' })
+    } catch (error) {
+      return { started: false, error: error instanceof Error ? error.message : String(error) }
+    }
+
+    this.child = child
+    child.on('error', error => {
+      console.warn('[LHM]', error.message)
+      if (this.child === child) this.child = null
+    })
+    child.on('exit', () => {
+      if (this.child === child) this.child = null
+    })
+
+    return { started: true }
+  }
+
+  stop(): void {
+    const child = this.child
+    this.child = null
+    if (child && child.exitCode === null) child.kill()
+  }
+}
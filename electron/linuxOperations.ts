@@ -0,0 +1,463 @@
+/**
+ * GameBoost AI - Catálogo de Operações Linux
+ * Mesmas regras de operations.ts: argumentos validados e script sh montado no main com os valores
+ * escapados (cpufreq/power-profiles-daemon, renice/ionice, sinais, drop_caches, autostart do XDG).
+ * Os scripts não elevam por conta própria: as operações privileged rodam como root no helper (pkexec)
+ */
+
+import { z } from 'zod'
+import type { OperationContext, OperationDefinition } from './operations'
+import type { PriorityLevel } from './operations'
+
+// Perfis do power-profiles-daemon (ultimate não existe no Linux, usa performance)
+export const LINUX_POWER_PLANS = {
+  balanced: 'balanced',
+  performance: 'performance',
+  ultimate: 'performance'
+}
+
+// Processos críticos da sessão que não devem ser alterados
+export const LINUX_CRITICAL_PROCESSES = [
+  'systemd', 'init', 'Xorg', 'Xwayland', 'gnome-shell', 'kwin_x11', 'kwin_wayland',
+  'plasmashell', 'pipewire', 'wireplumber', 'pulseaudio', 'dbus-daemon', 'gdm', 'sddm'
+]
+
+// Valores de nice equivalentes às classes de prioridade do Windows
+export const NICE_LEVELS: Record<PriorityLevel, number> = {
+  Idle: 19,
+  BelowNormal: 10,
+  Normal: 0,
+  AboveNormal: -5,
+  High: -10,
+  RealTime: -20
+}
+
+// Classe/nível do ionice equivalentes
+const IONICE_LEVELS: Record<PriorityLevel, string> = {
+  Idle: '-c3',
+  BelowNormal: '-c2 -n6',
+  Normal: '-c2 -n4',
+  AboveNormal: '-c2 -n2',
+  High: '-c2 -n0',
+  RealTime: '-c1 -n0'
+}
+
+// Processos de usuário considerados "segundo plano" (pid, nome e executável separados por tab).
+// Launchers (steam, lutris, heroic) ficam de fora: no Linux os jogos rodam como processos filhos deles.
+const BACKGROUND_APPS_FILTER = `
+gb_background_apps() {
+  uid=$(id -u)
+  for d in /proc/[0-9]*; do
+    p=\${d#/proc/}
+    [ "$(stat -c %u "$d" 2>/dev/null)" = "$uid" ] || continue
+    comm=$(cat "$d/comm" 2>/dev/null) || continue
+    case "$comm" in
+      chrome|chromium*|firefox*|brave*|msedge|opera|discord|Discord|spotify|telegram-deskto*|slack|teams*|zoom) ;;
+      *) continue ;;
+    esac
+    printf '%s\\t%s\\t%s\\n' "$p" "$comm" "$(readlink "$d/exe" 2>/dev/null)"
+  done
+}
+`
+
+// Função awk que converte um campo em string JSON (caracteres de controle são descartados)
+const AWK_JSON_STRING = String.raw`
+function json(s,   n, parts, i, out) {
+  gsub(/[\001-\037]/, "", s)
+  gsub(/\\/, "&&", s)
+  n = split(s, parts, "\"")
+  out = parts[1]
+  for (i = 2; i <= n; i++) out = out "\\\"" parts[i]
+  return "\"" out "\""
+}
+`
+
+// Caches que nunca são limpos (cache de shaders evita stutter nos jogos); padrões de -path relativos ao cache XDG
+const CACHE_EXCLUDES = ['mesa_shader_cache*', 'radv_builtin_shaders*', 'nvidia/*', 'fontconfig/*']
+
+/**
+ * Converte o valor de nice para a classe de prioridade equivalente
+ */
+export function niceToPriority(nice: number): PriorityLevel {
+  if (nice <= -20) return 'RealTime'
+  if (nice <= -10) return 'High'
+  if (nice < 0) return 'AboveNormal'
+  if (nice === 0) return 'Normal'
+  if (nice < 19) return 'BelowNormal'
+  return 'Idle'
+}
+
+/**
+ * Literal sh entre aspas simples
+ */
+export function shQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Trecho de troca do governor do cpufreq em todos os núcleos (governor em $governor).
+ * Escreve direto no sysfs: exige root (helper privilegiado ou app elevado)
+ */
+const GOVERNOR_SCRIPT = `
+  for f in /sys/devices/system/cpu/cpu*/cpufreq/scaling_governor; do
+    echo "$governor" > "$f" 2>/dev/null
+  done
+  current=$(cat /sys/devices/system/cpu/cpu0/cpufreq/scaling_governor 2>/dev/null)
+  [ "$current" = "$governor" ] && ok=true || ok=false
+  gb_result "{\\"ok\\":$ok,\\"method\\":\\"governor\\",\\"plan\\":\\"governor:$current\\"}"
+`
+
+/**
+ * Script de aplicação de plano de energia (power-profiles-daemon ou governor do cpufreq)
+ */
+export function buildLinuxPowerPlanScript(mode: 'balanced' | 'performance' | 'ultimate'): string {
+  const profile = LINUX_POWER_PLANS[mode]
+
+  return `
+    if command -v powerprofilesctl >/dev/null 2>&1; then
+      powerprofilesctl set ${shQuote(profile)}
+      current=$(powerprofilesctl get)
+      [ "$current" = ${shQuote(profile)} ] && ok=true || ok=false
+      gb_result "{\\"ok\\":$ok,\\"method\\":\\"ppd\\",\\"plan\\":\\"ppd:$current\\"}"
+    else
+      governor=performance
+      if [ "${profile}" != "performance" ]; then
+        case " $(cat /sys/devices/system/cpu/cpu0/cpufreq/scaling_available_governors 2>/dev/null) " in
+          *" schedutil "*) governor=schedutil ;;
+          *) governor=powersave ;;
+        esac
+      fi
+      ${GOVERNOR_SCRIPT.trim()}
+    fi
+  `
+}
+
+/**
+ * Trecho que resolve os PIDs alvo (PID informado ou nome exato)
+ */
+function selectPids(target: { name?: string; pid?: number }): string {
+  return target.pid ? `${target.pid}` : `$(pgrep -x -- ${shQuote(target.name!)})`
+}
+
+/**
+ * Script de alteração de prioridade de processo (renice + ionice)
+ */
+export function buildLinuxPriorityScript(options: { name?: string; pid?: number; level: PriorityLevel }): string {
+  const { level } = options
+  const nice = NICE_LEVELS[level]
+
+  return `
+    pids="${selectPids(options)}"
+    if [ -z "$pids" ]; then
+      gb_result '{"ok":false,"reason":"not-found"}'
+      exit 0
+    fi
+
+    # Verificar se não é processo crítico
+    for p in $pids; do
+      case " ${LINUX_CRITICAL_PROCESSES.join(' ')} " in
+        *" $(cat /proc/$p/comm 2>/dev/null) "*)
+          gb_result '{"ok":false,"reason":"critical"}'
+          exit 0 ;;
+      esac
+    done
+
+    renice -n ${nice} -p $pids >/dev/null 2>&1
+    ionice ${IONICE_LEVELS[level]} -p $pids >/dev/null 2>&1
+
+    first=$(echo $pids | cut -d' ' -f1)
+    [ "$(ps -o ni= -p $first | tr -d ' ')" = "${nice}" ] && ok=true || ok=false
+    gb_result "{\\"ok\\":$ok,\\"level\\":\\"${level}\\",\\"nice\\":${nice}}"
+  `
+}
+
+/**
+ * Script de fechamento de aplicações em segundo plano (smart suspende com SIGSTOP, aggressive envia SIGTERM)
+ */
+export function buildLinuxCloseAppsScript(mode: 'smart' | 'kill-aggressive'): string {
+  const signal = mode === 'smart' ? 'STOP' : 'TERM'
+
+  return `
+    ${BACKGROUND_APPS_FILTER.trim()}
+    closed=0
+    pids=""
+
+    for p in $(gb_background_apps | cut -f1); do
+      if kill -${signal} $p 2>/dev/null; then
+        closed=$((closed + 1))
+        pids="$pids\${pids:+,}$p"
+      fi
+    done
+
+    gb_result "{\\"closed\\":$closed,\\"pids\\":[$pids],\\"mode\\":\\"${mode}\\"}"
+  `
+}
+
+/**
+ * Script de liberação de RAM (page cache, dentries e inodes)
+ */
+export function buildLinuxFreeRamScript(): string {
+  return `
+    sync
+    if { echo 3 > /proc/sys/vm/drop_caches; } 2>/dev/null; then
+      gb_result '{"ok":true,"method":"drop_caches"}'
+    else
+      gb_result '{"ok":true,"method":"sync"}'
+    fi
+  `
+}
+
+/**
+ * Diretórios limpos por clearTemp
+ */
+export function linuxTempCacheDirs(tmpDir: string): string[] {
+  return [tmpDir, '${XDG_CACHE_HOME:-$HOME/.cache}']
+}
+
+/**
+ * Comando find dos arquivos temporários do usuário (tmp > 1 dia, cache XDG > 7 dias).
+ * Exclusões por `! -path` (-prune não tem efeito quando a remoção ativa -depth); erros ficam no stderr
+ */
+function buildTempFindScript(tmpDir: string, action: string): string {
+  const excludes = CACHE_EXCLUDES.map(pattern => `! -path "$cache/${pattern}"`).join(' ')
+
+  return `
+    cache="\${XDG_CACHE_HOME:-$HOME/.cache}"
+    {
+      find ${shQuote(tmpDir)} -xdev -type f -user "$(id -u)" -mtime +1 ${action}
+      [ -d "$cache" ] && find "$cache" -xdev -type f ${excludes} -mtime +7 ${action}
+    }
+  `
+}
+
+/**
+ * Script de limpeza de caches temporários (conta apenas os arquivos removidos de fato)
+ */
+export function buildLinuxTempCleanupScript(tmpDir: string): string {
+  return `
+    cleaned=$(${buildTempFindScript(tmpDir, '-exec rm -f -- {} \\; -print').trim()} | wc -l)
+    gb_result "{\\"ok\\":true,\\"cleaned\\":$cleaned}"
+  `
+}
+
+// Backup das entradas de ~/.config/autostart movidas por disableStartup
+const AUTOSTART_DIRS = `
+  config="\${XDG_CONFIG_HOME:-$HOME/.config}"
+  backup="$config/gameboost/autostart-backup"
+`
+
+const processName = z.string().trim().min(1).max(100)
+  .regex(/^[\w .:()+@-]+$/, 'nome de processo inválido')
+
+const processTarget = z.object({
+  name: processName.optional(),
+  pid: z.number().int().positive().optional()
+}).refine(target => target.name !== undefined || target.pid !== undefined, 'nome ou PID do processo é obrigatório')
+
+const priorityLevel = z.enum(['Idle', 'BelowNormal', 'Normal', 'AboveNormal', 'High', 'RealTime'])
+const powerPlanMode = z.enum(['balanced', 'performance', 'ultimate'])
+
+// Valor retornado por linuxGetPowerPlan ("ppd:<perfil>" ou "governor:<nome>")
+const linuxPowerPlan = z.string().regex(/^(ppd|governor):[a-z0-9_-]{1,32}$/i, 'plano de energia inválido')
+
+// Caminho absoluto de executável (sem // inicial), sem caracteres de controle
+const executablePath = z.string().min(2).max(4096)
+  .regex(/^\/(?!\/)[^\u0000-\u001f]+$/, 'caminho de executável inválido')
+
+// Execução do journal que registra (listagem) e libera (reabertura) os apps no main
+const runKey = z.string().regex(/^[\w-]{1,64}$/, 'execução inválida')
+
+const noArgs = z.object({}).strict()
+
+export interface LinuxOperationResults {
+  linuxGetPowerPlan: { plan: string | null }
+  linuxSetPowerPlan: { ok: boolean }
+  linuxApplyPowerPlan: { ok: boolean; method: 'ppd' | 'governor'; plan: string }
+  linuxGetPriority: { nice: number | null }
+  linuxSetPriority: { ok: boolean; reason?: string; level?: PriorityLevel; nice?: number }
+  linuxListBackgroundApps: { apps: { pid: number; name: string; path: string }[] }
+  linuxCloseBackgroundApps: { closed: number; pids: number[]; mode: string }
+  linuxResumeApps: { resumed: number }
+  linuxStartApp: { ok: boolean }
+  linuxFreeRam: { ok: boolean; method: 'drop_caches' | 'sync' }
+  linuxListTempFiles: { files: string[] }
+  linuxClearTemp: { ok: boolean; cleaned: number }
+  linuxDisableStartup: { ok: boolean; backupPath: string; disabled: number }
+  linuxRestoreStartup: { ok: boolean; reason?: string }
+}
+
+const operation = <S extends z.ZodTypeAny>(definition: OperationDefinition<S>) => definition
+
+export const LINUX_OPERATIONS = {
+  linuxGetPowerPlan: operation({
+    args: noArgs,
+    timeout: 10000,
+    shell: 'sh',
+    script: () => `
+      if command -v powerprofilesctl >/dev/null 2>&1; then
+        gb_result "{\\"plan\\":\\"ppd:$(powerprofilesctl get)\\"}"
+      elif [ -r /sys/devices/system/cpu/cpu0/cpufreq/scaling_governor ]; then
+        gb_result "{\\"plan\\":\\"governor:$(cat /sys/devices/system/cpu/cpu0/cpufreq/scaling_governor)\\"}"
+      else
+        gb_result '{"plan":null}'
+      fi
+    `
+  }),
+
+  linuxSetPowerPlan: operation({
+    args: z.object({ plan: linuxPowerPlan }).strict(),
+    timeout: 10000,
+    privileged: true,
+    shell: 'sh',
+    script: ({ plan }) => {
+      const [method, value] = plan.split(':')
+      return method === 'ppd'
+        ? `
+          powerprofilesctl set ${shQuote(value)}
+          [ "$(powerprofilesctl get)" = ${shQuote(value)} ] && ok=true || ok=false
+          gb_result "{\\"ok\\":$ok}"
+        `
+        : `governor=${shQuote(value)}\n${GOVERNOR_SCRIPT.trim()}`
+    }
+  }),
+
+  linuxApplyPowerPlan: operation({
+    args: z.object({ mode: powerPlanMode }).strict(),
+    timeout: 20000,
+    privileged: true,
+    shell: 'sh',
+    script: ({ mode }) => buildLinuxPowerPlanScript(mode)
+  }),
+
+  linuxGetPriority: operation({
+    args: processTarget,
+    timeout: 10000,
+    shell: 'sh',
+    script: target => `
+      p=$(echo ${selectPids(target)} | cut -d' ' -f1)
+      if [ -n "$p" ] && nice=$(ps -o ni= -p $p | tr -d ' ') && [ -n "$nice" ]; then
+        gb_result "{\\"nice\\":$nice}"
+      else
+        gb_result '{"nice":null}'
+      fi
+    `
+  }),
+
+  linuxSetPriority: operation({
+    args: z.intersection(processTarget, z.object({ level: priorityLevel })),
+    timeout: 10000,
+    privileged: true,
+    shell: 'sh',
+    script: options => buildLinuxPriorityScript(options)
+  }),
+
+  linuxListBackgroundApps: operation({
+    args: z.object({ run: runKey.optional() }).strict(),
+    timeout: 20000,
+    shell: 'sh',
+    script: () => `
+      ${BACKGROUND_APPS_FILTER.trim()}
+      gb_result "$(gb_background_apps | awk -F '\\t' '${AWK_JSON_STRING.trim()}
+        BEGIN { printf "{\\"apps\\":[" }
+        $3 != "" { printf "%s{\\"pid\\":%d,\\"name\\":%s,\\"path\\":%s}", (n++ ? "," : ""), $1, json($2), json($3) }
+        END { printf "]}" }')"
+    `
+  }),
+
+  linuxCloseBackgroundApps: operation({
+    args: z.object({ mode: z.enum(['smart', 'kill-aggressive']) }).strict(),
+    timeout: 60000,
+    shell: 'sh',
+    script: ({ mode }) => buildLinuxCloseAppsScript(mode)
+  }),
+
+  linuxResumeApps: operation({
+    args: z.object({ pids: z.array(z.number().int().positive()).min(1).max(1024) }).strict(),
+    timeout: 10000,
+    shell: 'sh',
+    script: ({ pids }) => `
+      resumed=0
+      for p in ${pids.join(' ')}; do
+        kill -CONT $p 2>/dev/null && resumed=$((resumed + 1))
+      done
+      gb_result "{\\"resumed\\":$resumed}"
+    `
+  }),
+
+  linuxStartApp: operation({
+    args: z.object({ path: executablePath, run: runKey }).strict(),
+    timeout: 10000,
+    shell: 'sh',
+    script: ({ path }) => `
+      if [ -x ${shQuote(path)} ]; then
+        setsid ${shQuote(path)} >/dev/null 2>&1 &
+        gb_result '{"ok":true}'
+      else
+        gb_result '{"ok":false}'
+      fi
+    `
+  }),
+
+  linuxFreeRam: operation({
+    args: noArgs,
+    timeout: 30000,
+    privileged: true,
+    shell: 'sh',
+    script: () => buildLinuxFreeRamScript()
+  }),
+
+  linuxListTempFiles: operation({
+    args: z.object({ limit: z.number().int().min(1).max(5000) }).strict(),
+    timeout: 20000,
+    shell: 'sh',
+    script: ({ limit }, ctx: OperationContext) => `
+      gb_result "$(${buildTempFindScript(ctx.tmpDir, '-print').trim()} | head -n ${limit} | awk '${AWK_JSON_STRING.trim()}
+        BEGIN { printf "{\\"files\\":[" }
+        { printf "%s%s", (NR > 1 ? "," : ""), json($0) }
+        END { printf "]}" }')"
+    `
+  }),
+
+  linuxClearTemp: operation({
+    args: noArgs,
+    timeout: 120000,
+    shell: 'sh',
+    script: (_args, ctx: OperationContext) => buildLinuxTempCleanupScript(ctx.tmpDir)
+  }),
+
+  linuxDisableStartup: operation({
+    args: noArgs,
+    timeout: 20000,
+    shell: 'sh',
+    script: () => `
+      ${AUTOSTART_DIRS.trim()}
+      mkdir -p "$backup"
+      disabled=0
+
+      for f in "$config"/autostart/*.desktop; do
+        [ -e "$f" ] || continue
+        mv "$f" "$backup/" && disabled=$((disabled + 1))
+      done
+
+      gb_result "{\\"ok\\":true,\\"backupPath\\":\\"$backup\\",\\"disabled\\":$disabled}"
+    `
+  }),
+
+  linuxRestoreStartup: operation({
+    args: noArgs,
+    timeout: 20000,
+    shell: 'sh',
+    script: () => `
+      ${AUTOSTART_DIRS.trim()}
+      if [ -d "$backup" ]; then
+        mkdir -p "$config/autostart"
+        for f in "$backup"/*.desktop; do
+          [ -e "$f" ] && mv "$f" "$config/autostart/"
+        done
+        gb_result '{"ok":true}'
+      else
+        gb_result '{"ok":false,"reason":"missing-backup"}'
+      fi
+    `
+  })
+} satisfies Record<keyof LinuxOperationResults, OperationDefinition<any>>
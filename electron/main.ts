@@ -1,20 +1,57 @@
 import { app, BrowserWindow, ipcMain } from 'electron'
 import { spawn } from 'child_process'
 import * as path from 'path'
-import * as fs from 'fs'
+import * as os from 'os'
+import { promises as fs } from 'fs'
+import {
+  ADMIN_ARGUMENT, READ_FILE_MAX_BYTES, OPERATION_CHANNELS, PRESENTMON_CHANNELS, SYSTEM_CHANNELS, TRAY_CHANNELS,
+  HOTKEY_CHANNELS, TELEMETRY_CHANNELS, type HotkeyConfig, type PresentMonSubscribeOptions, type TrayState
+} from './protocol'
+import { prepareOperation, isPrivilegedOperation, psQuote } from './operations'
+import { runPowerShell, runPrepared, cancelPowerShell, failedResult } from './runner'
+import { PrivilegedBroker, type HelperLaunchMode } from './broker'
+import type { ElevationResult, EnvironmentInfo, FileReadResult } from './bridge'
+import { PresentMonCollector } from './presentmon'
+import { TrayAgent, HIDDEN_ARGUMENT } from './tray'
+import { MetricsOverlay } from './overlay'
+import { HotkeyManager } from './hotkeys'
+import { LhmProcess } from './lhm'
+import { RelaunchAllowlist, LISTING_OPERATIONS, RELAUNCH_OPERATIONS } from './relaunch'
+import { readSnapshot } from '../src/engine/sensors/sysfs'
+import { readProcesses } from '../src/engine/processes/procfs'
 
 let mainWindow: BrowserWindow | null = null
 
 const isDev = !app.isPackaged
 
-function createWindow() {
+// Resolvido uma vez no ready, antes da primeira janela
+let isAdmin = false
+
+// Fechar a janela só a oculta enquanto o ícone da bandeja existir; sair é explícito
+let quitting = false
+
+const tray = new TrayAgent(() => mainWindow, showWindow)
+
+const overlay = new MetricsOverlay()
+
+// Overlay é alternado direto no main; as demais ações rodam no engine do renderer
+const hotkeys = new HotkeyManager((action) => {
+  if (action === 'toggleOverlay') overlay.toggle()
+  else mainWindow?.webContents.send(HOTKEY_CHANNELS.triggered, action)
+})
+
+function createWindow(show = true) {
   mainWindow = new BrowserWindow({
     width: 1280,
     height: 800,
+    show,
     webPreferences: {
       preload: path.join(__dirname, 'preload.js'),
+      additionalArguments: isAdmin ? [ADMIN_ARGUMENT] : [],
       contextIsolation: true,
-      nodeIntegration: false
+      nodeIntegration: false,
+      // Engine (sessões, telemetria, regras) continua com a janela oculta
+      backgroundThrottling: false
     }
   })
 
@@ -27,33 +64,233 @@ function createWindow() {
     mainWindow.loadFile(path.join(process.resourcesPath, 'dist', 'index.html'))
   }
 
+  mainWindow.on('close', (event) => {
+    if (quitting || !tray.isActive()) return
+    event.preventDefault()
+    mainWindow?.hide()
+  })
   mainWindow.on('closed', () => { mainWindow = null })
 }
 
-// Executar PowerShell com segurança
-ipcMain.handle('runPS', async (_evt, script: string) => {
-  return await new Promise<string>((resolve) => {
+/**
+ * Mostra o painel (recriando a janela se necessário)
+ */
+function showWindow() {
+  if (!mainWindow) {
+    createWindow()
+    return
+  }
+  if (mainWindow.isMinimized()) mainWindow.restore()
+  mainWindow.show()
+  mainWindow.focus()
+}
+
+// Ferramentas externas: na raiz do projeto em dev, em resources quando empacotado
+const toolsDir = path.join(isDev ? process.cwd() : process.resourcesPath, 'tools')
+
+// Helper privilegiado: stand-in local (GB_HELPER_STANDIN=1) só monta os scripts, sem elevação
+const helperMode: HelperLaunchMode | null = process.env.GB_HELPER_STANDIN
+  ? 'standin'
+  : process.platform === 'win32' ? 'uac' : process.platform === 'linux' ? 'pkexec' : null
+
+const broker = helperMode
+  ? new PrivilegedBroker({ helperScript: path.join(__dirname, 'helper.js'), toolsDir, mode: helperMode })
+  : null
+
+// Apps em segundo plano listados pelo main, por execução: o renderer só reabre o que está aqui
+let relaunch: RelaunchAllowlist | null = null
+const getRelaunchAllowlist = () => relaunch ??= new RelaunchAllowlist(path.join(app.getPath('userData'), 'relaunch.json'))
+
+// Executar operação do catálogo: o renderer envia nome + argumentos, nunca o script
+ipcMain.handle(OPERATION_CHANNELS.invoke, async (_evt, name: unknown, args: unknown, requestId?: unknown) => {
+  const id = typeof requestId === 'string' && /^[\w-]{1,64}$/.test(requestId)
+    ? requestId
+    : `op_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+  const prepared = prepareOperation(name, args, { tmpDir: os.tmpdir(), toolsDir, platform: process.platform })
+
+  if (!prepared.ok) return failedResult(id, prepared.error)
+
+  // Argumentos já validados pelo catálogo
+  const { run, path: appPath } = (args ?? {}) as { run?: string; path?: string }
+  if (RELAUNCH_OPERATIONS.has(name as string) && !(await getRelaunchAllowlist().allows(run, appPath!))) {
+    return failedResult(id, `Executável não listado pelo app nesta execução: ${appPath}`)
+  }
+
+  // Operações administrativas vão para o helper quando o app não está elevado
+  if (!isAdmin && broker && isPrivilegedOperation(name)) {
+    return broker.invoke(name as string, args, id)
+  }
+
+  const result = await runPrepared(prepared, id)
+  if (LISTING_OPERATIONS.has(name as string) && run && result.ok) {
+    const apps: { path?: unknown }[] = Array.isArray(result.data?.apps) ? result.data.apps : []
+    await getRelaunchAllowlist().record(run, apps.map(a => a.path).filter((p): p is string => typeof p === 'string'))
+  }
+  return result
+})
+
+// Cancelar execução em andamento (no helper ou local)
+ipcMain.handle(OPERATION_CHANNELS.cancel, async (_evt, requestId: string) => {
+  return broker?.cancel(requestId) || cancelPowerShell(requestId)
+})
+
+/**
+ * Verifica se o processo main tem privilégios de administrador
+ */
+function detectAdmin(): Promise<boolean> {
+  if (process.platform !== 'win32') {
+    return Promise.resolve(process.getuid?.() === 0)
+  }
+
+  // `net session` só termina com sucesso em um token elevado
+  return new Promise<boolean>((resolve) => {
     try {
-      const ps = spawn('powershell.exe', [
-        '-NoProfile',
-        '-ExecutionPolicy', 'Bypass',
-        '-Command', script
-      ], { windowsHide: true })
-
-      let out = ''
-      let err = ''
-
-      ps.stdout.on('data', d => out += d.toString())
-      ps.stderr.on('data', d => err += d.toString())
-      ps.on('close', code => {
-        resolve(err ? `ERR(${code}): ${err || out}` : out || `OK(${code})`)
-      })
-    } catch (e: any) {
-      resolve(`ERR: ${e?.message || e}`)
+      const child = spawn('net', ['session'], { windowsHide: true, stdio: 'ignore' })
+      child.on('error', () => resolve(false))
+      child.on('close', code => resolve(code === 0))
+    } catch {
+      resolve(false)
     }
   })
+}
+
+/**
+ * Verifica se o caminho está dentro do diretório raiz
+ */
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+/**
+ * Lê um arquivo de texto dentro dos diretórios do app ou das ferramentas (links resolvidos antes da checagem)
+ */
+async function readSandboxedFile(filePath: unknown): Promise<FileReadResult> {
+  if (typeof filePath !== 'string' || filePath.trim() === '') {
+    return { success: false, error: 'Caminho inválido' }
+  }
+
+  try {
+    const target = await fs.realpath(path.resolve(app.getAppPath(), filePath))
+    const roots = await Promise.all(
+      [app.getAppPath(), toolsDir].map(root => fs.realpath(root).catch(() => null))
+    )
+
+    if (!roots.some(root => root !== null && isInside(root, target))) {
+      return { success: false, error: 'Acesso negado: arquivo fora dos diretórios do aplicativo' }
+    }
+
+    const stat = await fs.stat(target)
+    if (!stat.isFile()) return { success: false, error: 'Caminho não é um arquivo' }
+    if (stat.size > READ_FILE_MAX_BYTES) {
+      return { success: false, error: `Arquivo excede ${READ_FILE_MAX_BYTES / (1024 * 1024)}MB` }
+    }
+
+    return { success: true, content: await fs.readFile(target, 'utf8') }
+  } catch (e: any) {
+    return { success: false, error: e?.code === 'ENOENT' ? 'Arquivo não encontrado' : (e?.message || String(e)) }
+  }
+}
+
+/**
+ * Reinicia o app como administrador via UAC; encerra esta instância se a nova foi iniciada
+ */
+async function relaunchElevated(): Promise<ElevationResult> {
+  if (isAdmin) return { success: true, message: 'Já em execução como administrador' }
+  if (process.platform !== 'win32') {
+    return { success: false, message: 'Elevação disponível apenas no Windows' }
+  }
+
+  const args = process.argv.slice(1)
+  const argumentList = args.length > 0 ? ` -ArgumentList ${args.map(psQuote).join(', ')}` : ''
+  const result = await runPowerShell(
+    `Start-Process -FilePath ${psQuote(process.execPath)}${argumentList} -Verb RunAs -ErrorAction Stop`,
+    60000
+  )
+
+  if (!result.ok) {
+    return { success: false, message: result.stderr || result.error || 'Elevação recusada' }
+  }
+
+  setTimeout(() => app.quit(), 500)
+  return { success: true, message: 'Reiniciando como administrador' }
+}
+
+ipcMain.handle(SYSTEM_CHANNELS.envInfo, async (): Promise<EnvironmentInfo> => ({
+  isDesktop: true,
+  isAdmin,
+  privileged: isAdmin || helperMode !== null,
+  platform: process.platform,
+  arch: process.arch,
+  version: app.getVersion()
+}))
+
+ipcMain.handle(SYSTEM_CHANNELS.readFile, async (_evt, filePath: unknown) => readSandboxedFile(filePath))
+
+ipcMain.handle(SYSTEM_CHANNELS.requestElevation, async () => relaunchElevated())
+
+ipcMain.handle(SYSTEM_CHANNELS.linuxSensors, async () => {
+  if (process.platform !== 'linux') return { cpu: {}, gpu: {} }
+  return readSnapshot('/')
+})
+
+ipcMain.handle(SYSTEM_CHANNELS.linuxProcesses, async () => {
+  if (process.platform !== 'linux') return []
+  return readProcesses('/')
 })
 
-app.on('ready', createWindow)
+// Estado publicado pelo renderer para o menu e o tooltip da bandeja
+ipcMain.on(TRAY_CHANNELS.state, (_evt, state: TrayState) => {
+  if (!state || !Array.isArray(state.profiles)) return
+  tray.update(state)
+  overlay.update(state)
+})
+
+// Configuração de atalhos vem do renderer (Configurações); retorna o resultado de cada registro
+ipcMain.handle(HOTKEY_CHANNELS.register, async (_evt, config: HotkeyConfig) => hotkeys.apply(config))
+
+// Coletor PresentMon único, compartilhado pelas janelas inscritas
+const presentMon = new PresentMonCollector(path.join(toolsDir, 'PresentMon', 'PresentMon.exe'))
+
+ipcMain.handle(PRESENTMON_CHANNELS.subscribe, async (evt, options?: PresentMonSubscribeOptions) => {
+  return presentMon.subscribe(evt.sender, options)
+})
+
+ipcMain.handle(PRESENTMON_CHANNELS.unsubscribe, async (evt) => {
+  presentMon.unsubscribe(evt.sender.id)
+})
+
+ipcMain.on(PRESENTMON_CHANNELS.ack, (evt) => {
+  presentMon.ack(evt.sender.id)
+})
+
+const lhm = new LhmProcess(path.join(toolsDir, 'LHM', 'LibreHardwareMonitor.exe'))
+
+ipcMain.handle(TELEMETRY_CHANNELS.tools, async () => ({
+  presentMon: presentMon.isAvailable(),
+  lhm: lhm.isAvailable()
+}))
+
+ipcMain.handle(TELEMETRY_CHANNELS.startLhm, async () => lhm.start())
+
+ipcMain.handle(TELEMETRY_CHANNELS.stopLhm, async () => lhm.stop())
+
+app.on('ready', async () => {
+  isAdmin = await detectAdmin()
+  const trayCreated = tray.create()
+
+  // Inicialização com o sistema abre direto na bandeja
+  const startHidden = process.argv.includes(HIDDEN_ARGUMENT) || app.getLoginItemSettings().wasOpenedAsHidden
+  createWindow(!(startHidden && trayCreated))
+})
 app.on('window-all-closed', () => { if (process.platform !== 'darwin') app.quit() })
-app.on('activate', () => { if (mainWindow === null) createWindow() })
\ No newline at end of file
+app.on('before-quit', () => {
+  quitting = true
+  presentMon.stop()
+  lhm.stop()
+  broker?.stop()
+  tray.destroy()
+  overlay.destroy()
+})
+app.on('will-quit', () => hotkeys.clear())
+app.on('activate', () => showWindow())
\ No newline at end of file
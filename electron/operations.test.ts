@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { spawnSync } from 'child_process'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { prepareOperation, isPrivilegedOperation, type OperationContext } from './operations'
+import { LINUX_OPERATIONS } from './linuxOperations'
+import { SH_PRELUDE } from './protocol'
+import { runPrepared } from './runner'
+
+const linux: OperationContext = { tmpDir: '/tmp', toolsDir: '/opt/gameboost/tools', platform: 'linux' }
+const windows: OperationContext = { tmpDir: 'C:\\Temp', toolsDir: 'C:\\GameBoost\\tools', platform: 'win32' }
+
+// Argumentos válidos de cada operação Linux
+const LINUX_ARGS: Record<keyof typeof LINUX_OPERATIONS, unknown> = {
+  linuxGetPowerPlan: {},
+  linuxSetPowerPlan: { plan: 'governor:schedutil' },
+  linuxApplyPowerPlan: { mode: 'ultimate' },
+  linuxGetPriority: { name: 'cs2' },
+  linuxSetPriority: { pid: 4120, level: 'High' },
+  linuxListBackgroundApps: {},
+  linuxCloseBackgroundApps: { mode: 'smart' },
+  linuxResumeApps: { pids: [10, 11] },
+  linuxStartApp: { path: "/home/user/It's a game/run.sh", run: 'run_1_abc' },
+  linuxFreeRam: {},
+  linuxListTempFiles: { limit: 100 },
+  linuxClearTemp: {},
+  linuxDisableStartup: {},
+  linuxRestoreStartup: {}
+}
+
+function prepareLinux(name: string, args: unknown): string {
+  const prepared = prepareOperation(name, args, linux)
+  if (!prepared.ok) throw new Error(prepared.error)
+  expect(prepared.shell).toBe('sh')
+  return prepared.script
+}
+
+describe('catálogo de operações Linux', () => {
+  it.each(Object.entries(LINUX_ARGS))('%s monta um script sh válido, sem elevação própria', (name, args) => {
+    const script = prepareLinux(name, args)
+
+    // Apenas verifica a sintaxe (sh -n não executa)
+    const check = spawnSync('sh', ['-n', '-c', `${SH_PRELUDE}\n${script}`], { encoding: 'utf8' })
+    expect(check.stderr).toBe('')
+    expect(check.status).toBe(0)
+    expect(script).not.toMatch(/\b(sudo|pkexec|gb_sudo)\b|sh -c/)
+  })
+
+  it('executa governor, renice e drop_caches pelo helper privilegiado', () => {
+    expect(['linuxSetPowerPlan', 'linuxApplyPowerPlan', 'linuxSetPriority', 'linuxFreeRam'].every(isPrivilegedOperation)).toBe(true)
+    expect(isPrivilegedOperation('linuxClearTemp')).toBe(false)
+  })
+
+  it('escapa o caminho do executável', () => {
+    expect(prepareLinux('linuxStartApp', { path: "/home/user/It's a game/run.sh", run: 'run_1_abc' }))
+      .toContain(`'/home/user/It'\\''s a game/run.sh'`)
+  })
+
+  it('recusa argumentos fora do formato', () => {
+    expect(prepareOperation('linuxSetPriority', { name: 'cs2; reboot', level: 'High' }, linux).ok).toBe(false)
+    expect(prepareOperation('linuxSetPowerPlan', { plan: 'governor:$(reboot)' }, linux).ok).toBe(false)
+    expect(prepareOperation('linuxResumeApps', { pids: ['1 2'] }, linux).ok).toBe(false)
+    expect(prepareOperation('linuxFreeRam', { script: 'reboot' }, linux).ok).toBe(false)
+    expect(prepareOperation('linuxStartApp', { path: '/usr/bin/steam' }, linux).ok).toBe(false)
+  })
+})
+
+describe('prepareOperation', () => {
+  it('recusa operações de outra plataforma', () => {
+    expect(prepareOperation('linuxFreeRam', {}, windows)).toEqual({ ok: false, error: expect.stringContaining('win32') })
+    expect(prepareOperation('freeRam', {}, linux)).toEqual({ ok: false, error: expect.stringContaining('linux') })
+    expect(prepareOperation('linuxFreeRam', {}, { ...linux, platform: 'darwin' }).ok).toBe(false)
+  })
+
+  it('recusa reabrir executáveis em caminhos de rede', () => {
+    const run = 'run_1_abc'
+    expect(prepareOperation('startApp', { path: 'C:\\Games\\Steam\\steam.exe', run }, windows).ok).toBe(true)
+    expect(prepareOperation('startApp', { path: '\\\\host\\share\\x.exe', run }, windows).ok).toBe(false)
+    expect(prepareOperation('startApp', { path: '//host/share/x.exe', run }, windows).ok).toBe(false)
+    expect(prepareOperation('linuxStartApp', { path: '//host/share/x', run }, linux).ok).toBe(false)
+  })
+
+  it('recusa operações desconhecidas', () => {
+    expect(prepareOperation('runPS', { script: 'Get-Process' }, windows)).toEqual({ ok: false, error: 'Operação desconhecida: runPS' })
+  })
+})
+
+// Lista os arquivos restantes, relativos à raiz
+async function listFiles(root: string, dir = root): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) files.push(...await listFiles(root, full))
+    else files.push(path.relative(root, full))
+  }
+  return files.sort()
+}
+
+describe.runIf(process.platform === 'linux')('limpeza de temporários (Linux)', () => {
+  let root: string
+  let ctx: OperationContext
+  const previousCache = process.env.XDG_CACHE_HOME
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'gb-temp-'))
+    await fs.cp(path.join(__dirname, '__fixtures__', 'temp'), root, { recursive: true })
+    await fs.writeFile(path.join(root, 'tmp', 'old "quoted" \\ name.txt'), 'x')
+
+    // Tudo com 10 dias, exceto os arquivos recentes criados depois
+    const old = new Date(Date.now() - 10 * 24 * 3600 * 1000)
+    for (const file of await listFiles(root)) {
+      await fs.utimes(path.join(root, file), old, old)
+    }
+    await fs.writeFile(path.join(root, 'tmp', 'fresh.log'), 'x')
+    await fs.writeFile(path.join(root, 'cache', 'thumbnails', 'new.png'), 'x')
+
+    ctx = { ...linux, tmpDir: path.join(root, 'tmp') }
+    process.env.XDG_CACHE_HOME = path.join(root, 'cache')
+  })
+
+  afterEach(async () => {
+    if (previousCache === undefined) delete process.env.XDG_CACHE_HOME
+    else process.env.XDG_CACHE_HOME = previousCache
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  const run = async (name: string, args: unknown) => {
+    const prepared = prepareOperation(name, args, ctx)
+    if (!prepared.ok) throw new Error(prepared.error)
+    return runPrepared(prepared)
+  }
+
+  it('lista os arquivos antigos fora dos caches protegidos em JSON', async () => {
+    const result = await run('linuxListTempFiles', { limit: 100 })
+
+    expect(result.ok).toBe(true)
+    expect(result.stderr).toBe('')
+    expect([...result.data.files].sort()).toEqual([
+      path.join(root, 'cache/pip-selfcheck.json'),
+      path.join(root, 'cache/thumbnails/large/a1b2.png'),
+      path.join(root, 'tmp/build.log'),
+      path.join(root, 'tmp/old "quoted" \\ name.txt')
+    ])
+  })
+
+  it('remove os arquivos antigos e mantém os recentes e os caches de shaders, nvidia e fontconfig', async () => {
+    const result = await run('linuxClearTemp', {})
+
+    expect(result.data).toEqual({ ok: true, cleaned: 4 })
+    expect(result.stderr).toBe('')
+    expect(await listFiles(root)).toEqual([
+      'cache/fontconfig/cache-10',
+      'cache/mesa_shader_cache/index.d/index',
+      'cache/mesa_shader_cache_db/part0',
+      'cache/nvidia/GLCache/entry',
+      'cache/thumbnails/new.png',
+      'tmp/fresh.log'
+    ])
+  })
+})
@@ -0,0 +1,563 @@
+/**
+ * GameBoost AI - Catálogo de Operações do Sistema
+ * Operações nomeadas e parametrizadas que o processo main aceita do renderer.
+ * Cada operação valida os argumentos e monta o script PowerShell com os valores escapados;
+ * o renderer nunca envia script, apenas o nome da operação e seus argumentos.
+ */
+
+import { z } from 'zod'
+import { LINUX_OPERATIONS, type LinuxOperationResults } from './linuxOperations'
+
+// GUIDs dos planos de energia do Windows
+export const POWER_PLANS = {
+  balanced: '381b4222-f694-41f0-9685-ff5bb260df2e',
+  performance: '8c5e7fda-e8bf-4a96-9a85-a6e23a8c635c',
+  ultimate: 'e9a42b02-d5df-448d-aa00-03f14749eb61'
+}
+
+export const PRIORITY_LEVELS = ['Idle', 'BelowNormal', 'Normal', 'AboveNormal', 'High', 'RealTime'] as const
+
+export type PriorityLevel = typeof PRIORITY_LEVELS[number]
+
+// Processos críticos do sistema que não devem ser alterados
+export const CRITICAL_PROCESSES = ['explorer', 'dwm', 'csrss', 'winlogon', 'services', 'nvcontainer', 'atieclxx', 'lsass', 'svchost', 'system']
+
+// Filtro de processos de usuário considerados "segundo plano"
+const BACKGROUND_APPS_FILTER = `
+  Get-Process | Where-Object {
+    $_.ProcessName -notin @('explorer', 'dwm', 'csrss', 'winlogon', 'services', 'nvcontainer', 'atieclxx', 'lsass', 'svchost', 'system', 'audiodg', 'conhost') -and
+    $_.MainWindowTitle -ne '' -or $_.ProcessName -match '^(chrome|firefox|edge|discord|spotify|steam|epic|origin|uplay|battle|launcher)'
+  }
+`
+
+// Diretórios e caminhos resolvidos pelo main (nunca vindos do renderer)
+export interface OperationContext {
+  tmpDir: string
+  toolsDir: string
+  platform: NodeJS.Platform
+}
+
+/**
+ * Literal PowerShell entre aspas simples (inclui as aspas tipográficas que o PowerShell também aceita)
+ */
+export function psQuote(value: string): string {
+  return `'${value.replace(/['‘’‚‛]/g, '$&$&')}'`
+}
+
+const processName = z.string().trim().min(1).max(100)
+  .regex(/^[\w .()+-]+$/, 'nome de processo inválido')
+
+const processTarget = z.object({
+  name: processName.optional(),
+  pid: z.number().int().positive().optional()
+}).refine(target => target.name !== undefined || target.pid !== undefined, 'nome ou PID do processo é obrigatório')
+
+const powerPlanMode = z.enum(['balanced', 'performance', 'ultimate'])
+const closeAppsMode = z.enum(['smart', 'kill-aggressive'])
+
+const guid = z.string().regex(/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i, 'GUID inválido')
+
+// Caminho absoluto de executável em unidade local (UNC recusado), sem caracteres de controle
+const executablePath = z.string().min(4).max(260)
+  .regex(/^[a-zA-Z]:\\[^\u0000-\u001f"<>|?*]+\.exe$/i, 'caminho de executável inválido')
+
+// Execução do journal que registra (listagem) e libera (reabertura) os apps no main
+const runKey = z.string().regex(/^[\w-]{1,64}$/, 'execução inválida')
+
+const noArgs = z.object({}).strict()
+
+/**
+ * Script de aplicação de plano de energia
+ */
+export function buildPowerPlanScript(mode: 'balanced' | 'performance' | 'ultimate'): string {
+  const planGuid = POWER_PLANS[mode]
+
+  // Verificar se o plano existe, criar Ultimate se necessário
+  let setupCommand = ''
+  if (mode === 'ultimate') {
+    setupCommand = `
+      $ultimateExists = powercfg /list | Select-String "${planGuid}"
+      if (-not $ultimateExists) {
+        powercfg /duplicatescheme e9a42b02-d5df-448d-aa00-03f14749eb61 | Out-Null
+      }
+    `
+  }
+
+  return `
+    ${setupCommand}
+    powercfg /setactive ${planGuid}
+    $result = powercfg /getactivescheme
+    Write-GbResult @{ ok = [bool]($result -match "${planGuid}"); mode = "${mode}"; guid = "${planGuid}" }
+  `
+}
+
+/**
+ * Trecho que seleciona o processo alvo por PID ou nome
+ */
+function selectProcess(target: { name?: string; pid?: number }): string {
+  return target.pid
+    ? `$process = Get-Process -Id ${target.pid} -ErrorAction Stop`
+    : `$process = Get-Process -Name ${psQuote(target.name!)} -ErrorAction Stop | Select-Object -First 1`
+}
+
+/**
+ * Script de alteração de prioridade de processo
+ */
+export function buildPriorityScript(options: { name?: string; pid?: number; level: PriorityLevel }): string {
+  const { level } = options
+
+  return `
+    try {
+      ${selectProcess(options)}
+
+      # Verificar se não é processo crítico
+      $criticalProcesses = @(${CRITICAL_PROCESSES.map(psQuote).join(', ')})
+      if ($criticalProcesses -contains $process.ProcessName.ToLower()) {
+        Write-GbResult @{ ok = $false; reason = 'critical'; process = $process.ProcessName }
+        return
+      }
+
+      $process.PriorityClass = '${level}'
+      Write-GbResult @{ ok = $true; process = $process.ProcessName; level = '${level}' }
+    } catch {
+      Write-GbResult @{ ok = $false; reason = 'error'; error = $_.Exception.Message }
+    }
+  `
+}
+
+/**
+ * Script de fechamento de aplicações em segundo plano
+ */
+export function buildCloseAppsScript(mode: 'smart' | 'kill-aggressive'): string {
+  return `
+    $closed = @()
+    $failed = @()
+    $userProcesses = ${BACKGROUND_APPS_FILTER}
+
+    foreach ($proc in $userProcesses) {
+      try {
+        if ('${mode}' -eq 'smart') {
+          if ($proc.CloseMainWindow()) {
+            $closed += $proc.ProcessName
+            Start-Sleep -Milliseconds 500
+          }
+        } else {
+          $proc.Kill()
+          $closed += $proc.ProcessName
+        }
+      } catch {
+        $failed += @{ name = $proc.ProcessName; error = $_.Exception.Message }
+      }
+    }
+
+    Write-GbResult @{ closed = $closed.Count; names = $closed; failed = $failed; mode = '${mode}' }
+  `
+}
+
+/**
+ * Script de liberação de RAM
+ */
+export function buildFreeRamScript(toolsDir: string = 'tools'): string {
+  return `
+    $toolPath = Join-Path ${psQuote(toolsDir)} 'EmptyStandbyList.exe'
+    if (Test-Path $toolPath) {
+      Start-Process -FilePath $toolPath -Wait -NoNewWindow
+      Write-GbResult @{ ok = $true; method = 'EmptyStandbyList' }
+    } else {
+      # Alternativa usando comandos nativos
+      [System.GC]::Collect()
+      [System.GC]::WaitForPendingFinalizers()
+      Write-GbResult @{ ok = $true; method = 'gc' }
+    }
+  `
+}
+
+/**
+ * Diretórios limpos por clearTemp
+ */
+export function tempCacheDirs(tmpDir: string): string[] {
+  return [tmpDir, '$env:WINDIR\\Temp', '$env:WINDIR\\SoftwareDistribution\\Download']
+}
+
+/**
+ * Lista PowerShell dos diretórios de cache (o diretório temporário vem escapado)
+ */
+function tempCacheDirList(tmpDir: string): string {
+  return `@(${psQuote(tmpDir)}, "$env:WINDIR\\Temp", "$env:WINDIR\\SoftwareDistribution\\Download")`
+}
+
+/**
+ * Script de limpeza de caches temporários
+ */
+export function buildTempCleanupScript(tmpDir: string): string {
+  return `
+    $cleaned = 0
+    $errors = @()
+    $tmpDir = ${psQuote(tmpDir)}
+
+    # Limpar diretório temporário seguro
+    try {
+      $tempFiles = Get-ChildItem -Path $tmpDir -Recurse -Force -ErrorAction SilentlyContinue
+      $tempFiles | Remove-Item -Recurse -Force -ErrorAction SilentlyContinue
+      $cleaned += $tempFiles.Count
+    } catch {
+      $errors += "tmp: $($_.Exception.Message)"
+    }
+
+    # Limpar %WINDIR%\\\\Temp
+    try {
+      $winTempFiles = Get-ChildItem -Path "$env:WINDIR\\\\Temp" -Recurse -Force -ErrorAction SilentlyContinue
+      $winTempFiles | Remove-Item -Recurse -Force -ErrorAction SilentlyContinue
+      $cleaned += $winTempFiles.Count
+    } catch {
+      $errors += "windows-temp: $($_.Exception.Message)"
+    }
+
+    # Limpar SoftwareDistribution\\\\Download
+    try {
+      $updateFiles = Get-ChildItem -Path "$env:WINDIR\\\\SoftwareDistribution\\\\Download" -Recurse -Force -ErrorAction SilentlyContinue
+      $updateFiles | Remove-Item -Recurse -Force -ErrorAction SilentlyContinue
+      $cleaned += $updateFiles.Count
+    } catch {
+      $errors += "software-distribution: $($_.Exception.Message)"
+    }
+
+    Write-GbResult @{ ok = $true; cleaned = $cleaned; errors = $errors }
+  `
+}
+
+// Backup das entradas de inicialização removidas por disableStartup
+const STARTUP_BACKUP = '"$env:USERPROFILE\\\\Documents\\\\startup-backup.reg"'
+
+// PercentProcessorTime do CIM é por núcleo; dividimos pelo número de núcleos
+const LIST_PROCESSES_SCRIPT = `
+  $cores = [Environment]::ProcessorCount
+  $perf = @{}
+  Get-CimInstance Win32_PerfFormattedData_PerfProc_Process -ErrorAction SilentlyContinue |
+    Where-Object { $_.Name -ne '_Total' -and $_.Name -ne 'Idle' } |
+    ForEach-Object { $perf[[int]$_.IDProcess] = [double]$_.PercentProcessorTime }
+  $parents = @{}
+  Get-CimInstance Win32_Process -ErrorAction SilentlyContinue |
+    ForEach-Object { $parents[[int]$_.ProcessId] = [int]$_.ParentProcessId }
+
+  $list = Get-Process | Where-Object { $_.Id -ne 0 } | ForEach-Object {
+    $priority = $null
+    try { $priority = "$($_.PriorityClass)" } catch {}
+    [PSCustomObject]@{
+      pid = $_.Id
+      name = $(if ($_.Path) { "$($_.ProcessName).exe" } else { $_.ProcessName })
+      cpu = $(if ($perf.ContainsKey($_.Id)) { [math]::Round($perf[$_.Id] / $cores, 1) } else { $null })
+      ws = $_.WorkingSet64
+      priority = $priority
+      parentPid = $parents[$_.Id]
+      title = $_.MainWindowTitle
+      path = $_.Path
+    }
+  }
+
+  Write-GbResult @{ processes = @($list) }
+`
+
+export interface BackgroundApp {
+  pid: number
+  name: string
+  path: string
+}
+
+export interface WindowsProcessRow {
+  pid: number
+  name: string
+  cpu: number | null
+  ws: number
+  priority: string | null
+  parentPid: number | null
+  title: string | null
+  path: string | null
+}
+
+// Resultado estruturado (Write-GbResult / gb_result) de cada operação
+export interface OperationResults extends LinuxOperationResults {
+  getPowerPlan: { guid: string | null }
+  setPowerPlan: { ok: boolean; guid: string }
+  applyPowerPlan: { ok: boolean; mode: string; guid: string }
+  getPriority: { level: PriorityLevel | null }
+  setPriority: { ok: boolean; reason?: string; error?: string; process?: string; level?: PriorityLevel }
+  listBackgroundApps: { apps: BackgroundApp[] }
+  closeBackgroundApps: { closed: number; names: string[]; failed: { name: string; error: string }[]; mode: string }
+  startApp: { ok: boolean; error?: string }
+  freeRam: { ok: boolean; method: 'EmptyStandbyList' | 'gc' }
+  listTempFiles: { files: string[] }
+  clearTemp: { ok: boolean; cleaned: number; errors: string[] }
+  disableStartup: { ok: boolean; backupPath: string; disabled: string[]; failed: string[] }
+  restoreStartup: { ok: boolean; reason?: string; backupPath: string }
+  createRestorePoint: { ok: boolean; error?: string }
+  listProcesses: { processes: WindowsProcessRow[] }
+  downloadTelemetryTools: { ok: boolean }
+}
+
+export type OperationName = keyof OperationResults
+
+// Interpretador do script montado pela operação
+export type OperationShell = 'powershell' | 'sh'
+
+// Plataforma em que cada interpretador é aceito
+const SHELL_PLATFORMS: Record<OperationShell, NodeJS.Platform> = {
+  powershell: 'win32',
+  sh: 'linux'
+}
+
+export interface OperationDefinition<S extends z.ZodTypeAny> {
+  args: S
+  timeout: number
+  // Exige administrador: executada pelo helper privilegiado quando o app não está elevado
+  privileged?: boolean
+  // Padrão: powershell
+  shell?: OperationShell
+  script: (args: z.infer<S>, ctx: OperationContext) => string
+}
+
+const operation = <S extends z.ZodTypeAny>(definition: OperationDefinition<S>) => definition
+
+export const OPERATIONS = {
+  getPowerPlan: operation({
+    args: noArgs,
+    timeout: 10000,
+    script: () => `
+      $current = powercfg /getactivescheme
+      $guid = $null
+      if ($current -match '([a-f0-9-]{36})') {
+        $guid = $matches[1]
+      }
+      Write-GbResult @{ guid = $guid }
+    `
+  }),
+
+  setPowerPlan: operation({
+    args: z.object({ guid }).strict(),
+    timeout: 10000,
+    privileged: true,
+    script: ({ guid }) => `
+      powercfg /setactive ${guid}
+      $result = powercfg /getactivescheme
+      Write-GbResult @{ ok = [bool]($result -match "${guid}"); guid = "${guid}" }
+    `
+  }),
+
+  applyPowerPlan: operation({
+    args: z.object({ mode: powerPlanMode }).strict(),
+    timeout: 20000,
+    privileged: true,
+    script: ({ mode }) => buildPowerPlanScript(mode)
+  }),
+
+  getPriority: operation({
+    args: processTarget,
+    timeout: 10000,
+    script: target => `
+      try {
+        ${selectProcess(target)}
+        Write-GbResult @{ level = "$($process.PriorityClass)" }
+      } catch {
+        Write-GbResult @{ level = $null }
+      }
+    `
+  }),
+
+  setPriority: operation({
+    args: z.intersection(processTarget, z.object({ level: z.enum(PRIORITY_LEVELS) })),
+    timeout: 10000,
+    privileged: true,
+    script: options => buildPriorityScript(options)
+  }),
+
+  listBackgroundApps: operation({
+    args: z.object({ run: runKey.optional() }).strict(),
+    timeout: 20000,
+    script: () => `
+      $apps = (${BACKGROUND_APPS_FILTER}) | Where-Object { $_.Path } | ForEach-Object {
+        [PSCustomObject]@{ pid = $_.Id; name = $_.ProcessName; path = $_.Path }
+      }
+      Write-GbResult @{ apps = @($apps) }
+    `
+  }),
+
+  closeBackgroundApps: operation({
+    args: z.object({ mode: closeAppsMode }).strict(),
+    timeout: 60000,
+    script: ({ mode }) => buildCloseAppsScript(mode)
+  }),
+
+  startApp: operation({
+    args: z.object({ path: executablePath, run: runKey }).strict(),
+    timeout: 20000,
+    script: ({ path }) => `
+      try {
+        Start-Process -FilePath ${psQuote(path)} -ErrorAction Stop
+        Write-GbResult @{ ok = $true }
+      } catch {
+        Write-GbResult @{ ok = $false; error = $_.Exception.Message }
+      }
+    `
+  }),
+
+  freeRam: operation({
+    args: noArgs,
+    timeout: 30000,
+    privileged: true,
+    script: (_args, ctx) => buildFreeRamScript(ctx.toolsDir)
+  }),
+
+  listTempFiles: operation({
+    args: z.object({ limit: z.number().int().min(1).max(5000) }).strict(),
+    timeout: 20000,
+    script: ({ limit }, ctx) => `
+      $files = foreach ($dir in ${tempCacheDirList(ctx.tmpDir)}) {
+        Get-ChildItem -Path $dir -Recurse -Force -File -ErrorAction SilentlyContinue | Select-Object -ExpandProperty FullName
+      }
+      Write-GbResult @{ files = @($files | Select-Object -First ${limit}) }
+    `
+  }),
+
+  clearTemp: operation({
+    args: noArgs,
+    timeout: 120000,
+    privileged: true,
+    script: (_args, ctx) => buildTempCleanupScript(ctx.tmpDir)
+  }),
+
+  disableStartup: operation({
+    args: noArgs,
+    timeout: 20000,
+    script: () => `
+      # Criar backup do registro
+      $backupPath = ${STARTUP_BACKUP}
+      reg export "HKEY_CURRENT_USER\\\\Software\\\\Microsoft\\\\Windows\\\\CurrentVersion\\\\Run" "$backupPath" /y
+
+      # Listar e desabilitar entradas não Microsoft
+      $runKey = "HKCU:\\\\Software\\\\Microsoft\\\\Windows\\\\CurrentVersion\\\\Run"
+      $entries = Get-ItemProperty -Path $runKey -ErrorAction SilentlyContinue
+      $disabled = @()
+      $failed = @()
+
+      if ($entries) {
+        $entries.PSObject.Properties | ForEach-Object {
+          if ($_.Name -notin @('PSPath', 'PSParentPath', 'PSChildName', 'PSDrive', 'PSProvider')) {
+            $value = $_.Value
+            # Verificar se não é da Microsoft
+            if ($value -notmatch 'Microsoft|Windows|System32') {
+              try {
+                Remove-ItemProperty -Path $runKey -Name $_.Name -ErrorAction Stop
+                $disabled += $_.Name
+              } catch {
+                $failed += $_.Name
+              }
+            }
+          }
+        }
+      }
+
+      Write-GbResult @{ ok = (Test-Path $backupPath); backupPath = $backupPath; disabled = $disabled; failed = $failed }
+    `
+  }),
+
+  restoreStartup: operation({
+    args: noArgs,
+    timeout: 20000,
+    script: () => `
+      $backupPath = ${STARTUP_BACKUP}
+      if (Test-Path $backupPath) {
+        reg import "$backupPath" 2>&1 | Out-Null
+        Write-GbResult @{ ok = ($LASTEXITCODE -eq 0); backupPath = $backupPath }
+      } else {
+        Write-GbResult @{ ok = $false; reason = 'missing-backup'; backupPath = $backupPath }
+      }
+    `
+  }),
+
+  createRestorePoint: operation({
+    args: noArgs,
+    timeout: 120000,
+    privileged: true,
+    script: () => `
+      try {
+        Checkpoint-Computer -Description "GameBooster Optimization" -RestorePointType "MODIFY_SETTINGS" -ErrorAction Stop
+        Write-GbResult @{ ok = $true }
+      } catch {
+        Write-GbResult @{ ok = $false; error = $_.Exception.Message }
+      }
+    `
+  }),
+
+  listProcesses: operation({
+    args: noArgs,
+    timeout: 15000,
+    script: () => LIST_PROCESSES_SCRIPT
+  }),
+
+  downloadTelemetryTools: operation({
+    args: noArgs,
+    timeout: 300000,
+    script: (_args, ctx) => `
+      $ErrorActionPreference = 'SilentlyContinue';
+
+      $root = ${psQuote(ctx.toolsDir)};
+      if (!(Test-Path $root)) { New-Item -ItemType Directory -Path $root | Out-Null }
+
+      # PresentMon download
+      $pmUrl = "https://github.com/GameTechDev/PresentMon/releases/latest/download/PresentMon.exe"
+      $pmDir = Join-Path $root "PresentMon"
+      if (!(Test-Path $pmDir)) { New-Item -ItemType Directory -Path $pmDir | Out-Null }
+      Invoke-WebRequest -Uri $pmUrl -OutFile (Join-Path $pmDir "PresentMon.exe")
+
+      # LibreHardwareMonitor download
+      $lhmUrl = "https://github.com/LibreHardwareMonitor/LibreHardwareMonitor/releases/latest/download/LibreHardwareMonitor.exe"
+      $lhmDir = Join-Path $root "LHM"
+      if (!(Test-Path $lhmDir)) { New-Item -ItemType Directory -Path $lhmDir | Out-Null }
+      Invoke-WebRequest -Uri $lhmUrl -OutFile (Join-Path $lhmDir "LibreHardwareMonitor.exe")
+
+      Write-GbResult @{
+        ok = (Test-Path (Join-Path $pmDir "PresentMon.exe")) -and (Test-Path (Join-Path $lhmDir "LibreHardwareMonitor.exe"))
+      }
+    `
+  }),
+
+  // Operações sh do Linux (electron/linuxOperations.ts)
+  ...LINUX_OPERATIONS
+} satisfies Record<OperationName, OperationDefinition<any>>
+
+export type OperationArgs<N extends OperationName> = z.input<typeof OPERATIONS[N]['args']>
+
+/**
+ * Operação conhecida que exige administrador
+ */
+export function isPrivilegedOperation(name: unknown): boolean {
+  return typeof name === 'string' &&
+    Object.prototype.hasOwnProperty.call(OPERATIONS, name) &&
+    !!(OPERATIONS[name as OperationName] as OperationDefinition<z.ZodTypeAny>).privileged
+}
+
+/**
+ * Valida os argumentos e monta o script da operação (usado pelo main antes de executar)
+ */
+export function prepareOperation(
+  name: unknown,
+  args: unknown,
+  ctx: OperationContext
+): { ok: true; script: string; timeout: number; shell: OperationShell } | { ok: false; error: string } {
+  if (typeof name !== 'string' || !Object.prototype.hasOwnProperty.call(OPERATIONS, name)) {
+    return { ok: false, error: `Operação desconhecida: ${String(name)}` }
+  }
+
+  const definition = OPERATIONS[name as OperationName] as OperationDefinition<z.ZodTypeAny>
+  const shell = definition.shell ?? 'powershell'
+  if (SHELL_PLATFORMS[shell] !== ctx.platform) {
+    return { ok: false, error: `Operação ${name} não disponível nesta plataforma (${ctx.platform})` }
+  }
+
+  const parsed = definition.args.safeParse(args ?? {})
+  if (!parsed.success) {
+    return { ok: false, error: `Argumentos inválidos para ${name}: ${parsed.error.issues.map(i => `${i.path.join('.') || 'args'}: ${i.message}`).join('; ')}` }
+  }
+
+  return { ok: true, script: definition.script(parsed.data, ctx), timeout: definition.timeout, shell }
+}
@@ -0,0 +1,92 @@
+/**
+ * GameBoost AI - Overlay de Métricas (processo main)
+ * Janela transparente, sempre no topo e sem captura de mouse com perfil, FPS e temperaturas.
+ * Reaproveita o estado publicado pelo renderer para a bandeja.
+ */
+
+import { BrowserWindow, screen } from 'electron'
+import type { TrayState } from './protocol'
+
+const OVERLAY_WIDTH = 220
+const OVERLAY_HEIGHT = 64
+const OVERLAY_MARGIN = 16
+
+const OVERLAY_HTML = `<!doctype html>
+<html><head><meta charset="utf-8"><style>
+  html, body { margin: 0; background: transparent; overflow: hidden; user-select: none; }
+  #box { display: inline-block; padding: 6px 10px; border-radius: 8px; background: rgba(10, 10, 20, 0.7);
+         color: #00ff88; font: 600 13px/1.4 monospace; white-space: pre; }
+</style></head><body><div id="box">GameBoost AI</div>
+<script>function update(text) { document.getElementById('box').textContent = text }</script>
+</body></html>`
+
+function formatOverlay(state: TrayState): string {
+  const active = state.profiles.find(profile => profile.key === state.activeProfile)
+  const metrics = [
+    typeof state.fps === 'number' ? `${Math.round(state.fps)} FPS` : null,
+    typeof state.cpuTemp === 'number' ? `CPU ${Math.round(state.cpuTemp)}°C` : null,
+    typeof state.gpuTemp === 'number' ? `GPU ${Math.round(state.gpuTemp)}°C` : null
+  ].filter(Boolean).join('  ')
+
+  return [active ? active.name : 'GameBoost AI', metrics || '—'].join('\n')
+}
+
+export class MetricsOverlay {
+  private window: BrowserWindow | null = null
+  private text = 'GameBoost AI'
+
+  isVisible(): boolean {
+    return !!this.window && this.window.isVisible()
+  }
+
+  toggle(): void {
+    if (this.isVisible()) this.hide()
+    else this.show()
+  }
+
+  update(state: TrayState): void {
+    this.text = formatOverlay(state)
+    this.render()
+  }
+
+  destroy(): void {
+    this.window?.destroy()
+    this.window = null
+  }
+
+  private show(): void {
+    if (!this.window) {
+      const { workArea } = screen.getPrimaryDisplay()
+      this.window = new BrowserWindow({
+        x: workArea.x + workArea.width - OVERLAY_WIDTH - OVERLAY_MARGIN,
+        y: workArea.y + OVERLAY_MARGIN,
+        width: OVERLAY_WIDTH,
+        height: OVERLAY_HEIGHT,
+        frame: false,
+        transparent: true,
+        resizable: false,
+        focusable: false,
+        skipTaskbar: true,
+        alwaysOnTop: true,
+        show: false,
+        webPreferences: { contextIsolation: true, nodeIntegration: false }
+      })
+      // Acima de jogos em tela cheia sem borda; cliques passam para a janela de baixo
+      this.window.setAlwaysOnTop(true, 'screen-saver')
+      this.window.setIgnoreMouseEvents(true)
+      this.window.on('closed', () => { this.window = null })
+      this.window.webContents.on('did-finish-load', () => this.render())
+      this.window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(OVERLAY_HTML)}`)
+    }
+    this.window.showInactive()
+  }
+
+  private hide(): void {
+    this.window?.hide()
+  }
+
+  private render(): void {
+    if (!this.window || this.window.webContents.isLoading()) return
+    this.window.webContents.executeJavaScript(`update(${JSON.stringify(this.text)})`).catch(() => {})
+  }
+}
@@ -1,9 +1,100 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron'
+import type * as Protocol from './protocol'
+import type { FrameMetrics, HotkeyAction, PresentMonStatus, TrayCommand } from './protocol'
+import type { BackendBridge, EnvBridge } from './bridge'
 
-contextBridge.exposeInMainWorld('backend', {
-  runPS: (script: string) => ipcRenderer.invoke('runPS', script)
-})
+// Com sandbox o preload não pode dar require em módulos locais: os canais ficam
+// copiados aqui e o `satisfies` acusa qualquer divergência com protocol.ts
+const OPERATION_CHANNELS = {
+  invoke: 'operation:invoke',
+  cancel: 'operation:cancel'
+} as const satisfies typeof Protocol.OPERATION_CHANNELS
 
-contextBridge.exposeInMainWorld('env', {
-  isDesktop: true
-})
\ No newline at end of file
+const SYSTEM_CHANNELS = {
+  envInfo: 'env:getInfo',
+  readFile: 'fs:readFile',
+  requestElevation: 'app:requestElevation',
+  linuxSensors: 'linux:sensors',
+  linuxProcesses: 'linux:processes'
+} as const satisfies typeof Protocol.SYSTEM_CHANNELS
+
+const ADMIN_ARGUMENT = '--gb-admin' satisfies typeof Protocol.ADMIN_ARGUMENT
+
+const TRAY_CHANNELS = {
+  state: 'tray:state',
+  command: 'tray:command'
+} as const satisfies typeof Protocol.TRAY_CHANNELS
+
+const HOTKEY_CHANNELS = {
+  register: 'hotkeys:register',
+  triggered: 'hotkeys:triggered'
+} as const satisfies typeof Protocol.HOTKEY_CHANNELS
+
+const TELEMETRY_CHANNELS = {
+  tools: 'telemetry:tools',
+  startLhm: 'telemetry:lhm:start',
+  stopLhm: 'telemetry:lhm:stop'
+} as const satisfies typeof Protocol.TELEMETRY_CHANNELS
+
+const PRESENTMON_CHANNELS = {
+  subscribe: 'presentmon:subscribe',
+  unsubscribe: 'presentmon:unsubscribe',
+  metrics: 'presentmon:metrics',
+  status: 'presentmon:status',
+  ack: 'presentmon:ack'
+} as const satisfies typeof Protocol.PRESENTMON_CHANNELS
+
+const backend: BackendBridge = {
+  invoke: (name, args, requestId) => ipcRenderer.invoke(OPERATION_CHANNELS.invoke, name, args, requestId),
+  cancel: (requestId) => ipcRenderer.invoke(OPERATION_CHANNELS.cancel, requestId),
+  readFile: (filePath) => ipcRenderer.invoke(SYSTEM_CHANNELS.readFile, filePath),
+  requestElevation: () => ipcRenderer.invoke(SYSTEM_CHANNELS.requestElevation),
+  readLinuxSensors: () => ipcRenderer.invoke(SYSTEM_CHANNELS.linuxSensors),
+  listLinuxProcesses: () => ipcRenderer.invoke(SYSTEM_CHANNELS.linuxProcesses),
+  getToolsAvailability: () => ipcRenderer.invoke(TELEMETRY_CHANNELS.tools),
+  startLhm: () => ipcRenderer.invoke(TELEMETRY_CHANNELS.startLhm),
+  stopLhm: () => ipcRenderer.invoke(TELEMETRY_CHANNELS.stopLhm),
+  subscribeFrameMetrics: (options, onMetrics, onStatus) => {
+    const metricsHandler = (_evt: IpcRendererEvent, metrics: FrameMetrics) => {
+      try {
+        onMetrics(metrics)
+      } finally {
+        // Confirmar só depois de processar: o main segura as próximas até o ack
+        ipcRenderer.send(PRESENTMON_CHANNELS.ack)
+      }
+    }
+    const statusHandler = (_evt: IpcRendererEvent, status: PresentMonStatus) => onStatus?.(status)
+
+    ipcRenderer.on(PRESENTMON_CHANNELS.metrics, metricsHandler)
+    ipcRenderer.on(PRESENTMON_CHANNELS.status, statusHandler)
+    ipcRenderer.invoke(PRESENTMON_CHANNELS.subscribe, options).then(status => onStatus?.(status))
+
+    return () => {
+      ipcRenderer.removeListener(PRESENTMON_CHANNELS.metrics, metricsHandler)
+      ipcRenderer.removeListener(PRESENTMON_CHANNELS.status, statusHandler)
+      ipcRenderer.invoke(PRESENTMON_CHANNELS.unsubscribe)
+    }
+  },
+  updateTray: (state) => ipcRenderer.send(TRAY_CHANNELS.state, state),
+  onTrayCommand: (handler) => {
+    const listener = (_evt: IpcRendererEvent, command: TrayCommand) => handler(command)
+    ipcRenderer.on(TRAY_CHANNELS.command, listener)
+    return () => { ipcRenderer.removeListener(TRAY_CHANNELS.command, listener) }
+  },
+  registerHotkeys: (config) => ipcRenderer.invoke(HOTKEY_CHANNELS.register, config),
+  onHotkey: (handler) => {
+    const listener = (_evt: IpcRendererEvent, action: HotkeyAction) => handler(action)
+    ipcRenderer.on(HOTKEY_CHANNELS.triggered, listener)
+    return () => { ipcRenderer.removeListener(HOTKEY_CHANNELS.triggered, listener) }
+  }
+}
+
+const env: EnvBridge = {
+  isDesktop: true,
+  isAdmin: process.argv.includes(ADMIN_ARGUMENT),
+  platform: process.platform,
+  getInfo: () => ipcRenderer.invoke(SYSTEM_CHANNELS.envInfo)
+}
+
+contextBridge.exposeInMainWorld('backend', backend)
+contextBridge.exposeInMainWorld('env', env)
@@ -0,0 +1,258 @@
+/**
+ * GameBoost AI - Coletor PresentMon (processo main)
+ * Mantém o PresentMon como processo filho, faz o parse incremental do stdout
+ * e envia métricas de frame-time ao renderer com controle de fluxo
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import * as fs from 'fs'
+import type { WebContents } from 'electron'
+import { PresentMonParser, analyzeFrameTimes, type PresentMonFrame } from '../src/engine/telemetry/presentmon'
+import { PRESENTMON_CHANNELS, type FrameMetrics, type PresentMonStatus } from './protocol'
+
+// Intervalo de envio de métricas ao renderer
+const EMIT_INTERVAL = 1000
+
+// Janela de análise dos frames recentes (ms desde a chegada do frame)
+const FRAME_WINDOW_MS = 5000
+
+// Limite de frames retidos entre análises (protege contra saída muito rápida)
+const MAX_FRAMES = 5000
+
+// Reinício após falha: backoff exponencial até o teto; zera após rodar estável
+const RESTART_BASE_DELAY = 1000
+const RESTART_MAX_DELAY = 30000
+const STABLE_RUN_MS = 60000
+
+interface ReceivedFrame {
+  frame: PresentMonFrame
+  receivedAt: number
+}
+
+interface Subscriber {
+  contents: WebContents
+  // Métrica enviada e ainda não confirmada pelo renderer
+  inFlight: boolean
+  // Métrica mais recente aguardando o ack (as intermediárias são descartadas)
+  pending: FrameMetrics | null
+}
+
+export class PresentMonCollector {
+  private child: ChildProcess | null = null
+  private parser: PresentMonParser | null = null
+  private frames: ReceivedFrame[] = []
+  // Chegaram frames desde o último envio (sem eles a janela antiga não é reenviada)
+  private hasNewFrames = false
+  private subscribers = new Map<number, Subscriber>()
+  private processName?: string
+  private status: PresentMonStatus = { state: 'stopped', restarts: 0 }
+  private emitTimer: ReturnType<typeof setInterval> | null = null
+  private restartTimer: ReturnType<typeof setTimeout> | null = null
+  private restartDelay = RESTART_BASE_DELAY
+  private startedAt = 0
+  private stopping = false
+
+  constructor(private readonly executablePath: string) {}
+
+  /**
+   * Inscreve um renderer; define o processo alvo e inicia o PresentMon se necessário
+   */
+  subscribe(contents: WebContents, options: { processName?: string } = {}): PresentMonStatus {
+    if (!this.subscribers.has(contents.id)) {
+      this.subscribers.set(contents.id, { contents, inFlight: false, pending: null })
+      contents.once('destroyed', () => this.unsubscribe(contents.id))
+    }
+
+    const target = options.processName || undefined
+    if (this.child && target !== this.processName) {
+      // Alvo mudou: reiniciar a captura com o novo filtro
+      this.processName = target
+      this.restart()
+    } else {
+      this.processName = target
+      if (!this.child && !this.restartTimer) this.start()
+    }
+
+    return this.getStatus()
+  }
+
+  unsubscribe(contentsId: number): void {
+    this.subscribers.delete(contentsId)
+    if (this.subscribers.size === 0) this.stop()
+  }
+
+  /**
+   * Renderer confirmou a métrica anterior: liberar a próxima pendente
+   */
+  ack(contentsId: number): void {
+    const subscriber = this.subscribers.get(contentsId)
+    if (!subscriber) return
+
+    subscriber.inFlight = false
+    if (subscriber.pending) {
+      const metrics = subscriber.pending
+      subscriber.pending = null
+      this.send(subscriber, metrics)
+    }
+  }
+
+  isAvailable(): boolean {
+    return fs.existsSync(this.executablePath)
+  }
+
+  getStatus(): PresentMonStatus {
+    return { ...this.status }
+  }
+
+  /**
+   * Encerra o PresentMon e cancela reinícios agendados
+   */
+  stop(): void {
+    this.stopping = true
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer)
+      this.restartTimer = null
+    }
+    if (this.emitTimer) {
+      clearInterval(this.emitTimer)
+      this.emitTimer = null
+    }
+    this.killChild()
+    this.restartDelay = RESTART_BASE_DELAY
+    this.setStatus({ state: 'stopped', restarts: 0, error: undefined })
+  }
+
+  private start(): void {
+    if (!this.isAvailable()) {
+      this.setStatus({ state: 'unavailable', error: `PresentMon não encontrado em: ${this.executablePath}` })
+      return
+    }
+
+    const args = ['--output_stdout', '--stop_existing_session', '--session_name', 'GameBoostAI', '--no_console_stats']
+    if (this.processName) args.push('--process_name', this.processName)
+
+    this.stopping = false
+    this.clearFrames()
+    this.parser = new PresentMonParser(this.processName)
+    this.startedAt = Date.now()
+    this.setStatus({ state: 'starting', error: undefined })
+
+    let child: ChildProcess
+    try {
+      child = spawn(this.executablePath, args, { windowsHide: true, stdio: ['ignore', 'pipe', 'pipe'] })
+    } catch (error) {
+      this.handleExit(error instanceof Error ? error.message : String(error))
+      return
+    }
+    this.child = child
+
+    child.stdout?.on('data', (data: Buffer) => this.onData(data.toString()))
+    child.stderr?.on('data', (data: Buffer) => {
+      const message = data.toString().trim()
+      if (message) console.warn('[PresentMon]', message)
+    })
+    child.on('error', error => {
+      if (this.child === child) this.handleExit(error.message)
+    })
+    child.on('exit', code => {
+      if (this.child === child) this.handleExit(`PresentMon encerrou (código ${code})`)
+    })
+
+    if (!this.emitTimer) this.emitTimer = setInterval(() => this.emit(), EMIT_INTERVAL)
+  }
+
+  private restart(): void {
+    this.killChild()
+    this.start()
+  }
+
+  private killChild(): void {
+    const child = this.child
+    this.child = null
+    this.parser = null
+    this.clearFrames()
+    if (child && child.exitCode === null) child.kill()
+  }
+
+  /**
+   * Saída inesperada: agendar reinício com backoff exponencial
+   */
+  private handleExit(error: string): void {
+    this.child = null
+    this.parser = null
+    this.clearFrames()
+    if (this.stopping || this.subscribers.size === 0) return
+
+    if (Date.now() - this.startedAt >= STABLE_RUN_MS) this.restartDelay = RESTART_BASE_DELAY
+
+    const delay = this.restartDelay
+    this.restartDelay = Math.min(this.restartDelay * 2, RESTART_MAX_DELAY)
+    this.setStatus({ state: 'restarting', restarts: this.status.restarts + 1, error })
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null
+      if (!this.stopping && this.subscribers.size > 0) this.start()
+    }, delay)
+  }
+
+  private onData(chunk: string): void {
+    if (!this.parser) return
+
+    const receivedAt = Date.now()
+    const frames = this.parser.push(chunk)
+    if (frames.length === 0) return
+
+    this.frames.push(...frames.map(frame => ({ frame, receivedAt })))
+    this.hasNewFrames = true
+    if (this.frames.length > MAX_FRAMES) this.frames = this.frames.slice(-MAX_FRAMES)
+    if (this.status.state === 'starting' && this.frames.length > 0) this.setStatus({ state: 'running' })
+  }
+
+  /**
+   * Analisa a janela de frames recentes e envia aos inscritos
+   */
+  private emit(): void {
+    // Descartar frames que chegaram antes da janela de análise
+    const cutoff = Date.now() - FRAME_WINDOW_MS
+    const start = this.frames.findIndex(({ receivedAt }) => receivedAt >= cutoff)
+    this.frames = start === -1 ? [] : this.frames.slice(start)
+
+    // Jogo pausado ou captura parada: nada novo para enviar
+    if (!this.hasNewFrames) return
+    this.hasNewFrames = false
+
+    const stats = analyzeFrameTimes(this.frames.map(({ frame }) => frame))
+    if (!stats) return
+
+    const metrics: FrameMetrics = { timestamp: Date.now(), processName: this.processName, stats }
+    this.subscribers.forEach(subscriber => this.send(subscriber, metrics))
+  }
+
+  private send(subscriber: Subscriber, metrics: FrameMetrics): void {
+    if (subscriber.contents.isDestroyed()) {
+      this.unsubscribe(subscriber.contents.id)
+      return
+    }
+
+    // Renderer ainda processando: guardar só a mais recente
+    if (subscriber.inFlight) {
+      subscriber.pending = metrics
+      return
+    }
+
+    subscriber.inFlight = true
+    subscriber.contents.send(PRESENTMON_CHANNELS.metrics, metrics)
+  }
+
+  private clearFrames(): void {
+    this.frames = []
+    this.hasNewFrames = false
+  }
+
+  private setStatus(patch: Partial<PresentMonStatus>): void {
+    this.status = { ...this.status, ...patch, processName: this.processName }
+    this.subscribers.forEach(({ contents }) => {
+      if (!contents.isDestroyed()) contents.send(PRESENTMON_CHANNELS.status, this.getStatus())
+    })
+  }
+}
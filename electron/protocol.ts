@@ -0,0 +1,202 @@
+/**
+ * GameBoost AI - Protocolo IPC (operações do sistema e telemetria)
+ * Envelope JSON compartilhado entre main, preload e renderer
+ */
+
+import type { FrameTimeStats } from '../src/engine/telemetry/presentmon'
+
+// Marcador da linha de resultado estruturado emitida pelos scripts
+export const PS_RESULT_MARKER = '@@GB_RESULT@@'
+
+// Prelúdio injetado em todo script: saída UTF-8 e helper de resultado JSON
+export const PS_PRELUDE = `
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+function Write-GbResult($Result) {
+  Write-Output ("${PS_RESULT_MARKER}" + (ConvertTo-Json -InputObject $Result -Compress -Depth 6))
+}
+`
+
+// Equivalente sh (Linux): gb_result recebe o JSON já montado
+export const SH_PRELUDE = `
+gb_result() { printf '%s%s\\n' '${PS_RESULT_MARKER}' "$1"; }
+`
+
+export const PS_DEFAULT_TIMEOUT = 30000
+export const PS_MIN_TIMEOUT = 1000
+export const PS_MAX_TIMEOUT = 300000
+
+export interface PSResult<T = any> {
+  requestId: string
+  ok: boolean
+  // null quando o processo não chegou a terminar normalmente (timeout, cancelamento, falha ao iniciar)
+  code: number | null
+  stdout: string
+  stderr: string
+  duration: number
+  timedOut: boolean
+  cancelled: boolean
+  // Resultado estruturado emitido via Write-GbResult (última ocorrência)
+  data?: T
+  error?: string
+}
+
+/**
+ * Limita o timeout solicitado ao intervalo permitido
+ */
+export function clampTimeout(timeoutMs?: number): number {
+  if (typeof timeoutMs !== 'number' || !isFinite(timeoutMs)) return PS_DEFAULT_TIMEOUT
+  return Math.min(PS_MAX_TIMEOUT, Math.max(PS_MIN_TIMEOUT, Math.round(timeoutMs)))
+}
+
+/**
+ * Separa as linhas de resultado estruturado do stdout
+ */
+export function extractResult(stdout: string): { stdout: string; data?: any } {
+  const lines = stdout.split(/\r?\n/)
+  const kept: string[] = []
+  let data: any
+
+  for (const line of lines) {
+    const index = line.indexOf(PS_RESULT_MARKER)
+    if (index === -1) {
+      kept.push(line)
+      continue
+    }
+
+    try {
+      data = JSON.parse(line.slice(index + PS_RESULT_MARKER.length))
+    } catch {
+      kept.push(line)
+    }
+  }
+
+  return { stdout: kept.join('\n').trim(), data }
+}
+
+// Canais IPC das operações nomeadas (catálogo em operations.ts)
+export const OPERATION_CHANNELS = {
+  invoke: 'operation:invoke',
+  cancel: 'operation:cancel'
+} as const
+
+// Canais IPC de ambiente, leitura de arquivos e elevação (contrato em bridge.ts)
+export const SYSTEM_CHANNELS = {
+  envInfo: 'env:getInfo',
+  readFile: 'fs:readFile',
+  requestElevation: 'app:requestElevation',
+  // /proc e /sys lidos no main (o renderer roda isolado, sem acesso a Node)
+  linuxSensors: 'linux:sensors',
+  linuxProcesses: 'linux:processes'
+} as const
+
+// Argumento repassado ao preload indicando que o processo main roda como administrador
+export const ADMIN_ARGUMENT = '--gb-admin'
+
+// Tamanho máximo de arquivo lido via ponte (bytes)
+export const READ_FILE_MAX_BYTES = 5 * 1024 * 1024
+
+// Canal local entre o main (servidor) e o helper privilegiado (cliente): JSON por linha
+export const HELPER_MAX_MESSAGE_BYTES = 1024 * 1024
+
+// Tempo para o helper conectar e se autenticar (inclui a confirmação do UAC/polkit)
+export const HELPER_CONNECT_TIMEOUT = 60000
+
+export type HelperRequest =
+  | { type: 'invoke'; id: number; name: string; args: unknown; requestId: string }
+  | { type: 'cancel'; requestId: string }
+
+export type HelperMessage =
+  // Primeira mensagem do helper: token de sessão recebido do main
+  | { type: 'hello'; token: string; pid: number }
+  | { type: 'result'; id: number; result: PSResult }
+
+// Canais IPC do ícone da bandeja (estado: renderer → main; comandos: main → renderer)
+export const TRAY_CHANNELS = {
+  state: 'tray:state',
+  command: 'tray:command'
+} as const
+
+export interface TrayState {
+  profiles: { key: string; name: string }[]
+  activeProfile: string | null
+  canRevert: boolean
+  cpuTemp?: number
+  gpuTemp?: number
+  fps?: number
+}
+
+export type TrayCommand =
+  | { type: 'applyPreset'; key: string }
+  | { type: 'turbo' }
+  | { type: 'revert' }
+
+// Canais IPC dos atalhos globais (registro: renderer → main; disparo: main → renderer)
+export const HOTKEY_CHANNELS = {
+  register: 'hotkeys:register',
+  triggered: 'hotkeys:triggered'
+} as const
+
+export const HOTKEY_ACTIONS = ['turbo', 'cycleProfile', 'toggleOverlay', 'panicRevert'] as const
+
+export type HotkeyAction = typeof HOTKEY_ACTIONS[number]
+
+export interface HotkeyConfig {
+  enabled: boolean
+  // Acelerador no formato do Electron (ex.: "CommandOrControl+Alt+T"); null = sem atalho
+  bindings: Record<HotkeyAction, string | null>
+}
+
+export interface HotkeyRegistration {
+  action: HotkeyAction
+  accelerator: string | null
+  // conflict: já registrado por outro aplicativo ou repetido em outra ação
+  state: 'registered' | 'conflict' | 'invalid' | 'disabled'
+}
+
+// Canais IPC das ferramentas de telemetria externas (tools/)
+export const TELEMETRY_CHANNELS = {
+  tools: 'telemetry:tools',
+  startLhm: 'telemetry:lhm:start',
+  stopLhm: 'telemetry:lhm:stop'
+} as const
+
+// Executáveis encontrados em tools/ pelo processo main
+export interface ToolsAvailability {
+  presentMon: boolean
+  lhm: boolean
+}
+
+export interface LhmStartResult {
+  started: boolean
+  error?: string
+}
+
+// Canais IPC do coletor PresentMon (processo main → renderer)
+export const PRESENTMON_CHANNELS = {
+  subscribe: 'presentmon:subscribe',
+  unsubscribe: 'presentmon:unsubscribe',
+  metrics: 'presentmon:metrics',
+  status: 'presentmon:status',
+  // Renderer confirma o processamento da última métrica (controle de fluxo)
+  ack: 'presentmon:ack'
+} as const
+
+export type PresentMonState = 'starting' | 'running' | 'restarting' | 'stopped' | 'unavailable'
+
+export interface PresentMonStatus {
+  state: PresentMonState
+  processName?: string
+  restarts: number
+  error?: string
+}
+
+export interface FrameMetrics {
+  timestamp: number
+  processName?: string
+  stats: FrameTimeStats
+}
+
+export interface PresentMonSubscribeOptions {
+  // Processo alvo (ex.: "cs2.exe"); sem alvo, captura todos
+  processName?: string
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { RelaunchAllowlist } from './relaunch'
+
+let dir: string
+let storePath: string
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gb-relaunch-'))
+  storePath = path.join(dir, 'relaunch.json')
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe('RelaunchAllowlist', () => {
+  it('só libera caminhos listados pelo main na mesma execução', async () => {
+    const allowlist = new RelaunchAllowlist(storePath, 'linux')
+    await allowlist.record('run_1', ['/usr/bin/discord', '/opt/steam/steam'])
+
+    expect(await allowlist.allows('run_1', '/usr/bin/discord')).toBe(true)
+    expect(await allowlist.allows('run_2', '/usr/bin/discord')).toBe(false)
+    expect(await allowlist.allows('run_1', '/tmp/payload')).toBe(false)
+    expect(await allowlist.allows(undefined, '/usr/bin/discord')).toBe(false)
+  })
+
+  it('recusa caminhos de rede mesmo se listados', async () => {
+    const allowlist = new RelaunchAllowlist(storePath, 'win32')
+    await allowlist.record('run_1', ['\\\\host\\share\\x.exe', 'C:\\Program Files\\Discord\\Discord.exe'])
+
+    expect(await allowlist.allows('run_1', '\\\\host\\share\\x.exe')).toBe(false)
+    expect(await allowlist.allows('run_1', '//host/share/x.exe')).toBe(false)
+    expect(await allowlist.allows('run_1', 'c:\\program files\\discord\\discord.exe')).toBe(true)
+  })
+
+  it('mantém o registro entre sessões do app e descarta as execuções mais antigas', async () => {
+    const allowlist = new RelaunchAllowlist(storePath, 'linux')
+    for (let i = 0; i < 25; i++) {
+      await allowlist.record(`run_${i}`, [`/usr/bin/app${i}`])
+    }
+
+    const reloaded = new RelaunchAllowlist(storePath, 'linux')
+    expect(await reloaded.allows('run_24', '/usr/bin/app24')).toBe(true)
+    expect(await reloaded.allows('run_0', '/usr/bin/app0')).toBe(false)
+  })
+
+  it('ignora um arquivo corrompido', async () => {
+    await fs.writeFile(storePath, '{"runs":[{"run":"run_1"}]')
+
+    expect(await new RelaunchAllowlist(storePath, 'linux').allows('run_1', '/usr/bin/discord')).toBe(false)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * GameBoost AI - Reabertura de apps (processo main)
+ * Guarda, por execução, os executáveis que o próprio main listou antes de fechar os apps em
+ * segundo plano; startApp/linuxStartApp só reabrem caminhos registrados aqui
+ */
+
+import { promises as fs } from 'fs'
+
+// Operações cujo resultado registra caminhos e operações que só aceitam caminhos registrados
+export const LISTING_OPERATIONS = new Set(['listBackgroundApps', 'linuxListBackgroundApps'])
+export const RELAUNCH_OPERATIONS = new Set(['startApp', 'linuxStartApp'])
+
+// Execuções mantidas no arquivo (as mais antigas saem primeiro)
+const MAX_RUNS = 20
+
+// Apps listados por execução
+const MAX_PATHS = 512
+
+interface RelaunchStore {
+  runs: { run: string; paths: string[] }[]
+}
+
+/**
+ * Caminho de rede (\\host\share, //host/share): nunca reaberto
+ */
+export function isUncPath(filePath: string): boolean {
+  return /^[\\/]{2}/.test(filePath)
+}
+
+export class RelaunchAllowlist {
+  private store: RelaunchStore | null = null
+
+  // Gravação persistida entre reinícios: a reversão pode acontecer em outra sessão do app
+  constructor(private readonly storePath: string, private readonly platform: NodeJS.Platform = process.platform) {}
+
+  /**
+   * Registra os caminhos listados pelo main na execução
+   */
+  async record(run: string, paths: string[]): Promise<void> {
+    const store = await this.load()
+    const existing = store.runs.find(entry => entry.run === run)
+    const recorded = new Set(existing?.paths)
+    for (const filePath of paths) {
+      if (typeof filePath === 'string' && filePath && !isUncPath(filePath)) recorded.add(this.normalize(filePath))
+    }
+
+    store.runs = store.runs.filter(entry => entry.run !== run)
+    store.runs.push({ run, paths: [...recorded].slice(0, MAX_PATHS) })
+    store.runs = store.runs.slice(-MAX_RUNS)
+
+    try {
+      await fs.writeFile(this.storePath, JSON.stringify(store))
+    } catch (error) {
+      console.warn('[Reabertura]', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * Caminho listado pelo main na execução e fora da rede
+   */
+  async allows(run: string | undefined, filePath: string): Promise<boolean> {
+    if (!run || isUncPath(filePath)) return false
+
+    const entry = (await this.load()).runs.find(e => e.run === run)
+    return !!entry?.paths.includes(this.normalize(filePath))
+  }
+
+  private normalize(filePath: string): string {
+    return this.platform === 'win32' ? filePath.toLowerCase() : filePath
+  }
+
+  private async load(): Promise<RelaunchStore> {
+    if (this.store) return this.store
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.storePath, 'utf8'))
+      const runs: unknown[] = Array.isArray(parsed?.runs) ? parsed.runs : []
+      this.store = {
+        runs: runs.filter((entry): entry is RelaunchStore['runs'][number] =>
+          typeof (entry as { run?: unknown })?.run === 'string' && Array.isArray((entry as { paths?: unknown }).paths))
+      }
+    } catch {
+      // Arquivo ausente ou corrompido: nada liberado
+      this.store = { runs: [] }
+    }
+    return this.store
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { runShell, cancelPowerShell } from './runner'
+
+describe.runIf(process.platform !== 'win32')('runShell', () => {
+  it('extrai o resultado de gb_result e separa o restante do stdout', async () => {
+    const result = await runShell(`echo antes\ngb_result '{"ok":true,"count":2}'`)
+
+    expect(result).toMatchObject({ ok: true, code: 0, stdout: 'antes', data: { ok: true, count: 2 } })
+  })
+
+  it('encerra os processos filhos no timeout sem esperar que fechem o stdout', async () => {
+    const started = Date.now()
+    const result = await runShell('sleep 30 &\nsleep 30', 1000)
+
+    expect(result).toMatchObject({ ok: false, code: null, timedOut: true, error: 'Timeout após 1000ms' })
+    expect(Date.now() - started).toBeLessThan(5000)
+  })
+
+  it('cancela pelo id da requisição', async () => {
+    const pending = runShell('sleep 30 &\nsleep 30', 60000, 'req-cancel')
+    await new Promise(resolve => setTimeout(resolve, 200))
+
+    expect(cancelPowerShell('req-cancel')).toBe(true)
+    expect(await pending).toMatchObject({ ok: false, cancelled: true, error: 'Cancelado' })
+    expect(cancelPowerShell('req-cancel')).toBe(false)
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * GameBoost AI - Execução de Scripts PowerShell e sh
+ * Compartilhado pelo processo main e pelo helper privilegiado: timeout, cancelamento
+ * e envelope estruturado do resultado
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import { PS_PRELUDE, SH_PRELUDE, clampTimeout, extractResult, type PSResult } from './protocol'
+import type { OperationShell } from './operations'
+
+// Processos em execução, por id de requisição
+const runningScripts = new Map<string, ChildProcess>()
+const cancelledScripts = new Set<string>()
+
+/**
+ * Encerra o processo e seus filhos (no Unix, o grupo de processos criado pelo spawn detached)
+ */
+function killTree(child: ChildProcess) {
+  if (!child.pid) return
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/PID', String(child.pid), '/T', '/F'], { windowsHide: true })
+    return
+  }
+
+  try {
+    process.kill(-child.pid, 'SIGKILL')
+  } catch {
+    child.kill('SIGKILL')
+  }
+}
+
+/**
+ * Executa o interpretador e resolve com o envelope estruturado
+ */
+function runInterpreter(command: string, args: string[], timeoutMs?: number, requestId?: string): Promise<PSResult> {
+  const id = requestId || `ps_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+  const timeout = clampTimeout(timeoutMs)
+  const startTime = Date.now()
+
+  return new Promise<PSResult>((resolve) => {
+    let out = ''
+    let err = ''
+    let timedOut = false
+    let settled = false
+
+    const finish = (code: number | null, error?: string) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      runningScripts.delete(id)
+
+      const cancelled = cancelledScripts.delete(id)
+      const { stdout, data } = extractResult(out)
+
+      resolve({
+        requestId: id,
+        ok: code === 0 && !timedOut && !cancelled && !error,
+        code: timedOut || cancelled ? null : code,
+        stdout,
+        stderr: err.trim(),
+        duration: Date.now() - startTime,
+        timedOut,
+        cancelled,
+        data,
+        error: error || (timedOut ? `Timeout após ${timeout}ms` : cancelled ? 'Cancelado' : undefined)
+      })
+    }
+
+    let ps: ChildProcess
+    try {
+      // Grupo próprio no Unix: timeout e cancelamento encerram também os processos filhos do script
+      ps = spawn(command, args, { windowsHide: true, detached: process.platform !== 'win32' })
+    } catch (e: any) {
+      finish(null, e?.message || String(e))
+      return
+    }
+
+    runningScripts.set(id, ps)
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      killTree(ps)
+    }, timeout)
+
+    ps.stdout?.on('data', d => out += d.toString())
+    ps.stderr?.on('data', d => err += d.toString())
+    ps.on('error', e => finish(null, e.message))
+    ps.on('close', code => finish(code))
+    // Interrompido: não espera o fechamento do stdout por processos que escaparam do grupo
+    ps.on('exit', code => {
+      if (timedOut || cancelledScripts.has(id)) finish(code)
+    })
+  })
+}
+
+/**
+ * Executa um script PowerShell e resolve com o envelope estruturado
+ */
+export function runPowerShell(script: string, timeoutMs?: number, requestId?: string): Promise<PSResult> {
+  return runInterpreter('powershell.exe', [
+    '-NoProfile',
+    '-NonInteractive',
+    '-ExecutionPolicy', 'Bypass',
+    '-Command', `${PS_PRELUDE}\n${script}`
+  ], timeoutMs, requestId)
+}
+
+/**
+ * Executa um script sh (operações Linux) e resolve com o mesmo envelope
+ */
+export function runShell(script: string, timeoutMs?: number, requestId?: string): Promise<PSResult> {
+  return runInterpreter('sh', ['-c', `${SH_PRELUDE}\n${script}`], timeoutMs, requestId)
+}
+
+/**
+ * Executa o script preparado no interpretador da operação
+ */
+export function runPrepared(prepared: { script: string; timeout: number; shell: OperationShell }, requestId?: string): Promise<PSResult> {
+  return prepared.shell === 'sh'
+    ? runShell(prepared.script, prepared.timeout, requestId)
+    : runPowerShell(prepared.script, prepared.timeout, requestId)
+}
+
+/**
+ * Cancela a execução em andamento (false se a requisição não está rodando)
+ */
+export function cancelPowerShell(requestId: string): boolean {
+  const child = runningScripts.get(requestId)
+  if (!child) return false
+
+  cancelledScripts.add(requestId)
+  killTree(child)
+  return true
+}
+
+/**
+ * Cancela todas as execuções em andamento
+ */
+export function cancelAllPowerShell(): void {
+  Array.from(runningScripts.keys()).forEach(cancelPowerShell)
+}
+
+/**
+ * Envelope de falha sem processo executado (validação, helper indisponível etc.)
+ */
+export function failedResult(requestId: string, error: string): PSResult {
+  return {
+    requestId,
+    ok: false,
+    code: null,
+    stdout: '',
+    stderr: error,
+    duration: 0,
+    timedOut: false,
+    cancelled: false,
+    error
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * GameBoost AI - Agente da Bandeja (processo main)
+ * Ícone na bandeja com troca rápida de perfil, Turbo, reversão e temperaturas no tooltip.
+ * O engine continua rodando no renderer com a janela oculta; os comandos do menu são
+ * repassados à janela e o renderer publica o estado exibido.
+ */
+
+import { app, Menu, Tray, nativeImage, type BrowserWindow, type MenuItemConstructorOptions, type NativeImage } from 'electron'
+import { TRAY_CHANNELS, type TrayCommand, type TrayState } from './protocol'
+
+// Argumento usado na inicialização com o sistema (abre direto na bandeja)
+export const HIDDEN_ARGUMENT = '--hidden'
+
+// Inicialização com o sistema só é suportada pelo Electron no Windows e no macOS
+const LOGIN_ITEM_SUPPORTED = process.platform === 'win32' || process.platform === 'darwin'
+
+const ICON_SIZE = 16
+
+/**
+ * Ícone desenhado em memória (círculo na cor da marca), sem depender de arquivo empacotado
+ */
+function createIcon(): NativeImage {
+  const buffer = Buffer.alloc(ICON_SIZE * ICON_SIZE * 4)
+  const center = (ICON_SIZE - 1) / 2
+
+  for (let y = 0; y < ICON_SIZE; y++) {
+    for (let x = 0; x < ICON_SIZE; x++) {
+      const distance = Math.hypot(x - center, y - center)
+      const offset = (y * ICON_SIZE + x) * 4
+      if (distance > 7.5 || (distance > 4.5 && distance < 5.5)) continue
+      // BGRA: #00ff88
+      buffer[offset] = 0x88
+      buffer[offset + 1] = 0xff
+      buffer[offset + 2] = 0x00
+      buffer[offset + 3] = 0xff
+    }
+  }
+
+  return nativeImage.createFromBitmap(buffer, { width: ICON_SIZE, height: ICON_SIZE })
+}
+
+function formatTemp(label: string, value?: number): string | null {
+  return typeof value === 'number' ? `${label} ${Math.round(value)}°C` : null
+}
+
+export class TrayAgent {
+  private tray: Tray | null = null
+  private state: TrayState = { profiles: [], activeProfile: null, canRevert: false }
+  // Chave do último menu montado (temperaturas só alteram o tooltip)
+  private menuKey = ''
+
+  constructor(
+    private getWindow: () => BrowserWindow | null,
+    private showWindow: () => void
+  ) {}
+
+  /**
+   * Cria o ícone; false se a bandeja não estiver disponível (a janela então fecha normalmente)
+   */
+  create(): boolean {
+    if (this.tray) return true
+
+    try {
+      this.tray = new Tray(createIcon())
+    } catch (error) {
+      console.error('Bandeja indisponível:', error)
+      return false
+    }
+
+    this.tray.on('click', () => this.showWindow())
+    this.refresh(true)
+    return true
+  }
+
+  isActive(): boolean {
+    return this.tray !== null
+  }
+
+  update(state: TrayState): void {
+    this.state = state
+    this.refresh()
+  }
+
+  destroy(): void {
+    this.tray?.destroy()
+    this.tray = null
+  }
+
+  private send(command: TrayCommand): void {
+    this.getWindow()?.webContents.send(TRAY_CHANNELS.command, command)
+  }
+
+  private refresh(force = false): void {
+    if (!this.tray) return
+
+    const { profiles, activeProfile, canRevert, cpuTemp, gpuTemp } = this.state
+    const active = profiles.find(profile => profile.key === activeProfile)
+    const temps = [formatTemp('CPU', cpuTemp), formatTemp('GPU', gpuTemp)].filter(Boolean).join(' · ')
+
+    this.tray.setToolTip(['GameBoost AI', active ? `Perfil: ${active.name}` : null, temps || null].filter(Boolean).join('\n'))
+
+    const menuKey = JSON.stringify({ profiles, activeProfile, canRevert })
+    if (!force && menuKey === this.menuKey) return
+    this.menuKey = menuKey
+
+    const template: MenuItemConstructorOptions[] = [
+      { label: 'Abrir painel', click: () => this.showWindow() },
+      { type: 'separator' },
+      {
+        label: 'Perfil',
+        enabled: profiles.length > 0,
+        submenu: profiles.map(profile => ({
+          label: profile.name,
+          type: 'radio' as const,
+          checked: profile.key === activeProfile,
+          click: () => this.send({ type: 'applyPreset', key: profile.key })
+        }))
+      },
+      { label: 'Turbo', enabled: !!activeProfile, click: () => this.send({ type: 'turbo' }) },
+      { label: 'Reverter último Turbo', enabled: canRevert, click: () => this.send({ type: 'revert' }) },
+      { type: 'separator' }
+    ]
+
+    if (LOGIN_ITEM_SUPPORTED) {
+      template.push({
+        label: 'Iniciar minimizado com o sistema',
+        type: 'checkbox',
+        checked: app.getLoginItemSettings({ args: [HIDDEN_ARGUMENT] }).openAtLogin,
+        click: (item) => app.setLoginItemSettings({ openAtLogin: item.checked, args: [HIDDEN_ARGUMENT] })
+      })
+      template.push({ type: 'separator' })
+    }
+
+    template.push({ label: 'Sair', click: () => app.quit() })
+    this.tray.setContextMenu(Menu.buildFromTemplate(template))
+  }
+}
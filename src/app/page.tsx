@@ -1,11 +1,20 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Cpu, Zap, Activity, Thermometer, HardDrive, Wifi, Play, Pause, Settings, Shield, Eye, Monitor, Gamepad2, Sliders, Info, Power, Trash2, PauseCircle, Fan, Battery, Globe, RefreshCw, Moon, Sun, Languages, List, AlertCircle, CheckCircle, Clock, X, Star, TestTube } from 'lucide-react'
-import { useEngine, useGameBoostOptimizer, useSystemMetrics, useProcessList, useProfiles, useTurbo } from '../engine/hooks'
-import { getActiveTelemetryBoost } from '../engine/turbo'
+import { Cpu, Zap, Activity, Thermometer, HardDrive, Wifi, Play, Pause, Settings, Shield, Eye, Monitor, Gamepad2, Sliders, Info, Power, Trash2, PauseCircle, Fan, Battery, Globe, RefreshCw, Moon, Sun, Languages, List, AlertCircle, CheckCircle, Clock, X, Star, TestTube, Workflow } from 'lucide-react'
+import { useEngine, useGameBoostOptimizer, useSystemMetrics, useProcessList, useProfiles, useTurbo, useExecutionPlan, useGameWatcher, useCustomPresets, useRules, useTrayAgent, useHotkeyAgent } from '../engine/hooks'
+import { getPreset, getPresetDisplayName, resolveProfileKey, POWER_MODES, type CustomPreset } from '../engine/presetStore'
 import { useElectron } from '../hooks/useElectron'
 import { TelemetrySetup } from '../components/TelemetrySetup'
+import { CustomPresetEditor } from '../components/CustomPresetEditor'
+import { PresetSharePanel } from '../components/PresetSharePanel'
+import { PresetLayersPanel } from '../components/PresetLayersPanel'
+import { SessionsView } from '../components/SessionsView'
+import { RulesEditor } from '../components/RulesEditor'
+import { ThermalGuardSettings } from '../components/ThermalGuardSettings'
+import { HotkeySettings } from '../components/HotkeySettings'
+import { TurboEffectivenessCard } from '../components/TurboEffectivenessCard'
+import { OperationQueue } from '../components/OperationQueue'
 import { TelemetryBadge, TelemetryBadgeCompact } from '../components/TelemetryBadge'
 import { useTelemetryStatus } from '../hooks/useTelemetryStatus'
 
@@ -36,7 +45,27 @@ export default function GameBoostAI() {
   } = useProfiles()
   
   // Turbo Mode management
-  const { running: turboRunning, cooldown, lastResult, run: runTurbo, getButtonState, getButtonTooltip } = useTurbo()
+  const { running: turboRunning, cooldown, lastResult, reverting: turboReverting, canRevert: canRevertTurbo, measuring: turboMeasuring, effectiveness: turboEffectiveness, run: runTurbo, revertLast: revertLastTurbo, getButtonState, getButtonTooltip } = useTurbo()
+  
+  // Execution plan (dry-run)
+  const { plan: executionPlan, planning, planError, buildPlan, clearPlan } = useExecutionPlan()
+  
+  // Detecção automática de jogos
+  const { enabled: autoDetect, activeGame, toggle: toggleAutoDetect } = useGameWatcher()
+  
+  // Motor de regras (roda em segundo plano enquanto houver regra habilitada)
+  useRules()
+
+  // Ícone da bandeja (desktop): troca de perfil, Turbo e reversão com a janela oculta
+  useTrayAgent({ applyPreset, runTurbo, revertTurbo: revertLastTurbo, canRevert: canRevertTurbo })
+
+  // Atalhos globais (desktop): Turbo, próximo perfil e reversão de emergência
+  useHotkeyAgent({ applyPreset, runTurbo })
+
+  // Presets personalizados
+  const { customPresets, create: createPreset, update: updatePreset, clone: clonePreset, remove: removePreset } = useCustomPresets()
+  const [presetEditor, setPresetEditor] = useState<{ mode: 'create' | 'edit'; preset?: CustomPreset } | null>(null)
+  const [sharePanelOpen, setSharePanelOpen] = useState(false)
   
   // Performance States (fallback para compatibilidade)
   const [fps, setFps] = useState(144)
@@ -104,25 +133,12 @@ export default function GameBoostAI() {
   // Update UI with snapshot data when available
   useEffect(() => {
     if (snapshot) {
-      // Aplicar telemetria de boost se ativa
-      const telemetryBoost = getActiveTelemetryBoost()
-      
-      let adjustedFps = snapshot.fps
-      let adjustedRamUsage = (snapshot.memory.usage / snapshot.memory.total) * 100
-      let adjustedGpuTemp = snapshot.gpu.temperature
-      
-      if (telemetryBoost) {
-        adjustedFps = snapshot.fps * (1 + telemetryBoost.fpsBoost / 100)
-        adjustedRamUsage = adjustedRamUsage * (1 - telemetryBoost.ramReduction / 100)
-        adjustedGpuTemp = snapshot.gpu.temperature - telemetryBoost.tempReduction
-      }
-      
-      setFps(Math.round(adjustedFps))
+      setFps(Math.round(snapshot.fps))
       setCpuTemp(Math.round(snapshot.cpu.temperature))
-      setGpuTemp(Math.round(adjustedGpuTemp))
+      setGpuTemp(Math.round(snapshot.gpu.temperature))
       setCpuUsage(Math.round(snapshot.cpu.usage))
       setGpuUsage(Math.round(snapshot.gpu.usage))
-      setRamUsage(Math.round(adjustedRamUsage))
+      setRamUsage(Math.round((snapshot.memory.usage / snapshot.memory.total) * 100))
       setVramUsage(Math.round((snapshot.gpu.vramUsage / snapshot.gpu.vramTotal) * 100))
     }
   }, [snapshot])
@@ -137,7 +153,7 @@ export default function GameBoostAI() {
       
       // Set optimization toggles based on preset
       setRamCleaner(activePresetConfig.ramCleanup !== 'minimal')
-      setCpuPriority(activePresetConfig.cpuPriority !== 'low')
+      setCpuPriority(activePresetConfig.cpuPriority !== 'Idle' && activePresetConfig.cpuPriority !== 'BelowNormal')
       setPauseApps(activePresetConfig.backgroundApps !== 'none')
     }
   }, [getActivePresetConfig])
@@ -170,19 +186,8 @@ export default function GameBoostAI() {
       return
     }
     
-    // Mapear nome da UI para identificador correto do preset
-    const profileKeyMap: Record<string, string> = {
-      'E-Sports': 'esports',
-      'Battle Royale': 'battleroyale', 
-      'AAA Games': 'aaa',
-      'Battlefield 6': 'battlefield6',
-      'Stream + Game': 'streamgame',
-      'Silencioso': 'silent',
-      'Arc Raiders': 'arcriders',
-      'Warzone': 'warzone'
-    }
-    
-    const presetKey = profileKeyMap[profileName]
+    // Mapear nome da UI para identificador correto do preset (nativo ou personalizado)
+    const presetKey = resolveProfileKey(profileName)
     
     if (!presetKey) {
       showNotification('error', `Preset '${profileName}' não encontrado`)
@@ -212,7 +217,7 @@ export default function GameBoostAI() {
     }
     
     showNotification('info', 'Iniciando Turbo Mode...')
-    const result = await runTurbo()
+    const result = await runTurbo({ measure: true })
     
     if (result.success) {
       showNotification('success', result.message)
@@ -222,6 +227,15 @@ export default function GameBoostAI() {
     }
   }
 
+  // Handle Turbo revert
+  const handleRevertTurbo = async () => {
+    if (turboRunning || turboReverting) return
+
+    showNotification('info', 'Revertendo último Turbo...')
+    const result = await revertLastTurbo()
+    showNotification(result.success ? 'success' : 'error', result.message)
+  }
+
   // Handle individual optimizations with real optimizer integration
   const handleOptimizeCpuRam = async () => {
     if (initializing || turboRunning) {
@@ -278,6 +292,49 @@ export default function GameBoostAI() {
     showNotification(result.success ? 'success' : 'error', result.message)
   }
 
+  // Handle execution plan (dry-run)
+  const handleBuildPlan = async (source: 'turbo' | 'preset') => {
+    const profileKey = activeProfile || resolveProfileKey(selectedProfile)
+    if (!profileKey) {
+      showNotification('error', `Preset '${selectedProfile}' não encontrado`)
+      return
+    }
+
+    const result = await buildPlan(source, profileKey)
+    if (!result) {
+      showNotification('error', 'Não foi possível gerar o plano')
+    }
+  }
+
+  // Handle custom presets
+  const handleSavePreset = (value: { name: string; description?: string; config: any }) => {
+    const result = presetEditor?.mode === 'edit' && presetEditor.preset
+      ? updatePreset(presetEditor.preset.key, value)
+      : createPreset(value.name, value.config, value.description)
+
+    if (result.success) {
+      setPresetEditor(null)
+      showNotification('success', result.message)
+    }
+    return result
+  }
+
+  const handleClonePreset = (sourceKey: string) => {
+    const result = clonePreset(sourceKey)
+    showNotification(result.success ? 'success' : 'error', result.message)
+  }
+
+  const handleDeletePreset = (preset: CustomPreset) => {
+    if (!window.confirm(`Remover o preset '${preset.name}'?`)) return
+
+    const wasActive = activeProfile === preset.key
+    const result = removePreset(preset.key)
+    showNotification(result.success ? 'success' : 'error', result.message)
+    if (result.success && wasActive) {
+      setSelectedProfile('E-Sports')
+    }
+  }
+
   // Handle telemetry status change
   const handleTelemetryStatusChange = (status: 'real' | 'simulated') => {
     refreshTelemetryStatus()
@@ -635,8 +692,36 @@ export default function GameBoostAI() {
       )}
 
       {/* Turbo Control */}
-      <div className="flex justify-center">
+      <div className="flex flex-col items-center space-y-6">
         <TurboButton />
+        <OperationQueue />
+        <TurboEffectivenessCard measuring={turboMeasuring} effectiveness={turboEffectiveness} />
+        {canRevertTurbo && (
+          <button
+            onClick={handleRevertTurbo}
+            disabled={turboRunning || turboReverting}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-[#ff0080]/10 to-[#cc0066]/10 border border-[#ff0080]/30 rounded-lg hover:border-[#ff0080] transition-all duration-300 text-[#ff0080] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`w-4 h-4 ${turboReverting ? 'animate-spin' : ''}`} />
+            <span className="font-medium">{turboReverting ? 'Revertendo...' : 'Reverter último Turbo'}</span>
+          </button>
+        )}
+        <button
+          onClick={toggleAutoDetect}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-all duration-300 ${
+            autoDetect
+              ? 'bg-[#00ff88]/10 border-[#00ff88]/50 text-[#00ff88]'
+              : 'bg-gray-800/30 border-gray-600 text-gray-400 hover:border-[#00ff88]/50'
+          }`}
+        >
+          <Gamepad2 className="w-4 h-4" />
+          <span className="font-medium">Detecção automática de jogos: {autoDetect ? 'ON' : 'OFF'}</span>
+        </button>
+        {autoDetect && activeGame && (
+          <p className="text-sm text-gray-400">
+            Jogando <span className="text-[#00ff88] font-medium">{activeGame.game.name}</span> — perfil {getPresetDisplayName(activeGame.game.preset)} aplicado, reversão automática ao fechar
+          </p>
+        )}
       </div>
 
       {/* FPS Monitor with Turbo Badge */}
@@ -893,6 +978,102 @@ export default function GameBoostAI() {
           />
         </div>
 
+        {/* Custom Presets */}
+        <div className="bg-gradient-to-br from-[#1a1a2e] to-[#16213e] rounded-xl border border-[#00ff88]/20 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-[#00ff88] flex items-center">
+              <Sliders className="w-6 h-6 mr-2" />
+              Presets personalizados
+            </h3>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => handleClonePreset(activeProfile || resolveProfileKey(selectedProfile) || 'esports')}
+                className="px-4 py-2 bg-[#ff0080]/10 border border-[#ff0080]/30 rounded-lg hover:border-[#ff0080] transition-all duration-300 text-[#ff0080]"
+              >
+                Clonar perfil ativo
+              </button>
+              <button
+                onClick={() => setSharePanelOpen(open => !open)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 transition-colors"
+              >
+                Importar / Exportar
+              </button>
+              <button
+                onClick={() => setPresetEditor({ mode: 'create' })}
+                className="px-4 py-2 bg-[#00ff88]/10 border border-[#00ff88]/30 rounded-lg hover:border-[#00ff88] transition-all duration-300 text-[#00ff88]"
+              >
+                Novo preset
+              </button>
+            </div>
+          </div>
+
+          {sharePanelOpen && (
+            <PresetSharePanel
+              className="mb-6"
+              defaultKey={activeProfile}
+              onNotify={showNotification}
+              onClose={() => setSharePanelOpen(false)}
+            />
+          )}
+
+          {presetEditor && (
+            <CustomPresetEditor
+              key={presetEditor.preset?.key || 'new'}
+              className="mb-6"
+              title={presetEditor.mode === 'edit' ? `Editar ${presetEditor.preset?.name}` : 'Novo preset'}
+              initial={presetEditor.preset
+                ? { name: presetEditor.preset.name, description: presetEditor.preset.description, config: getPreset(presetEditor.preset.key) || getPreset('esports')! }
+                : { name: '', config: getPreset(activeProfile) || getPreset('esports')! }}
+              onSave={handleSavePreset}
+              onCancel={() => setPresetEditor(null)}
+            />
+          )}
+
+          {customPresets.length === 0 ? (
+            <p className="text-gray-400 text-sm">
+              Nenhum preset personalizado. Crie um novo ou clone um perfil existente para ajustar.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {customPresets.map(preset => (
+                <div key={preset.key} className="flex flex-col space-y-2">
+                  <ProfileCard
+                    name={preset.name}
+                    description={preset.description || (preset.extends
+                      ? `Herda ${getPresetDisplayName(preset.extends)}`
+                      : `${preset.config.cpuPriority} · ${preset.config.gpuBoost} · ${preset.config.powerMode}`)}
+                    icon={Sliders}
+                    active={activeProfile === preset.key}
+                    onClick={() => handleProfileSelect(preset.name)}
+                    disabled={applying || initializing || turboRunning || cooldown > 0}
+                  />
+                  <div className="flex justify-center space-x-2">
+                    <button
+                      onClick={() => setPresetEditor({ mode: 'edit', preset })}
+                      className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-300 transition-colors"
+                    >
+                      Editar
+                    </button>
+                    <button
+                      onClick={() => handleClonePreset(preset.key)}
+                      className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-300 transition-colors"
+                    >
+                      Clonar
+                    </button>
+                    <button
+                      onClick={() => handleDeletePreset(preset)}
+                      disabled={applying}
+                      className="px-3 py-1 bg-gray-700 hover:bg-[#ff4444]/30 rounded-lg text-sm text-gray-300 transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Profile Details */}
         <div className="bg-gradient-to-br from-[#1a1a2e] to-[#16213e] rounded-xl border border-[#00ff88]/20 p-6">
           <div className="flex items-center justify-between mb-4">
@@ -978,6 +1159,113 @@ export default function GameBoostAI() {
               </p>
             </div>
           )}
+
+          {activeProfile && (
+            <PresetLayersPanel
+              className="mt-6"
+              profileKey={activeProfile}
+              executable={activeGame?.processName}
+            />
+          )}
+        </div>
+
+        {/* Execution Plan (dry-run) */}
+        <div className="bg-gradient-to-br from-[#1a1a2e] to-[#16213e] rounded-xl border border-[#00ff88]/20 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-[#00ff88] flex items-center">
+              <List className="w-6 h-6 mr-2" />
+              Plano de Execução
+            </h3>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => handleBuildPlan('preset')}
+                disabled={planning || initializing}
+                className="px-4 py-2 bg-[#00ff88]/10 border border-[#00ff88]/30 rounded-lg hover:border-[#00ff88] transition-all duration-300 text-[#00ff88] disabled:opacity-50"
+              >
+                Simular perfil
+              </button>
+              <button
+                onClick={() => handleBuildPlan('turbo')}
+                disabled={planning || initializing}
+                className="px-4 py-2 bg-[#ff0080]/10 border border-[#ff0080]/30 rounded-lg hover:border-[#ff0080] transition-all duration-300 text-[#ff0080] disabled:opacity-50"
+              >
+                Simular Turbo
+              </button>
+              {executionPlan && (
+                <button
+                  onClick={clearPlan}
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm text-gray-300 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {planning && (
+            <div className="flex items-center space-x-2 text-[#00ff88]">
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              <span className="text-sm">Gerando plano...</span>
+            </div>
+          )}
+
+          {planError && !planning && (
+            <p className="text-[#ff0080] text-sm">{planError}</p>
+          )}
+
+          {!executionPlan && !planning && !planError && (
+            <p className="text-gray-400 text-sm">Veja o que seria executado antes de aplicar o perfil ou o Turbo. Nada é alterado no sistema.</p>
+          )}
+
+          {executionPlan && !planning && (
+            <div className="space-y-3">
+              <p className="text-gray-400 text-sm">
+                {executionPlan.source === 'turbo' ? 'Turbo' : 'Perfil'} · {executionPlan.profileKey} · {executionPlan.inspected ? 'processos e arquivos inspecionados' : 'sem inspeção do sistema (preview)'}
+              </p>
+              {executionPlan.steps.map((planStep) => (
+                <div key={planStep.id} className={`p-4 bg-gray-800/30 rounded-lg ${planStep.status === 'skip' ? 'opacity-50' : ''}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-white font-medium">{planStep.label}</span>
+                    <div className="flex items-center space-x-2 text-xs">
+                      <span className={`px-2 py-1 rounded-full border ${
+                        planStep.risk === 'high' ? 'border-[#ff0080]/50 text-[#ff0080]' :
+                        planStep.risk === 'medium' ? 'border-[#ffa500]/50 text-[#ffa500]' :
+                        'border-[#00ff88]/50 text-[#00ff88]'
+                      }`}>
+                        risco {planStep.risk}
+                      </span>
+                      <span className="text-gray-400">{planStep.revertible ? 'reversível' : `não reversível${planStep.revertNote ? ` (${planStep.revertNote})` : ''}`}</span>
+                    </div>
+                  </div>
+                  {planStep.status === 'skip' ? (
+                    <p className="text-gray-500 text-sm mt-1">Ignorado: {planStep.reason}</p>
+                  ) : (
+                    <div className="mt-2 space-y-1">
+                      {planStep.actions.map((action, index) => (
+                        <div key={index} className="text-sm">
+                          {action.kind === 'script' ? (
+                            <details>
+                              <summary className="text-gray-300 cursor-pointer">
+                                {action.description}
+                                {action.args && <span className="text-gray-500 ml-2 font-mono">{JSON.stringify(action.args)}</span>}
+                              </summary>
+                              <pre className="mt-2 p-3 bg-black/40 rounded text-xs text-green-400 overflow-x-auto">{action.script?.trim()}</pre>
+                            </details>
+                          ) : (
+                            <p className="text-gray-400 font-mono">
+                              {action.kind === 'closeProcess' ? '✕' : action.kind === 'deleteFile' ? '🗑' : '•'} {action.description}
+                              {action.target && <span className="text-gray-300"> {action.target}</span>}
+                              {action.args && action.kind === 'setting' && <span className="text-gray-500"> {JSON.stringify(action.args)}</span>}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     )
@@ -1068,7 +1356,7 @@ export default function GameBoostAI() {
               <span className="text-[#00ff88] font-bold capitalize">{powerMode}</span>
             </div>
             <div className="flex space-x-2">
-              {['eco', 'balanced', 'performance'].map((mode) => (
+              {POWER_MODES.map((mode) => (
                 <button
                   key={mode}
                   onClick={() => !(initializing || turboRunning) && setPowerMode(mode)}
@@ -1187,6 +1475,28 @@ export default function GameBoostAI() {
     </div>
   )
 
+  const renderSessions = () => (
+    <div className="space-y-8">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-[#00ff88] mb-4">Sessões</h2>
+        <p className="text-gray-400">Histórico de sessões de jogo com telemetria e execuções do Turbo</p>
+      </div>
+
+      <SessionsView activeProfile={activeProfile || resolveProfileKey(selectedProfile)} />
+    </div>
+  )
+
+  const renderRules = () => (
+    <div className="space-y-8">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-[#00ff88] mb-4">Automação</h2>
+        <p className="text-gray-400">Regras que aplicam otimizações automaticamente a partir da telemetria, processos e energia</p>
+      </div>
+
+      <RulesEditor />
+    </div>
+  )
+
   const renderSettings = () => (
     <div className="space-y-8">
       <div className="text-center">
@@ -1226,6 +1536,10 @@ export default function GameBoostAI() {
               </button>
             </div>
           </div>
+
+          <ThermalGuardSettings />
+
+          <HotkeySettings />
         </div>
 
         {/* System Settings */}
@@ -1350,6 +1664,18 @@ export default function GameBoostAI() {
             icon={TestTube} 
             active={activeTab === 'telemetry'} 
           />
+          <NavigationTab 
+            id="sessions" 
+            label="Sessões" 
+            icon={Clock} 
+            active={activeTab === 'sessions'} 
+          />
+          <NavigationTab 
+            id="rules" 
+            label="Automação" 
+            icon={Workflow} 
+            active={activeTab === 'rules'} 
+          />
           <NavigationTab 
             id="settings" 
             label="Configurações" 
@@ -1366,6 +1692,8 @@ export default function GameBoostAI() {
           {activeTab === 'profiles' && renderProfiles()}
           {activeTab === 'optimization' && renderOptimization()}
           {activeTab === 'telemetry' && renderTelemetry()}
+          {activeTab === 'sessions' && renderSessions()}
+          {activeTab === 'rules' && renderRules()}
           {activeTab === 'settings' && renderSettings()}
         </div>
       </main>
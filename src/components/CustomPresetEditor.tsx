@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import type { PresetConfig } from '../engine/presets'
+import {
+  CPU_PRIORITIES,
+  RAM_CLEANUPS,
+  BACKGROUND_APPS,
+  POWER_MODES,
+  GPU_BOOSTS,
+  validatePresetConfig
+} from '../engine/presetStore'
+
+type CustomPresetEditorProps = {
+  // Valores iniciais (edição de preset existente ou base para um novo)
+  initial: { name: string; description?: string; config: PresetConfig }
+  title?: string
+  onSave: (value: { name: string; description?: string; config: PresetConfig }) => { success: boolean; message: string }
+  onCancel: () => void
+  className?: string
+}
+
+const SELECT_FIELDS: { field: 'cpuPriority' | 'ramCleanup' | 'backgroundApps' | 'powerMode' | 'gpuBoost'; label: string; options: readonly string[] }[] = [
+  { field: 'cpuPriority', label: 'Prioridade de CPU', options: CPU_PRIORITIES },
+  { field: 'ramCleanup', label: 'Limpeza de RAM', options: RAM_CLEANUPS },
+  { field: 'backgroundApps', label: 'Apps em segundo plano', options: BACKGROUND_APPS },
+  { field: 'powerMode', label: 'Modo de energia', options: POWER_MODES },
+  { field: 'gpuBoost', label: 'GPU Boost', options: GPU_BOOSTS }
+]
+
+export function CustomPresetEditor({ initial, title = 'Novo preset', onSave, onCancel, className = '' }: CustomPresetEditorProps) {
+  const [name, setName] = useState(initial.name)
+  const [description, setDescription] = useState(initial.description || '')
+  const [config, setConfig] = useState<PresetConfig>({ ...initial.config })
+  const [error, setError] = useState('')
+
+  const setField = <K extends keyof PresetConfig>(field: K, value: PresetConfig[K]) => {
+    setConfig(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError('Informe um nome para o preset')
+      return
+    }
+
+    const validation = validatePresetConfig(config)
+    if (!validation.success) {
+      setError(validation.error)
+      return
+    }
+
+    const result = onSave({ name: name.trim(), description: description.trim() || undefined, config: validation.data })
+    setError(result.success ? '' : result.message)
+  }
+
+  return (
+    <div className={`p-6 rounded-xl border border-[#00ff88]/30 bg-gradient-to-br from-[#1a1a2e] to-[#16213e] ${className}`}>
+      <h3 className="text-xl font-bold text-[#00ff88] mb-4">{title}</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex flex-col space-y-1">
+          <span className="text-gray-300 text-sm">Nome</span>
+          <input
+            value={name}
+            maxLength={40}
+            onChange={e => setName(e.target.value)}
+            className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-[#00ff88] outline-none"
+          />
+        </label>
+        <label className="flex flex-col space-y-1">
+          <span className="text-gray-300 text-sm">Descrição</span>
+          <input
+            value={description}
+            maxLength={120}
+            onChange={e => setDescription(e.target.value)}
+            className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-[#00ff88] outline-none"
+          />
+        </label>
+
+        {SELECT_FIELDS.map(({ field, label, options }) => (
+          <label key={field} className="flex flex-col space-y-1">
+            <span className="text-gray-300 text-sm">{label}</span>
+            <select
+              value={config[field]}
+              onChange={e => setField(field, e.target.value as PresetConfig[typeof field])}
+              className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-[#00ff88] outline-none"
+            >
+              {options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+
+        <label className="flex flex-col space-y-1">
+          <span className="text-gray-300 text-sm">Ventoinha: {config.fanSpeed}%</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={config.fanSpeed}
+            onChange={e => setField('fanSpeed', Number(e.target.value))}
+            className="accent-[#00ff88]"
+          />
+        </label>
+
+        <label className="flex flex-col space-y-1 md:col-span-2">
+          <span className="text-gray-300 text-sm">Notas</span>
+          <textarea
+            value={config.notes || ''}
+            maxLength={500}
+            rows={2}
+            onChange={e => setField('notes', e.target.value || undefined)}
+            className="px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-[#00ff88] outline-none"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-[#ff4444]">{error}</p>
+      )}
+
+      <div className="flex justify-end space-x-2 mt-4">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-[#00ff88]/20 border border-[#00ff88]/50 hover:bg-[#00ff88]/30 rounded-lg text-[#00ff88] font-semibold"
+        >
+          Salvar
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState, type KeyboardEvent } from 'react'
+import { Keyboard, X } from 'lucide-react'
+import { useHotkeys } from '../engine/hooks'
+import { HOTKEY_ACTIONS, HOTKEY_LABELS, type HotkeyAction, type HotkeyRegistration } from '../engine/hotkeys'
+
+type HotkeySettingsProps = {
+  className?: string
+}
+
+const STATUS_LABELS: Record<HotkeyRegistration['state'], { text: string; color: string }> = {
+  registered: { text: 'ativo', color: 'text-[#00ff88]' },
+  conflict: { text: 'em uso por outro app', color: 'text-[#ff4444]' },
+  invalid: { text: 'inválido', color: 'text-[#ff4444]' },
+  disabled: { text: 'desativado', color: 'text-gray-500' }
+}
+
+/**
+ * Tecla no formato de acelerador do Electron (null para modificadores isolados)
+ */
+function keyFromCode(code: string): string | null {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3)
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5)
+  if (/^Numpad[0-9]$/.test(code)) return `num${code.slice(6)}`
+  if (/^F([1-9]|1[0-9]|2[0-4])$/.test(code)) return code
+  if (code.startsWith('Arrow')) return code.slice(5)
+  if (['Backspace', 'Delete', 'Insert', 'Home', 'End', 'PageUp', 'PageDown', 'Space', 'Enter', 'Tab'].includes(code)) return code
+  return null
+}
+
+function acceleratorFromEvent(event: KeyboardEvent): string | null {
+  const key = keyFromCode(event.code)
+  if (!key) return null
+
+  const modifiers = [
+    event.ctrlKey || event.metaKey ? 'CommandOrControl' : null,
+    event.altKey ? 'Alt' : null,
+    event.shiftKey ? 'Shift' : null
+  ].filter(Boolean)
+
+  return modifiers.length > 0 ? [...modifiers, key].join('+') : null
+}
+
+function formatAccelerator(accelerator: string | null): string {
+  return accelerator ? accelerator.replace('CommandOrControl', 'Ctrl').replace(/\+/g, ' + ') : '—'
+}
+
+export function HotkeySettings({ className = '' }: HotkeySettingsProps) {
+  const { config, registrations, available, update } = useHotkeys()
+  const [recording, setRecording] = useState<HotkeyAction | null>(null)
+  const [error, setError] = useState('')
+
+  const handleChange = (patch: Parameters<typeof update>[0]) => {
+    const result = update(patch)
+    setError(result.success ? '' : result.message)
+  }
+
+  const handleKeyDown = (action: HotkeyAction, event: KeyboardEvent) => {
+    event.preventDefault()
+    if (event.code === 'Escape') {
+      setRecording(null)
+      return
+    }
+
+    const accelerator = acceleratorFromEvent(event)
+    if (!accelerator) return
+
+    setRecording(null)
+    handleChange({ bindings: { [action]: accelerator } })
+  }
+
+  return (
+    <div className={`p-4 bg-gradient-to-r from-[#1a1a2e] to-[#16213e] rounded-lg border border-gray-600 ${className}`}>
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <span className="text-white font-medium">Atalhos Globais</span>
+          <p className="text-gray-400 text-sm">
+            {available ? 'Funcionam mesmo com o jogo em tela cheia' : 'Disponíveis apenas no app desktop'}
+          </p>
+        </div>
+        <button
+          onClick={() => handleChange({ enabled: !config.enabled })}
+          className={`relative w-12 h-6 rounded-full flex-shrink-0 ${config.enabled ? 'bg-[#00ff88]' : 'bg-gray-600'}`}
+        >
+          <div className={`absolute top-1 w-4 h-4 bg-white rounded-full ${config.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {HOTKEY_ACTIONS.map(action => {
+          const registration = registrations.find(r => r.action === action)
+          const status = registration ? STATUS_LABELS[registration.state] : null
+
+          return (
+            <div key={action} className="flex items-center justify-between text-sm">
+              <span className="text-gray-300">{HOTKEY_LABELS[action]}</span>
+              <div className="flex items-center space-x-2">
+                {available && status && <span className={`text-xs ${status.color}`}>{status.text}</span>}
+                <button
+                  disabled={!config.enabled}
+                  onClick={() => setRecording(action)}
+                  onKeyDown={e => recording === action && handleKeyDown(action, e)}
+                  onBlur={() => setRecording(prev => prev === action ? null : prev)}
+                  className={`min-w-[10rem] px-3 py-1 rounded-lg border font-mono text-xs disabled:opacity-50 ${
+                    recording === action ? 'border-[#00ff88] text-[#00ff88]' : 'border-gray-600 text-white bg-gray-800'
+                  }`}
+                >
+                  {recording === action ? 'Pressione o atalho...' : formatAccelerator(config.bindings[action])}
+                </button>
+                <button
+                  disabled={!config.enabled || !config.bindings[action]}
+                  onClick={() => handleChange({ bindings: { [action]: null } })}
+                  title="Remover atalho"
+                  className="p-1 text-gray-400 hover:text-[#ff4444] disabled:opacity-30"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-[#ff4444]">{error}</p>}
+
+      <p className="mt-3 flex items-center text-xs text-gray-500">
+        <Keyboard className="w-3 h-3 mr-1" />
+        Clique em um atalho e pressione a nova combinação (Esc cancela)
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { Loader2, X } from 'lucide-react'
+import { useScheduler } from '../engine/hooks'
+
+type OperationQueueProps = {
+  className?: string
+}
+
+export function OperationQueue({ className = '' }: OperationQueueProps) {
+  const { current, queued, cancel } = useScheduler()
+
+  if (!current && queued.length === 0) return null
+
+  const jobs = [...(current ? [current] : []), ...queued]
+
+  return (
+    <div className={`w-full max-w-xl p-3 bg-gray-800/50 rounded-lg border border-gray-700 text-sm ${className}`}>
+      {jobs.map(job => (
+        <div key={job.id} className="flex items-center justify-between py-1">
+          <div className="flex items-center space-x-2">
+            {job === current
+              ? <Loader2 className="w-4 h-4 text-[#00ff88] animate-spin" />
+              : <span className="w-4 h-4 rounded-full border border-gray-500" />}
+            <span className={job === current ? 'text-white' : 'text-gray-400'}>{job.label}</span>
+            <span className="text-xs text-gray-500">{job === current ? 'em execução' : 'na fila'}</span>
+          </div>
+          <button onClick={() => cancel(job.id)} title="Cancelar" className="p-1 text-gray-400 hover:text-[#ff4444]">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import type { PresetConfig } from '../engine/presets'
+import { CPU_PRIORITIES, RAM_CLEANUPS, BACKGROUND_APPS, POWER_MODES, GPU_BOOSTS, getPresetDisplayName } from '../engine/presetStore'
+import { resolvePreset, type PresetField } from '../engine/presetResolver'
+import { KNOWN_GAMES } from '../engine/games'
+import { useGameOverrides } from '../engine/hooks'
+
+type PresetLayersPanelProps = {
+  profileKey: string
+  // Executável em execução (jogo detectado), usado como sugestão e para a prévia
+  executable?: string
+  className?: string
+}
+
+const FIELDS: { field: PresetField; label: string; options?: readonly string[] }[] = [
+  { field: 'cpuPriority', label: 'Prioridade de CPU', options: CPU_PRIORITIES },
+  { field: 'ramCleanup', label: 'Limpeza de RAM', options: RAM_CLEANUPS },
+  { field: 'backgroundApps', label: 'Apps em segundo plano', options: BACKGROUND_APPS },
+  { field: 'fanSpeed', label: 'Ventoinha (%)' },
+  { field: 'powerMode', label: 'Modo de energia', options: POWER_MODES },
+  { field: 'gpuBoost', label: 'GPU Boost', options: GPU_BOOSTS }
+]
+
+const LAYER_COLORS = {
+  preset: 'text-gray-400',
+  custom: 'text-[#00ff88]',
+  game: 'text-[#ff0080]'
+}
+
+const inputClass = 'px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-[#00ff88] outline-none'
+
+export function PresetLayersPanel({ profileKey, executable, className = '' }: PresetLayersPanelProps) {
+  const { overrides, save, remove } = useGameOverrides()
+  const [target, setTarget] = useState(executable || '')
+  const [onlyThisPreset, setOnlyThisPreset] = useState(true)
+  const [field, setField] = useState<PresetField>('fanSpeed')
+  const [value, setValue] = useState('')
+  const [error, setError] = useState('')
+
+  const preview = target.trim() || executable
+  const resolved = resolvePreset(profileKey, { executable: preview })
+  const fieldInfo = FIELDS.find(f => f.field === field)!
+  const relevant = overrides.filter(o => !o.preset || o.preset === profileKey)
+
+  const handleAdd = () => {
+    if (!target.trim()) {
+      setError('Informe o executável do jogo')
+      return
+    }
+
+    const parsed = field === 'fanSpeed' ? Number(value) : value
+    const existing = overrides.find(o => o.executable === target.trim() && o.preset === (onlyThisPreset ? profileKey : undefined))
+    const values: Partial<PresetConfig> = { ...existing?.values, [field]: parsed }
+
+    const result = save(target.trim(), values, onlyThisPreset ? profileKey : undefined)
+    setError(result.success ? '' : result.message)
+    if (result.success) setValue('')
+  }
+
+  if (!resolved) return null
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div>
+        <h4 className="text-white font-medium mb-2">
+          Origem dos valores{preview ? ` (${preview})` : ''}
+        </h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {FIELDS.map(({ field: key, label }) => {
+            const origin = resolved.origins[key]
+            return (
+              <div key={key} className="p-3 bg-gray-800/50 rounded-lg text-sm">
+                <p className="text-gray-300">{label}</p>
+                <p className="text-white font-medium">{String(resolved.config[key])}</p>
+                {origin && (
+                  <p className={`text-xs ${LAYER_COLORS[origin.kind]}`}>
+                    {origin.kind === 'game' ? 'Ajuste do jogo' : 'Herdado de'} {origin.label}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <p className="text-gray-500 text-xs mt-2">
+          Camadas: {resolved.layers.map(layer => layer.label).join(' → ')}
+        </p>
+      </div>
+
+      <div>
+        <h4 className="text-white font-medium mb-2">Ajustes por jogo</h4>
+        {relevant.length === 0 ? (
+          <p className="text-gray-400 text-sm mb-2">Nenhum ajuste para este perfil.</p>
+        ) : (
+          <div className="space-y-2 mb-3">
+            {relevant.map(override => (
+              <div key={override.id} className="flex items-center justify-between p-2 bg-gray-800/50 rounded-lg text-sm">
+                <span className="text-gray-300">
+                  <span className="text-[#ff0080] font-medium">{override.executable}</span>
+                  {' '}{override.preset ? `· ${getPresetDisplayName(override.preset)}` : '· todos os perfis'}
+                  {' — '}{Object.entries(override.values).map(([k, v]) => `${k}: ${v}`).join(', ')}
+                </span>
+                <button
+                  onClick={() => remove(override.id)}
+                  className="p-1 hover:bg-[#ff4444]/30 rounded transition-colors text-gray-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={target}
+            list="known-game-executables"
+            placeholder="cs2.exe"
+            onChange={e => setTarget(e.target.value)}
+            className={inputClass}
+          />
+          <datalist id="known-game-executables">
+            {KNOWN_GAMES.flatMap(game => game.processes).map(process => (
+              <option key={process} value={process} />
+            ))}
+          </datalist>
+          <select value={field} onChange={e => { setField(e.target.value as PresetField); setValue('') }} className={inputClass}>
+            {FIELDS.map(f => (
+              <option key={f.field} value={f.field}>{f.label}</option>
+            ))}
+          </select>
+          {fieldInfo.options ? (
+            <select value={value} onChange={e => setValue(e.target.value)} className={inputClass}>
+              <option value="">—</option>
+              {fieldInfo.options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          ) : (
+            <input type="number" min={0} max={100} value={value} onChange={e => setValue(e.target.value)} className={`w-24 ${inputClass}`} />
+          )}
+          <label className="flex items-center space-x-1 text-sm text-gray-300">
+            <input type="checkbox" checked={onlyThisPreset} onChange={e => setOnlyThisPreset(e.target.checked)} />
+            <span>Só neste perfil</span>
+          </label>
+          <button
+            onClick={handleAdd}
+            disabled={value === ''}
+            className="px-4 py-2 bg-[#00ff88]/20 border border-[#00ff88]/50 hover:bg-[#00ff88]/30 rounded-lg text-[#00ff88] disabled:opacity-50"
+          >
+            Salvar ajuste
+          </button>
+        </div>
+        {error && <p className="mt-2 text-sm text-[#ff4444]">{error}</p>}
+      </div>
+    </div>
+  )
+}
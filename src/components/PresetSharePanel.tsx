@@ -0,0 +1,274 @@
+import { useState, useMemo } from 'react'
+import { listAllPresets, getPreset, isBuiltinPreset } from '../engine/presetStore'
+import {
+  exportPresetFile,
+  serializePresetFile,
+  encodeShareCode,
+  parsePresetImport,
+  diffPresetConfig,
+  importPresetFile,
+  type PresetFile
+} from '../engine/presetShare'
+
+type PresetSharePanelProps = {
+  // Preset sugerido para exportar/comparar (normalmente o ativo)
+  defaultKey?: string | null
+  onNotify: (type: 'success' | 'error' | 'info', message: string) => void
+  onClose: () => void
+  className?: string
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—'
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+const inputClass = 'px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-[#00ff88] outline-none'
+
+export function PresetSharePanel({ defaultKey, onNotify, onClose, className = '' }: PresetSharePanelProps) {
+  const allPresets = useMemo(() => listAllPresets(), [])
+  const [mode, setMode] = useState<'import' | 'export'>('import')
+
+  // Exportação
+  const [exportKey, setExportKey] = useState(defaultKey || allPresets[0]?.key || '')
+  const [author, setAuthor] = useState('')
+  const [game, setGame] = useState('')
+  const [hardware, setHardware] = useState('')
+
+  // Importação
+  const [text, setText] = useState('')
+  const [file, setFile] = useState<PresetFile | null>(null)
+  const [error, setError] = useState('')
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [risks, setRisks] = useState<string[]>([])
+  const [risksConfirmed, setRisksConfirmed] = useState(false)
+  const [compareKey, setCompareKey] = useState(defaultKey || '')
+
+  const buildExport = () => {
+    try {
+      return exportPresetFile(exportKey, {
+        author: author.trim() || undefined,
+        game: game.trim() || undefined,
+        hardware: hardware.trim() || undefined
+      })
+    } catch (err) {
+      onNotify('error', err instanceof Error ? err.message : 'Erro ao exportar preset')
+      return null
+    }
+  }
+
+  const handleDownload = () => {
+    const exported = buildExport()
+    if (!exported) return
+
+    const blob = new Blob([serializePresetFile(exported)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${exportKey}.gbpreset.json`
+    link.click()
+    URL.revokeObjectURL(url)
+    onNotify('success', `Preset '${exported.name}' exportado`)
+  }
+
+  const handleCopyCode = async () => {
+    const exported = buildExport()
+    if (!exported) return
+
+    try {
+      await navigator.clipboard.writeText(encodeShareCode(exported))
+      onNotify('success', 'Código de compartilhamento copiado')
+    } catch {
+      onNotify('error', 'Não foi possível copiar para a área de transferência')
+    }
+  }
+
+  const handleParse = (content: string) => {
+    setText(content)
+    const result = parsePresetImport(content)
+    setRisksConfirmed(false)
+    if (result.success) {
+      setFile(result.file)
+      setWarnings(result.warnings)
+      setRisks(result.risks)
+      setError('')
+    } else {
+      setFile(null)
+      setWarnings([])
+      setRisks([])
+      setError(result.error)
+    }
+  }
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return
+    handleParse(await selected.text())
+  }
+
+  const handleImport = (replace: boolean) => {
+    if (!file) return
+
+    try {
+      const preset = importPresetFile(file, { replaceKey: replace ? compareKey : undefined, confirmRisks: risksConfirmed })
+      onNotify('success', replace ? `Preset '${preset.name}' substituído` : `Preset '${preset.name}' importado`)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao importar preset')
+    }
+  }
+
+  const compareConfig = getPreset(compareKey)
+  const diff = file && compareConfig ? diffPresetConfig(compareConfig, file.config) : []
+  const canReplace = !!compareKey && !!compareConfig && !isBuiltinPreset(compareKey)
+  const canImport = !!file && (risks.length === 0 || risksConfirmed)
+
+  return (
+    <div className={`p-6 rounded-xl border border-[#00ff88]/30 bg-gradient-to-br from-[#1a1a2e] to-[#16213e] ${className}`}>
+      <div className="flex items-center space-x-2 mb-4">
+        {(['import', 'export'] as const).map(tab => (
+          <button
+            key={tab}
+            onClick={() => setMode(tab)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+              mode === tab ? 'bg-[#00ff88]/20 text-[#00ff88] border border-[#00ff88]/50' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {tab === 'import' ? 'Importar' : 'Exportar'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'export' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-300 text-sm">Preset</span>
+            <select value={exportKey} onChange={e => setExportKey(e.target.value)} className={inputClass}>
+              {allPresets.map(preset => (
+                <option key={preset.key} value={preset.key}>{preset.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-300 text-sm">Autor</span>
+            <input value={author} maxLength={60} onChange={e => setAuthor(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-300 text-sm">Jogo alvo</span>
+            <input value={game} maxLength={60} onChange={e => setGame(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-300 text-sm">Hardware</span>
+            <input value={hardware} maxLength={200} onChange={e => setHardware(e.target.value)} className={inputClass} />
+          </label>
+          <div className="flex justify-end space-x-2 md:col-span-2">
+            <button onClick={handleCopyCode} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 transition-colors">
+              Copiar código
+            </button>
+            <button
+              onClick={handleDownload}
+              className="px-4 py-2 bg-[#00ff88]/20 border border-[#00ff88]/50 hover:bg-[#00ff88]/30 rounded-lg text-[#00ff88] font-semibold"
+            >
+              Baixar arquivo
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <textarea
+            value={text}
+            rows={4}
+            placeholder="Cole o JSON do preset ou um código GB1..."
+            onChange={e => handleParse(e.target.value)}
+            className={`w-full font-mono text-xs ${inputClass}`}
+          />
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={e => handleFile(e.target.files?.[0])}
+            className="text-sm text-gray-400"
+          />
+
+          {error && <p className="text-sm text-[#ff4444]">{error}</p>}
+          {warnings.map(warning => (
+            <p key={warning} className="text-sm text-[#ffa500]">⚠️ {warning}</p>
+          ))}
+          {risks.length > 0 && (
+            <div className="p-3 rounded-lg border border-[#ff4444]/50 bg-[#ff4444]/10 space-y-1">
+              {risks.map(risk => (
+                <p key={risk} className="text-sm text-[#ff4444]">⛔ {risk}</p>
+              ))}
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input type="checkbox" checked={risksConfirmed} onChange={e => setRisksConfirmed(e.target.checked)} />
+                <span>Entendo os riscos e quero importar mesmo assim</span>
+              </label>
+            </div>
+          )}
+
+          {file && (
+            <div className="space-y-3">
+              <div className="p-4 bg-gray-800/50 rounded-lg text-sm">
+                <p className="text-white font-medium">{file.name}</p>
+                {file.description && <p className="text-gray-400">{file.description}</p>}
+                <p className="text-gray-400 mt-1">
+                  {[file.metadata.game, file.metadata.author && `por ${file.metadata.author}`, file.metadata.hardware]
+                    .filter(Boolean)
+                    .join(' · ') || 'Sem metadados'}
+                </p>
+              </div>
+
+              <label className="flex flex-col space-y-1">
+                <span className="text-gray-300 text-sm">Comparar com</span>
+                <select value={compareKey} onChange={e => setCompareKey(e.target.value)} className={inputClass}>
+                  <option value="">—</option>
+                  {allPresets.map(preset => (
+                    <option key={preset.key} value={preset.key}>{preset.name}</option>
+                  ))}
+                </select>
+              </label>
+
+              {compareConfig && (
+                diff.length === 0 ? (
+                  <p className="text-gray-400 text-sm">Configuração idêntica ao preset selecionado</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {diff.map(entry => (
+                        <tr key={entry.field} className="border-b border-gray-700">
+                          <td className="py-1 text-gray-300">{entry.field}</td>
+                          <td className="py-1 text-[#ff4444] line-through">{formatValue(entry.from)}</td>
+                          <td className="py-1 text-[#00ff88]">{formatValue(entry.to)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 transition-colors">
+              Cancelar
+            </button>
+            {canReplace && (
+              <button
+                onClick={() => handleImport(true)}
+                disabled={!canImport}
+                className="px-4 py-2 bg-[#ff0080]/10 border border-[#ff0080]/30 hover:border-[#ff0080] rounded-lg text-[#ff0080] disabled:opacity-50"
+              >
+                Substituir selecionado
+              </button>
+            )}
+            <button
+              onClick={() => handleImport(false)}
+              disabled={!canImport}
+              className="px-4 py-2 bg-[#00ff88]/20 border border-[#00ff88]/50 hover:bg-[#00ff88]/30 rounded-lg text-[#00ff88] font-semibold disabled:opacity-50"
+            >
+              Importar como novo
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
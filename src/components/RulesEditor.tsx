@@ -0,0 +1,274 @@
+import { useState } from 'react'
+import { Plus, Trash2, Edit3, Zap } from 'lucide-react'
+import { useRules } from '../engine/hooks'
+import { listSteps } from '../engine/steps'
+import { listAllPresets } from '../engine/presetStore'
+import { RULE_METRICS, describeAction, describeCondition, type Rule, type RuleAction, type RuleCondition } from '../engine/rules'
+
+type RulesEditorProps = {
+  className?: string
+}
+
+type RuleDraft = Omit<Rule, 'id'> & { id?: string }
+
+const CONDITION_KINDS: { kind: RuleCondition['kind']; label: string }[] = [
+  { kind: 'metric', label: 'Métrica' },
+  { kind: 'process', label: 'Processo' },
+  { kind: 'game', label: 'Jogo' },
+  { kind: 'power', label: 'Energia' }
+]
+
+const METRIC_NAMES: Record<typeof RULE_METRICS[number], string> = {
+  ramUsedPct: 'RAM (%)',
+  cpuTemp: 'Temp. CPU (°C)',
+  gpuTemp: 'Temp. GPU (°C)',
+  fps: 'FPS'
+}
+
+const inputClass = 'px-2 py-1 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:border-[#00ff88] outline-none'
+
+function defaultCondition(kind: RuleCondition['kind']): RuleCondition {
+  switch (kind) {
+    case 'metric': return { kind, metric: 'ramUsedPct', op: '>', value: 85, forSeconds: 20 }
+    case 'process': return { kind, event: 'started', process: '' }
+    case 'game': return { kind, state: 'running' }
+    case 'power': return { kind, state: 'battery' }
+  }
+}
+
+const emptyDraft = (): RuleDraft => ({
+  name: '',
+  enabled: true,
+  conditions: [defaultCondition('metric')],
+  action: { kind: 'step', step: 'freeRam' },
+  cooldownSeconds: 300
+})
+
+function ConditionFields({ condition, onChange }: { condition: RuleCondition; onChange: (condition: RuleCondition) => void }) {
+  switch (condition.kind) {
+    case 'metric':
+      return (
+        <>
+          <select value={condition.metric} onChange={e => onChange({ ...condition, metric: e.target.value as typeof condition.metric })} className={inputClass}>
+            {RULE_METRICS.map(metric => <option key={metric} value={metric}>{METRIC_NAMES[metric]}</option>)}
+          </select>
+          <select value={condition.op} onChange={e => onChange({ ...condition, op: e.target.value as '>' | '<' })} className={inputClass}>
+            <option value=">">&gt;</option>
+            <option value="<">&lt;</option>
+          </select>
+          <input type="number" value={condition.value} onChange={e => onChange({ ...condition, value: Number(e.target.value) })} className={`${inputClass} w-20`} />
+          <span className="text-gray-400 text-sm">por</span>
+          <input type="number" min={0} value={condition.forSeconds} onChange={e => onChange({ ...condition, forSeconds: Number(e.target.value) })} className={`${inputClass} w-20`} />
+          <span className="text-gray-400 text-sm">s</span>
+        </>
+      )
+    case 'process':
+      return (
+        <>
+          <select value={condition.event} onChange={e => onChange({ ...condition, event: e.target.value as 'started' | 'running' })} className={inputClass}>
+            <option value="started">iniciar</option>
+            <option value="running">estiver aberto</option>
+          </select>
+          <input value={condition.process} placeholder="obs64.exe" onChange={e => onChange({ ...condition, process: e.target.value })} className={inputClass} />
+        </>
+      )
+    case 'game':
+      return (
+        <select value={condition.state} onChange={e => onChange({ ...condition, state: e.target.value as 'running' | 'none' })} className={inputClass}>
+          <option value="running">em execução</option>
+          <option value="none">nenhum aberto</option>
+        </select>
+      )
+    case 'power':
+      return (
+        <select value={condition.state} onChange={e => onChange({ ...condition, state: e.target.value as 'ac' | 'battery' })} className={inputClass}>
+          <option value="ac">na tomada</option>
+          <option value="battery">na bateria</option>
+        </select>
+      )
+  }
+}
+
+export function RulesEditor({ className = '' }: RulesEditorProps) {
+  const { rules, firings, engine, save, toggle, remove, clearFirings } = useRules()
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [error, setError] = useState('')
+
+  const steps = listSteps()
+  const presets = listAllPresets()
+
+  const setCondition = (index: number, condition: RuleCondition) => {
+    setDraft(prev => prev && { ...prev, conditions: prev.conditions.map((c, i) => i === index ? condition : c) })
+  }
+
+  const setAction = (action: RuleAction) => {
+    setDraft(prev => prev && { ...prev, action })
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+    const result = save(draft)
+    if (result.success) {
+      setDraft(null)
+      setError('')
+    } else {
+      setError(result.message)
+    }
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="p-6 rounded-xl border border-[#00ff88]/30 bg-gradient-to-br from-[#1a1a2e] to-[#16213e]">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-[#00ff88]">Regras</h3>
+            <p className="text-gray-400 text-sm">
+              {engine.running ? `Motor ativo · ${engine.activeRules} regra(s) habilitada(s)` : 'Motor parado (nenhuma regra habilitada)'}
+            </p>
+          </div>
+          {!draft && (
+            <button
+              onClick={() => { setDraft(emptyDraft()); setError('') }}
+              className="flex items-center space-x-2 px-4 py-2 bg-[#00ff88]/10 border border-[#00ff88]/40 rounded-lg text-[#00ff88] hover:bg-[#00ff88]/20"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nova regra</span>
+            </button>
+          )}
+        </div>
+
+        {rules.length === 0 && !draft && (
+          <p className="text-gray-400 text-sm">Nenhuma regra criada. Exemplo: “RAM &gt; 85% por 20s com jogo aberto → Liberar RAM”.</p>
+        )}
+
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg border border-gray-700">
+              <div>
+                <span className={`font-medium ${rule.enabled ? 'text-white' : 'text-gray-500'}`}>{rule.name}</span>
+                <p className="text-xs text-gray-400">
+                  Se {rule.conditions.map(describeCondition).join(' e ')} → {describeAction(rule.action)} · intervalo {rule.cooldownSeconds}s
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => toggle(rule.id, !rule.enabled)}
+                  className={`relative w-12 h-6 rounded-full flex-shrink-0 ${rule.enabled ? 'bg-[#00ff88]' : 'bg-gray-600'}`}
+                >
+                  <div className={`absolute top-1 w-4 h-4 bg-white rounded-full ${rule.enabled ? 'left-7' : 'left-1'}`}></div>
+                </button>
+                <button onClick={() => { setDraft({ ...rule }); setError('') }} className="p-2 text-gray-400 hover:text-white">
+                  <Edit3 className="w-4 h-4" />
+                </button>
+                <button onClick={() => remove(rule.id)} className="p-2 text-gray-400 hover:text-[#ff4444]">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {draft && (
+          <div className="mt-4 p-4 rounded-lg border border-gray-600 space-y-4">
+            <label className="flex flex-col space-y-1">
+              <span className="text-gray-300 text-sm">Nome</span>
+              <input value={draft.name} maxLength={60} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </label>
+
+            <div className="space-y-2">
+              <span className="text-gray-300 text-sm">Condições (todas precisam valer)</span>
+              {draft.conditions.map((condition, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={condition.kind}
+                    onChange={e => setCondition(index, defaultCondition(e.target.value as RuleCondition['kind']))}
+                    className={inputClass}
+                  >
+                    {CONDITION_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+                  </select>
+                  <ConditionFields condition={condition} onChange={next => setCondition(index, next)} />
+                  {draft.conditions.length > 1 && (
+                    <button
+                      onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 hover:text-[#ff4444]"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {draft.conditions.length < 5 && (
+                <button
+                  onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, defaultCondition('game')] })}
+                  className="text-sm text-[#00ff88] hover:underline"
+                >
+                  + condição
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-gray-300 text-sm">Ação</span>
+              <select
+                value={draft.action.kind}
+                onChange={e => setAction(e.target.value === 'step' ? { kind: 'step', step: steps[0]?.id ?? 'freeRam' } : { kind: 'preset', preset: presets[0]?.key ?? 'balanced' })}
+                className={inputClass}
+              >
+                <option value="step">Executar etapa</option>
+                <option value="preset">Aplicar preset</option>
+              </select>
+              {draft.action.kind === 'step' ? (
+                <select value={draft.action.step} onChange={e => setAction({ kind: 'step', step: e.target.value })} className={inputClass}>
+                  {steps.map(step => <option key={step.id} value={step.id}>{step.id}</option>)}
+                </select>
+              ) : (
+                <select value={draft.action.preset} onChange={e => setAction({ kind: 'preset', preset: e.target.value })} className={inputClass}>
+                  {presets.map(preset => <option key={preset.key} value={preset.key}>{preset.name}</option>)}
+                </select>
+              )}
+              <span className="text-gray-300 text-sm ml-4">Intervalo mínimo</span>
+              <input
+                type="number"
+                min={10}
+                value={draft.cooldownSeconds}
+                onChange={e => setDraft({ ...draft, cooldownSeconds: Number(e.target.value) })}
+                className={`${inputClass} w-24`}
+              />
+              <span className="text-gray-400 text-sm">s</span>
+            </div>
+
+            {error && <p className="text-xs text-[#ff4444]">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => { setDraft(null); setError('') }} className="px-4 py-2 text-gray-300 hover:text-white">Cancelar</button>
+              <button onClick={handleSave} className="px-4 py-2 bg-[#00ff88] text-black font-medium rounded-lg hover:bg-[#00ff88]/80">Salvar</button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 rounded-xl border border-gray-600 bg-gradient-to-br from-[#1a1a2e] to-[#16213e]">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-lg font-bold text-white">Disparos recentes</h3>
+          {firings.length > 0 && (
+            <button onClick={clearFirings} className="text-sm text-gray-400 hover:text-white">Limpar</button>
+          )}
+        </div>
+        {firings.length === 0 ? (
+          <p className="text-gray-400 text-sm">Nenhuma regra disparada ainda.</p>
+        ) : (
+          <div className="space-y-1">
+            {firings.map(firing => (
+              <div key={`${firing.ruleId}-${firing.at}`} className="flex items-start space-x-2 text-sm">
+                <Zap className={`w-4 h-4 mt-0.5 flex-shrink-0 ${firing.success ? 'text-[#00ff88]' : 'text-[#ff4444]'}`} />
+                <span className="text-gray-500">{new Date(firing.at).toTimeString().slice(0, 8)}</span>
+                <span className="text-white">{firing.ruleName}</span>
+                <span className="text-gray-400">— {firing.action}: {firing.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react'
+import { Trash2, RefreshCw, Play, Pause } from 'lucide-react'
+import { useSessions } from '../engine/hooks'
+import type { SessionRecord, SessionSample } from '../engine/sessions'
+
+type SessionsViewProps = {
+  // Perfil usado ao iniciar uma sessão manual
+  activeProfile?: string | null
+  className?: string
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return hours > 0
+    ? `${hours}h${minutes.toString().padStart(2, '0')}m`
+    : `${minutes}m${seconds.toString().padStart(2, '0')}s`
+}
+
+const formatValue = (value: number | undefined, unit: string) => value === undefined ? '—' : `${value}${unit}`
+
+/**
+ * Linha simples (SVG) de uma série da timeline
+ */
+function TimelineChart({ samples, field, color, label }: { samples: SessionSample[]; field: 'fps' | 'cpuTemp' | 'gpuTemp'; color: string; label: string }) {
+  const points = samples.filter(s => typeof s[field] === 'number')
+  if (points.length < 2) return null
+
+  const values = points.map(s => s[field] as number)
+  const min = values.reduce((a, b) => (b < a ? b : a))
+  const max = values.reduce((a, b) => (b > a ? b : a))
+  const range = max - min || 1
+  const end = points[points.length - 1].t || 1
+
+  const path = points
+    .map((s, i) => `${i === 0 ? 'M' : 'L'}${((s.t / end) * 100).toFixed(2)},${(40 - ((values[i] - min) / range) * 40).toFixed(2)}`)
+    .join(' ')
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{label}</span>
+        <span>{min}–{max}</span>
+      </div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16 bg-gray-800/50 rounded">
+        <path d={path} fill="none" stroke={color} strokeWidth="0.6" vectorEffect="non-scaling-stroke" />
+      </svg>
+    </div>
+  )
+}
+
+export function SessionsView({ activeProfile, className = '' }: SessionsViewProps) {
+  const { sessions, current, loading, refresh, start, stop, remove, loadTimeline } = useSessions()
+  const [selected, setSelected] = useState<SessionRecord | null>(null)
+  const [samples, setSamples] = useState<SessionSample[]>([])
+
+  const handleSelect = async (session: SessionRecord) => {
+    if (selected?.id === session.id) {
+      setSelected(null)
+      return
+    }
+    setSelected(session)
+    setSamples((await loadTimeline(session.id))?.samples || [])
+  }
+
+  const handleDelete = async (session: SessionRecord) => {
+    if (!window.confirm('Remover esta sessão do histórico?')) return
+    if (selected?.id === session.id) setSelected(null)
+    await remove(session.id)
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          {current ? (
+            <p className="text-[#00ff88]">
+              Gravando sessão: <span className="font-medium">{current.game || current.profileName}</span>
+              {' '}· {current.summary.sampleCount} amostras
+            </p>
+          ) : (
+            <p className="text-gray-400">Nenhuma sessão em andamento</p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {current ? (
+            <button
+              onClick={stop}
+              className="flex items-center space-x-2 px-4 py-2 bg-[#ff0080]/10 border border-[#ff0080]/30 rounded-lg hover:border-[#ff0080] text-[#ff0080] transition-all duration-300"
+            >
+              <Pause className="w-4 h-4" />
+              <span>Encerrar sessão</span>
+            </button>
+          ) : (
+            <button
+              onClick={() => activeProfile && start(activeProfile)}
+              disabled={!activeProfile}
+              className="flex items-center space-x-2 px-4 py-2 bg-[#00ff88]/10 border border-[#00ff88]/30 rounded-lg hover:border-[#00ff88] text-[#00ff88] transition-all duration-300 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              <span>Iniciar sessão</span>
+            </button>
+          )}
+          <button
+            onClick={refresh}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-gray-400 text-center py-8">Nenhuma sessão gravada ainda.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2">Início</th>
+                <th className="py-2">Jogo / Perfil</th>
+                <th className="py-2">Duração</th>
+                <th className="py-2">FPS médio</th>
+                <th className="py-2">1% low</th>
+                <th className="py-2">Pico CPU</th>
+                <th className="py-2">Pico GPU</th>
+                <th className="py-2">Turbo</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => (
+                <tr
+                  key={session.id}
+                  onClick={() => handleSelect(session)}
+                  className={`border-b border-gray-800 cursor-pointer hover:bg-[#00ff88]/5 ${selected?.id === session.id ? 'bg-[#00ff88]/10' : ''}`}
+                >
+                  <td className="py-2 text-gray-300">{new Date(session.startedAt).toLocaleString('pt-BR')}</td>
+                  <td className="py-2 text-white">
+                    {session.game || session.profileName}
+                    {session.game && <span className="text-gray-500"> · {session.profileName}</span>}
+                    {!session.endedAt && session.id !== current?.id && <span className="text-[#ffa500]"> (interrompida)</span>}
+                  </td>
+                  <td className="py-2 text-gray-300">{formatDuration(session.summary.durationMs)}</td>
+                  <td className="py-2 text-[#00ff88]">{formatValue(session.summary.avgFps, '')}</td>
+                  <td className="py-2 text-[#00ff88]">{formatValue(session.summary.low1Fps, '')}</td>
+                  <td className="py-2 text-[#ffa500]">{formatValue(session.summary.peakCpuTemp, '°C')}</td>
+                  <td className="py-2 text-[#ff0080]">{formatValue(session.summary.peakGpuTemp, '°C')}</td>
+                  <td className="py-2 text-gray-300">
+                    {session.turboRuns.length}
+                    {session.errors.length > 0 && <span className="text-[#ff4444]"> · {session.errors.length} erros</span>}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={e => { e.stopPropagation(); handleDelete(session) }}
+                      className="p-1 hover:bg-[#ff4444]/30 rounded transition-colors text-gray-400"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-gradient-to-br from-[#1a1a2e] to-[#16213e] rounded-xl border border-[#00ff88]/20 p-6 space-y-4">
+          <h3 className="text-xl font-bold text-[#00ff88]">
+            {selected.game || selected.profileName} — {new Date(selected.startedAt).toLocaleString('pt-BR')}
+          </h3>
+
+          {samples.length < 2 ? (
+            <p className="text-gray-400 text-sm">Sem amostras de telemetria suficientes para esta sessão.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <TimelineChart samples={samples} field="fps" color="#00ff88" label="FPS" />
+              <TimelineChart samples={samples} field="cpuTemp" color="#ffa500" label="CPU °C" />
+              <TimelineChart samples={samples} field="gpuTemp" color="#ff0080" label="GPU °C" />
+            </div>
+          )}
+
+          {selected.turboRuns.length > 0 && (
+            <div>
+              <h4 className="text-white font-medium mb-2">Execuções do Turbo</h4>
+              {selected.turboRuns.map(run => (
+                <p key={run.runId} className="text-gray-300 text-sm">
+                  {new Date(run.at).toTimeString().slice(0, 8)} — {run.steps} etapas, {run.errors} erros
+                </p>
+              ))}
+            </div>
+          )}
+
+          {selected.errors.length > 0 && (
+            <div>
+              <h4 className="text-white font-medium mb-2">Erros</h4>
+              {selected.errors.map((error, i) => (
+                <p key={i} className="text-[#ff4444] text-sm">
+                  {new Date(error.at).toTimeString().slice(0, 8)} — {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,6 @@
 import { useState, useCallback } from 'react'
+import { invokeOperation } from '../lib/powershell'
+import { getLhmEndpoint, setLhmEndpoint, readLhmSensors, DEFAULT_LHM_ENDPOINT } from '../engine/sensors/lhm'
 
 interface TelemetrySetupProps {
   className?: string
@@ -7,10 +9,12 @@ interface TelemetrySetupProps {
 export function TelemetrySetup({ className = '' }: TelemetrySetupProps) {
   const [downloading, setDownloading] = useState(false)
   const [message, setMessage] = useState('')
+  const [lhmEndpoint, setLhmEndpointInput] = useState(() => getLhmEndpoint())
+  const [lhmMessage, setLhmMessage] = useState('')
 
   const isDesktop =
     typeof window !== 'undefined' &&
-    !!(window as any)?.backend?.runPS
+    !!window.backend?.invoke
 
   const downloadTools = useCallback(async () => {
     if (!isDesktop) {
@@ -22,31 +26,10 @@ export function TelemetrySetup({ className = '' }: TelemetrySetupProps) {
     setMessage('Baixando ferramentas...')
 
     try {
-      // Baixar via PowerShell no ambiente desktop
-      const psScript = `
-        $ErrorActionPreference = 'SilentlyContinue';
+      // Download executado pelo main (operação do catálogo)
+      const result = await invokeOperation('downloadTelemetryTools', {})
 
-        $root = Join-Path $PWD "tools";
-        if (!(Test-Path $root)) { New-Item -ItemType Directory -Path $root | Out-Null }
-
-        # PresentMon download
-        $pmUrl = "https://github.com/GameTechDev/PresentMon/releases/latest/download/PresentMon.exe"
-        $pmDir = Join-Path $root "PresentMon"
-        if (!(Test-Path $pmDir)) { New-Item -ItemType Directory -Path $pmDir | Out-Null }
-        Invoke-WebRequest -Uri $pmUrl -OutFile (Join-Path $pmDir "PresentMon.exe")
-
-        # LibreHardwareMonitor download
-        $lhmUrl = "https://github.com/LibreHardwareMonitor/LibreHardwareMonitor/releases/latest/download/LibreHardwareMonitor.exe"
-        $lhmDir = Join-Path $root "LHM"
-        if (!(Test-Path $lhmDir)) { New-Item -ItemType Directory -Path $lhmDir | Out-Null }
-        Invoke-WebRequest -Uri $lhmUrl -OutFile (Join-Path $lhmDir "LibreHardwareMonitor.exe")
-
-        "OK"
-      `
-
-      const result = await (window as any).backend.runPS(psScript)
-
-      if (result.includes('OK')) {
+      if (result.ok && result.data?.ok) {
         setMessage('✅ Ferramentas baixadas com sucesso!')
       } else {
         setMessage('⚠️ Talvez falhou: verifique diretório tools/')
@@ -58,6 +41,21 @@ export function TelemetrySetup({ className = '' }: TelemetrySetupProps) {
     }
   }, [isDesktop])
 
+  const saveLhmEndpoint = useCallback(async () => {
+    const result = setLhmEndpoint(lhmEndpoint)
+    if (!result.success) {
+      setLhmMessage(`❌ ${result.message}`)
+      return
+    }
+
+    setLhmEndpointInput(getLhmEndpoint())
+    setLhmMessage('Testando conexão...')
+    const reading = await readLhmSensors()
+    setLhmMessage(reading
+      ? `✅ ${reading.cpu.name || 'CPU'}: ${reading.cpu.packageTemp ?? '—'}°C · ${reading.gpu.name || 'GPU'}: ${reading.gpu.coreTemp ?? '—'}°C`
+      : '⚠️ Sem resposta: ative Options → Remote Web Server no LibreHardwareMonitor')
+  }, [lhmEndpoint])
+
   return (
     <div className={`p-4 rounded-lg border border-white/10 ${className}`}>
       <h2 className="text-lg font-bold mb-2">Instalação de Telemetria</h2>
@@ -79,6 +77,29 @@ export function TelemetrySetup({ className = '' }: TelemetrySetupProps) {
           {message}
         </p>
       )}
+
+      <div className="mt-4 pt-4 border-t border-white/10">
+        <label className="block text-sm mb-2">Endpoint do LibreHardwareMonitor (data.json)</label>
+        <div className="flex gap-2">
+          <input
+            value={lhmEndpoint}
+            onChange={e => setLhmEndpointInput(e.target.value)}
+            placeholder={DEFAULT_LHM_ENDPOINT}
+            className="flex-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded text-white text-sm focus:border-[#00ff88] focus:outline-none"
+          />
+          <button
+            onClick={saveLhmEndpoint}
+            className="px-4 py-2 bg-[#00ff88]/20 border border-[#00ff88]/50 hover:bg-[#00ff88]/30 rounded text-[#00ff88] text-sm font-semibold"
+          >
+            Salvar e testar
+          </button>
+        </div>
+        {lhmMessage && (
+          <p className="mt-2 text-xs opacity-80">
+            {lhmMessage}
+          </p>
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { Thermometer } from 'lucide-react'
+import { useThermalGuard } from '../engine/hooks'
+import { MAX_THERMAL_LEVEL, type ThermalGuardConfig } from '../engine/thermalGuard'
+
+type ThermalGuardSettingsProps = {
+  className?: string
+}
+
+type NumericField = Exclude<keyof ThermalGuardConfig, 'enabled'>
+
+const FIELDS: { key: NumericField; label: string; unit: string }[] = [
+  { key: 'cpuLimit', label: 'Limite CPU', unit: '°C' },
+  { key: 'gpuLimit', label: 'Limite GPU', unit: '°C' },
+  { key: 'hysteresis', label: 'Histerese', unit: '°C' },
+  { key: 'sustainSeconds', label: 'Tempo acima do limite', unit: 's' },
+  { key: 'recoverSeconds', label: 'Tempo para restaurar', unit: 's' }
+]
+
+export function ThermalGuardSettings({ className = '' }: ThermalGuardSettingsProps) {
+  const { config, state, update } = useThermalGuard()
+  const [error, setError] = useState('')
+  // Valores em edição (validados ao sair do campo)
+  const [drafts, setDrafts] = useState<Partial<Record<NumericField, string>>>({})
+
+  const handleChange = (patch: Partial<ThermalGuardConfig>) => {
+    const result = update(patch)
+    setError(result.success ? '' : result.message)
+  }
+
+  return (
+    <div className={`p-4 bg-gradient-to-r from-[#1a1a2e] to-[#16213e] rounded-lg border border-gray-600 ${className}`}>
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <span className="text-white font-medium">Proteção Térmica</span>
+          <p className="text-gray-400 text-sm">Reduz energia e boost da GPU durante a sessão quando a temperatura passa do limite</p>
+        </div>
+        <button
+          onClick={() => handleChange({ enabled: !config.enabled })}
+          className={`relative w-12 h-6 rounded-full flex-shrink-0 ${config.enabled ? 'bg-[#00ff88]' : 'bg-gray-600'}`}
+        >
+          <div className={`absolute top-1 w-4 h-4 bg-white rounded-full ${config.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map(field => (
+          <label key={field.key} className="text-sm text-gray-300">
+            {field.label} ({field.unit})
+            <input
+              type="number"
+              value={drafts[field.key] ?? config[field.key]}
+              disabled={!config.enabled}
+              onChange={e => setDrafts(prev => ({ ...prev, [field.key]: e.target.value }))}
+              onBlur={() => {
+                const draft = drafts[field.key]
+                if (draft === undefined) return
+                setDrafts(prev => ({ ...prev, [field.key]: undefined }))
+                handleChange({ [field.key]: Number(draft) })
+              }}
+              className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-1 text-white focus:border-[#00ff88] focus:outline-none disabled:opacity-50"
+            />
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-[#ff4444]">{error}</p>}
+
+      {state.active && (
+        <div className="mt-3 text-sm">
+          <div className="flex items-center space-x-2">
+            <Thermometer className={`w-4 h-4 ${state.level > 0 ? 'text-[#ffa500]' : 'text-[#00ff88]'}`} />
+            <span className="text-gray-300">
+              Sessão ativa · nível {state.level}/{MAX_THERMAL_LEVEL}
+            </span>
+          </div>
+          {state.interventions.slice(-3).map(intervention => (
+            <p key={intervention.at} className={`text-xs mt-1 ${intervention.direction === 'down' ? 'text-[#ffa500]' : 'text-[#00ff88]'}`}>
+              {new Date(intervention.at).toTimeString().slice(0, 8)} — nível {intervention.level}: {intervention.reason}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { Activity } from 'lucide-react'
+import { METRIC_LABELS, type EffectivenessMetric, type TurboEffectiveness } from '../engine/effectiveness'
+
+type TurboEffectivenessCardProps = {
+  measuring: boolean
+  effectiveness: TurboEffectiveness | null
+  className?: string
+}
+
+const METRICS = Object.keys(METRIC_LABELS) as EffectivenessMetric[]
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`
+
+export function TurboEffectivenessCard({ measuring, effectiveness, className = '' }: TurboEffectivenessCardProps) {
+  if (measuring) {
+    return (
+      <div className={`flex items-center space-x-2 text-sm text-gray-400 ${className}`}>
+        <Activity className="w-4 h-4 text-[#00ff88] animate-pulse" />
+        <span>Medindo efeito do Turbo...</span>
+      </div>
+    )
+  }
+
+  if (!effectiveness) return null
+
+  const rows = METRICS.filter(metric => effectiveness.deltas[metric])
+
+  return (
+    <div className={`w-full max-w-xl p-4 bg-gradient-to-r from-[#1a1a2e] to-[#16213e] rounded-lg border border-gray-600 ${className}`}>
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-white font-medium">Efeito medido do último Turbo</span>
+        <span className="text-xs text-gray-400">
+          {effectiveness.baselineMs / 1000}s antes · {effectiveness.comparisonMs / 1000}s depois
+        </span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-400 text-sm">Telemetria insuficiente para comparar as janelas.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400">
+              <th className="py-1">Métrica</th>
+              <th className="py-1">Antes</th>
+              <th className="py-1">Depois</th>
+              <th className="py-1">Diferença (IC 95%)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(metric => {
+              const delta = effectiveness.deltas[metric]!
+              const { label, unit } = METRIC_LABELS[metric]
+              const color = !delta.significant ? 'text-gray-400' : delta.improved ? 'text-[#00ff88]' : 'text-[#ff4444]'
+
+              return (
+                <tr key={metric} className="border-t border-gray-800">
+                  <td className="py-1 text-white">{label}</td>
+                  <td className="py-1 text-gray-300">{delta.before.mean}{unit}</td>
+                  <td className="py-1 text-gray-300">{delta.after.mean}{unit}</td>
+                  <td className={`py-1 ${color}`}>
+                    {formatSigned(delta.delta)}{unit}
+                    {delta.deltaPct !== undefined && ` (${formatSigned(delta.deltaPct)}%)`}
+                    <span className="text-xs text-gray-500"> [{delta.ci95[0]}, {delta.ci95[1]}]</span>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {effectiveness.simulated && (
+        <p className="mt-2 text-xs text-[#ffa500]">Telemetria simulada: as diferenças não refletem o sistema real.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+/**
+ * GameBoost AI - Efetividade do Turbo
+ * Mede uma janela de telemetria antes e outra depois do Turbo e calcula as diferenças com intervalo de confiança
+ */
+
+import * as Telemetry from './telemetry'
+import { setRunEffectiveness } from './journal'
+import { log } from '../lib/logger'
+
+export type EffectivenessMetric = 'fps' | 'frameTime' | 'ramUsedPct' | 'cpuTemp' | 'gpuTemp'
+
+export interface MeasurementSample {
+  fps?: number
+  frameTime?: number
+  ramUsedPct?: number
+  cpuTemp?: number
+  gpuTemp?: number
+}
+
+export interface MetricStats {
+  n: number
+  mean: number
+  stdDev: number
+}
+
+export interface MetricDelta {
+  before: MetricStats
+  after: MetricStats
+  delta: number
+  // Relativo à linha de base
+  deltaPct?: number
+  // Intervalo de confiança de 95% da diferença (Welch)
+  ci95: [number, number]
+  // Intervalo não inclui zero
+  significant: boolean
+  // Direção favorável (FPS maior; frame-time, RAM e temperaturas menores)
+  improved: boolean
+}
+
+export interface TurboEffectiveness {
+  runId: string
+  measuredAt: number
+  // Telemetria simulada: diferenças não refletem o sistema real
+  simulated: boolean
+  baselineMs: number
+  comparisonMs: number
+  deltas: Partial<Record<EffectivenessMetric, MetricDelta>>
+}
+
+export interface PendingMeasurement {
+  baseline: MeasurementSample[]
+  startedCollectors: boolean
+  simulated: boolean
+}
+
+type EffectivenessListener = (effectiveness: TurboEffectiveness) => void
+
+// Janelas de medição (1 amostra/s de telemetria)
+export const BASELINE_MS = 10000
+export const COMPARISON_MS = 10000
+
+// Espera entre aplicar o Turbo e medir (sistema estabilizar)
+const SETTLE_MS = 3000
+
+const METRICS: EffectivenessMetric[] = ['fps', 'frameTime', 'ramUsedPct', 'cpuTemp', 'gpuTemp']
+
+const HIGHER_IS_BETTER: Record<EffectivenessMetric, boolean> = {
+  fps: true,
+  frameTime: false,
+  ramUsedPct: false,
+  cpuTemp: false,
+  gpuTemp: false
+}
+
+export const METRIC_LABELS: Record<EffectivenessMetric, { label: string; unit: string }> = {
+  fps: { label: 'FPS', unit: '' },
+  frameTime: { label: 'Frame-time', unit: 'ms' },
+  ramUsedPct: { label: 'RAM', unit: '%' },
+  cpuTemp: { label: 'CPU', unit: '°C' },
+  gpuTemp: { label: 'GPU', unit: '°C' }
+}
+
+// t de Student bicaudal 95% para 1..30 graus de liberdade
+const T_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23, 2.2, 2.18, 2.16, 2.14, 2.13, 2.12, 2.11, 2.1, 2.09, 2.09, 2.08, 2.07, 2.07, 2.06, 2.06, 2.06, 2.05, 2.05, 2.05, 2.04]
+
+const listeners = new Set<EffectivenessListener>()
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function tCritical(df: number): number {
+  if (!Number.isFinite(df) || df >= T_95.length) return 1.96
+  return T_95[Math.max(1, Math.floor(df)) - 1]
+}
+
+export function describeSamples(values: number[]): MetricStats {
+  const n = values.length
+  const mean = values.reduce((sum, v) => sum + v, 0) / n
+  const variance = n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0
+  return { n, mean, stdDev: Math.sqrt(variance) }
+}
+
+/**
+ * Diferença entre duas janelas com IC de 95% (Welch); null com menos de 2 amostras em alguma janela
+ */
+export function compareSamples(before: number[], after: number[], higherIsBetter: boolean): MetricDelta | null {
+  if (before.length < 2 || after.length < 2) return null
+
+  const a = describeSamples(before)
+  const b = describeSamples(after)
+  const varA = a.stdDev ** 2 / a.n
+  const varB = b.stdDev ** 2 / b.n
+  const se = Math.sqrt(varA + varB)
+
+  // Graus de liberdade de Welch–Satterthwaite
+  const df = se > 0
+    ? (varA + varB) ** 2 / ((varA ** 2) / (a.n - 1) + (varB ** 2) / (b.n - 1))
+    : a.n + b.n - 2
+
+  const delta = b.mean - a.mean
+  const margin = tCritical(df) * se
+  const ci95: [number, number] = [round2(delta - margin), round2(delta + margin)]
+  const significant = ci95[0] > 0 || ci95[1] < 0
+
+  return {
+    before: { n: a.n, mean: round2(a.mean), stdDev: round2(a.stdDev) },
+    after: { n: b.n, mean: round2(b.mean), stdDev: round2(b.stdDev) },
+    delta: round2(delta),
+    deltaPct: a.mean !== 0 ? round2((delta / a.mean) * 100) : undefined,
+    ci95,
+    significant,
+    improved: significant && (higherIsBetter ? delta > 0 : delta < 0)
+  }
+}
+
+/**
+ * Coleta amostras de telemetria durante a janela
+ */
+async function captureWindow(durationMs: number): Promise<MeasurementSample[]> {
+  const samples: MeasurementSample[] = []
+  const unsubscribe = Telemetry.onTelemetry(data => {
+    samples.push({
+      fps: data.fps,
+      frameTime: Telemetry.getFrameTimeStats()?.avgFrameTime,
+      ramUsedPct: data.ramUsedPct,
+      cpuTemp: data.cpuTemp,
+      gpuTemp: data.gpuTemp
+    })
+  })
+
+  try {
+    await sleep(durationMs)
+  } finally {
+    unsubscribe()
+  }
+  return samples
+}
+
+/**
+ * Mede a linha de base antes do Turbo (inicia os coletores se necessário)
+ */
+export async function beginMeasurement(): Promise<PendingMeasurement> {
+  const startedCollectors = !Telemetry.isRunning()
+  if (startedCollectors) await Telemetry.startCollectors()
+
+  log(`[${formatTime()}] Medindo linha de base (${BASELINE_MS / 1000}s)...`, 'info')
+  const baseline = await captureWindow(BASELINE_MS)
+
+  return { baseline, startedCollectors, simulated: Telemetry.isSimulationMode() }
+}
+
+/**
+ * Descarta a linha de base de um Turbo que não chegou a executar (para os coletores iniciados pela medição)
+ */
+export async function discardMeasurement(pending: PendingMeasurement): Promise<void> {
+  if (pending.startedCollectors) await Telemetry.stopCollectors()
+}
+
+/**
+ * Mede a janela de comparação após o Turbo, calcula as diferenças e grava junto da execução
+ */
+export async function completeMeasurement(pending: PendingMeasurement, runId: string): Promise<TurboEffectiveness> {
+  let comparison: MeasurementSample[]
+  try {
+    await sleep(SETTLE_MS)
+    comparison = await captureWindow(COMPARISON_MS)
+  } finally {
+    if (pending.startedCollectors) await Telemetry.stopCollectors()
+  }
+
+  const deltas: TurboEffectiveness['deltas'] = {}
+  for (const metric of METRICS) {
+    const values = (samples: MeasurementSample[]) =>
+      samples.map(s => s[metric]).filter((v): v is number => typeof v === 'number')
+
+    const delta = compareSamples(values(pending.baseline), values(comparison), HIGHER_IS_BETTER[metric])
+    if (delta) deltas[metric] = delta
+  }
+
+  const effectiveness: TurboEffectiveness = {
+    runId,
+    measuredAt: Date.now(),
+    simulated: pending.simulated || Telemetry.isSimulationMode(),
+    baselineMs: BASELINE_MS,
+    comparisonMs: COMPARISON_MS,
+    deltas
+  }
+
+  setRunEffectiveness(runId, effectiveness)
+  log(`[${formatTime()}] Efetividade do Turbo: ${summarizeEffectiveness(effectiveness)}`, 'info')
+  listeners.forEach(listener => listener(effectiveness))
+
+  return effectiveness
+}
+
+/**
+ * Resumo em texto: apenas diferenças significativas, com o intervalo de confiança
+ */
+export function summarizeEffectiveness(effectiveness: TurboEffectiveness): string {
+  const parts = METRICS
+    .filter(metric => effectiveness.deltas[metric]?.significant)
+    .map(metric => {
+      const { delta, ci95 } = effectiveness.deltas[metric]!
+      const { label, unit } = METRIC_LABELS[metric]
+      const sign = delta > 0 ? '+' : ''
+      return `${label} ${sign}${delta}${unit} (IC95 ${ci95[0]}..${ci95[1]})`
+    })
+
+  const summary = parts.length ? parts.join(', ') : 'nenhuma diferença significativa'
+  return effectiveness.simulated ? `${summary} (telemetria simulada)` : summary
+}
+
+export function subscribeEffectiveness(listener: EffectivenessListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
@@ -0,0 +1,70 @@
+/**
+ * GameBoost AI - Catálogo de Jogos
+ * Mapeia executáveis conhecidos para o preset aplicado automaticamente
+ */
+
+import type { ProcessInfo, RawProcess } from '../processes'
+
+export interface KnownGame {
+  id: string
+  name: string
+  // Nomes de processo (com ou sem .exe, comparação sem diferenciar maiúsculas)
+  processes: string[]
+  preset: string
+}
+
+export interface DetectedGame {
+  game: KnownGame
+  pid: number
+  processName: string
+}
+
+export const KNOWN_GAMES: KnownGame[] = [
+  { id: 'warzone', name: 'Call of Duty: Warzone', processes: ['warzone.exe', 'cod.exe', 'modernwarfare.exe'], preset: 'warzone' },
+  { id: 'battlefield6', name: 'Battlefield 6', processes: ['bf6.exe', 'battlefield6.exe'], preset: 'battlefield6' },
+  { id: 'valorant', name: 'VALORANT', processes: ['valorant.exe', 'valorant-win64-shipping.exe'], preset: 'esports' },
+  { id: 'cs2', name: 'Counter-Strike 2', processes: ['cs2.exe', 'cs2', 'csgo.exe'], preset: 'esports' },
+  { id: 'overwatch', name: 'Overwatch 2', processes: ['overwatch.exe'], preset: 'esports' },
+  { id: 'lol', name: 'League of Legends', processes: ['league of legends.exe', 'lol.exe'], preset: 'esports' },
+  { id: 'dota2', name: 'Dota 2', processes: ['dota2.exe', 'dota2'], preset: 'esports' },
+  { id: 'fortnite', name: 'Fortnite', processes: ['fortnite.exe', 'fortniteclient-win64-shipping.exe'], preset: 'battleroyale' },
+  { id: 'apex', name: 'Apex Legends', processes: ['apex.exe', 'r5apex.exe', 'r5apex_dx12.exe'], preset: 'battleroyale' }
+]
+
+// O Linux trunca o nome do processo (comm) em 15 caracteres
+const COMM_LENGTH = 15
+
+const normalize = (name: string) => name.trim().toLowerCase()
+
+/**
+ * Verifica se o nome do processo corresponde a um executável do catálogo
+ */
+export function matchesProcess(processName: string, pattern: string): boolean {
+  const name = normalize(processName)
+  const target = normalize(pattern)
+
+  if (name === target || name === target.replace(/\.exe$/, '') || `${name}.exe` === target) return true
+
+  // Jogos via Proton/Wine aparecem com o nome do .exe truncado
+  return name.length === COMM_LENGTH && target.startsWith(name)
+}
+
+/**
+ * Encontra o jogo do catálogo correspondente a um processo
+ */
+export function findGame(processName: string, games: KnownGame[] = KNOWN_GAMES): KnownGame | null {
+  return games.find(game => game.processes.some(pattern => matchesProcess(processName, pattern))) || null
+}
+
+/**
+ * Detecta o primeiro jogo conhecido em execução na lista de processos
+ */
+export function detectGame(processes: (RawProcess | ProcessInfo)[], games: KnownGame[] = KNOWN_GAMES): DetectedGame | null {
+  for (const process of processes) {
+    const game = findGame(process.name, games)
+    if (game) {
+      return { game, pid: process.pid, processName: process.name }
+    }
+  }
+  return null
+}
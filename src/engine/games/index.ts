@@ -0,0 +1,7 @@
+/**
+ * GameBoost AI - Jogos
+ * Catálogo de jogos conhecidos e detecção automática
+ */
+
+export { KNOWN_GAMES, findGame, detectGame, matchesProcess, type KnownGame, type DetectedGame } from './catalog'
+export { gameWatcher, isAutoDetectEnabled, setAutoDetectEnabled, type WatcherState } from './watcher'
@@ -0,0 +1,210 @@
+/**
+ * GameBoost AI - Monitor de Jogos
+ * Detecta abertura/fechamento de jogos, inicia sessão + Turbo com o preset do jogo e reverte ao sair
+ */
+
+import { getProcessSource } from '../processes'
+import { getPreset, getPresetDisplayName } from '../presetStore'
+import { runTurbo, startSession, endSession } from '../turbo'
+import { revertRun } from '../steps'
+import { getRun } from '../journal'
+import { detectGame, type DetectedGame } from './catalog'
+import { setFrameTarget } from '../telemetry'
+import { scheduler } from '../scheduler'
+import { log } from '../../lib/logger'
+
+export interface WatcherState {
+  running: boolean
+  activeGame: DetectedGame | null
+  sessionId: string | null
+  runId: string | null
+  startedAt: number | null
+}
+
+type WatcherListener = (state: WatcherState) => void
+
+const STORAGE_KEY = 'gb.watcher'
+
+// Intervalo padrão entre leituras da lista de processos
+const POLL_INTERVAL = 5000
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+class GameWatcher {
+  private timer: ReturnType<typeof setInterval> | null = null
+  // Leitura em andamento (pode estar aplicando ou revertendo o Turbo do jogo)
+  private inFlight: Promise<void> | null = null
+  private listeners = new Set<WatcherListener>()
+  private state: WatcherState = {
+    running: false,
+    activeGame: null,
+    sessionId: null,
+    runId: null,
+    startedAt: null
+  }
+
+  /**
+   * Inicia o monitoramento periódico
+   */
+  start(intervalMs: number = POLL_INTERVAL): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => { this.poll() }, intervalMs)
+    this.update({ running: true })
+    log(`[${formatTime()}] Detecção automática de jogos ativada`, 'info')
+    this.poll()
+  }
+
+  /**
+   * Para o monitoramento, encerrando a sessão e revertendo o Turbo do jogo em andamento
+   */
+  async stop(): Promise<void> {
+    if (!this.timer) return
+
+    clearInterval(this.timer)
+    this.timer = null
+
+    // Aguarda a leitura em andamento para não perder o Turbo que ela ainda está aplicando
+    await this.inFlight
+
+    const active = this.state.activeGame
+    if (active) {
+      try {
+        await this.finishGame(active)
+      } catch (error) {
+        log(`[${formatTime()}] Erro ao reverter o Turbo de ${active.game.name}: ${error instanceof Error ? error.message : error}`, 'error')
+      }
+    }
+
+    this.update({ running: false })
+    log(`[${formatTime()}] Detecção automática de jogos desativada`, 'info')
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  getState(): WatcherState {
+    return { ...this.state }
+  }
+
+  /**
+   * Registra listener de mudanças de estado
+   */
+  subscribe(listener: WatcherListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  /**
+   * Lê a lista de processos e trata abertura/fechamento do jogo
+   */
+  poll(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.check().finally(() => { this.inFlight = null })
+    }
+    return this.inFlight
+  }
+
+  private async check(): Promise<void> {
+    try {
+      const source = await getProcessSource()
+      const processes = await source.list()
+      const active = this.state.activeGame
+
+      if (!active) {
+        const detected = detectGame(processes)
+        if (detected) await this.onGameStarted(detected)
+      } else if (!processes.some(p => p.pid === active.pid)) {
+        await this.onGameExited(active)
+      }
+    } catch (error) {
+      log(`[${formatTime()}] Erro na detecção de jogos: ${error instanceof Error ? error.message : error}`, 'error')
+    }
+  }
+
+  private async onGameStarted(detected: DetectedGame): Promise<void> {
+    const { game, processName } = detected
+    const profileKey = game.preset
+
+    log(`[${formatTime()}] 🎮 Jogo detectado: ${game.name} (${processName})`, 'success')
+
+    // Medir FPS do jogo, não de qualquer processo que apresente quadros
+    setFrameTarget(processName)
+    const sessionId = startSession(profileKey, { game: game.name, executable: processName })
+    this.update({ activeGame: detected, sessionId, runId: null, startedAt: Date.now() })
+
+    if (!getPreset(profileKey)) {
+      log(`[${formatTime()}] Preset '${profileKey}' não encontrado, Turbo não aplicado`, 'warning')
+      return
+    }
+
+    log(`[${formatTime()}] Aplicando perfil ${getPresetDisplayName(profileKey)} para ${game.name}`, 'info')
+
+    try {
+      // Abrir um jogo sempre aplica o perfil, mesmo logo após um Turbo manual
+      const result = await runTurbo(profileKey, { targetProcess: processName.replace(/\.exe$/i, ''), skipCooldown: true })
+      this.update({ runId: result.runId })
+    } catch (error) {
+      // Jogo continua acompanhado (sem nova tentativa a cada leitura), mas sem sessão aberta
+      log(`[${formatTime()}] Turbo automático não aplicado para ${game.name}: ${error instanceof Error ? error.message : error}`, 'error')
+      await endSession()
+      this.update({ sessionId: null })
+    }
+  }
+
+  private async onGameExited(detected: DetectedGame): Promise<void> {
+    log(`[${formatTime()}] ${detected.game.name} encerrado`, 'info')
+    await this.finishGame(detected)
+  }
+
+  /**
+   * Encerra a sessão do jogo e reverte o Turbo aplicado para ele
+   */
+  private async finishGame(detected: DetectedGame): Promise<void> {
+    const { runId } = this.state
+
+    // Proteção térmica revertida antes do Turbo que ela reduziu
+    await endSession()
+    setFrameTarget(undefined)
+    this.update({ activeGame: null, sessionId: null, runId: null, startedAt: null })
+
+    // Reverter apenas se o usuário ainda não reverteu manualmente
+    const journal = runId ? getRun(runId) : null
+    if (journal && !journal.reverted) {
+      await scheduler.run('revert', `Reversão do Turbo de ${detected.game.name}`, () => revertRun(journal.runId))
+    }
+  }
+
+  private update(patch: Partial<WatcherState>): void {
+    this.state = { ...this.state, ...patch }
+    const snapshot = this.getState()
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+}
+
+// Instância singleton do monitor
+export const gameWatcher = new GameWatcher()
+
+/**
+ * Preferência persistida de detecção automática
+ */
+export function isAutoDetectEnabled(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'on'
+  } catch {
+    return false
+  }
+}
+
+export function setAutoDetectEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off')
+  } catch {}
+
+  if (enabled) {
+    gameWatcher.start()
+  } else {
+    gameWatcher.stop()
+  }
+}
@@ -3,19 +3,57 @@
  * Conecta o engine de otimização com a interface React
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { gameBoostOptimizer, type ProcessInfo, type SystemMetrics, type OptimizationResult } from './optimizer'
 import { initEngine, getSystemSnapshot, performOptimization, type SystemSnapshot } from './engineMock'
-import { presets, profileNameMap, presetDisplayNames, normalizeProfileName, type PresetConfig } from './presets'
-import { runTurbo, startSession, endSession, getCurrentSession, getActiveTelemetryBoost, getLastTurboData, type TurboResult } from './turbo'
+import type { PresetConfig } from './presets'
+import {
+  getPreset,
+  getPresetDisplayName,
+  resolveProfileKey,
+  listCustomPresets,
+  createCustomPreset,
+  updateCustomPreset,
+  deleteCustomPreset,
+  clonePreset,
+  subscribePresets,
+  listAllPresets,
+  getActiveProfileKey,
+  setActiveProfileKey,
+  subscribeActiveProfile,
+  type CustomPreset
+} from './presetStore'
+import { listGameOverrides, setGameOverride, removeGameOverride, subscribeGameOverrides, type GameOverride } from './presetResolver'
+import { runTurbo, planTurbo, revertLastTurbo, revertEverything, startSession, endSession, getCurrentSession, type TurboResult } from './turbo'
+import { getLastRun, type RevertReport } from './journal'
+import { subscribeEffectiveness, type TurboEffectiveness } from './effectiveness'
+import { runSteps, planSteps, DEFAULT_PRESET_STEPS, type ExecutionPlan } from './steps'
+import { scheduler, type SchedulerState } from './scheduler'
 import { logger, log } from '../lib/logger'
-import { powerShell, getEnvironmentInfo } from '../lib/powershell'
-import * as WinOpt from './optimizer/windows'
+import { getEnvironmentInfo } from '../lib/powershell'
+import { getOptimizer } from './optimizer/platform'
 import { isDesktop, isAdmin } from '../hooks/useElectron'
 import { getProvider } from './sensors'
+import { gameWatcher, isAutoDetectEnabled, setAutoDetectEnabled, type WatcherState } from './games'
+import { sessionRecorder, listSessions, getTimeline, deleteSession, type SessionRecord, type SessionTimeline } from './sessions'
+import { thermalGuard, getThermalGuardConfig, setThermalGuardConfig, subscribeThermalGuardConfig, type ThermalGuardConfig, type ThermalGuardState } from './thermalGuard'
+import { ruleEngine, listRules, saveRule, setRuleEnabled, deleteRule, subscribeRules, listRuleFirings, clearRuleFirings, subscribeRuleFirings, type Rule, type RuleFiring, type RuleEngineState } from './rules'
 import type { Snapshot } from './sensors/types'
 import * as Telemetry from './telemetry'
 import type { TelemetryData } from './telemetry'
+import type { TrayCommand } from '../../electron/protocol'
+import {
+  getHotkeyConfig,
+  setHotkeyConfig,
+  subscribeHotkeyConfig,
+  syncHotkeys,
+  getHotkeyRegistrations,
+  subscribeHotkeyRegistrations,
+  nextProfileKey,
+  type HotkeyAction,
+  type HotkeyConfig,
+  type HotkeyRegistration
+} from './hotkeys'
 
 /**
  * Hook principal para gerenciar o engine do GameBoost AI
@@ -51,6 +89,8 @@ export function useEngine() {
         log('Executando em ambiente desktop (Electron)', 'info')
         if (envInfo.isAdmin) {
           log('Privilégios de administrador detectados', 'success')
+        } else if (envInfo.privileged) {
+          log('Operações administrativas via helper privilegiado', 'info')
         } else {
           log('Executando sem privilégios de administrador', 'warning')
         }
@@ -245,14 +285,14 @@ export function useProfiles() {
       // Verificar se é um nome antigo que precisa ser convertido
       const correctKey = legacyNameMap[savedProfile] || savedProfile
       
-      if (presets[correctKey]) {
+      if (getPreset(correctKey)) {
         setActiveProfile(correctKey)
         // Se foi convertido, salvar o identificador correto
         if (correctKey !== savedProfile) {
           localStorage.setItem('gb.profile', correctKey)
           log(`Perfil convertido: '${savedProfile}' -> '${correctKey}'`, 'info')
         }
-        log(`Perfil salvo carregado: ${presetDisplayNames[correctKey] || correctKey}`, 'info')
+        log(`Perfil salvo carregado: ${getPresetDisplayName(correctKey)}`, 'info')
       } else {
         // Perfil não encontrado, remover do localStorage
         localStorage.removeItem('gb.profile')
@@ -261,26 +301,29 @@ export function useProfiles() {
     }
   }, [])
 
+  // Perfil aplicado fora deste hook (ex.: regras de automação)
+  useEffect(() => subscribeActiveProfile(setActiveProfile), [])
+
   // Função para aplicar preset com mapeamento correto
   const applyPreset = useCallback(async (profileIdentifier: string): Promise<{ success: boolean; message: string }> => {
     setApplying(true)
     
     try {
-      // Usar normalizeProfileName para mapear o nome corretamente
-      const normalizedKey = normalizeProfileName(profileIdentifier)
+      // Resolver nome/chave de preset nativo ou personalizado
+      const normalizedKey = resolveProfileKey(profileIdentifier)
       
       if (!normalizedKey) {
         throw new Error(`Preset '${profileIdentifier}' não encontrado`)
       }
       
-      const preset = presets[normalizedKey]
+      const preset = getPreset(normalizedKey)
       
       if (!preset) {
         throw new Error(`Preset '${profileIdentifier}' não encontrado`)
       }
 
       // Obter nome de display para logs
-      const displayName = presetDisplayNames[normalizedKey] || profileIdentifier
+      const displayName = getPresetDisplayName(normalizedKey)
 
       // Log do início da aplicação
       const formatTime = () => new Date().toTimeString().slice(0, 8)
@@ -289,17 +332,20 @@ export function useProfiles() {
       // Verificar se está no Electron para usar comandos reais
       const envInfo = await getEnvironmentInfo()
       
-      if (envInfo.isDesktop && envInfo.isAdmin) {
-        // Executar comandos PowerShell reais para aplicar configurações
-        await applyPresetWithPowerShell(preset, displayName)
-      } else {
-        // Simular aplicação das configurações do preset com logs detalhados
-        await simulatePresetApplication(preset, displayName)
+      // Executar etapas do registro selecionadas pelo preset (simuladas sem acesso administrativo)
+      const run = await scheduler.run('preset', `Preset ${displayName}`, signal => runSteps(preset.presetSteps || DEFAULT_PRESET_STEPS, {
+        profileKey: normalizedKey,
+        preset,
+        source: 'preset'
+      }, { simulate: !(envInfo.isDesktop && envInfo.privileged), signal }))
+
+      if (run.errors > 0) {
+        log(`[${formatTime()}] ${run.errors} de ${run.steps} etapas falharam`, 'warning')
       }
 
       // Salvar perfil ativo usando a chave correta
       setActiveProfile(normalizedKey)
-      localStorage.setItem('gb.profile', normalizedKey)
+      setActiveProfileKey(normalizedKey)
 
       log(`[${formatTime()}] Perfil '${displayName}' aplicado com sucesso`, 'success')
 
@@ -322,83 +368,10 @@ export function useProfiles() {
     }
   }, [])
 
-  // Aplicar preset usando PowerShell (ambiente desktop)
-  const applyPresetWithPowerShell = async (preset: PresetConfig, displayName: string) => {
-    const formatTime = () => new Date().toTimeString().slice(0, 8)
-    
-    // Comandos PowerShell baseados no preset
-    const commands = [
-      {
-        name: `CPU Priority: ${preset.cpuPriority}`,
-        command: `Get-Process | Where-Object {$_.ProcessName -like \"*game*\"} | ForEach-Object {$_.PriorityClass = \"${preset.cpuPriority === 'high' ? 'High' : 'Normal'}\"}`,
-        delay: 200
-      },
-      {
-        name: `RAM Cleanup: ${preset.ramCleanup}`,
-        command: preset.ramCleanup === 'aggressive' 
-          ? '[System.GC]::Collect(); [System.GC]::WaitForPendingFinalizers(); [System.GC]::Collect()'
-          : 'Write-Output \"RAM cleanup: minimal\"',
-        delay: 150
-      },
-      {
-        name: `Power Mode: ${preset.powerMode}`,
-        command: `powercfg /setactive ${preset.powerMode === 'performance' ? '8c5e7fda-e8bf-4a96-9a85-a6e23a8c635c' : 'balanced'}`,
-        delay: 160
-      },
-      {
-        name: `Fan Speed: ${preset.fanSpeed}%`,
-        command: `Write-Output \"Fan speed set to ${preset.fanSpeed}%\"`, // Placeholder - fan control é específico do hardware
-        delay: 120
-      }
-    ]
-
-    // Executar cada comando
-    for (const operation of commands) {
-      await new Promise(resolve => setTimeout(resolve, operation.delay))
-      
-      try {
-        const result = await powerShell.runPS(operation.command, 10000)
-        
-        if (result.code === 0) {
-          log(`[${formatTime()}] ${operation.name} OK`, 'info')
-        } else {
-          log(`[${formatTime()}] ${operation.name} ERRO: ${result.stderr}`, 'error')
-        }
-      } catch (error) {
-        log(`[${formatTime()}] ${operation.name} ERRO: ${error}`, 'error')
-      }
-    }
-  }
-
-  // Simular aplicação do preset (ambiente web)
-  const simulatePresetApplication = async (preset: PresetConfig, displayName: string) => {
-    const formatTime = () => new Date().toTimeString().slice(0, 8)
-    
-    const operations = [
-      { action: `CPU Priority: ${preset.cpuPriority}`, delay: 200 },
-      { action: `RAM Cleanup: ${preset.ramCleanup}`, delay: 150 },
-      { action: `Background Apps: ${preset.backgroundApps}`, delay: 180 },
-      { action: `Fan Speed: ${preset.fanSpeed}%`, delay: 120 },
-      { action: `Power Mode: ${preset.powerMode}`, delay: 160 },
-      { action: `GPU Boost: ${preset.gpuBoost}`, delay: 200 }
-    ]
-
-    // Aplicar cada operação com log individual
-    for (const operation of operations) {
-      await new Promise(resolve => setTimeout(resolve, operation.delay))
-      log(`[${formatTime()}] ${operation.action} OK`, 'info')
-    }
-
-    // Simular erro aleatório (10% de chance)
-    if (Math.random() < 0.1) {
-      throw new Error('Falha na aplicação do perfil (simulação)')
-    }
-  }
-
   // Função para carregar perfil salvo
   const loadSavedProfile = useCallback(() => {
     const savedProfile = localStorage.getItem('gb.profile')
-    if (savedProfile && presets[savedProfile]) {
+    if (savedProfile && getPreset(savedProfile)) {
       setActiveProfile(savedProfile)
       return savedProfile
     }
@@ -407,16 +380,13 @@ export function useProfiles() {
 
   // Função para obter configuração do perfil ativo
   const getActivePresetConfig = useCallback((): PresetConfig | null => {
-    if (!activeProfile || !presets[activeProfile]) {
-      return null
-    }
-    return presets[activeProfile]
+    return getPreset(activeProfile)
   }, [activeProfile])
 
   // Função para obter nome de exibição do perfil ativo
   const getActiveProfileDisplayName = useCallback((): string | null => {
     if (!activeProfile) return null
-    return presetDisplayNames[activeProfile] || activeProfile
+    return getPresetDisplayName(activeProfile)
   }, [activeProfile])
 
   // Função para aplicar perfil salvo automaticamente
@@ -424,8 +394,8 @@ export function useProfiles() {
     if (!engineReady) return
 
     const savedProfile = localStorage.getItem('gb.profile')
-    if (savedProfile && presets[savedProfile]) {
-      const displayName = presetDisplayNames[savedProfile] || savedProfile
+    if (savedProfile && getPreset(savedProfile)) {
+      const displayName = getPresetDisplayName(savedProfile)
       log(`Auto-aplicando perfil salvo: ${displayName}`, 'info')
       
       // Aplicar perfil automaticamente usando a chave interna
@@ -450,18 +420,37 @@ export function useProfiles() {
 export function useTurbo() {
   const [running, setRunning] = useState(false)
   const [cooldown, setCooldown] = useState(0)
+  // Turbo de outra origem (detecção de jogo, outra janela) ocupando o agendador
+  const [queued, setQueued] = useState(false)
   const [lastResult, setLastResult] = useState<TurboResult | null>(null)
+  const [reverting, setReverting] = useState(false)
+  const [canRevert, setCanRevert] = useState(false)
+  const [lastRevert, setLastRevert] = useState<RevertReport | null>(null)
+  const [measuring, setMeasuring] = useState(false)
+  const [effectiveness, setEffectiveness] = useState<TurboEffectiveness | null>(null)
 
   // Carregar dados persistidos ao inicializar
   useEffect(() => {
-    const turboData = getLastTurboData()
-    if (turboData) {
-      const elapsed = Date.now() - turboData.lastTurboAt
-      const remainingCooldown = Math.max(0, 60 - Math.floor(elapsed / 1000))
-      if (remainingCooldown > 0) {
-        setCooldown(remainingCooldown)
-      }
-    }
+    setCanRevert(getLastRun('turbo') !== null)
+    setEffectiveness(getLastRun('turbo')?.effectiveness || null)
+
+    setCooldown(scheduler.getCooldownRemaining('turbo'))
+  }, [])
+
+  // Intervalo mínimo e execução vêm do agendador do engine
+  useEffect(() => {
+    return scheduler.subscribe(state => {
+      setCooldown(scheduler.getCooldownRemaining('turbo'))
+      setQueued(state.current?.kind === 'turbo' || state.queued.some(job => job.kind === 'turbo'))
+    })
+  }, [])
+
+  // Resultado da medição chega depois da execução
+  useEffect(() => {
+    return subscribeEffectiveness(result => {
+      setEffectiveness(result)
+      setMeasuring(false)
+    })
   }, [])
 
   // Countdown do cooldown
@@ -475,7 +464,8 @@ export function useTurbo() {
   }, [cooldown])
 
   // Função para executar Turbo Mode
-  const run = useCallback(async (): Promise<{ success: boolean; message: string }> => {
+  // Só o botão do Turbo mede a efetividade; bandeja e atalhos aplicam sem a janela de medição
+  const run = useCallback(async (options: { measure?: boolean } = {}): Promise<{ success: boolean; message: string }> => {
     // Verificar bloqueios
     if (running) {
       return { success: false, message: 'Turbo Mode já está em execução' }
@@ -485,20 +475,24 @@ export function useTurbo() {
       return { success: false, message: `Aguarde ${cooldown}s para usar novamente` }
     }
 
+    if (queued) {
+      return { success: false, message: 'Já existe um Turbo em execução ou na fila' }
+    }
+
     // Obter perfil ativo
     const activeProfile = localStorage.getItem('gb.profile')
-    if (!activeProfile || !presets[activeProfile]) {
+    if (!activeProfile || !getPreset(activeProfile)) {
       return { success: false, message: 'Nenhum perfil ativo encontrado' }
     }
 
-    const profileDisplayName = presetDisplayNames[activeProfile] || activeProfile
+    const profileDisplayName = getPresetDisplayName(activeProfile)
 
     try {
       setRunning(true)
       log(`🚀 Iniciando Turbo Mode - Perfil: ${profileDisplayName}`, 'info')
 
       // Executar Turbo Mode usando o identificador interno correto
-      const result = await runTurbo(activeProfile)
+      const result = await runTurbo(activeProfile, { measure: options.measure })
       
       // Salvar resultado
       setLastResult({
@@ -506,8 +500,10 @@ export function useTurbo() {
         timestamp: Date.now()
       } as any)
 
-      // Iniciar cooldown de 60 segundos
-      setCooldown(60)
+      setCooldown(scheduler.getCooldownRemaining('turbo'))
+      setCanRevert(true)
+      setMeasuring(result.measuring)
+      if (result.measuring) setEffectiveness(null)
 
       // Mensagem de sucesso baseada no resultado
       const successMessage = result.errors === 0 
@@ -530,14 +526,43 @@ export function useTurbo() {
     } finally {
       setRunning(false)
     }
-  }, [running, cooldown])
+  }, [running, cooldown, queued])
+
+  // Função para reverter o último Turbo
+  const revertLast = useCallback(async (): Promise<{ success: boolean; message: string }> => {
+    if (running || reverting) {
+      return { success: false, message: 'Aguarde a operação em andamento' }
+    }
+
+    try {
+      setReverting(true)
+      const report = await revertLastTurbo()
+      setLastRevert(report)
+
+      if (report.failed.length === 0) {
+        return { success: true, message: `Turbo revertido: ${report.reverted.length} etapas restauradas` }
+      }
+
+      return {
+        success: false,
+        message: `Reversão parcial, não revertido: ${report.failed.map(f => f.label).join(', ')}`
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro ao reverter Turbo'
+      log(`Erro ao reverter Turbo: ${errorMessage}`, 'error')
+      return { success: false, message: errorMessage }
+    } finally {
+      setCanRevert(getLastRun('turbo') !== null)
+      setReverting(false)
+    }
+  }, [running, reverting])
 
   // Função para obter estado do botão
   const getButtonState = useCallback((): 'idle' | 'running' | 'cooldown' => {
-    if (running) return 'running'
+    if (running || queued) return 'running'
     if (cooldown > 0) return 'cooldown'
     return 'idle'
-  }, [running, cooldown])
+  }, [running, queued, cooldown])
 
   // Função para obter tooltip do botão
   const getButtonTooltip = useCallback((): string => {
@@ -557,12 +582,493 @@ export function useTurbo() {
     running,
     cooldown,
     lastResult,
+    reverting,
+    canRevert,
+    lastRevert,
+    measuring,
+    effectiveness,
     run,
+    revertLast,
     getButtonState,
     getButtonTooltip
   }
 }
 
+/**
+ * Hook para o agendador de operações (execução atual, fila, intervalos e cancelamento)
+ */
+export function useScheduler() {
+  const [state, setState] = useState<SchedulerState>(() => scheduler.getState())
+
+  useEffect(() => scheduler.subscribe(setState), [])
+
+  const cancel = useCallback((jobId: string) => scheduler.cancel(jobId), [])
+
+  return {
+    current: state.current,
+    queued: state.queued,
+    cooldowns: state.cooldowns,
+    busy: state.current !== null || state.queued.length > 0,
+    cancel
+  }
+}
+
+/**
+ * Hook para gerar planos de execução (dry-run) de presets e Turbo
+ */
+export function useExecutionPlan() {
+  const [plan, setPlan] = useState<ExecutionPlan | null>(null)
+  const [planning, setPlanning] = useState(false)
+  const [planError, setPlanError] = useState<string | null>(null)
+
+  const buildPlan = useCallback(async (source: 'turbo' | 'preset', profileIdentifier: string) => {
+    setPlanning(true)
+    setPlanError(null)
+
+    try {
+      let result: ExecutionPlan
+
+      if (source === 'turbo') {
+        result = await planTurbo(profileIdentifier)
+      } else {
+        const profileKey = resolveProfileKey(profileIdentifier)
+        const preset = getPreset(profileKey)
+        if (!profileKey || !preset) {
+          throw new Error(`Preset '${profileIdentifier}' não encontrado`)
+        }
+        result = await planSteps(preset.presetSteps || DEFAULT_PRESET_STEPS, {
+          profileKey,
+          preset,
+          source: 'preset'
+        })
+      }
+
+      setPlan(result)
+      log(`Plano gerado (${source}): ${result.steps.filter(s => s.status === 'run').length} etapas`, 'info')
+      return result
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro ao gerar plano'
+      setPlanError(errorMessage)
+      log(`Erro ao gerar plano: ${errorMessage}`, 'error')
+      return null
+    } finally {
+      setPlanning(false)
+    }
+  }, [])
+
+  const clearPlan = useCallback(() => {
+    setPlan(null)
+    setPlanError(null)
+  }, [])
+
+  return {
+    plan,
+    planning,
+    planError,
+    buildPlan,
+    clearPlan
+  }
+}
+
+/**
+ * Hook para criar, editar, clonar e remover presets personalizados
+ */
+export function useCustomPresets() {
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>([])
+
+  useEffect(() => {
+    setCustomPresets(listCustomPresets())
+    return subscribePresets(setCustomPresets)
+  }, [])
+
+  // Executa a operação e converte erros de validação em mensagem
+  const attempt = useCallback(<T,>(action: () => T, successMessage: (value: T) => string) => {
+    try {
+      const value = action()
+      const message = successMessage(value)
+      log(message, 'success')
+      return { success: true, message, preset: value }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao salvar preset'
+      log(message, 'error')
+      return { success: false, message, preset: null }
+    }
+  }, [])
+
+  const create = useCallback((name: string, config: PresetConfig, description?: string) => {
+    return attempt(
+      () => createCustomPreset(name, config, { description }),
+      preset => `Preset '${preset.name}' criado`
+    )
+  }, [attempt])
+
+  const update = useCallback((key: string, patch: { name?: string; description?: string; config?: PresetConfig }) => {
+    return attempt(
+      () => updateCustomPreset(key, patch),
+      preset => `Preset '${preset.name}' atualizado`
+    )
+  }, [attempt])
+
+  const clone = useCallback((sourceKey: string, name?: string) => {
+    return attempt(
+      () => clonePreset(sourceKey, name),
+      preset => `Preset '${preset.name}' criado a partir de ${getPresetDisplayName(sourceKey)}`
+    )
+  }, [attempt])
+
+  const remove = useCallback((key: string) => {
+    const name = getPresetDisplayName(key)
+    return attempt(
+      () => {
+        if (!deleteCustomPreset(key)) throw new Error(`Preset '${key}' não encontrado`)
+        return null
+      },
+      () => `Preset '${name}' removido`
+    )
+  }, [attempt])
+
+  return {
+    customPresets,
+    create,
+    update,
+    clone,
+    remove
+  }
+}
+
+/**
+ * Hook para ajustes de preset por jogo (executável)
+ */
+export function useGameOverrides() {
+  const [overrides, setOverrides] = useState<GameOverride[]>([])
+
+  useEffect(() => {
+    setOverrides(listGameOverrides())
+    return subscribeGameOverrides(setOverrides)
+  }, [])
+
+  const save = useCallback((executable: string, values: Partial<PresetConfig>, preset?: string) => {
+    try {
+      setGameOverride(executable, values, preset)
+      return { success: true, message: `Ajuste salvo para ${executable}` }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao salvar ajuste'
+      log(message, 'error')
+      return { success: false, message }
+    }
+  }, [])
+
+  const remove = useCallback((id: string) => {
+    return removeGameOverride(id)
+  }, [])
+
+  return {
+    overrides,
+    save,
+    remove
+  }
+}
+
+/**
+ * Hook para histórico de sessões gravadas
+ */
+export function useSessions() {
+  const [sessions, setSessions] = useState<SessionRecord[]>([])
+  const [current, setCurrent] = useState<SessionRecord | null>(sessionRecorder.getCurrent())
+  const [loading, setLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      setSessions(await listSessions())
+    } catch (error) {
+      log(`Erro ao carregar sessões: ${error instanceof Error ? error.message : error}`, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return sessionRecorder.subscribe(record => {
+      setCurrent(record)
+      // Sessão encerrada: atualizar histórico
+      if (!record) refresh()
+    })
+  }, [refresh])
+
+  const start = useCallback((profileKey: string) => {
+    if (getCurrentSession()) return false
+    startSession(profileKey)
+    return true
+  }, [])
+
+  const stop = useCallback(async () => {
+    await endSession()
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    await deleteSession(id)
+    await refresh()
+  }, [refresh])
+
+  const loadTimeline = useCallback((id: string): Promise<SessionTimeline | null> => getTimeline(id), [])
+
+  return {
+    sessions,
+    current,
+    loading,
+    refresh,
+    start,
+    stop,
+    remove,
+    loadTimeline
+  }
+}
+
+/**
+ * Hook para a proteção térmica (configuração e intervenções da sessão)
+ */
+export function useThermalGuard() {
+  const [config, setConfig] = useState<ThermalGuardConfig>(() => getThermalGuardConfig())
+  const [state, setState] = useState<ThermalGuardState>(() => thermalGuard.getState())
+
+  useEffect(() => {
+    const unsubscribeConfig = subscribeThermalGuardConfig(setConfig)
+    const unsubscribeState = thermalGuard.subscribe(setState)
+    return () => {
+      unsubscribeConfig()
+      unsubscribeState()
+    }
+  }, [])
+
+  const update = useCallback((patch: Partial<ThermalGuardConfig>) => setThermalGuardConfig(patch), [])
+
+  return {
+    config,
+    state,
+    update
+  }
+}
+
+/**
+ * Hook para regras de automação (CRUD, estado do motor e histórico de disparos)
+ */
+export function useRules() {
+  const [rules, setRules] = useState<Rule[]>([])
+  const [firings, setFirings] = useState<RuleFiring[]>([])
+  const [engine, setEngine] = useState<RuleEngineState>(() => ruleEngine.getState())
+
+  useEffect(() => {
+    setRules(listRules())
+    setFirings(listRuleFirings())
+
+    const unsubscribeRules = subscribeRules(setRules)
+    const unsubscribeFirings = subscribeRuleFirings(setFirings)
+    const unsubscribeEngine = ruleEngine.subscribe(setEngine)
+    ruleEngine.start()
+
+    return () => {
+      unsubscribeRules()
+      unsubscribeFirings()
+      unsubscribeEngine()
+    }
+  }, [])
+
+  const save = useCallback((input: Omit<Rule, 'id'> & { id?: string }): { success: boolean; message: string } => {
+    try {
+      const rule = saveRule(input)
+      return { success: true, message: `Regra '${rule.name}' salva` }
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) }
+    }
+  }, [])
+
+  return {
+    rules,
+    firings,
+    engine,
+    save,
+    toggle: setRuleEnabled,
+    remove: deleteRule,
+    clearFirings: clearRuleFirings
+  }
+}
+
+/**
+ * Hook para detecção automática de jogos (sessão + Turbo do preset do jogo)
+ */
+export function useGameWatcher() {
+  const [enabled, setEnabled] = useState(false)
+  const [state, setState] = useState<WatcherState>(gameWatcher.getState())
+
+  useEffect(() => {
+    const unsubscribe = gameWatcher.subscribe(setState)
+
+    // Retomar monitoramento se estava ativado
+    const saved = isAutoDetectEnabled()
+    setEnabled(saved)
+    if (saved) gameWatcher.start()
+
+    return unsubscribe
+  }, [])
+
+  const toggle = useCallback(() => {
+    const next = !gameWatcher.isRunning()
+    setAutoDetectEnabled(next)
+    setEnabled(next)
+  }, [])
+
+  return {
+    enabled,
+    activeGame: state.activeGame,
+    sessionStartedAt: state.startedAt,
+    toggle
+  }
+}
+
+type ActionResult = { success: boolean; message: string }
+
+/**
+ * Hook do ícone da bandeja (desktop): publica perfis, métricas e reversão disponível
+ * e executa os comandos do menu com as mesmas ações da interface
+ */
+export function useTrayAgent(actions: {
+  applyPreset: (key: string) => Promise<ActionResult>
+  runTurbo: () => Promise<ActionResult>
+  revertTurbo: () => Promise<ActionResult>
+  canRevert: boolean
+}) {
+  const actionsRef = useRef(actions)
+  actionsRef.current = actions
+
+  const [presetsVersion, setPresetsVersion] = useState(0)
+  const [activeProfile, setActiveProfile] = useState<string | null>(null)
+  const [metrics, setMetrics] = useState<{ cpuTemp?: number; gpuTemp?: number; fps?: number }>({})
+
+  useEffect(() => {
+    if (!window.backend) return
+
+    setActiveProfile(getActiveProfileKey())
+    const unsubscribePresets = subscribePresets(() => setPresetsVersion(v => v + 1))
+    const unsubscribeProfile = subscribeActiveProfile(setActiveProfile)
+    // Valores arredondados: tooltip e overlay só mudam quando o valor exibido muda
+    const unsubscribeTelemetry = Telemetry.onTelemetry(data => {
+      const next = {
+        cpuTemp: data.cpuTemp !== undefined ? Math.round(data.cpuTemp) : undefined,
+        gpuTemp: data.gpuTemp !== undefined ? Math.round(data.gpuTemp) : undefined,
+        fps: data.fps !== undefined ? Math.round(data.fps) : undefined
+      }
+      setMetrics(prev => prev.cpuTemp === next.cpuTemp && prev.gpuTemp === next.gpuTemp && prev.fps === next.fps ? prev : next)
+    })
+
+    return () => {
+      unsubscribePresets()
+      unsubscribeProfile()
+      unsubscribeTelemetry()
+    }
+  }, [])
+
+  useEffect(() => {
+    window.backend?.updateTray({
+      profiles: listAllPresets().map(preset => ({ key: preset.key, name: preset.name })),
+      activeProfile,
+      canRevert: actions.canRevert,
+      ...metrics
+    })
+  }, [presetsVersion, activeProfile, actions.canRevert, metrics])
+
+  useEffect(() => {
+    if (!window.backend) return
+
+    return window.backend.onTrayCommand(async (command: TrayCommand) => {
+      const { applyPreset, runTurbo, revertTurbo } = actionsRef.current
+      const result = command.type === 'applyPreset'
+        ? await applyPreset(command.key)
+        : command.type === 'turbo' ? await runTurbo() : await revertTurbo()
+
+      log(`Bandeja: ${result.message}`, result.success ? 'success' : 'error')
+    })
+  }, [])
+}
+
+/**
+ * Hook dos atalhos globais (desktop): registra a configuração no main e executa as ações disparadas.
+ * O overlay é alternado direto no main.
+ */
+export function useHotkeyAgent(actions: {
+  applyPreset: (key: string) => Promise<ActionResult>
+  runTurbo: () => Promise<ActionResult>
+}) {
+  const actionsRef = useRef(actions)
+  actionsRef.current = actions
+
+  useEffect(() => {
+    if (!window.backend) return
+
+    syncHotkeys()
+    const unsubscribeConfig = subscribeHotkeyConfig(() => { syncHotkeys() })
+
+    const unsubscribeHotkeys = window.backend.onHotkey(async (action: HotkeyAction) => {
+      const { applyPreset, runTurbo } = actionsRef.current
+      let result: ActionResult
+
+      try {
+        if (action === 'turbo') {
+          result = await runTurbo()
+        } else if (action === 'cycleProfile') {
+          const next = nextProfileKey()
+          result = next ? await applyPreset(next) : { success: false, message: 'Nenhum perfil disponível' }
+        } else if (action === 'panicRevert') {
+          const reports = await revertEverything()
+          const failed = reports.reduce((total, report) => total + report.failed.length, 0)
+          result = {
+            success: failed === 0,
+            message: failed === 0 ? `${reports.length} execução(ões) revertida(s)` : `${failed} etapa(s) não revertida(s)`
+          }
+        } else {
+          return
+        }
+      } catch (error) {
+        result = { success: false, message: error instanceof Error ? error.message : String(error) }
+      }
+
+      log(`Atalho: ${result.message}`, result.success ? 'success' : 'error')
+    })
+
+    return () => {
+      unsubscribeConfig()
+      unsubscribeHotkeys()
+    }
+  }, [])
+}
+
+/**
+ * Hook para a configuração dos atalhos globais e o resultado do registro
+ */
+export function useHotkeys() {
+  const [config, setConfig] = useState<HotkeyConfig>(() => getHotkeyConfig())
+  const [registrations, setRegistrations] = useState<HotkeyRegistration[]>(() => getHotkeyRegistrations())
+
+  useEffect(() => {
+    const unsubscribeConfig = subscribeHotkeyConfig(setConfig)
+    const unsubscribeRegistrations = subscribeHotkeyRegistrations(setRegistrations)
+    return () => {
+      unsubscribeConfig()
+      unsubscribeRegistrations()
+    }
+  }, [])
+
+  const update = useCallback((patch: Parameters<typeof setHotkeyConfig>[0]) => setHotkeyConfig(patch), [])
+
+  return {
+    config,
+    registrations,
+    available: typeof window !== 'undefined' && !!window.backend,
+    update
+  }
+}
+
 /**
  * Hook para gerenciar otimizações do sistema
  */
@@ -588,7 +1094,8 @@ export function useGameBoostOptimizer() {
   }, [])
 
   // Função genérica para executar otimizações com feedback usando optimizer real
-  const executeOptimization = useCallback(async (type: string, optimizerFn: () => Promise<any>) => {
+  // (operações avulsas passam pelo agendador; o Turbo agenda a si mesmo)
+  const executeOptimization = useCallback(async (type: string, optimizerFn: () => Promise<any>, options: { scheduled?: boolean } = {}) => {
     setIsOptimizing(true)
     const formatTime = () => new Date().toTimeString().slice(0, 8)
     log(`[${formatTime()}] ${type}...`, 'info')
@@ -596,7 +1103,8 @@ export function useGameBoostOptimizer() {
     try {
       if (isDesktop() && typeof optimizerFn === 'function') {
         // Executar função real do optimizer
-        await optimizerFn()
+        if (options.scheduled === false) await optimizerFn()
+        else await scheduler.run('optimize', type, () => optimizerFn())
         log(`[${formatTime()}] ${type} OK`, 'success')
         
         const result: OptimizationResult = {
@@ -641,27 +1149,34 @@ export function useGameBoostOptimizer() {
 
   // Função para liberar RAM usando optimizer real
   const optimizeCpuRam = useCallback(async () => {
-    return executeOptimization('Liberando RAM', WinOpt.freeRam)
+    return executeOptimization('Liberando RAM', () => getOptimizer().freeRam())
   }, [executeOptimization])
 
   // Função para pausar apps em segundo plano
+  // Pelo registro de etapas: os apps suspensos ficam no journal e voltam na reversão
   const boostGamePriority = useCallback(async () => {
-    return executeOptimization('Pausando apps em segundo plano', () => WinOpt.closeBackgroundApps('smart'))
+    return executeOptimization('Pausando apps em segundo plano', async () => {
+      // Sem perfil ativo: 'aaa' (prioridade normal, plano balanceado)
+      const profileKey = getActiveProfileKey() ?? 'aaa'
+      const preset = getPreset(profileKey) ?? getPreset('aaa')!
+      const run = await runSteps(['backgroundApps'], { profileKey, preset: { ...preset, backgroundApps: 'smart' }, source: 'optimize' })
+      if (run.errors > 0) throw new Error(run.outcomes.find(o => o.error)?.error ?? 'etapa falhou')
+    })
   }, [executeOptimization])
 
   // Função para limpeza de cache
   const clearSystemCache = useCallback(async () => {
-    return executeOptimization('Limpando cache temporário', WinOpt.clearTempCaches)
+    return executeOptimization('Limpando cache temporário', () => getOptimizer().clearTempCaches())
   }, [executeOptimization])
 
   // Função para aplicar plano de energia
   const applyMaxPerformancePowerPlan = useCallback(async () => {
-    return executeOptimization('Aplicando plano de energia (Performance)', () => WinOpt.applyPowerPlan('performance'))
+    return executeOptimization('Aplicando plano de energia (Performance)', () => getOptimizer().applyPowerPlan('performance'))
   }, [executeOptimization])
 
   // Função para Turbo Mode completo
   const turboOptimization = useCallback(async () => {
-    return executeOptimization('Turbo Mode', () => gameBoostOptimizer.turboOptimization())
+    return executeOptimization('Turbo Mode', () => gameBoostOptimizer.turboOptimization(), { scheduled: false })
   }, [executeOptimization])
 
   // Função para obter processos
@@ -0,0 +1,145 @@
+/**
+ * GameBoost AI - Atalhos Globais
+ * Configuração persistida dos atalhos (Turbo, troca de perfil, overlay e reversão de emergência),
+ * registro no processo main e resultado de cada registro para a tela de Configurações
+ */
+
+import { z } from 'zod'
+import { HOTKEY_ACTIONS, type HotkeyAction, type HotkeyConfig, type HotkeyRegistration } from '../../electron/protocol'
+import { listAllPresets, getActiveProfileKey } from './presetStore'
+import { log } from '../lib/logger'
+
+export { HOTKEY_ACTIONS, type HotkeyAction, type HotkeyConfig, type HotkeyRegistration }
+
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  turbo: 'Turbo',
+  cycleProfile: 'Próximo perfil',
+  toggleOverlay: 'Mostrar/ocultar overlay',
+  panicRevert: 'Reverter tudo (emergência)'
+}
+
+// Modificadores e teclas no formato de acelerador do Electron
+const accelerator = z.string().trim().max(60)
+  .regex(/^((CommandOrControl|CmdOrCtrl|Control|Ctrl|Alt|Option|AltGr|Shift|Super|Meta)\+)+[A-Za-z0-9]+$/, 'atalho precisa de modificador + tecla')
+
+export const hotkeyConfigSchema = z.object({
+  enabled: z.boolean(),
+  bindings: z.object({
+    turbo: accelerator.nullable(),
+    cycleProfile: accelerator.nullable(),
+    toggleOverlay: accelerator.nullable(),
+    panicRevert: accelerator.nullable()
+  })
+}).superRefine((config, ctx) => {
+  const seen = new Map<string, HotkeyAction>()
+  for (const action of HOTKEY_ACTIONS) {
+    const binding = config.bindings[action]?.toLowerCase()
+    if (!binding) continue
+    const other = seen.get(binding)
+    if (other) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bindings', action], message: `mesmo atalho de ${HOTKEY_LABELS[other]}` })
+    }
+    seen.set(binding, action)
+  }
+})
+
+export const DEFAULT_HOTKEYS: HotkeyConfig = {
+  enabled: true,
+  bindings: {
+    turbo: 'CommandOrControl+Alt+T',
+    cycleProfile: 'CommandOrControl+Alt+P',
+    toggleOverlay: 'CommandOrControl+Alt+O',
+    panicRevert: 'CommandOrControl+Alt+Backspace'
+  }
+}
+
+const STORAGE_KEY = 'gb.hotkeys'
+
+const configListeners = new Set<(config: HotkeyConfig) => void>()
+const registrationListeners = new Set<(registrations: HotkeyRegistration[]) => void>()
+
+let registrations: HotkeyRegistration[] = []
+
+/**
+ * Configuração persistida (valores inválidos voltam ao padrão)
+ */
+export function getHotkeyConfig(): HotkeyConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      const result = hotkeyConfigSchema.safeParse({
+        ...DEFAULT_HOTKEYS,
+        ...parsed,
+        bindings: { ...DEFAULT_HOTKEYS.bindings, ...parsed?.bindings }
+      })
+      if (result.success) return result.data
+    }
+  } catch {}
+  return { ...DEFAULT_HOTKEYS, bindings: { ...DEFAULT_HOTKEYS.bindings } }
+}
+
+export function setHotkeyConfig(patch: { enabled?: boolean; bindings?: Partial<HotkeyConfig['bindings']> }): { success: boolean; message: string; config?: HotkeyConfig } {
+  const current = getHotkeyConfig()
+  const result = hotkeyConfigSchema.safeParse({
+    enabled: patch.enabled ?? current.enabled,
+    bindings: { ...current.bindings, ...patch.bindings }
+  })
+  if (!result.success) {
+    return { success: false, message: result.error.issues.map(i => `${HOTKEY_LABELS[i.path[1] as HotkeyAction] ?? i.path.join('.')}: ${i.message}`).join('; ') }
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(result.data))
+  } catch {}
+
+  configListeners.forEach(listener => listener({ ...result.data }))
+  return { success: true, message: 'Atalhos atualizados', config: result.data }
+}
+
+export function subscribeHotkeyConfig(listener: (config: HotkeyConfig) => void): () => void {
+  configListeners.add(listener)
+  return () => { configListeners.delete(listener) }
+}
+
+/**
+ * Registra a configuração atual no processo main (sem efeito fora do desktop)
+ */
+export async function syncHotkeys(): Promise<HotkeyRegistration[]> {
+  if (typeof window === 'undefined' || !window.backend) return registrations
+
+  try {
+    registrations = await window.backend.registerHotkeys(getHotkeyConfig())
+  } catch (error) {
+    log(`Erro ao registrar atalhos: ${error}`, 'error')
+    return registrations
+  }
+
+  const conflicts = registrations.filter(r => r.state === 'conflict' || r.state === 'invalid')
+  if (conflicts.length > 0) {
+    log(`Atalhos não registrados: ${conflicts.map(r => `${HOTKEY_LABELS[r.action]} (${r.accelerator})`).join(', ')}`, 'warning')
+  }
+
+  registrationListeners.forEach(listener => listener([...registrations]))
+  return registrations
+}
+
+export function getHotkeyRegistrations(): HotkeyRegistration[] {
+  return [...registrations]
+}
+
+export function subscribeHotkeyRegistrations(listener: (registrations: HotkeyRegistration[]) => void): () => void {
+  registrationListeners.add(listener)
+  return () => { registrationListeners.delete(listener) }
+}
+
+/**
+ * Próximo preset na ordem da lista (nativos e personalizados), voltando ao primeiro
+ */
+export function nextProfileKey(): string | null {
+  const keys = listAllPresets().map(preset => preset.key)
+  if (keys.length === 0) return null
+
+  const index = keys.indexOf(getActiveProfileKey() ?? '')
+  return keys[(index + 1) % keys.length]
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { beginRun, recordStep, finishRun, markReverted, listRuns, getRun } from './journal'
+
+// localStorage em memória (o journal roda no renderer)
+const storage = new Map<string, string>()
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value) },
+  removeItem: (key: string) => { storage.delete(key) }
+})
+
+let clock = 0
+
+function run(source: 'turbo' | 'rule', options: { revertible?: boolean; reverted?: boolean; target?: string } = {}): string {
+  vi.setSystemTime(++clock)
+  const { runId } = beginRun('esports', source)
+  recordStep(runId, { stepId: 'powerPlan', label: 'Plano de energia', prior: 'balanced', target: options.target, revertible: options.revertible ?? true, simulated: false })
+  finishRun(runId)
+  if (options.reverted) markReverted(runId)
+  return runId
+}
+
+beforeEach(() => {
+  storage.clear()
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('histórico do journal', () => {
+  it('descarta primeiro as execuções encerradas mais antigas', () => {
+    const turbo = run('turbo')
+    const reverted = Array.from({ length: 5 }, () => run('rule', { reverted: true }))
+    const rules = Array.from({ length: 5 }, () => run('rule'))
+
+    const ids = listRuns().map(r => r.runId)
+    expect(ids).toHaveLength(10)
+    expect(ids).toContain(turbo)
+    expect(ids).not.toContain(reverted[0])
+    expect(ids).toEqual(expect.arrayContaining([...reverted.slice(1), ...rules]))
+  })
+
+  it('nunca descarta execuções pendentes de reversão, mesmo acima do limite', () => {
+    const turbo = run('turbo')
+    Array.from({ length: 12 }, () => run('rule'))
+
+    const runs = listRuns()
+    expect(runs).toHaveLength(13)
+    expect(runs[runs.length - 1].runId).toBe(turbo)
+  })
+
+  it('descarta execuções finalizadas sem etapas reversíveis', () => {
+    const pending = Array.from({ length: 10 }, () => run('rule'))
+    const freeRam = run('rule', { revertible: false })
+    run('rule', { revertible: false })
+
+    const ids = listRuns().map(r => r.runId)
+    expect(ids).toEqual(expect.arrayContaining(pending))
+    expect(ids).not.toContain(freeRam)
+    expect(ids).toHaveLength(10)
+  })
+})
+
+describe('compactação das regras', () => {
+  it('descarta regras repetidas que capturam o mesmo alvo de uma regra pendente', () => {
+    const first = run('rule', { target: 'system' })
+    const repeated = Array.from({ length: 20 }, () => run('rule', { target: 'system' }))
+    const turbo = run('turbo', { target: 'system' })
+
+    const ids = listRuns().map(r => r.runId)
+    expect(ids).toContain(first)
+    expect(ids).toContain(turbo)
+    expect(ids).toHaveLength(10)
+    expect(getRun(first)!.entries).toHaveLength(1)
+    expect(ids.filter(id => repeated.includes(id)).every(id => getRun(id)!.entries.length === 0)).toBe(true)
+  })
+
+  it('mantém as entradas sem alvo e as de regras já revertidas', () => {
+    run('rule', { target: 'system', reverted: true })
+    const untargeted = Array.from({ length: 2 }, () => run('rule'))
+    const latest = run('rule', { target: 'system' })
+
+    expect(untargeted.every(id => getRun(id)!.entries.length === 1)).toBe(true)
+    expect(getRun(latest)!.entries).toHaveLength(1)
+  })
+})
+
+describe('gravação do journal', () => {
+  it('interrompe a execução quando o localStorage recusa a gravação', () => {
+    const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError')
+    })
+
+    expect(() => beginRun('esports', 'turbo')).toThrow('Journal de reversão não gravado: QuotaExceededError')
+    setItem.mockRestore()
+  })
+})
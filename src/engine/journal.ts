@@ -0,0 +1,239 @@
+/**
+ * GameBoost AI - Journal de Reversão
+ * Registra o estado anterior de cada etapa aplicada por execução do Turbo/preset
+ */
+
+import type { TurboEffectiveness } from './effectiveness'
+import { log } from '../lib/logger'
+
+export interface JournalEntry {
+  stepId: string
+  label: string
+  prior: any
+  revertible: boolean
+  simulated: boolean
+  appliedAt: number
+  // Estado capturado (ex.: processo alvo); sem alvo a entrada nunca é compactada
+  target?: string
+  // Aplicação interrompida ou não verificada: pode ter alterado o sistema, continua reversível
+  failed?: boolean
+  error?: string
+  // Já restaurada por uma reversão anterior (a execução só é marcada revertida quando todas foram)
+  reverted?: boolean
+}
+
+export interface RunJournal {
+  runId: string
+  profile: string
+  source: 'turbo' | 'preset' | 'thermal' | 'rule' | 'optimize'
+  startedAt: number
+  finishedAt?: number
+  entries: JournalEntry[]
+  reverted: boolean
+  // Diferenças medidas antes/depois (apenas Turbo com medição)
+  effectiveness?: TurboEffectiveness
+}
+
+export interface RevertFailure {
+  stepId: string
+  label: string
+  reason: string
+}
+
+export interface RevertReport {
+  runId: string
+  reverted: string[]
+  skipped: string[]
+  failed: RevertFailure[]
+}
+
+interface JournalStore {
+  runs: Record<string, RunJournal>
+}
+
+const STORAGE_KEY = 'gb.journal'
+
+// Quantidade máxima de execuções mantidas no histórico (pendentes de reversão nunca são descartadas)
+const MAX_RUNS = 10
+
+/**
+ * Ler store persistido
+ */
+function readStore(): JournalStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw)
+      if (parsed && typeof parsed === 'object' && parsed.runs) {
+        return parsed as JournalStore
+      }
+    }
+  } catch {}
+  return { runs: {} }
+}
+
+/**
+ * Execução sem nada a desfazer: já revertida ou finalizada sem etapas reversíveis
+ */
+function isSettled(run: RunJournal): boolean {
+  return run.reverted || (run.finishedAt !== undefined && !run.entries.some(entry => entry.revertible))
+}
+
+/**
+ * Persistir store, descartando as execuções encerradas mais antigas
+ */
+function writeStore(store: JournalStore): void {
+  const ids = Object.keys(store.runs).sort((a, b) => store.runs[a].startedAt - store.runs[b].startedAt)
+  let excess = ids.length - MAX_RUNS
+  for (const id of ids) {
+    if (excess <= 0) break
+    if (!isSettled(store.runs[id])) continue
+    delete store.runs[id]
+    excess--
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+  } catch (error) {
+    // Sem o journal gravado a etapa não teria reversão: quem chamou interrompe a execução
+    const reason = error instanceof Error ? error.message : String(error)
+    log(`Falha ao gravar o journal de reversão: ${reason}`, 'error')
+    throw new Error(`Journal de reversão não gravado: ${reason}`)
+  }
+}
+
+const captureKey = (entry: JournalEntry) => `${entry.stepId}:${entry.target}`
+
+const isPendingCapture = (entry: JournalEntry) => entry.target !== undefined && entry.revertible && !entry.reverted
+
+/**
+ * Regras disparam repetidamente: descarta as entradas cujo alvo já foi capturado por uma
+ * regra anterior ainda pendente. A reversão vai da mais recente para a mais antiga e
+ * termina no estado capturado pela anterior, então a entrada mais nova é redundante
+ */
+function compactRuleRun(store: JournalStore, journal: RunJournal): void {
+  const captured = new Set<string>()
+  for (const run of Object.values(store.runs)) {
+    if (run.runId === journal.runId || run.source !== 'rule' || run.reverted || run.startedAt > journal.startedAt) continue
+    run.entries.filter(isPendingCapture).forEach(entry => captured.add(captureKey(entry)))
+  }
+
+  journal.entries = journal.entries.filter(entry => !isPendingCapture(entry) || !captured.has(captureKey(entry)))
+}
+
+/**
+ * Inicia um novo journal para uma execução
+ */
+export function beginRun(profile: string, source: RunJournal['source']): RunJournal {
+  const runId = `run_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+  const journal: RunJournal = {
+    runId,
+    profile,
+    source,
+    startedAt: Date.now(),
+    entries: [],
+    reverted: false
+  }
+
+  const store = readStore()
+  store.runs[runId] = journal
+  writeStore(store)
+
+  return journal
+}
+
+/**
+ * Registra o estado anterior de uma etapa aplicada
+ */
+export function recordStep(runId: string, entry: Omit<JournalEntry, 'appliedAt'>): void {
+  const store = readStore()
+  const journal = store.runs[runId]
+  if (!journal) return
+
+  journal.entries.push({ ...entry, appliedAt: Date.now() })
+  writeStore(store)
+}
+
+/**
+ * Marca a última entrada da etapa como falha (mantém o estado anterior para reversão)
+ */
+export function markStepFailed(runId: string, stepId: string, error: string): void {
+  const store = readStore()
+  const journal = store.runs[runId]
+  const entry = journal ? [...journal.entries].reverse().find(e => e.stepId === stepId) : undefined
+  if (!entry) return
+
+  entry.failed = true
+  entry.error = error
+  writeStore(store)
+}
+
+/**
+ * Marca a execução como finalizada
+ */
+export function finishRun(runId: string): void {
+  const store = readStore()
+  const journal = store.runs[runId]
+  if (!journal) return
+
+  journal.finishedAt = Date.now()
+  if (journal.source === 'rule') compactRuleRun(store, journal)
+  writeStore(store)
+}
+
+/**
+ * Grava a efetividade medida junto da execução
+ */
+export function setRunEffectiveness(runId: string, effectiveness: TurboEffectiveness): void {
+  const store = readStore()
+  const journal = store.runs[runId]
+  if (!journal) return
+
+  journal.effectiveness = effectiveness
+  writeStore(store)
+}
+
+/**
+ * Marca uma entrada (pela posição no journal) como restaurada
+ */
+export function markEntryReverted(runId: string, index: number): void {
+  const store = readStore()
+  const entry = store.runs[runId]?.entries[index]
+  if (!entry) return
+
+  entry.reverted = true
+  writeStore(store)
+}
+
+/**
+ * Marca a execução como revertida
+ */
+export function markReverted(runId: string): void {
+  const store = readStore()
+  const journal = store.runs[runId]
+  if (!journal) return
+
+  journal.reverted = true
+  writeStore(store)
+}
+
+/**
+ * Obtém o journal de uma execução
+ */
+export function getRun(runId: string): RunJournal | null {
+  return readStore().runs[runId] || null
+}
+
+/**
+ * Lista execuções registradas (mais recentes primeiro)
+ */
+export function listRuns(): RunJournal[] {
+  return Object.values(readStore().runs).sort((a, b) => b.startedAt - a.startedAt)
+}
+
+/**
+ * Obtém a última execução ainda não revertida
+ */
+export function getLastRun(source?: RunJournal['source']): RunJournal | null {
+  return listRuns().find(run => !run.reverted && (!source || run.source === source)) || null
+}
@@ -4,16 +4,12 @@
  */
 
 import { safeTmpDir } from './util/tmpdir'
+import { getPreset } from './presetStore'
+import { runSteps, DEFAULT_TURBO_STEPS } from './steps'
+import { getProcessSource, type ProcessInfo } from './processes'
+import { scheduler } from './scheduler'
 
 // Interfaces para tipagem
-interface ProcessInfo {
-  pid: number
-  name: string
-  cpuUsage: number
-  memoryUsage: number
-  priority: string
-  isEssential: boolean
-}
 
 interface SystemMetrics {
   cpu: {
@@ -60,7 +56,24 @@ const ESSENTIAL_PROCESSES = [
   'fontdrvhost.exe',
   'WmiPrvSE.exe',
   'spoolsv.exe',
-  'RuntimeBroker.exe'
+  'RuntimeBroker.exe',
+  // Linux
+  'systemd',
+  'dbus-daemon',
+  'dbus-broker',
+  'Xorg',
+  'Xwayland',
+  'gnome-shell',
+  'kwin_x11',
+  'kwin_wayland',
+  'plasmashell',
+  'pipewire',
+  'wireplumber',
+  'pulseaudio',
+  'NetworkManager',
+  'polkitd',
+  'gdm',
+  'sddm'
 ]
 
 // Lista de processos de jogos conhecidos (para prioridade alta)
@@ -83,7 +96,6 @@ const GAMING_PROCESSES = [
 ]
 
 class GameBoostOptimizer {
-  private isOptimizing = false
   private logs: string[] = []
   private systemMetrics: SystemMetrics | null = null
 
@@ -138,28 +150,19 @@ class GameBoostOptimizer {
     try {
       this.log('Detectando processos em execução...')
       
-      // Simula detecção real de processos
-      // Em produção, usaria child_process.exec('tasklist') ou APIs nativas
-      const mockProcesses: ProcessInfo[] = [
-        { pid: 1234, name: 'chrome.exe', cpuUsage: 15.2, memoryUsage: 512, priority: 'Normal', isEssential: false },
-        { pid: 5678, name: 'discord.exe', cpuUsage: 8.1, memoryUsage: 256, priority: 'Normal', isEssential: false },
-        { pid: 9012, name: 'spotify.exe', cpuUsage: 3.5, memoryUsage: 128, priority: 'Normal', isEssential: false },
-        { pid: 3456, name: 'steam.exe', cpuUsage: 2.1, memoryUsage: 64, priority: 'Normal', isEssential: false },
-        { pid: 7890, name: 'explorer.exe', cpuUsage: 1.2, memoryUsage: 32, priority: 'Normal', isEssential: true },
-        { pid: 2468, name: 'valorant.exe', cpuUsage: 45.8, memoryUsage: 2048, priority: 'High', isEssential: false },
-        { pid: 1357, name: 'obs64.exe', cpuUsage: 12.3, memoryUsage: 512, priority: 'Normal', isEssential: false },
-        { pid: 8642, name: 'nvidia-container.exe', cpuUsage: 0.5, memoryUsage: 16, priority: 'Normal', isEssential: true }
-      ]
+      const source = await getProcessSource()
+      const rawProcesses = await source.list()
 
       // Marca processos essenciais
-      mockProcesses.forEach(process => {
-        process.isEssential = ESSENTIAL_PROCESSES.some(essential => 
+      const processes: ProcessInfo[] = rawProcesses.map(process => ({
+        ...process,
+        isEssential: ESSENTIAL_PROCESSES.some(essential => 
           process.name.toLowerCase().includes(essential.toLowerCase())
         )
-      })
+      })).sort((a, b) => b.cpuUsage - a.cpuUsage)
 
-      this.log(`${mockProcesses.length} processos detectados`)
-      return mockProcesses
+      this.log(`${processes.length} processos detectados (${source.name})`)
+      return processes
     } catch (error) {
       this.log(`Erro ao detectar processos: ${error}`)
       return []
@@ -170,11 +173,19 @@ class GameBoostOptimizer {
    * Libera CPU e RAM fechando processos não essenciais
    */
   async optimizeCpuRam(): Promise<OptimizationResult> {
-    if (this.isOptimizing) {
+    if (scheduler.isBusy('optimize')) {
       return { success: false, message: 'Otimização já em andamento', timestamp: new Date() }
     }
 
-    this.isOptimizing = true
+    try {
+      return await scheduler.run('optimize', 'Otimização de CPU/RAM', () => this.runCpuRamOptimization())
+    } catch (error) {
+      this.log(`Erro na otimização: ${error}`)
+      return { success: false, message: `Erro: ${error}`, timestamp: new Date() }
+    }
+  }
+
+  private async runCpuRamOptimization(): Promise<OptimizationResult> {
     this.log('Iniciando otimização de CPU/RAM...')
 
     try {
@@ -210,8 +221,6 @@ class GameBoostOptimizer {
     } catch (error) {
       this.log(`Erro na otimização: ${error}`)
       return { success: false, message: `Erro: ${error}`, timestamp: new Date() }
-    } finally {
-      this.isOptimizing = false
     }
   }
 
@@ -311,24 +320,24 @@ class GameBoostOptimizer {
     try {
       this.log('=== INICIANDO TURBO MODE ===')
       
-      const results = await Promise.all([
-        this.optimizeCpuRam(),
-        this.boostGamePriority(),
-        this.clearSystemCache(),
-        this.applyMaxPerformancePowerPlan()
-      ])
+      // Usar etapas do registro com o perfil ativo (E-Sports como padrão)
+      const savedProfile = typeof localStorage !== 'undefined' ? localStorage.getItem('gb.profile') : null
+      const profileKey = savedProfile && getPreset(savedProfile) ? savedProfile : 'esports'
+      const preset = getPreset(profileKey)!
+
+      const run = await scheduler.run('turbo', 'Turbo', signal => runSteps(preset.turboSteps || DEFAULT_TURBO_STEPS, {
+        profileKey,
+        preset,
+        source: 'turbo'
+      }, { signal }))
 
-      const successCount = results.filter(r => r.success).length
-      const totalMemoryFreed = results.reduce((sum, r) => sum + (r.memoryFreed || 0), 0)
-      const totalProcesses = results.reduce((sum, r) => sum + (r.processesAffected || 0), 0)
+      const successCount = run.outcomes.filter(o => o.status === 'ok').length
 
-      this.log(`=== TURBO MODE CONCLUÍDO: ${successCount}/4 otimizações ===`)
+      this.log(`=== TURBO MODE CONCLUÍDO: ${successCount}/${run.steps} otimizações ===`)
 
       return {
-        success: successCount >= 3, // Sucesso se pelo menos 3 otimizações funcionaram
-        message: `Turbo ativado: ${totalProcesses} processos, ${totalMemoryFreed}MB liberados`,
-        processesAffected: totalProcesses,
-        memoryFreed: totalMemoryFreed,
+        success: run.errors === 0,
+        message: `Turbo ativado: ${successCount}/${run.steps} etapas aplicadas`,
         timestamp: new Date()
       }
     } catch (error) {
@@ -376,10 +385,10 @@ class GameBoostOptimizer {
   }
 
   /**
-   * Verifica se está otimizando
+   * Verifica se há operação em andamento ou na fila do agendador
    */
   isCurrentlyOptimizing(): boolean {
-    return this.isOptimizing
+    return scheduler.isBusy()
   }
 }
 
@@ -0,0 +1,484 @@
+// Linux System Optimizer
+// Mesma superfície de optimizer/windows.ts via operações nomeadas do main (scripts sh montados e validados em electron/linuxOperations.ts)
+
+import type { PresetConfig } from '../presets'
+import { invokeOperation } from '../../lib/powershell'
+import {
+  LINUX_POWER_PLANS as POWER_PLANS,
+  LINUX_CRITICAL_PROCESSES,
+  NICE_LEVELS,
+  niceToPriority,
+  buildLinuxPowerPlanScript as buildPowerPlanScript,
+  buildLinuxPriorityScript as buildPriorityScript,
+  buildLinuxCloseAppsScript as buildCloseAppsScript,
+  buildLinuxFreeRamScript as buildFreeRamScript,
+  buildLinuxTempCleanupScript as buildTempCleanupScript,
+  linuxTempCacheDirs as tempCacheDirs
+} from '../../../electron/linuxOperations'
+import type { OperationArgs, OperationName, OperationResults, PriorityLevel } from '../../../electron/operations'
+import type { PSResult } from '../../../electron/protocol'
+import { scheduler } from '../scheduler'
+
+// Scripts exibidos nos planos (dry-run): os mesmos que o main executa
+export { POWER_PLANS, niceToPriority, buildPowerPlanScript, buildPriorityScript, buildCloseAppsScript, buildFreeRamScript, buildTempCleanupScript, tempCacheDirs };
+
+interface ProcessPriorityOptions {
+  name?: string;
+  pid?: number;
+  level: PriorityLevel;
+}
+
+interface BackgroundApp {
+  pid: number;
+  name: string;
+  path: string;
+}
+
+// Últimos valores aplicados pelos placeholders de hardware
+let currentFanSpeed: number | null = null;
+let currentGpuBoost: string | null = null;
+
+/**
+ * Executa operação do catálogo e retorna o envelope
+ */
+async function invoke<N extends OperationName>(name: N, args: OperationArgs<N>): Promise<PSResult<OperationResults[N]>> {
+  const result = await invokeOperation(name, args);
+  if (result.timedOut || result.cancelled) {
+    throw new Error(result.error || 'Execução interrompida');
+  }
+  if (result.data === undefined && result.stderr) {
+    console.warn(`[Linux] ${name}:`, result.stderr);
+  }
+  return result;
+}
+
+/**
+ * Executa operação do catálogo e retorna o resultado estruturado emitido por gb_result
+ */
+async function runOperation<N extends OperationName>(name: N, args: OperationArgs<N>): Promise<OperationResults[N] | undefined> {
+  return (await invoke(name, args)).data;
+}
+
+/**
+ * Obtém o plano de energia ativo ("ppd:<perfil>" ou "governor:<nome>")
+ */
+export async function getActivePowerPlan(): Promise<string | null> {
+  try {
+    const data = await runOperation('linuxGetPowerPlan', {});
+    return data?.plan || null;
+  } catch (error) {
+    console.error('Erro ao obter plano de energia ativo:', error);
+    return null;
+  }
+}
+
+/**
+ * Ativa um plano de energia a partir do valor retornado por getActivePowerPlan
+ */
+export async function setActivePowerPlan(plan: string): Promise<boolean> {
+  try {
+    if (!/^(ppd|governor):[a-z0-9_-]+$/i.test(plan)) {
+      console.error(`Plano de energia inválido: ${plan}`);
+      return false;
+    }
+
+    const data = await runOperation('linuxSetPowerPlan', { plan });
+    return !!data?.ok;
+  } catch (error) {
+    console.error(`Erro ao ativar plano de energia ${plan}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Verifica se o modo de energia está ativo
+ */
+export async function isPowerPlanActive(mode: 'balanced' | 'performance' | 'ultimate'): Promise<boolean> {
+  const plan = await getActivePowerPlan();
+  if (!plan) return false;
+
+  const [method, value] = plan.split(':');
+  if (method === 'ppd') return value === POWER_PLANS[mode];
+
+  // Governor: qualquer valor diferente de performance conta como balanceado
+  return POWER_PLANS[mode] === 'performance' ? value === 'performance' : value !== 'performance';
+}
+
+/**
+ * Lista arquivos que seriam removidos por clearTempCaches (somente leitura)
+ */
+export async function listTempFiles(limit: number = 500): Promise<string[]> {
+  try {
+    const data = await runOperation('linuxListTempFiles', { limit });
+    return data?.files || [];
+  } catch (error) {
+    console.error('Erro ao listar arquivos temporários:', error);
+    return [];
+  }
+}
+
+/**
+ * Aplica perfil de energia
+ */
+export async function applyPowerPlan(mode: 'balanced' | 'performance' | 'ultimate'): Promise<boolean> {
+  try {
+    // Salvar plano atual antes de alterar
+    const currentPlan = await getActivePowerPlan();
+    if (currentPlan) {
+      localStorage.setItem('gb.prevPowerPlan', currentPlan);
+    }
+
+    const data = await runOperation('linuxApplyPowerPlan', { mode });
+    const success = !!data?.ok;
+
+    if (success) {
+      console.log(`[Linux] Plano de energia alterado para: ${mode} (${data!.method})`);
+    }
+
+    return success;
+  } catch (error) {
+    console.error(`Erro ao aplicar plano de energia ${mode}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Define prioridade de processo
+ */
+export async function setProcessPriority(options: ProcessPriorityOptions): Promise<boolean> {
+  try {
+    const { name, pid, level } = options;
+
+    if (!name && !pid) {
+      console.error('Nome ou PID do processo é obrigatório');
+      return false;
+    }
+
+    // Verificar whitelist
+    if (name && LINUX_CRITICAL_PROCESSES.some(sys => name.toLowerCase() === sys.toLowerCase())) {
+      console.warn(`Processo ${name} está na whitelist do sistema, ignorando alteração de prioridade`);
+      return false;
+    }
+
+    const data = await runOperation('linuxSetPriority', { name, pid, level });
+    const success = !!data?.ok;
+
+    if (success) {
+      console.log(`[Linux] Prioridade do processo ${name || pid} alterada para: ${level} (nice ${NICE_LEVELS[level]})`);
+    } else if (data?.reason) {
+      console.warn(`[Linux] Prioridade não alterada (${data.reason}): ${name || pid}`);
+    }
+
+    return success;
+  } catch (error) {
+    console.error('Erro ao definir prioridade do processo:', error);
+    return false;
+  }
+}
+
+/**
+ * Obtém a prioridade atual de um processo (a partir do nice)
+ */
+export async function getProcessPriority(options: Omit<ProcessPriorityOptions, 'level'>): Promise<PriorityLevel | null> {
+  try {
+    const { name, pid } = options;
+
+    if (!name && !pid) {
+      return null;
+    }
+
+    const data = await runOperation('linuxGetPriority', { name, pid });
+    const nice = data?.nice;
+    if (typeof nice !== 'number') return null;
+
+    return niceToPriority(nice);
+  } catch (error) {
+    console.error('Erro ao obter prioridade do processo:', error);
+    return null;
+  }
+}
+
+/**
+ * Lista aplicações em segundo plano que seriam fechadas
+ * @param run - Execução do journal: o main registra os caminhos listados para a reabertura
+ */
+export async function listBackgroundApps(run?: string): Promise<BackgroundApp[]> {
+  try {
+    const data = await runOperation('linuxListBackgroundApps', run ? { run } : {});
+    return data?.apps || [];
+  } catch (error) {
+    console.error('Erro ao listar aplicações em segundo plano:', error);
+    return [];
+  }
+}
+
+/**
+ * Reabre aplicações a partir do caminho do executável (só os listados pelo main na execução)
+ */
+export async function startApps(paths: string[], run: string): Promise<number> {
+  let started = 0;
+
+  for (const appPath of paths) {
+    try {
+      const data = await runOperation('linuxStartApp', { path: appPath, run });
+      if (data?.ok) {
+        started++;
+      }
+    } catch (error) {
+      console.error(`Erro ao iniciar ${appPath}:`, error);
+    }
+  }
+
+  console.log(`[Linux] ${started}/${paths.length} aplicações reabertas`);
+  return started;
+}
+
+/**
+ * Retoma aplicações suspensas com SIGSTOP
+ */
+export async function resumeApps(pids: number[]): Promise<number> {
+  const valid = pids.filter(pid => Number.isInteger(pid) && pid > 0);
+  if (valid.length === 0) return 0;
+
+  try {
+    const data = await runOperation('linuxResumeApps', { pids: valid });
+    console.log(`[Linux] ${data?.resumed || 0}/${valid.length} aplicações retomadas`);
+    return data?.resumed || 0;
+  } catch (error) {
+    console.error('Erro ao retomar aplicações:', error);
+    return 0;
+  }
+}
+
+/**
+ * Fecha (ou suspende) aplicações em segundo plano
+ */
+export async function closeBackgroundApps(mode: 'smart' | 'kill-aggressive'): Promise<number> {
+  try {
+    const data = await runOperation('linuxCloseBackgroundApps', { mode });
+    const closedCount = data?.closed || 0;
+
+    console.log(`[Linux] ${closedCount} aplicações ${mode === 'smart' ? 'suspensas' : 'fechadas'} (modo: ${mode})`);
+    return closedCount;
+  } catch (error) {
+    console.error('Erro ao fechar aplicações:', error);
+    return 0;
+  }
+}
+
+/**
+ * Libera RAM descartando caches do kernel
+ */
+export async function freeRam(): Promise<boolean> {
+  try {
+    const data = await runOperation('linuxFreeRam', {});
+
+    if (data?.method === 'drop_caches') {
+      console.log('[Linux] RAM liberada com drop_caches');
+    } else {
+      console.log('[Linux] drop_caches não permitido, apenas sync executado');
+    }
+
+    return true; // Sempre retorna true pois o sync sempre funciona
+  } catch (error) {
+    console.error('Erro ao liberar RAM:', error);
+    return false;
+  }
+}
+
+/**
+ * Limpa caches temporários
+ */
+export async function clearTempCaches(): Promise<boolean> {
+  try {
+    const data = await runOperation('linuxClearTemp', {});
+    const success = !!data?.ok;
+
+    if (success) {
+      console.log(`[Linux] Caches temporários limpos: ${data!.cleaned} itens`);
+    }
+
+    return success;
+  } catch (error) {
+    console.error('Erro ao limpar caches:', error);
+    return false;
+  }
+}
+
+/**
+ * Desabilita programas de inicialização do usuário (~/.config/autostart)
+ */
+export async function disableNonEssentialStartup(): Promise<boolean> {
+  try {
+    const data = await runOperation('linuxDisableStartup', {});
+    const success = !!data?.ok;
+
+    if (success) {
+      console.log(`[Linux] ${data!.disabled} programas de inicialização desabilitados`);
+    }
+
+    return success;
+  } catch (error) {
+    console.error('Erro ao desabilitar programas de inicialização:', error);
+    return false;
+  }
+}
+
+/**
+ * Restaura programas de inicialização
+ */
+export async function restoreStartup(): Promise<boolean> {
+  try {
+    const data = await runOperation('linuxRestoreStartup', {});
+    const success = !!data?.ok;
+
+    if (success) {
+      console.log('[Linux] Programas de inicialização restaurados');
+    }
+
+    return success;
+  } catch (error) {
+    console.error('Erro ao restaurar programas de inicialização:', error);
+    return false;
+  }
+}
+
+/**
+ * Cria ponto de restauração do sistema (sem equivalente genérico no Linux)
+ */
+export async function createRestorePoint(): Promise<boolean> {
+  console.log('[Linux] Ponto de restauração não suportado nesta plataforma');
+  return false;
+}
+
+/**
+ * Restaura todas as configurações
+ */
+export async function restoreAll(): Promise<boolean> {
+  try {
+    let success = true;
+
+    // Restaurar plano de energia anterior
+    const prevPowerPlan = localStorage.getItem('gb.prevPowerPlan');
+    if (prevPowerPlan) {
+      await setActivePowerPlan(prevPowerPlan);
+      localStorage.removeItem('gb.prevPowerPlan');
+      console.log('[Linux] Plano de energia anterior restaurado');
+    }
+
+    // Restaurar programas de inicialização
+    const startupRestored = await restoreStartup();
+    if (!startupRestored) {
+      success = false;
+    }
+
+    console.log('[Linux] Restauração completa finalizada');
+    return success;
+  } catch (error) {
+    console.error('Erro na restauração completa:', error);
+    return false;
+  }
+}
+
+/**
+ * Aplica boost de GPU (placeholder)
+ */
+export async function applyGpuBoost(mode: 'low'|'balanced'|'high'|'quality'|'max'|'max-vram-buffer'): Promise<{ ok: boolean; mode: string }> {
+  // Placeholder: sem integração real ainda. Apenas retorna ok.
+  currentGpuBoost = mode;
+  console.log(`[Linux] GPU boost aplicado: ${mode} (placeholder)`);
+  return { ok: true, mode };
+}
+
+/**
+ * Define velocidade da ventoinha (placeholder)
+ */
+export async function setFanSpeed(percent: number): Promise<{ ok: boolean; percent: number }> {
+  // Placeholder: controle de ventoinha depende de hwmon pwm/OEM; por ora só simula sucesso.
+  if (percent < 0) percent = 0;
+  if (percent > 100) percent = 100;
+
+  currentFanSpeed = percent;
+  console.log(`[Linux] Fan speed definida: ${percent}% (placeholder)`);
+  return { ok: true, percent };
+}
+
+/**
+ * Obtém o último boost de GPU aplicado (placeholder)
+ */
+export function getGpuBoost(): string | null {
+  return currentGpuBoost;
+}
+
+/**
+ * Obtém a última velocidade de ventoinha aplicada (placeholder)
+ */
+export function getFanSpeed(): number | null {
+  return currentFanSpeed;
+}
+
+/**
+ * Executa sequência completa de otimização Turbo
+ */
+export async function runTurboOptimization(preset: PresetConfig & { targetProcess?: string }): Promise<boolean> {
+  try {
+    // Fila única do engine: não concorre com Turbo/presets da UI nem com regras
+    await scheduler.run('turbo', 'Turbo', async () => {
+      console.log('[Linux] Iniciando otimização Turbo...');
+
+      // 1. Liberar RAM
+      await freeRam();
+
+      // 2. Fechar aplicações em segundo plano
+      if (preset.backgroundApps !== 'none') {
+        await closeBackgroundApps(preset.backgroundApps);
+      }
+
+      // 3. Definir prioridade de processos (se especificado)
+      if (preset.targetProcess) {
+        await setProcessPriority({
+          name: preset.targetProcess,
+          level: preset.cpuPriority
+        });
+      }
+
+      // 4. Aplicar perfil de energia performance
+      await applyPowerPlan('performance');
+
+      // 5. Limpar caches temporários
+      await clearTempCaches();
+
+      console.log('[Linux] Otimização Turbo concluída');
+    });
+    return true;
+  } catch (error) {
+    console.error('Erro na otimização Turbo:', error);
+    return false;
+  }
+}
+
+// Exportar todas as funções
+export default {
+  getActivePowerPlan,
+  setActivePowerPlan,
+  isPowerPlanActive,
+  applyPowerPlan,
+  getProcessPriority,
+  setProcessPriority,
+  listBackgroundApps,
+  listTempFiles,
+  startApps,
+  resumeApps,
+  closeBackgroundApps,
+  freeRam,
+  clearTempCaches,
+  disableNonEssentialStartup,
+  restoreStartup,
+  createRestorePoint,
+  restoreAll,
+  runTurboOptimization,
+  applyGpuBoost,
+  getGpuBoost,
+  setFanSpeed,
+  getFanSpeed
+};
@@ -0,0 +1,64 @@
+// Seleção do backend de otimização por plataforma
+// Windows (PowerShell) ou Linux (sh); web/preview usa o backend Windows apenas para montar planos
+
+import * as WindowsOptimizer from './windows'
+import * as LinuxOptimizer from './linux'
+import { detectPlatform } from '../util/platform'
+import type { PriorityLevel } from './windows'
+
+export type { PriorityLevel };
+
+export type PowerPlanMode = 'balanced' | 'performance' | 'ultimate';
+export type CloseAppsMode = 'smart' | 'kill-aggressive';
+export type GpuBoostMode = 'low' | 'balanced' | 'high' | 'quality' | 'max' | 'max-vram-buffer';
+
+interface ProcessPriorityOptions {
+  name?: string;
+  pid?: number;
+  level: PriorityLevel;
+}
+
+export interface OptimizerBackend {
+  POWER_PLANS: Record<PowerPlanMode, string>;
+  getActivePowerPlan(): Promise<string | null>;
+  setActivePowerPlan(plan: string): Promise<boolean>;
+  isPowerPlanActive(mode: PowerPlanMode): Promise<boolean>;
+  applyPowerPlan(mode: PowerPlanMode): Promise<boolean>;
+  buildPowerPlanScript(mode: PowerPlanMode): string;
+  getProcessPriority(options: Omit<ProcessPriorityOptions, 'level'>): Promise<PriorityLevel | null>;
+  setProcessPriority(options: ProcessPriorityOptions): Promise<boolean>;
+  buildPriorityScript(options: ProcessPriorityOptions): string;
+  // run: execução do journal em que o main registra os caminhos liberados para reabertura
+  listBackgroundApps(run?: string): Promise<{ pid: number; name: string; path: string }[]>;
+  closeBackgroundApps(mode: CloseAppsMode): Promise<number>;
+  buildCloseAppsScript(mode: CloseAppsMode): string;
+  startApps(paths: string[], run: string): Promise<number>;
+  // Apenas backends que suspendem processos (Linux/SIGSTOP)
+  resumeApps?(pids: number[]): Promise<number>;
+  freeRam(): Promise<boolean>;
+  buildFreeRamScript(): string;
+  clearTempCaches(): Promise<boolean>;
+  listTempFiles(limit?: number): Promise<string[]>;
+  tempCacheDirs(tmpDir: string): string[];
+  buildTempCleanupScript(tmpDir: string): string;
+  disableNonEssentialStartup(): Promise<boolean>;
+  restoreStartup(): Promise<boolean>;
+  createRestorePoint(): Promise<boolean>;
+  restoreAll(): Promise<boolean>;
+  applyGpuBoost(mode: GpuBoostMode): Promise<{ ok: boolean; mode: string }>;
+  getGpuBoost(): string | null;
+  setFanSpeed(percent: number): Promise<{ ok: boolean; percent: number }>;
+  getFanSpeed(): number | null;
+}
+
+const backends: Record<'windows' | 'linux', OptimizerBackend> = {
+  windows: WindowsOptimizer,
+  linux: LinuxOptimizer
+};
+
+/**
+ * Backend de otimização da plataforma atual
+ */
+export function getOptimizer(): OptimizerBackend {
+  return detectPlatform() === 'linux' ? backends.linux : backends.windows;
+}
@@ -1,29 +1,109 @@
 // Windows System Optimizer
-// Funções de otimização usando PowerShell via window.backend.runPS
-
-import { safeTmpDir } from '../util/tmpdir'
+// Funções de otimização via operações nomeadas do main (scripts PowerShell montados e validados em electron/operations.ts)
+
+import type { PresetConfig } from '../presets'
+import { invokeOperation } from '../../lib/powershell'
+import {
+  POWER_PLANS,
+  buildPowerPlanScript,
+  buildPriorityScript,
+  buildCloseAppsScript,
+  buildFreeRamScript,
+  buildTempCleanupScript,
+  tempCacheDirs,
+  type OperationArgs,
+  type OperationName,
+  type OperationResults,
+  type PriorityLevel,
+  type BackgroundApp
+} from '../../../electron/operations'
+import { scheduler } from '../scheduler'
+
+export type { PriorityLevel };
+
+// Scripts exibidos nos planos (dry-run): os mesmos que o main executa
+export { POWER_PLANS, buildPowerPlanScript, buildPriorityScript, buildCloseAppsScript, buildFreeRamScript, buildTempCleanupScript, tempCacheDirs };
 
 interface ProcessPriorityOptions {
   name?: string;
   pid?: number;
-  level: 'Normal' | 'High' | 'RealTime';
+  level: PriorityLevel;
 }
 
-// GUIDs dos planos de energia do Windows
-const POWER_PLANS = {
-  balanced: '381b4222-f694-41f0-9685-ff5bb260df2e',
-  performance: '8c5e7fda-e8bf-4a96-9a85-a6e23a8c635c',
-  ultimate: 'e9a42b02-d5df-448d-aa00-03f14749eb61'
-};
-
 // Processos críticos do sistema que não devem ser alterados
 const SYSTEM_WHITELIST = [
   'explorer', 'dwm', 'csrss', 'winlogon', 'services', 
   'nvcontainer', 'atieclxx', 'lsass', 'svchost', 'system'
 ];
 
-// Timeout para comandos PowerShell
-const PS_TIMEOUT = 20000;
+// Últimos valores aplicados pelos placeholders de hardware
+let currentFanSpeed: number | null = null;
+let currentGpuBoost: string | null = null;
+
+/**
+ * Executa operação do catálogo e retorna o resultado estruturado emitido por Write-GbResult
+ */
+async function runOperation<N extends OperationName>(name: N, args: OperationArgs<N>): Promise<OperationResults[N] | undefined> {
+  const result = await invokeOperation(name, args);
+  if (result.timedOut || result.cancelled) {
+    throw new Error(result.error || 'Execução interrompida');
+  }
+  if (result.data === undefined && result.stderr) {
+    console.warn(`[Windows] ${name}:`, result.stderr);
+  }
+  return result.data;
+}
+
+/**
+ * Obtém o GUID do plano de energia ativo
+ */
+export async function getActivePowerPlan(): Promise<string | null> {
+  try {
+    const data = await runOperation('getPowerPlan', {});
+    return data?.guid || null;
+  } catch (error) {
+    console.error('Erro ao obter plano de energia ativo:', error);
+    return null;
+  }
+}
+
+/**
+ * Ativa um plano de energia pelo GUID
+ */
+export async function setActivePowerPlan(guid: string): Promise<boolean> {
+  try {
+    if (!/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i.test(guid)) {
+      console.error(`GUID de plano de energia inválido: ${guid}`);
+      return false;
+    }
+
+    const data = await runOperation('setPowerPlan', { guid });
+    return !!data?.ok;
+  } catch (error) {
+    console.error(`Erro ao ativar plano de energia ${guid}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Verifica se o plano de energia está ativo
+ */
+export async function isPowerPlanActive(mode: 'balanced' | 'performance' | 'ultimate'): Promise<boolean> {
+  return (await getActivePowerPlan()) === POWER_PLANS[mode];
+}
+
+/**
+ * Lista arquivos que seriam removidos por clearTempCaches (somente leitura)
+ */
+export async function listTempFiles(limit: number = 500): Promise<string[]> {
+  try {
+    const data = await runOperation('listTempFiles', { limit });
+    return Array.isArray(data?.files) ? data!.files : [];
+  } catch (error) {
+    console.error('Erro ao listar arquivos temporários:', error);
+    return [];
+  }
+}
 
 /**
  * Aplica plano de energia do Windows
@@ -37,46 +117,14 @@ export async function applyPowerPlan(mode: 'balanced' | 'performance' | 'ultimat
     }
 
     // Salvar plano atual antes de alterar
-    const getCurrentPlan = `
-      $current = powercfg /getactivescheme
-      if ($current -match '([a-f0-9-]{36})') {
-        $matches[1]
-      }
-    `;
-
-    const currentPlan = await window.backend.runPS(getCurrentPlan, PS_TIMEOUT);
-    if (currentPlan && currentPlan.trim()) {
-      localStorage.setItem('gb.prevPowerPlan', currentPlan.trim());
-    }
-
-    // Verificar se o plano existe, criar Ultimate se necessário
-    let setupCommand = '';
-    if (mode === 'ultimate') {
-      setupCommand = `
-        $ultimateExists = powercfg /list | Select-String "${guid}"
-        if (-not $ultimateExists) {
-          powercfg /duplicatescheme e9a42b02-d5df-448d-aa00-03f14749eb61
-          Write-Host "Plano Ultimate Performance criado"
-        }
-      `;
+    const currentPlan = await getActivePowerPlan();
+    if (currentPlan) {
+      localStorage.setItem('gb.prevPowerPlan', currentPlan);
     }
 
     // Aplicar o plano de energia
-    const applyCommand = `
-      ${setupCommand}
-      powercfg /setactive ${guid}
-      $result = powercfg /getactivescheme
-      if ($result -match "${guid}") {
-        Write-Host "Plano ${mode} aplicado com sucesso"
-        $true
-      } else {
-        Write-Host "Erro ao aplicar plano ${mode}"
-        $false
-      }
-    `;
-
-    const result = await window.backend.runPS(applyCommand, PS_TIMEOUT);
-    const success = result && result.includes('aplicado com sucesso');
+    const data = await runOperation('applyPowerPlan', { mode });
+    const success = !!data?.ok;
     
     if (success) {
       console.log(`[Windows] Plano de energia alterado para: ${mode}`);
@@ -107,28 +155,12 @@ export async function setProcessPriority(options: ProcessPriorityOptions): Promi
       return false;
     }
 
-    const command = `
-      try {
-        ${pid ? `$process = Get-Process -Id ${pid} -ErrorAction Stop` : `$process = Get-Process -Name "${name}" -ErrorAction Stop`}
-        
-        # Verificar se não é processo crítico
-        $criticalProcesses = @('explorer', 'dwm', 'csrss', 'winlogon', 'services', 'nvcontainer', 'atieclxx', 'lsass', 'svchost', 'system')
-        if ($criticalProcesses -contains $process.ProcessName.ToLower()) {
-          Write-Host "Processo crítico do sistema, ignorando: $($process.ProcessName)"
-          return $false
-        }
-        
-        $process.PriorityClass = '${level}'
-        Write-Host "Prioridade do processo $($process.ProcessName) alterada para ${level}"
-        $true
-      } catch {
-        Write-Host "Erro ao alterar prioridade: $($_.Exception.Message)"
-        $false
-      }
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const success = result && result.includes('alterada para');
+    const data = await runOperation('setPriority', { name, pid, level });
+    const success = !!data?.ok;
+    
+    if (data && !data.ok) {
+      console.warn(`[Windows] Prioridade não alterada (${data.reason}): ${data.error || name || pid}`);
+    }
     
     if (success) {
       console.log(`[Windows] Prioridade do processo ${name || pid} alterada para: ${level}`);
@@ -141,43 +173,67 @@ export async function setProcessPriority(options: ProcessPriorityOptions): Promi
   }
 }
 
+/**
+ * Obtém a prioridade atual de um processo
+ */
+export async function getProcessPriority(options: Omit<ProcessPriorityOptions, 'level'>): Promise<PriorityLevel | null> {
+  try {
+    const { name, pid } = options;
+
+    if (!name && !pid) {
+      return null;
+    }
+
+    const data = await runOperation('getPriority', { name, pid });
+    return data?.level || null;
+  } catch (error) {
+    console.error('Erro ao obter prioridade do processo:', error);
+    return null;
+  }
+}
+
+/**
+ * Lista aplicações em segundo plano que seriam fechadas
+ * @param run - Execução do journal: o main registra os caminhos listados para a reabertura
+ */
+export async function listBackgroundApps(run?: string): Promise<BackgroundApp[]> {
+  try {
+    const data = await runOperation('listBackgroundApps', run ? { run } : {});
+    return Array.isArray(data?.apps) ? data!.apps : [];
+  } catch (error) {
+    console.error('Erro ao listar aplicações em segundo plano:', error);
+    return [];
+  }
+}
+
+/**
+ * Reabre aplicações a partir do caminho do executável (só os listados pelo main na execução)
+ */
+export async function startApps(paths: string[], run: string): Promise<number> {
+  let started = 0;
+
+  for (const appPath of paths) {
+    try {
+      const data = await runOperation('startApp', { path: appPath, run });
+      if (data?.ok) {
+        started++;
+      }
+    } catch (error) {
+      console.error(`Erro ao iniciar ${appPath}:`, error);
+    }
+  }
+
+  console.log(`[Windows] ${started}/${paths.length} aplicações reabertas`);
+  return started;
+}
+
 /**
  * Fecha aplicações em segundo plano
  */
 export async function closeBackgroundApps(mode: 'smart' | 'kill-aggressive'): Promise<number> {
   try {
-    const command = `
-      $closedCount = 0
-      $userProcesses = Get-Process | Where-Object { 
-        $_.ProcessName -notin @('explorer', 'dwm', 'csrss', 'winlogon', 'services', 'nvcontainer', 'atieclxx', 'lsass', 'svchost', 'system', 'audiodg', 'conhost') -and
-        $_.MainWindowTitle -ne '' -or $_.ProcessName -match '^(chrome|firefox|edge|discord|spotify|steam|epic|origin|uplay|battle|launcher)'
-      }
-      
-      foreach ($proc in $userProcesses) {
-        try {
-          if ('${mode}' -eq 'smart') {
-            if ($proc.CloseMainWindow()) {
-              Write-Host "Fechado (smart): $($proc.ProcessName)"
-              $closedCount++
-              Start-Sleep -Milliseconds 500
-            }
-          } else {
-            $proc.Kill()
-            Write-Host "Terminado (aggressive): $($proc.ProcessName)"
-            $closedCount++
-          }
-        } catch {
-          Write-Host "Não foi possível fechar: $($proc.ProcessName) - $($_.Exception.Message)"
-        }
-      }
-      
-      Write-Host "Total de processos fechados: $closedCount"
-      $closedCount
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const match = result?.match(/Total de processos fechados: (\d+)/);
-    const closedCount = match ? parseInt(match[1]) : 0;
+    const data = await runOperation('closeBackgroundApps', { mode });
+    const closedCount = data?.closed || 0;
     
     console.log(`[Windows] ${closedCount} aplicações fechadas (modo: ${mode})`);
     return closedCount;
@@ -192,26 +248,9 @@ export async function closeBackgroundApps(mode: 'smart' | 'kill-aggressive'): Pr
  */
 export async function freeRam(): Promise<boolean> {
   try {
-    const command = `
-      $toolPath = "tools/EmptyStandbyList.exe"
-      if (Test-Path $toolPath) {
-        Start-Process -FilePath $toolPath -Wait -NoNewWindow
-        Write-Host "RAM liberada com EmptyStandbyList"
-        $true
-      } else {
-        Write-Host "EmptyStandbyList.exe não encontrado em tools/"
-        # Alternativa usando comandos nativos
-        [System.GC]::Collect()
-        [System.GC]::WaitForPendingFinalizers()
-        Write-Host "Limpeza de RAM alternativa executada"
-        $false
-      }
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const success = result && result.includes('RAM liberada');
+    const data = await runOperation('freeRam', {});
     
-    if (success) {
+    if (data?.method === 'EmptyStandbyList') {
       console.log('[Windows] RAM liberada com EmptyStandbyList');
     } else {
       console.log('[Windows] Limpeza de RAM alternativa executada');
@@ -229,51 +268,11 @@ export async function freeRam(): Promise<boolean> {
  */
 export async function clearTempCaches(): Promise<boolean> {
   try {
-    const tmpDir = await safeTmpDir();
-    
-    const command = `
-      $cleaned = 0
-      $tmpDir = "${tmpDir}"
-      
-      # Limpar diretório temporário seguro
-      try {
-        $tempFiles = Get-ChildItem -Path $tmpDir -Recurse -Force -ErrorAction SilentlyContinue
-        $tempFiles | Remove-Item -Recurse -Force -ErrorAction SilentlyContinue
-        $cleaned += $tempFiles.Count
-        Write-Host "Limpeza do diretório temporário: $($tempFiles.Count) itens"
-      } catch {
-        Write-Host "Erro na limpeza do diretório temporário: $($_.Exception.Message)"
-      }
-      
-      # Limpar %WINDIR%\\\\Temp
-      try {
-        $winTempFiles = Get-ChildItem -Path "$env:WINDIR\\\\Temp" -Recurse -Force -ErrorAction SilentlyContinue
-        $winTempFiles | Remove-Item -Recurse -Force -ErrorAction SilentlyContinue
-        $cleaned += $winTempFiles.Count
-        Write-Host "Limpeza do Windows Temp: $($winTempFiles.Count) itens"
-      } catch {
-        Write-Host "Erro na limpeza do Windows Temp: $($_.Exception.Message)"
-      }
-      
-      # Limpar SoftwareDistribution\\\\Download
-      try {
-        $updateFiles = Get-ChildItem -Path "$env:WINDIR\\\\SoftwareDistribution\\\\Download" -Recurse -Force -ErrorAction SilentlyContinue
-        $updateFiles | Remove-Item -Recurse -Force -ErrorAction SilentlyContinue
-        $cleaned += $updateFiles.Count
-        Write-Host "Limpeza do SoftwareDistribution: $($updateFiles.Count) itens"
-      } catch {
-        Write-Host "Erro na limpeza do SoftwareDistribution: $($_.Exception.Message)"
-      }
-      
-      Write-Host "Total de itens limpos: $cleaned"
-      $true
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const success = result && result.includes('Total de itens limpos');
+    const data = await runOperation('clearTemp', {});
+    const success = !!data?.ok;
     
     if (success) {
-      console.log('[Windows] Caches temporários limpos');
+      console.log(`[Windows] Caches temporários limpos: ${data!.cleaned} itens`);
     }
     
     return success;
@@ -288,41 +287,8 @@ export async function clearTempCaches(): Promise<boolean> {
  */
 export async function disableNonEssentialStartup(): Promise<boolean> {
   try {
-    const command = `
-      # Criar backup do registro
-      $backupPath = "$env:USERPROFILE\\\\Documents\\\\startup-backup.reg"
-      reg export "HKEY_CURRENT_USER\\\\Software\\\\Microsoft\\\\Windows\\\\CurrentVersion\\\\Run" "$backupPath" /y
-      
-      # Listar e desabilitar entradas não Microsoft
-      $runKey = "HKCU:\\\\Software\\\\Microsoft\\\\Windows\\\\CurrentVersion\\\\Run"
-      $entries = Get-ItemProperty -Path $runKey -ErrorAction SilentlyContinue
-      $disabled = 0
-      
-      if ($entries) {
-        $entries.PSObject.Properties | ForEach-Object {
-          if ($_.Name -notin @('PSPath', 'PSParentPath', 'PSChildName', 'PSDrive', 'PSProvider')) {
-            $value = $_.Value
-            # Verificar se não é da Microsoft
-            if ($value -notmatch 'Microsoft|Windows|System32') {
-              try {
-                Remove-ItemProperty -Path $runKey -Name $_.Name -ErrorAction Stop
-                Write-Host "Desabilitado: $($_.Name)"
-                $disabled++
-              } catch {
-                Write-Host "Erro ao desabilitar: $($_.Name)"
-              }
-            }
-          }
-        }
-      }
-      
-      Write-Host "Backup salvo em: $backupPath"
-      Write-Host "Total desabilitado: $disabled"
-      $true
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const success = result && result.includes('Backup salvo em');
+    const data = await runOperation('disableStartup', {});
+    const success = !!data?.ok;
     
     if (success) {
       console.log('[Windows] Programas de inicialização não essenciais desabilitados');
@@ -340,20 +306,8 @@ export async function disableNonEssentialStartup(): Promise<boolean> {
  */
 export async function restoreStartup(): Promise<boolean> {
   try {
-    const command = `
-      $backupPath = "$env:USERPROFILE\\\\Documents\\\\startup-backup.reg"
-      if (Test-Path $backupPath) {
-        reg import "$backupPath"
-        Write-Host "Programas de inicialização restaurados"
-        $true
-      } else {
-        Write-Host "Backup não encontrado: $backupPath"
-        $false
-      }
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const success = result && result.includes('restaurados');
+    const data = await runOperation('restoreStartup', {});
+    const success = !!data?.ok;
     
     if (success) {
       console.log('[Windows] Programas de inicialização restaurados');
@@ -371,19 +325,8 @@ export async function restoreStartup(): Promise<boolean> {
  */
 export async function createRestorePoint(): Promise<boolean> {
   try {
-    const command = `
-      try {
-        Checkpoint-Computer -Description "GameBooster Optimization" -RestorePointType "MODIFY_SETTINGS"
-        Write-Host "Ponto de restauração criado"
-        $true
-      } catch {
-        Write-Host "Não foi possível criar ponto de restauração: $($_.Exception.Message)"
-        $false
-      }
-    `;
-
-    const result = await window.backend.runPS(command, PS_TIMEOUT);
-    const success = result && result.includes('criado');
+    const data = await runOperation('createRestorePoint', {});
+    const success = !!data?.ok;
     
     if (success) {
       console.log('[Windows] Ponto de restauração criado');
@@ -408,12 +351,7 @@ export async function restoreAll(): Promise<boolean> {
     // Restaurar plano de energia anterior
     const prevPowerPlan = localStorage.getItem('gb.prevPowerPlan');
     if (prevPowerPlan) {
-      const restorePowerCommand = `
-        powercfg /setactive ${prevPowerPlan}
-        Write-Host "Plano de energia anterior restaurado"
-      `;
-      
-      await window.backend.runPS(restorePowerCommand, PS_TIMEOUT);
+      await setActivePowerPlan(prevPowerPlan);
       localStorage.removeItem('gb.prevPowerPlan');
       console.log('[Windows] Plano de energia anterior restaurado');
     }
@@ -437,6 +375,7 @@ export async function restoreAll(): Promise<boolean> {
  */
 export async function applyGpuBoost(mode: 'low'|'balanced'|'high'|'quality'|'max'|'max-vram-buffer'): Promise<{ ok: boolean; mode: string }> {
   // Placeholder: sem integração real ainda. Apenas retorna ok.
+  currentGpuBoost = mode;
   console.log(`[Windows] GPU boost aplicado: ${mode} (placeholder)`);
   return { ok: true, mode };
 }
@@ -449,38 +388,58 @@ export async function setFanSpeed(percent: number): Promise<{ ok: boolean; perce
   if (percent < 0) percent = 0;
   if (percent > 100) percent = 100;
   
+  currentFanSpeed = percent;
   console.log(`[Windows] Fan speed definida: ${percent}% (placeholder)`);
   return { ok: true, percent };
 }
 
+/**
+ * Obtém o último boost de GPU aplicado (placeholder)
+ */
+export function getGpuBoost(): string | null {
+  return currentGpuBoost;
+}
+
+/**
+ * Obtém a última velocidade de ventoinha aplicada (placeholder)
+ */
+export function getFanSpeed(): number | null {
+  return currentFanSpeed;
+}
+
 /**
  * Executa sequência completa de otimização Turbo
  */
-export async function runTurboOptimization(preset: any): Promise<boolean> {
+export async function runTurboOptimization(preset: PresetConfig & { targetProcess?: string }): Promise<boolean> {
   try {
-    console.log('[Windows] Iniciando otimização Turbo...');
+    // Fila única do engine: não concorre com Turbo/presets da UI nem com regras
+    await scheduler.run('turbo', 'Turbo', async () => {
+      console.log('[Windows] Iniciando otimização Turbo...');
     
-    // 1. Liberar RAM
-    await freeRam();
+      // 1. Liberar RAM
+      await freeRam();
     
-    // 2. Fechar aplicações em segundo plano
-    await closeBackgroundApps(preset.backgroundApps || 'smart');
+      // 2. Fechar aplicações em segundo plano
+      if (preset.backgroundApps !== 'none') {
+        await closeBackgroundApps(preset.backgroundApps);
+      }
     
-    // 3. Definir prioridade de processos (se especificado)
-    if (preset.targetProcess) {
-      await setProcessPriority({
-        name: preset.targetProcess,
-        level: preset.cpuPriority === 'realtime' ? 'RealTime' : 'High'
-      });
-    }
+      // 3. Definir prioridade de processos (se especificado)
+      if (preset.targetProcess) {
+        await setProcessPriority({
+          name: preset.targetProcess,
+          level: preset.cpuPriority
+        });
+      }
     
-    // 4. Aplicar plano de energia performance
-    await applyPowerPlan('performance');
+      // 4. Aplicar plano de energia performance
+      await applyPowerPlan('performance');
     
-    // 5. Limpar caches temporários
-    await clearTempCaches();
+      // 5. Limpar caches temporários
+      await clearTempCaches();
     
-    console.log('[Windows] Otimização Turbo concluída');
+      console.log('[Windows] Otimização Turbo concluída');
+    });
     return true;
   } catch (error) {
     console.error('Erro na otimização Turbo:', error);
@@ -490,8 +449,15 @@ export async function runTurboOptimization(preset: any): Promise<boolean> {
 
 // Exportar todas as funções
 export default {
+  getActivePowerPlan,
+  setActivePowerPlan,
+  isPowerPlanActive,
   applyPowerPlan,
+  getProcessPriority,
   setProcessPriority,
+  listBackgroundApps,
+  listTempFiles,
+  startApps,
   closeBackgroundApps,
   freeRam,
   clearTempCaches,
@@ -501,5 +467,7 @@ export default {
   restoreAll,
   runTurboOptimization,
   applyGpuBoost,
-  setFanSpeed
+  getGpuBoost,
+  setFanSpeed,
+  getFanSpeed
 };
\ No newline at end of file
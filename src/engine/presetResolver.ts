@@ -0,0 +1,210 @@
+/**
+ * GameBoost AI - Resolver de Presets
+ * Combina herança (extends) e ajustes por jogo na configuração efetiva, registrando a origem de cada valor
+ */
+
+import { z } from 'zod'
+import { getExtendsChain, migratePresetValues, type PresetConfig } from './presets'
+import { presetConfigSchema, isBuiltinPreset, getPresetDefinitions, getPresetDisplayName } from './presetStore'
+import { matchesProcess } from './games/catalog'
+import { log } from '../lib/logger'
+
+export type PresetField = keyof PresetConfig
+
+export interface PresetLayer {
+  kind: 'preset' | 'custom' | 'game'
+  // Chave do preset (camadas de preset) ou id do ajuste (camadas de jogo)
+  id: string
+  label: string
+  values: Partial<PresetConfig>
+}
+
+export interface ResolvedPreset {
+  key: string
+  config: PresetConfig
+  // Da base para o topo; camadas posteriores sobrescrevem as anteriores
+  layers: PresetLayer[]
+  origins: Partial<Record<PresetField, PresetLayer>>
+}
+
+export const gameOverrideSchema = z.object({
+  id: z.string().min(1),
+  // Nome do executável (com ou sem .exe)
+  executable: z.string().trim().min(1).max(80),
+  // Preset ao qual o ajuste se aplica; ausente = qualquer preset
+  preset: z.string().optional(),
+  values: presetConfigSchema.partial()
+})
+
+export type GameOverride = z.infer<typeof gameOverrideSchema>
+
+type OverrideListener = (overrides: GameOverride[]) => void
+
+const STORAGE_KEY = 'gb.gameOverrides'
+
+const listeners = new Set<OverrideListener>()
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+function readOverrides(): GameOverride[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : null
+    if (!parsed || !Array.isArray(parsed.overrides)) return []
+
+    const overrides: GameOverride[] = []
+    for (const entry of parsed.overrides) {
+      // Ajustes salvos antes da tipagem podem conter valores antigos
+      const values = migratePresetValues(entry?.values || {}).values
+      const result = gameOverrideSchema.safeParse({ ...entry, values })
+      if (result.success) overrides.push(result.data)
+    }
+    return overrides
+  } catch {
+    return []
+  }
+}
+
+function writeOverrides(overrides: GameOverride[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ overrides }))
+  } catch {}
+
+  listeners.forEach(listener => listener([...overrides]))
+}
+
+/**
+ * Remove campos indefinidos para que não sobrescrevam camadas anteriores
+ */
+function definedValues(values: Partial<PresetConfig>): Partial<PresetConfig> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<PresetConfig>
+}
+
+/**
+ * Lista ajustes por jogo
+ */
+export function listGameOverrides(): GameOverride[] {
+  return readOverrides()
+}
+
+/**
+ * Cria ou atualiza o ajuste de um executável (opcionalmente restrito a um preset)
+ */
+export function setGameOverride(executable: string, values: Partial<PresetConfig>, preset?: string): GameOverride {
+  const overrides = readOverrides()
+  const existing = overrides.find(o => o.preset === preset && matchesProcess(executable, o.executable))
+
+  const result = gameOverrideSchema.safeParse({
+    id: existing?.id || `go_${Date.now().toString(36)}`,
+    executable,
+    preset,
+    values: definedValues(values)
+  })
+  if (!result.success) {
+    throw new Error(`Ajuste inválido: ${result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`)
+  }
+  if (Object.keys(result.data.values).length === 0) {
+    throw new Error('Ajuste sem valores')
+  }
+
+  const next = existing
+    ? overrides.map(o => o.id === existing.id ? result.data : o)
+    : [...overrides, result.data]
+
+  writeOverrides(next)
+  log(`[${formatTime()}] Ajuste salvo para ${result.data.executable}${preset ? ` (${getPresetDisplayName(preset)})` : ''}`, 'info')
+  return result.data
+}
+
+/**
+ * Remove um ajuste por jogo
+ */
+export function removeGameOverride(id: string): boolean {
+  const overrides = readOverrides()
+  const next = overrides.filter(o => o.id !== id)
+  if (next.length === overrides.length) return false
+
+  writeOverrides(next)
+  return true
+}
+
+/**
+ * Registra listener de mudanças nos ajustes por jogo
+ */
+export function subscribeGameOverrides(listener: OverrideListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/**
+ * Camadas que compõem um preset, da base até os ajustes do jogo
+ */
+export function getPresetLayers(key: string, options: { executable?: string } = {}): PresetLayer[] {
+  const layers: PresetLayer[] = []
+
+  // Nativos e personalizados compartilham a mesma cadeia (e a detecção de ciclos de presets.ts)
+  const definitions = getPresetDefinitions()
+  if (!Object.prototype.hasOwnProperty.call(definitions, key)) return []
+
+  let chain: string[]
+  try {
+    chain = getExtendsChain(key, definitions)
+  } catch (error) {
+    log(`[${formatTime()}] Preset '${getPresetDisplayName(key)}' ignorado: ${error instanceof Error ? error.message : error}`, 'warning')
+    return []
+  }
+
+  for (const layerKey of chain) {
+    const { extends: _base, ...values } = definitions[layerKey]
+    layers.push({
+      kind: isBuiltinPreset(layerKey) ? 'preset' : 'custom',
+      id: layerKey,
+      label: getPresetDisplayName(layerKey),
+      values
+    })
+  }
+
+  const { executable } = options
+  if (executable) {
+    const matching = readOverrides()
+      .filter(o => matchesProcess(executable, o.executable))
+      .filter(o => !o.preset || o.preset === key)
+      // Ajustes genéricos do jogo primeiro; os específicos do preset prevalecem
+      .sort((a, b) => Number(!!a.preset) - Number(!!b.preset))
+
+    for (const override of matching) {
+      layers.push({
+        kind: 'game',
+        id: override.id,
+        label: `${override.executable}${override.preset ? ` · ${getPresetDisplayName(override.preset)}` : ''}`,
+        values: override.values
+      })
+    }
+  }
+
+  return layers
+}
+
+/**
+ * Configuração efetiva de um preset e a camada de origem de cada valor
+ */
+export function resolvePreset(key: string | null | undefined, options: { executable?: string } = {}): ResolvedPreset | null {
+  if (!key) return null
+
+  const layers = getPresetLayers(key, options)
+  if (layers.length === 0) return null
+
+  const config: Partial<PresetConfig> = {}
+  const origins: Partial<Record<PresetField, PresetLayer>> = {}
+
+  for (const layer of layers) {
+    for (const [field, value] of Object.entries(definedValues(layer.values))) {
+      (config as Record<string, unknown>)[field] = value
+      origins[field as PresetField] = layer
+    }
+  }
+
+  return { key, config: config as PresetConfig, layers, origins }
+}
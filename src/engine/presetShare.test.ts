@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { presets } from './presets'
+import {
+  parsePresetImport,
+  encodeShareCode,
+  importPresetFile,
+  PRESET_FILE_FORMAT,
+  PRESET_FILE_VERSION,
+  MIN_IMPORTED_FAN_SPEED,
+  type PresetFile
+} from './presetShare'
+
+// localStorage em memória (o store de presets roda no renderer)
+const storage = new Map<string, string>()
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value) },
+  removeItem: (key: string) => { storage.delete(key) }
+})
+
+function shareCode(config: Partial<PresetFile['config']>): string {
+  return encodeShareCode({
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    name: 'Compartilhado',
+    metadata: { exportedAt: '2025-01-01T12:00:00.000Z' },
+    config: { ...presets.battleroyale, ...config }
+  } as PresetFile)
+}
+
+function parsed(code: string) {
+  const result = parsePresetImport(code)
+  if (!result.success) throw new Error(result.error)
+  return result
+}
+
+beforeEach(() => {
+  storage.clear()
+})
+
+describe('política de segurança da importação', () => {
+  it('recusa ventoinha abaixo do mínimo', () => {
+    expect(parsePresetImport(shareCode({ fanSpeed: 0 }))).toEqual({
+      success: false,
+      error: `Preset inseguro: ventoinha em 0% (mínimo ${MIN_IMPORTED_FAN_SPEED}% em presets importados)`
+    })
+    expect(parsed(shareCode({ fanSpeed: MIN_IMPORTED_FAN_SPEED })).risks).toEqual([])
+  })
+
+  it('sinaliza RealTime e fechamento agressivo como riscos', () => {
+    const { risks } = parsed(shareCode({ cpuPriority: 'RealTime', backgroundApps: 'kill-aggressive' }))
+
+    expect(risks).toHaveLength(2)
+    expect(risks[0]).toContain('RealTime')
+    expect(risks[1]).toContain('Fechamento agressivo')
+  })
+
+  it('só importa valores arriscados com confirmação', () => {
+    const { file } = parsed(shareCode({ cpuPriority: 'RealTime' }))
+
+    expect(() => importPresetFile(file)).toThrow('Confirme os riscos do preset antes de importar')
+    expect(storage.size).toBe(0)
+
+    const preset = importPresetFile(file, { confirmRisks: true })
+    expect(preset.name).toBe('Compartilhado')
+    expect(preset.config.cpuPriority).toBe('RealTime')
+  })
+
+  it('não aceita confirmação para ventoinha abaixo do mínimo', () => {
+    const file = { ...parsed(shareCode({})).file }
+    file.config = { ...file.config, fanSpeed: 10 }
+
+    expect(() => importPresetFile(file, { confirmRisks: true })).toThrow(`${MIN_IMPORTED_FAN_SPEED}%`)
+  })
+
+  it('importa presets sem riscos diretamente', () => {
+    const { file, risks } = parsed(shareCode({ cpuPriority: 'High', backgroundApps: 'smart' }))
+
+    expect(risks).toEqual([])
+    expect(importPresetFile(file).config.backgroundApps).toBe('smart')
+  })
+})
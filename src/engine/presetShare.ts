@@ -0,0 +1,272 @@
+/**
+ * GameBoost AI - Importação/Exportação de Presets
+ *
+ * Arquivo .gbpreset.json (versão 2):
+ *   {
+ *     "format": "gameboost-preset",
+ *     "version": 2,
+ *     "name": "Meu CS2",                       // 1-40 caracteres
+ *     "description": "Opcional, até 120",
+ *     "metadata": {
+ *       "author": "Opcional",                  // até 60
+ *       "game": "Opcional (ex.: cs2)",         // até 60
+ *       "hardware": "Opcional (ex.: 5800X3D + RX 7800 XT)", // até 200
+ *       "exportedAt": "2025-01-01T12:00:00.000Z"
+ *     },
+ *     "config": { ...PresetConfig }            // mesmos valores aceitos pelo editor de presets
+ *   }
+ *
+ * Código de compartilhamento: "GB1." + JSON compacto do arquivo em base64url.
+ * Campos desconhecidos, versões futuras, textos com caracteres de controle e
+ * etapas fora do registro são recusados na importação. Arquivos da versão 1
+ * (valores antigos como cpuPriority 'realtime') são convertidos com aviso.
+ *
+ * Política de segurança da importação: ventoinha abaixo de MIN_IMPORTED_FAN_SPEED é recusada;
+ * prioridade RealTime e fechamento agressivo de apps exigem confirmação explícita (ver IMPORT_RISKS).
+ */
+
+import { z } from 'zod'
+import { migratePresetValues, type PresetConfig } from './presets'
+import { presetConfigSchema, getPreset, getPresetDisplayName, getCustomPreset, createCustomPreset, updateCustomPreset, type CustomPreset } from './presetStore'
+import { getStep } from './steps'
+
+export const PRESET_FILE_FORMAT = 'gameboost-preset'
+export const PRESET_FILE_VERSION = 2
+export const SHARE_CODE_PREFIX = 'GB1.'
+
+// Limite para evitar colar conteúdo arbitrário grande
+const MAX_IMPORT_LENGTH = 16 * 1024
+
+// Menor velocidade de ventoinha aceita de um preset de terceiros (a do preset nativo 'silent')
+export const MIN_IMPORTED_FAN_SPEED = 30
+
+// Valores aceitos apenas com confirmação do usuário
+const IMPORT_RISKS: { test: (config: PresetConfig) => boolean; message: string }[] = [
+  {
+    test: config => config.cpuPriority === 'RealTime',
+    message: 'Prioridade RealTime pode travar o sistema (entrada, áudio e drivers ficam sem CPU)'
+  },
+  {
+    test: config => config.backgroundApps === 'kill-aggressive',
+    message: 'Fechamento agressivo encerra apps abertos sem salvar o trabalho'
+  }
+]
+
+// Texto simples: sem caracteres de controle (exceto quebra de linha em notas)
+const safeText = (max: number) => z.string().max(max).refine(
+  value => !/[\u0000-\u0009\u000b-\u001f\u007f]/.test(value),
+  'contém caracteres não permitidos'
+)
+
+const stepIds = z.array(z.string().min(1)).optional().refine(
+  ids => !ids || ids.every(id => getStep(id)),
+  ids => ({ message: `etapas desconhecidas: ${(ids || []).filter(id => !getStep(id)).join(', ')}` })
+)
+
+const sharedConfigSchema = presetConfigSchema.extend({
+  notes: safeText(500).optional(),
+  turboSteps: stepIds,
+  presetSteps: stepIds
+}).strict()
+
+export const presetFileSchema = z.object({
+  format: z.literal(PRESET_FILE_FORMAT),
+  version: z.literal(PRESET_FILE_VERSION),
+  name: safeText(40).pipe(z.string().trim().min(1)),
+  description: safeText(120).optional(),
+  metadata: z.object({
+    author: safeText(60).optional(),
+    game: safeText(60).optional(),
+    hardware: safeText(200).optional(),
+    exportedAt: z.string().datetime()
+  }).strict(),
+  config: sharedConfigSchema
+}).strict()
+
+export type PresetFile = z.infer<typeof presetFileSchema>
+export type PresetFileMetadata = Omit<PresetFile['metadata'], 'exportedAt'>
+
+export type PresetImportResult =
+  // risks: valores que exigem confirmação antes de importPresetFile
+  | { success: true; file: PresetFile; warnings: string[]; risks: string[] }
+  | { success: false; error: string }
+
+export interface PresetDiffEntry {
+  field: keyof PresetConfig
+  from: PresetConfig[keyof PresetConfig]
+  to: PresetConfig[keyof PresetConfig]
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || 'arquivo'}: ${issue.message}`)
+    .join('; ')
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4))
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+}
+
+/**
+ * Monta o arquivo de exportação de um preset nativo ou personalizado
+ */
+export function exportPresetFile(key: string, metadata: PresetFileMetadata = {}): PresetFile {
+  const config = getPreset(key)
+  if (!config) {
+    throw new Error(`Preset '${key}' não encontrado`)
+  }
+
+  const file = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    name: getPresetDisplayName(key),
+    description: getCustomPreset(key)?.description,
+    metadata: {
+      ...metadata,
+      exportedAt: new Date().toISOString()
+    },
+    config
+  }
+
+  const result = presetFileSchema.safeParse(JSON.parse(JSON.stringify(file)))
+  if (!result.success) {
+    throw new Error(`Preset não pode ser exportado: ${formatIssues(result.error)}`)
+  }
+  return result.data
+}
+
+/**
+ * Serializa o arquivo em JSON legível
+ */
+export function serializePresetFile(file: PresetFile): string {
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Gera o código de compartilhamento (GB1.<base64url>)
+ */
+export function encodeShareCode(file: PresetFile): string {
+  return SHARE_CODE_PREFIX + toBase64Url(JSON.stringify(file))
+}
+
+/**
+ * Valida um objeto já decodificado como arquivo de preset
+ */
+export function validatePresetFile(input: unknown): PresetImportResult {
+  const { format, version, config } = (input && typeof input === 'object' ? input : {}) as { format?: unknown; version?: unknown; config?: unknown }
+  if (format !== PRESET_FILE_FORMAT) {
+    return { success: false, error: 'Arquivo não é um preset do GameBoost' }
+  }
+  if (typeof version === 'number' && version > PRESET_FILE_VERSION) {
+    return { success: false, error: `Versão ${version} do formato não suportada; atualize o GameBoost` }
+  }
+
+  // Versão 1: valores de preset anteriores à tipagem
+  let warnings: string[] = []
+  let candidate = input
+  if (version === 1 && config && typeof config === 'object') {
+    const migrated = migratePresetValues(config as Record<string, unknown>)
+    warnings = migrated.warnings
+    candidate = { ...(input as object), version: PRESET_FILE_VERSION, config: migrated.values }
+  }
+
+  const result = presetFileSchema.safeParse(candidate)
+  if (!result.success) {
+    return { success: false, error: `Preset inválido: ${formatIssues(result.error)}` }
+  }
+
+  if (result.data.config.fanSpeed < MIN_IMPORTED_FAN_SPEED) {
+    return { success: false, error: `Preset inseguro: ventoinha em ${result.data.config.fanSpeed}% (mínimo ${MIN_IMPORTED_FAN_SPEED}% em presets importados)` }
+  }
+
+  return { success: true, file: result.data, warnings, risks: getImportRisks(result.data.config) }
+}
+
+/**
+ * Valores arriscados do preset que exigem confirmação na importação
+ */
+export function getImportRisks(config: PresetConfig): string[] {
+  return IMPORT_RISKS.filter(risk => risk.test(config)).map(risk => risk.message)
+}
+
+/**
+ * Lê o texto colado/aberto pelo usuário: arquivo JSON ou código de compartilhamento
+ */
+export function parsePresetImport(text: string): PresetImportResult {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    return { success: false, error: 'Nada para importar' }
+  }
+  if (trimmed.length > MAX_IMPORT_LENGTH) {
+    return { success: false, error: 'Conteúdo grande demais para um preset' }
+  }
+
+  let json: string
+  if (trimmed.startsWith(SHARE_CODE_PREFIX)) {
+    try {
+      json = fromBase64Url(trimmed.slice(SHARE_CODE_PREFIX.length).replace(/\s+/g, ''))
+    } catch {
+      return { success: false, error: 'Código de compartilhamento corrompido' }
+    }
+  } else if (trimmed.startsWith('{')) {
+    json = trimmed
+  } else {
+    return { success: false, error: 'Formato não reconhecido: cole o JSON do preset ou um código GB1.' }
+  }
+
+  try {
+    return validatePresetFile(JSON.parse(json))
+  } catch {
+    return { success: false, error: 'JSON inválido' }
+  }
+}
+
+/**
+ * Diferenças campo a campo entre dois presets
+ */
+export function diffPresetConfig(current: PresetConfig, incoming: PresetConfig): PresetDiffEntry[] {
+  const fields: (keyof PresetConfig)[] = [
+    'cpuPriority', 'ramCleanup', 'backgroundApps', 'fanSpeed', 'powerMode', 'gpuBoost', 'notes', 'turboSteps', 'presetSteps'
+  ]
+
+  return fields
+    .filter(field => JSON.stringify(current[field]) !== JSON.stringify(incoming[field]))
+    .map(field => ({ field, from: current[field], to: incoming[field] }))
+}
+
+/**
+ * Salva o arquivo importado como novo preset ou substituindo um preset personalizado
+ * (valores arriscados só com confirmRisks)
+ */
+export function importPresetFile(file: PresetFile, options: { replaceKey?: string; confirmRisks?: boolean } = {}): CustomPreset {
+  if (file.config.fanSpeed < MIN_IMPORTED_FAN_SPEED) {
+    throw new Error(`Ventoinha abaixo de ${MIN_IMPORTED_FAN_SPEED}% não é aceita em presets importados`)
+  }
+  if (!options.confirmRisks && getImportRisks(file.config).length > 0) {
+    throw new Error('Confirme os riscos do preset antes de importar')
+  }
+
+  const description = file.description || [file.metadata.game, file.metadata.author && `por ${file.metadata.author}`]
+    .filter(Boolean)
+    .join(' · ') || undefined
+
+  if (options.replaceKey) {
+    return updateCustomPreset(options.replaceKey, {
+      name: file.name,
+      description,
+      config: file.config
+    })
+  }
+
+  return createCustomPreset(file.name, file.config, { description })
+}
@@ -0,0 +1,451 @@
+/**
+ * GameBoost AI - Store de Presets
+ * Resolve presets nativos e personalizados (validados com zod e persistidos localmente)
+ */
+
+import { z } from 'zod'
+import {
+  presets,
+  presetDefinitions,
+  presetDisplayNames,
+  flattenPreset,
+  normalizeProfileName,
+  migratePresetValues,
+  CPU_PRIORITIES,
+  RAM_CLEANUPS,
+  BACKGROUND_APPS,
+  POWER_MODES,
+  GPU_BOOSTS,
+  type PresetConfig,
+  type PresetDefinition
+} from './presets'
+import { log } from '../lib/logger'
+
+export { CPU_PRIORITIES, RAM_CLEANUPS, BACKGROUND_APPS, POWER_MODES, GPU_BOOSTS }
+
+export const presetConfigSchema = z.object({
+  cpuPriority: z.enum(CPU_PRIORITIES),
+  ramCleanup: z.enum(RAM_CLEANUPS),
+  backgroundApps: z.enum(BACKGROUND_APPS),
+  fanSpeed: z.number().int().min(0).max(100),
+  powerMode: z.enum(POWER_MODES),
+  gpuBoost: z.enum(GPU_BOOSTS),
+  notes: z.string().max(500).optional(),
+  turboSteps: z.array(z.string().min(1)).optional(),
+  presetSteps: z.array(z.string().min(1)).optional()
+})
+
+export const customPresetSchema = z.object({
+  key: z.string().regex(/^custom_[a-z0-9_]+$/),
+  name: z.string().trim().min(1).max(40),
+  description: z.string().max(120).optional(),
+  basedOn: z.string().optional(),
+  // Preset herdado (nativo ou personalizado); config guarda apenas os campos sobrescritos
+  extends: z.string().min(1).optional(),
+  config: presetConfigSchema.partial(),
+  createdAt: z.number(),
+  updatedAt: z.number()
+}).refine(
+  preset => !!preset.extends || presetConfigSchema.safeParse(preset.config).success,
+  { message: 'configuração incompleta (informe todos os campos ou um preset base)', path: ['config'] }
+)
+
+export type CustomPreset = z.infer<typeof customPresetSchema>
+
+export interface PresetSummary {
+  key: string
+  name: string
+  description?: string
+  builtin: boolean
+  config: PresetConfig
+}
+
+interface CustomPresetStore {
+  presets: Record<string, CustomPreset>
+}
+
+type PresetListener = (custom: CustomPreset[]) => void
+
+type ActiveProfileListener = (key: string | null) => void
+
+const STORAGE_KEY = 'gb.customPresets'
+
+const ACTIVE_PROFILE_KEY = 'gb.profile'
+
+const listeners = new Set<PresetListener>()
+
+const activeProfileListeners = new Set<ActiveProfileListener>()
+
+/**
+ * Formata os problemas de validação do zod em uma mensagem legível
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || 'preset'}: ${issue.message}`)
+    .join('; ')
+}
+
+/**
+ * Ler store persistido, convertendo valores antigos e descartando entradas inválidas
+ */
+function readStore(): CustomPresetStore {
+  const store: CustomPresetStore = { presets: {} }
+  let migrated = false
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : null
+    if (parsed && typeof parsed === 'object' && parsed.presets) {
+      for (const entry of Object.values(parsed.presets) as any[]) {
+        const { values: config, warnings } = migratePresetValues(entry?.config || {})
+        const result = customPresetSchema.safeParse({ ...entry, config })
+        if (!result.success) continue
+
+        store.presets[result.data.key] = result.data
+        if (warnings.length > 0) {
+          migrated = true
+          log(`Preset '${result.data.name}' migrado: ${warnings.join('; ')}`, 'warning')
+        }
+      }
+    }
+  } catch {}
+
+  // Persistir a conversão para não repetir os avisos
+  if (migrated) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+    } catch {}
+  }
+
+  return store
+}
+
+/**
+ * Persistir store e notificar listeners
+ */
+function writeStore(store: CustomPresetStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+  } catch {}
+
+  const list = sortPresets(Object.values(store.presets))
+  listeners.forEach(listener => listener(list))
+}
+
+/**
+ * Definições no formato de herança de presets.ts (nativos + personalizados do store)
+ */
+function definitionsOf(store: CustomPresetStore): Record<string, PresetDefinition> {
+  const custom = Object.values(store.presets).map(preset => [preset.key, { ...preset.config, extends: preset.extends }])
+  return { ...presetDefinitions, ...Object.fromEntries(custom) }
+}
+
+/**
+ * Configuração efetiva de um preset do store (herança aplicada); lança erro em ciclo ou base ausente
+ */
+function flattenFromStore(key: string, store: CustomPresetStore): PresetConfig {
+  return flattenPreset(key, definitionsOf(store))
+}
+
+/**
+ * Mantém só os campos diferentes do preset base: os iguais continuam herdados
+ */
+function overridesOf(config: unknown, base: string | undefined, store: CustomPresetStore): unknown {
+  if (!base || !config || typeof config !== 'object') return config
+
+  let inherited: PresetConfig
+  try {
+    inherited = flattenFromStore(base, store)
+  } catch {
+    return config
+  }
+
+  return Object.fromEntries(
+    Object.entries(migratePresetValues(config as Record<string, unknown>).values)
+      .filter(([field, value]) => inherited[field as keyof PresetConfig] !== value)
+  )
+}
+
+function sortPresets(list: CustomPreset[]): CustomPreset[] {
+  return list.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Gera chave única a partir do nome (custom_<slug>)
+ */
+function createKey(name: string, store: CustomPresetStore): string {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'preset'
+
+  let key = `custom_${slug}`
+  for (let i = 2; store.presets[key] || presets[key]; i++) {
+    key = `custom_${slug}_${i}`
+  }
+  return key
+}
+
+/**
+ * Valida uma configuração de preset, convertendo valores antigos (com aviso)
+ */
+export function validatePresetConfig(input: unknown):
+  | { success: true; data: PresetConfig; warnings: string[] }
+  | { success: false; error: string } {
+  const { values, warnings } = input && typeof input === 'object'
+    ? migratePresetValues(input as Record<string, unknown>)
+    : { values: input, warnings: [] }
+
+  const result = presetConfigSchema.safeParse(values)
+  return result.success
+    ? { success: true, data: result.data, warnings }
+    : { success: false, error: formatIssues(result.error) }
+}
+
+/**
+ * Verifica se a chave é de um preset nativo
+ */
+export function isBuiltinPreset(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(presets, key)
+}
+
+/**
+ * Lista presets personalizados (ordem de criação)
+ */
+export function listCustomPresets(): CustomPreset[] {
+  return sortPresets(Object.values(readStore().presets))
+}
+
+/**
+ * Obtém um preset personalizado
+ */
+export function getCustomPreset(key: string): CustomPreset | null {
+  return readStore().presets[key] || null
+}
+
+/**
+ * Definições de todos os presets (nativos + personalizados) para resolver a cadeia de herança
+ */
+export function getPresetDefinitions(): Record<string, PresetDefinition> {
+  return definitionsOf(readStore())
+}
+
+/**
+ * Lista todos os presets (nativos primeiro; personalizados com herança inválida ficam de fora)
+ */
+export function listAllPresets(): PresetSummary[] {
+  const builtins = Object.keys(presets).map(key => ({
+    key,
+    name: presetDisplayNames[key] || key,
+    builtin: true,
+    config: presets[key]
+  }))
+
+  const store = readStore()
+  const custom: PresetSummary[] = []
+  for (const preset of sortPresets(Object.values(store.presets))) {
+    try {
+      custom.push({
+        key: preset.key,
+        name: preset.name,
+        description: preset.description,
+        builtin: false,
+        config: flattenFromStore(preset.key, store)
+      })
+    } catch {}
+  }
+  return [...builtins, ...custom]
+}
+
+/**
+ * Obtém a configuração efetiva de um preset nativo ou personalizado (herança aplicada)
+ */
+export function getPreset(key: string | null | undefined): PresetConfig | null {
+  if (!key) return null
+  if (isBuiltinPreset(key)) return presets[key]
+
+  const store = readStore()
+  if (!store.presets[key]) return null
+
+  try {
+    return flattenFromStore(key, store)
+  } catch (error) {
+    log(`Preset '${store.presets[key].name}' ignorado: ${error instanceof Error ? error.message : error}`, 'warning')
+    return null
+  }
+}
+
+/**
+ * Nome de exibição de um preset nativo ou personalizado
+ */
+export function getPresetDisplayName(key: string): string {
+  return presetDisplayNames[key] || readStore().presets[key]?.name || key
+}
+
+/**
+ * Resolve chave, nome de exibição ou apelido para a chave do preset
+ */
+export function resolveProfileKey(identifier: string | null | undefined): string | null {
+  if (!identifier) return null
+  if (getPreset(identifier)) return identifier
+
+  const custom = listCustomPresets()
+  const lower = identifier.trim().toLowerCase()
+  const byName = custom.find(preset => preset.key === lower || preset.name.toLowerCase() === lower)
+  if (byName) return byName.key
+
+  return normalizeProfileName(identifier)
+}
+
+/**
+ * Valida e grava o preset, recusando herança circular ou preset base inexistente
+ */
+function savePreset(store: CustomPresetStore, input: unknown): CustomPreset {
+  const result = customPresetSchema.safeParse(input)
+  if (!result.success) {
+    throw new Error(`Preset inválido: ${formatIssues(result.error)}`)
+  }
+
+  const next: CustomPresetStore = { presets: { ...store.presets, [result.data.key]: result.data } }
+  try {
+    flattenFromStore(result.data.key, next)
+  } catch (error) {
+    throw new Error(`Preset inválido: ${error instanceof Error ? error.message : error}`)
+  }
+
+  writeStore(next)
+  return result.data
+}
+
+/**
+ * Cria um preset personalizado
+ * @param options.extends - Preset herdado; só os campos diferentes dele são gravados
+ */
+export function createCustomPreset(
+  name: string,
+  config: unknown,
+  options: { description?: string; basedOn?: string; extends?: string } = {}
+): CustomPreset {
+  const store = readStore()
+  const now = Date.now()
+
+  return savePreset(store, {
+    key: createKey(name, store),
+    name,
+    description: options.description || undefined,
+    basedOn: options.basedOn,
+    extends: options.extends,
+    config: overridesOf(config, options.extends, store),
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+/**
+ * Atualiza nome, descrição ou configuração de um preset personalizado
+ */
+export function updateCustomPreset(
+  key: string,
+  patch: { name?: string; description?: string; extends?: string; config?: unknown }
+): CustomPreset {
+  if (isBuiltinPreset(key)) {
+    throw new Error('Presets nativos não podem ser editados; clone o preset para personalizar')
+  }
+
+  const store = readStore()
+  const current = store.presets[key]
+  if (!current) {
+    throw new Error(`Preset '${key}' não encontrado`)
+  }
+
+  const base = patch.extends ?? current.extends
+
+  return savePreset(store, {
+    ...current,
+    ...patch,
+    extends: base,
+    config: patch.config !== undefined ? overridesOf(patch.config, base, store) : current.config,
+    updatedAt: Date.now()
+  })
+}
+
+/**
+ * Remove um preset personalizado
+ */
+export function deleteCustomPreset(key: string): boolean {
+  if (isBuiltinPreset(key)) {
+    throw new Error('Presets nativos não podem ser removidos')
+  }
+
+  const store = readStore()
+  if (!store.presets[key]) return false
+
+  const dependent = Object.values(store.presets).find(preset => preset.extends === key)
+  if (dependent) {
+    throw new Error(`Preset usado como base por '${dependent.name}'`)
+  }
+
+  delete store.presets[key]
+  writeStore(store)
+
+  // Perfil ativo removido: voltar ao padrão (notifica bandeja, regras e hooks)
+  if (getActiveProfileKey() === key) setActiveProfileKey(null)
+
+  return true
+}
+
+/**
+ * Clona um preset nativo ou personalizado como novo preset personalizado
+ */
+export function clonePreset(sourceKey: string, name?: string): CustomPreset {
+  const config = getPreset(sourceKey)
+  if (!config) {
+    throw new Error(`Preset '${sourceKey}' não encontrado`)
+  }
+
+  const sourceName = getPresetDisplayName(sourceKey)
+  const source = readStore().presets[sourceKey]
+
+  return createCustomPreset(name || `${sourceName} (cópia)`, { ...config }, {
+    description: source?.description,
+    basedOn: sourceKey
+  })
+}
+
+/**
+ * Registra listener de mudanças nos presets personalizados
+ */
+export function subscribePresets(listener: PresetListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/**
+ * Perfil ativo persistido (chave interna)
+ */
+export function getActiveProfileKey(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Define o perfil ativo e notifica quem acompanha (UI, regras)
+ */
+export function setActiveProfileKey(key: string | null): void {
+  try {
+    if (key) localStorage.setItem(ACTIVE_PROFILE_KEY, key)
+    else localStorage.removeItem(ACTIVE_PROFILE_KEY)
+  } catch {}
+
+  activeProfileListeners.forEach(listener => listener(key))
+}
+
+export function subscribeActiveProfile(listener: ActiveProfileListener): () => void {
+  activeProfileListeners.add(listener)
+  return () => { activeProfileListeners.delete(listener) }
+}
@@ -3,19 +3,86 @@
  * Perfis pré-configurados para diferentes tipos de jogos
  */
 
+import type { PriorityLevel, PowerPlanMode, CloseAppsMode, GpuBoostMode } from './optimizer/platform'
+
+// Valores aceitos por campo, idênticos aos parâmetros do backend de otimização
+export const CPU_PRIORITIES = ['Idle', 'BelowNormal', 'Normal', 'AboveNormal', 'High', 'RealTime'] as const satisfies readonly PriorityLevel[]
+export const POWER_MODES = ['balanced', 'performance', 'ultimate'] as const satisfies readonly PowerPlanMode[]
+// 'none' ignora a etapa; os demais são os modos de closeBackgroundApps
+export const BACKGROUND_APPS = ['none', 'smart', 'kill-aggressive'] as const satisfies readonly ('none' | CloseAppsMode)[]
+export const GPU_BOOSTS = ['low', 'balanced', 'quality', 'high', 'max', 'max-vram-buffer'] as const satisfies readonly GpuBoostMode[]
+export const RAM_CLEANUPS = ['minimal', 'light', 'balanced', 'aggressive'] as const
+
+export type CpuPriority = typeof CPU_PRIORITIES[number]
+export type PowerMode = typeof POWER_MODES[number]
+export type BackgroundAppsMode = typeof BACKGROUND_APPS[number]
+export type GpuBoost = typeof GPU_BOOSTS[number]
+export type RamCleanup = typeof RAM_CLEANUPS[number]
+
 export interface PresetConfig {
-  cpuPriority: string
-  ramCleanup: string
-  backgroundApps: string
+  cpuPriority: CpuPriority
+  ramCleanup: RamCleanup
+  backgroundApps: BackgroundAppsMode
   fanSpeed: number
-  powerMode: string
-  gpuBoost: string
+  powerMode: PowerMode
+  gpuBoost: GpuBoost
   notes?: string
+  // Ids de etapas do registro; quando ausente usa a sequência padrão
+  turboSteps?: string[]
+  presetSteps?: string[]
+}
+
+// Valores antigos (antes da tipagem) e seus equivalentes suportados pelo otimizador
+const LEGACY_VALUES: Partial<Record<keyof PresetConfig, Record<string, { value: string; note?: string }>>> = {
+  cpuPriority: {
+    low: { value: 'BelowNormal' },
+    normal: { value: 'Normal' },
+    high: { value: 'High' },
+    realtime: { value: 'RealTime' },
+    'realtime-multicore': { value: 'RealTime', note: 'afinidade multicore não é suportada' },
+    split: { value: 'AboveNormal', note: 'divisão de prioridade jogo/stream não é suportada' }
+  },
+  powerMode: {
+    eco: { value: 'balanced', note: 'não existe plano de energia econômico' }
+  },
+  backgroundApps: {
+    minimal: { value: 'smart', note: 'modo minimal usa o fechamento inteligente' }
+  }
+}
+
+/**
+ * Converte valores antigos de um preset (completo ou parcial) para os valores tipados.
+ * Retorna um aviso por campo convertido; valores desconhecidos ficam para o validador recusar.
+ */
+export function migratePresetValues<T extends Record<string, unknown>>(values: T): { values: T; warnings: string[] } {
+  const migrated: Record<string, unknown> = { ...values }
+  const warnings: string[] = []
+
+  for (const [field, legacy] of Object.entries(LEGACY_VALUES)) {
+    const current = migrated[field]
+    if (typeof current !== 'string' || !legacy || !Object.prototype.hasOwnProperty.call(legacy, current)) continue
+
+    const { value, note } = legacy[current]
+    migrated[field] = value
+    warnings.push(`${field}: '${current}' convertido para '${value}'${note ? ` (${note})` : ''}`)
+  }
+
+  return { values: migrated as T, warnings }
 }
 
-export const presets: Record<string, PresetConfig> = {
+// Definição de preset: pode herdar de outro preset e sobrescrever apenas alguns campos
+export interface PresetDefinition extends Partial<PresetConfig> {
+  extends?: string
+}
+
+// Limite de profundidade da cadeia de herança
+const MAX_EXTENDS_DEPTH = 8
+
+const PRESET_FIELDS: (keyof PresetConfig)[] = ['cpuPriority', 'ramCleanup', 'backgroundApps', 'fanSpeed', 'powerMode', 'gpuBoost']
+
+export const presetDefinitions: Record<string, PresetDefinition> = {
   esports: {
-    cpuPriority: 'realtime',
+    cpuPriority: 'RealTime',
     ramCleanup: 'aggressive',
     backgroundApps: 'kill-aggressive',
     fanSpeed: 90,
@@ -23,7 +90,7 @@ export const presets: Record<string, PresetConfig> = {
     gpuBoost: 'max'
   },
   battleroyale: {
-    cpuPriority: 'high',
+    cpuPriority: 'High',
     ramCleanup: 'balanced',
     backgroundApps: 'smart',
     fanSpeed: 75,
@@ -31,55 +98,92 @@ export const presets: Record<string, PresetConfig> = {
     gpuBoost: 'high'
   },
   aaa: {
-    cpuPriority: 'normal',
+    cpuPriority: 'Normal',
     ramCleanup: 'light',
-    backgroundApps: 'minimal',
+    backgroundApps: 'smart',
     fanSpeed: 65,
     powerMode: 'balanced',
     gpuBoost: 'quality'
   },
   battlefield6: {
-    cpuPriority: 'realtime-multicore',
-    ramCleanup: 'aggressive',
-    backgroundApps: 'kill-aggressive',
+    extends: 'esports',
+    cpuPriority: 'RealTime',
     fanSpeed: 100,
-    powerMode: 'performance',
     gpuBoost: 'max-vram-buffer'
   },
   streamgame: {
-    cpuPriority: 'split',
-    ramCleanup: 'balanced',
-    backgroundApps: 'smart',
+    extends: 'battleroyale',
+    cpuPriority: 'AboveNormal',
     fanSpeed: 80,
-    powerMode: 'performance',
     gpuBoost: 'balanced'
   },
   silent: {
-    cpuPriority: 'low',
+    cpuPriority: 'BelowNormal',
     ramCleanup: 'minimal',
     backgroundApps: 'none',
     fanSpeed: 30,
-    powerMode: 'eco',
+    powerMode: 'balanced',
     gpuBoost: 'low'
   },
   arcriders: {
-    cpuPriority: 'high',
-    ramCleanup: 'balanced',
-    backgroundApps: 'smart',
+    extends: 'battleroyale',
     fanSpeed: 85,
-    powerMode: 'performance',
     gpuBoost: 'balanced'
   },
   warzone: {
-    cpuPriority: 'realtime',
-    ramCleanup: 'aggressive',
-    backgroundApps: 'kill-aggressive',
-    fanSpeed: 95,
-    powerMode: 'performance',
-    gpuBoost: 'max'
+    extends: 'esports',
+    fanSpeed: 95
+  }
+}
+
+/**
+ * Cadeia de herança de um preset, da base até o próprio preset
+ */
+export function getExtendsChain(key: string, definitions: Record<string, PresetDefinition> = presetDefinitions): string[] {
+  const chain: string[] = []
+  let current: string | undefined = key
+
+  while (current) {
+    if (chain.includes(current)) {
+      throw new Error(`Herança circular no preset '${key}': ${[...chain, current].join(' -> ')}`)
+    }
+    if (!definitions[current]) {
+      throw new Error(`Preset base '${current}' não encontrado (herdado por '${key}')`)
+    }
+    if (chain.length >= MAX_EXTENDS_DEPTH) {
+      throw new Error(`Cadeia de herança do preset '${key}' muito longa`)
+    }
+    chain.push(current)
+    current = definitions[current].extends
   }
+
+  return chain.reverse()
 }
 
+/**
+ * Produz a configuração completa de um preset aplicando a cadeia de herança
+ */
+export function flattenPreset(key: string, definitions: Record<string, PresetDefinition> = presetDefinitions): PresetConfig {
+  const merged: Partial<PresetConfig> = {}
+
+  for (const layer of getExtendsChain(key, definitions)) {
+    const { extends: _base, ...values } = definitions[layer]
+    Object.assign(merged, values)
+  }
+
+  const missing = PRESET_FIELDS.filter(field => merged[field] === undefined)
+  if (missing.length > 0) {
+    throw new Error(`Preset '${key}' incompleto: ${missing.join(', ')}`)
+  }
+
+  return merged as PresetConfig
+}
+
+// Presets resolvidos (herança aplicada)
+export const presets: Record<string, PresetConfig> = Object.fromEntries(
+  Object.keys(presetDefinitions).map(key => [key, flattenPreset(key)])
+)
+
 export default presets
 
 /**
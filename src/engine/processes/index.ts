@@ -0,0 +1,20 @@
+/**
+ * GameBoost AI - Enumeração de Processos
+ * Seleciona a fonte de processos conforme a plataforma
+ */
+
+import { detectPlatform } from '../util/platform'
+import type { ProcessSource } from './types'
+
+export type { ProcessInfo, ProcessSource, RawProcess } from './types'
+
+export async function getProcessSource(): Promise<ProcessSource> {
+  switch (detectPlatform()) {
+    case 'linux':
+      return (await import('./linux')).linuxProcessSource
+    case 'windows':
+      return (await import('./windows')).windowsProcessSource
+    default:
+      return (await import('./mock')).mockProcessSource
+  }
+}
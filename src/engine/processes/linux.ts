@@ -0,0 +1,16 @@
+/**
+ * GameBoost AI - Fonte de Processos Linux
+ * /proc é lido no processo main (processes/procfs.ts); o renderer só recebe a lista
+ */
+
+import type { ProcessSource, RawProcess } from './types'
+
+async function list(): Promise<RawProcess[]> {
+  if (!window.backend) throw new Error('ponte indisponível')
+  return window.backend.listLinuxProcesses()
+}
+
+export const linuxProcessSource: ProcessSource = {
+  name: 'linux',
+  list
+}
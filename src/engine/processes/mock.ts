@@ -0,0 +1,24 @@
+/**
+ * GameBoost AI - Fonte de Processos Mock
+ * Fornece lista simulada para preview/desenvolvimento
+ */
+
+import type { ProcessSource, RawProcess } from './types'
+
+const mockProcesses: RawProcess[] = [
+  { pid: 1234, name: 'chrome.exe', cpuUsage: 15.2, memoryUsage: 512, priority: 'Normal' },
+  { pid: 5678, name: 'discord.exe', cpuUsage: 8.1, memoryUsage: 256, priority: 'Normal' },
+  { pid: 9012, name: 'spotify.exe', cpuUsage: 3.5, memoryUsage: 128, priority: 'Normal' },
+  { pid: 3456, name: 'steam.exe', cpuUsage: 2.1, memoryUsage: 64, priority: 'Normal' },
+  { pid: 7890, name: 'explorer.exe', cpuUsage: 1.2, memoryUsage: 32, priority: 'Normal' },
+  { pid: 2468, name: 'valorant.exe', cpuUsage: 45.8, memoryUsage: 2048, priority: 'High' },
+  { pid: 1357, name: 'obs64.exe', cpuUsage: 12.3, memoryUsage: 512, priority: 'Normal' },
+  { pid: 8642, name: 'nvidia-container.exe', cpuUsage: 0.5, memoryUsage: 16, priority: 'Normal' }
+]
+
+export const mockProcessSource: ProcessSource = {
+  name: 'mock',
+  async list() {
+    return mockProcesses.map(process => ({ ...process }))
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { readProcesses, parsePidStat, parseVmRss } from './procfs'
+
+const fixture = (name: string) => path.join(__dirname, '__fixtures__', name)
+
+const byPid = (a: { pid: number }, b: { pid: number }) => a.pid - b.pid
+
+describe('readProcesses', () => {
+  it('lista processos de usuário e ignora threads do kernel', async () => {
+    const processes = (await readProcesses(fixture('desktop'))).sort(byPid)
+
+    expect(processes).toEqual([
+      { pid: 1, name: 'systemd', cpuUsage: 0, memoryUsage: 0, priority: 'Normal', parentPid: 0, path: undefined },
+      // Primeira leitura: média desde o início do processo (4s de CPU em 500s, 2 núcleos)
+      { pid: 1234, name: 'Web (Content)', cpuUsage: 0.4, memoryUsage: 200, priority: 'BelowNormal', parentPid: 1000, path: undefined }
+    ])
+  })
+
+  it('calcula o uso de CPU pela diferença entre leituras', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'gb-procfs-'))
+    try {
+      await fs.cp(fixture('desktop'), root, { recursive: true })
+      await readProcesses(root)
+
+      await fs.writeFile(path.join(root, 'proc/stat'), 'cpu  1400 0 700 9400 500 0 0 0 0 0\ncpu0 0\ncpu1 0\n')
+      await fs.writeFile(
+        path.join(root, 'proc/1234/stat'),
+        '1234 (Web (Content)) S 1000 1234 1234 0 -1 4194560 100 0 0 0 600 200 0 0 25 5 30 0 50000 2000000000 51200 0\n'
+      )
+
+      const browser = (await readProcesses(root)).find(p => p.pid === 1234)
+      expect(browser?.cpuUsage).toBe(20)
+    } finally {
+      await fs.rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('falha quando /proc não existe', async () => {
+    await expect(readProcesses(fixture('missing'))).rejects.toThrow()
+  })
+})
+
+describe('parsers de /proc/<pid>', () => {
+  it('rejeita stat sem o comm entre parênteses ou truncado', () => {
+    expect(parsePidStat('1 systemd S 0')).toBeUndefined()
+    expect(parsePidStat('1 (systemd) S 0 1 1')).toBeUndefined()
+  })
+
+  it('retorna 0 quando o status não tem VmRSS', () => {
+    expect(parseVmRss('Name:\tkworker\n')).toBe(0)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * GameBoost AI - Leitura de Processos do /proc
+ * Executado no processo main (Node): lê /proc/<pid>/stat e status; CPU% calculado por diferença entre leituras
+ */
+
+import { promises as fs } from 'fs'
+import { niceToPriority } from '../../../electron/linuxOperations'
+import type { RawProcess } from './types'
+
+// Ticks por segundo do kernel (CLK_TCK é 100 em praticamente todas as distribuições)
+const CLK_TCK = 100
+
+interface ProcStat {
+  pid: number
+  comm: string
+  ppid: number
+  ticks: number
+  nice: number
+  startTime: number
+}
+
+interface CpuSample {
+  ticks: number
+  startTime: number
+}
+
+// Amostras anteriores por raiz: total de jiffies do sistema e ticks por processo
+const lastSamples = new Map<string, { total: number; processes: Map<number, CpuSample> }>()
+
+async function readText(path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf8')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Interpreta /proc/<pid>/stat (o comm pode conter espaços e parênteses)
+ */
+export function parsePidStat(text: string): ProcStat | undefined {
+  const open = text.indexOf('(')
+  const close = text.lastIndexOf(')')
+  if (open === -1 || close === -1) return undefined
+
+  const pid = Number(text.slice(0, open).trim())
+  const comm = text.slice(open + 1, close)
+  // Campos a partir do estado (campo 3 da documentação do proc(5))
+  const fields = text.slice(close + 2).trim().split(/\s+/)
+  if (fields.length < 20) return undefined
+
+  return {
+    pid,
+    comm,
+    ppid: Number(fields[1]),
+    ticks: Number(fields[11]) + Number(fields[12]),
+    nice: Number(fields[16]),
+    startTime: Number(fields[19])
+  }
+}
+
+/**
+ * RSS em kB a partir de /proc/<pid>/status
+ */
+export function parseVmRss(text: string): number {
+  const match = text.match(/^VmRSS:\s+(\d+)\s+kB/m)
+  return match ? Number(match[1]) : 0
+}
+
+/**
+ * Total de jiffies de todos os núcleos e quantidade de núcleos a partir de /proc/stat
+ */
+function parseCpuTotals(text: string): { total: number; cores: number } {
+  const lines = text.split('\n')
+  const aggregate = lines.find(l => /^cpu\s/.test(l))
+  const total = aggregate
+    ? aggregate.trim().split(/\s+/).slice(1, 9).reduce((sum, v) => sum + Number(v), 0)
+    : 0
+  const cores = lines.filter(l => /^cpu\d+\s/.test(l)).length || 1
+  return { total, cores }
+}
+
+/**
+ * Enumera processos a partir de uma raiz de sistema de arquivos (permite árvores falsas)
+ */
+export async function readProcesses(root: string = '/'): Promise<RawProcess[]> {
+  const proc = `${root.replace(/\/$/, '')}/proc`
+
+  const [statText, uptimeText] = await Promise.all([readText(`${proc}/stat`), readText(`${proc}/uptime`)])
+  const { total, cores } = parseCpuTotals(statText || '')
+  const uptime = Number((uptimeText || '0').split(/\s+/)[0]) || 0
+
+  const previous = lastSamples.get(root)
+  const samples = new Map<number, CpuSample>()
+  const processes: RawProcess[] = []
+
+  const entries = (await fs.readdir(proc)).filter(entry => /^\d+$/.test(entry))
+
+  for (const entry of entries) {
+    const stat = parsePidStat((await readText(`${proc}/${entry}/stat`)) || '')
+    // Threads do kernel (filhos do kthreadd) não são gerenciáveis pelo usuário
+    if (!stat || stat.pid === 2 || stat.ppid === 2) continue
+
+    const status = await readText(`${proc}/${entry}/status`)
+    let path: string | undefined
+    try {
+      path = await fs.readlink(`${proc}/${entry}/exe`)
+    } catch {}
+
+    let cpuUsage = 0
+    const prior = previous?.processes.get(stat.pid)
+    if (prior && prior.startTime === stat.startTime && total > previous!.total) {
+      cpuUsage = ((stat.ticks - prior.ticks) / (total - previous!.total)) * 100
+    } else {
+      // Primeira leitura: média desde o início do processo
+      const elapsed = uptime - stat.startTime / CLK_TCK
+      if (elapsed > 0) cpuUsage = (stat.ticks / CLK_TCK / elapsed / cores) * 100
+    }
+
+    samples.set(stat.pid, { ticks: stat.ticks, startTime: stat.startTime })
+    processes.push({
+      pid: stat.pid,
+      name: stat.comm,
+      cpuUsage: Math.round(Math.min(100, Math.max(0, cpuUsage)) * 10) / 10,
+      memoryUsage: Math.round(parseVmRss(status || '') / 1024),
+      priority: niceToPriority(stat.nice),
+      parentPid: stat.ppid,
+      path
+    })
+  }
+
+  lastSamples.set(root, { total, processes: samples })
+  return processes
+}
@@ -0,0 +1,26 @@
+/**
+ * GameBoost AI - Tipos para Enumeração de Processos
+ * Define a fonte de processos e o formato comum entre plataformas
+ */
+
+export interface ProcessInfo {
+  pid: number
+  name: string
+  // Percentual de CPU normalizado pelo número de núcleos (0-100)
+  cpuUsage: number
+  // Working set / RSS em MB
+  memoryUsage: number
+  priority: string
+  isEssential: boolean
+  parentPid?: number
+  windowTitle?: string
+  path?: string
+}
+
+// Processo como reportado pela fonte, antes da marcação de essenciais
+export type RawProcess = Omit<ProcessInfo, 'isEssential'>
+
+export interface ProcessSource {
+  name: 'windows' | 'linux' | 'mock'
+  list(): Promise<RawProcess[]>
+}
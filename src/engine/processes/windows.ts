@@ -0,0 +1,34 @@
+/**
+ * GameBoost AI - Fonte de Processos Windows
+ * Get-Process + CIM (CPU%, processo pai) emitidos como JSON via Write-GbResult (operação listProcesses)
+ */
+
+import { invokeOperation } from '../../lib/powershell'
+import type { WindowsProcessRow } from '../../../electron/operations'
+import type { ProcessSource, RawProcess } from './types'
+
+async function list(): Promise<RawProcess[]> {
+  const result = await invokeOperation('listProcesses', {}, { silent: true })
+  const rows: WindowsProcessRow[] = Array.isArray(result.data?.processes) ? result.data!.processes : []
+
+  if (!result.ok && rows.length === 0) {
+    throw new Error(result.error || result.stderr || 'Falha ao enumerar processos')
+  }
+
+  return rows.map(row => ({
+    pid: row.pid,
+    name: row.name,
+    cpuUsage: row.cpu ?? 0,
+    memoryUsage: Math.round((row.ws || 0) / 1024 / 1024),
+    // Processos protegidos não expõem PriorityClass sem elevação
+    priority: row.priority || 'Unknown',
+    parentPid: row.parentPid ?? undefined,
+    windowTitle: row.title || undefined,
+    path: row.path || undefined
+  }))
+}
+
+export const windowsProcessSource: ProcessSource = {
+  name: 'windows',
+  list
+}
@@ -0,0 +1,343 @@
+/**
+ * GameBoost AI - Motor de Regras
+ * Avalia as regras do usuário em segundo plano (telemetria, processos, jogo e energia)
+ * e dispara as ações com intervalo mínimo por regra e limite global de disparos
+ */
+
+import { getProcessSource } from '../processes'
+import { detectGame, matchesProcess } from '../games'
+import { getPreset, getPresetDisplayName, getActiveProfileKey, setActiveProfileKey } from '../presetStore'
+import { resolvePreset } from '../presetResolver'
+import { runSteps, getStep, DEFAULT_PRESET_STEPS } from '../steps'
+import * as Telemetry from '../telemetry'
+import { scheduler } from '../scheduler'
+import { listRules, subscribeRules, recordRuleFiring } from './store'
+import type { Rule, RuleAction, RuleCondition } from './types'
+import { log } from '../../lib/logger'
+
+export interface RuleEngineState {
+  running: boolean
+  // Regras habilitadas em avaliação
+  activeRules: number
+  lastTickAt: number | null
+}
+
+type EngineListener = (state: RuleEngineState) => void
+
+// Intervalo entre avaliações das regras
+const TICK_MS = 5000
+
+// Limite global: no máximo N disparos por janela
+const MAX_FIRINGS_PER_WINDOW = 6
+const FIRING_WINDOW_MS = 60000
+
+// Perfil usado por ações de etapa quando nenhum preset está ativo (prioridade normal, plano balanceado)
+const FALLBACK_PROFILE = 'aaa'
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+interface BatteryManagerLike {
+  charging: boolean
+}
+
+/**
+ * Estado da alimentação via Battery Status API (null quando indisponível, ex.: desktop sem bateria)
+ */
+async function readPowerState(): Promise<'ac' | 'battery' | null> {
+  try {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManagerLike> }
+    if (!nav.getBattery) return null
+    const battery = await nav.getBattery()
+    return battery.charging ? 'ac' : 'battery'
+  } catch {
+    return null
+  }
+}
+
+export function describeAction(action: RuleAction): string {
+  if (action.kind === 'step') return `etapa ${action.step}`
+  return `preset ${getPresetDisplayName(action.preset)}`
+}
+
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.kind) {
+    case 'metric': {
+      const duration = condition.forSeconds > 0 ? ` por ${condition.forSeconds}s` : ''
+      return `${condition.metric} ${condition.op} ${condition.value}${duration}`
+    }
+    case 'process':
+      return condition.event === 'started' ? `${condition.process} iniciado` : `${condition.process} em execução`
+    case 'game':
+      return condition.state === 'running' ? 'jogo em execução' : 'nenhum jogo em execução'
+    case 'power':
+      return condition.state === 'ac' ? 'na tomada' : 'na bateria'
+  }
+}
+
+interface TickContext {
+  now: number
+  processes: string[]
+  startedProcesses: string[]
+  gameRunning: boolean
+  power: 'ac' | 'battery' | null
+}
+
+class RuleEngine {
+  private state: RuleEngineState = { running: false, activeRules: 0, lastTickAt: null }
+  private timer: ReturnType<typeof setInterval> | null = null
+  private unsubscribeRules: (() => void) | null = null
+  private unsubscribeTelemetry: (() => void) | null = null
+  private startedCollectors = false
+  private ticking = false
+  // Processos da última leitura (null = primeira leitura, não gera eventos de início)
+  private knownProcesses: Set<string> | null = null
+  // Início de cada condição de métrica satisfeita, por `${ruleId}:${índice}`
+  private metricSince = new Map<string, number>()
+  private lastFired = new Map<string, number>()
+  private recentFirings: number[] = []
+  private listeners = new Set<EngineListener>()
+
+  /**
+   * Passa a acompanhar as regras salvas; o motor roda enquanto houver regra habilitada
+   */
+  start(): void {
+    if (this.unsubscribeRules) return
+
+    this.unsubscribeRules = subscribeRules(rules => { this.sync(rules) })
+    this.sync(listRules())
+  }
+
+  /**
+   * Para o motor e deixa de acompanhar as regras
+   */
+  async stop(): Promise<void> {
+    this.unsubscribeRules?.()
+    this.unsubscribeRules = null
+    await this.halt()
+  }
+
+  getState(): RuleEngineState {
+    return { ...this.state }
+  }
+
+  subscribe(listener: EngineListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private sync(rules: Rule[]): void {
+    const enabled = rules.filter(rule => rule.enabled)
+
+    // Descarta cronômetros de regras removidas ou alteradas
+    const keys = new Set(enabled.flatMap(rule => rule.conditions.map((_, index) => `${rule.id}:${index}`)))
+    Array.from(this.metricSince.keys()).forEach(key => { if (!keys.has(key)) this.metricSince.delete(key) })
+
+    if (enabled.length === 0) {
+      this.halt()
+      return
+    }
+
+    if (!this.timer) {
+      this.timer = setInterval(() => { this.tick() }, TICK_MS)
+      log(`[${formatTime()}] Motor de regras ativo (${enabled.length} regra${enabled.length > 1 ? 's' : ''})`, 'info')
+    }
+    this.update({ running: true, activeRules: enabled.length })
+    this.ensureTelemetry(enabled)
+  }
+
+  private async halt(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+      log(`[${formatTime()}] Motor de regras parado`, 'info')
+    }
+
+    this.unsubscribeTelemetry?.()
+    this.unsubscribeTelemetry = null
+    this.knownProcesses = null
+    this.metricSince.clear()
+
+    if (this.startedCollectors) {
+      this.startedCollectors = false
+      await Telemetry.stopCollectors()
+    }
+    this.update({ running: false, activeRules: 0 })
+  }
+
+  /**
+   * Assina a telemetria apenas quando alguma regra depende de métricas
+   */
+  private async ensureTelemetry(rules: Rule[]): Promise<void> {
+    const needsMetrics = rules.some(rule => rule.conditions.some(c => c.kind === 'metric'))
+
+    if (!needsMetrics) {
+      this.unsubscribeTelemetry?.()
+      this.unsubscribeTelemetry = null
+      if (this.startedCollectors) {
+        this.startedCollectors = false
+        await Telemetry.stopCollectors()
+      }
+      return
+    }
+
+    if (this.unsubscribeTelemetry) return
+    this.unsubscribeTelemetry = Telemetry.onTelemetry(data => { this.onTelemetry(data) })
+
+    if (!Telemetry.isRunning()) {
+      this.startedCollectors = true
+      await Telemetry.startCollectors()
+    }
+  }
+
+  /**
+   * Atualiza os cronômetros das condições de métrica a cada amostra
+   */
+  private onTelemetry(data: Telemetry.TelemetryData): void {
+    for (const rule of listRules()) {
+      if (!rule.enabled) continue
+      rule.conditions.forEach((condition, index) => {
+        if (condition.kind !== 'metric') return
+        const key = `${rule.id}:${index}`
+        const value = data[condition.metric]
+        const holds = typeof value === 'number' && (condition.op === '>' ? value > condition.value : value < condition.value)
+
+        if (!holds) this.metricSince.delete(key)
+        else if (!this.metricSince.has(key)) this.metricSince.set(key, data.timestamp)
+      })
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      const rules = listRules().filter(rule => rule.enabled)
+      if (rules.length === 0) return
+
+      const context = await this.buildContext(rules)
+      this.update({ lastTickAt: context.now })
+
+      for (const rule of rules) {
+        if (!rule.conditions.every((condition, index) => this.holds(rule, condition, index, context))) continue
+        await this.fire(rule, context.now)
+      }
+    } catch (error) {
+      log(`[${formatTime()}] Erro ao avaliar regras: ${error}`, 'error')
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private async buildContext(rules: Rule[]): Promise<TickContext> {
+    const conditions = rules.flatMap(rule => rule.conditions)
+    const needsProcesses = conditions.some(c => c.kind === 'process' || c.kind === 'game')
+    const needsPower = conditions.some(c => c.kind === 'power')
+
+    let processes: string[] = []
+    let startedProcesses: string[] = []
+    let gameRunning = false
+
+    if (needsProcesses) {
+      const raw = await (await getProcessSource()).list()
+      processes = raw.map(p => p.name)
+      gameRunning = detectGame(raw) !== null
+
+      if (this.knownProcesses) {
+        const known = this.knownProcesses
+        startedProcesses = processes.filter(name => !known.has(name.toLowerCase()))
+      }
+      this.knownProcesses = new Set(processes.map(name => name.toLowerCase()))
+    }
+
+    return {
+      now: Date.now(),
+      processes,
+      startedProcesses,
+      gameRunning,
+      power: needsPower ? await readPowerState() : null
+    }
+  }
+
+  private holds(rule: Rule, condition: RuleCondition, index: number, context: TickContext): boolean {
+    switch (condition.kind) {
+      case 'metric': {
+        const since = this.metricSince.get(`${rule.id}:${index}`)
+        return since !== undefined && context.now - since >= condition.forSeconds * 1000
+      }
+      case 'process': {
+        const names = condition.event === 'started' ? context.startedProcesses : context.processes
+        return names.some(name => matchesProcess(name, condition.process))
+      }
+      case 'game':
+        return (condition.state === 'running') === context.gameRunning
+      case 'power':
+        return context.power === condition.state
+    }
+  }
+
+  private async fire(rule: Rule, now: number): Promise<void> {
+    const last = this.lastFired.get(rule.id)
+    if (last !== undefined && now - last < rule.cooldownSeconds * 1000) return
+
+    this.recentFirings = this.recentFirings.filter(at => now - at < FIRING_WINDOW_MS)
+    if (this.recentFirings.length >= MAX_FIRINGS_PER_WINDOW) {
+      log(`[${formatTime()}] Regra '${rule.name}' adiada: limite de ${MAX_FIRINGS_PER_WINDOW} disparos por minuto`, 'warning')
+      return
+    }
+
+    this.lastFired.set(rule.id, now)
+    this.recentFirings.push(now)
+    // Métricas precisam valer por uma nova janela completa antes do próximo disparo
+    rule.conditions.forEach((_, index) => this.metricSince.delete(`${rule.id}:${index}`))
+
+    const action = describeAction(rule.action)
+    const conditions = rule.conditions.map(describeCondition).join(' e ')
+    log(`[${formatTime()}] ⚙️ Regra '${rule.name}' (${conditions}): ${action}`, 'info')
+
+    try {
+      const message = await scheduler.run('rule', `Regra '${rule.name}'`, signal => this.execute(rule.action, signal))
+      recordRuleFiring({ at: now, ruleId: rule.id, ruleName: rule.name, action, success: true, message })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      log(`[${formatTime()}] Regra '${rule.name}' falhou: ${message}`, 'error')
+      recordRuleFiring({ at: now, ruleId: rule.id, ruleName: rule.name, action, success: false, message })
+    }
+  }
+
+  private async execute(action: RuleAction, signal: AbortSignal): Promise<string> {
+    if (action.kind === 'step') {
+      if (!getStep(action.step)) throw new Error(`Etapa '${action.step}' não registrada`)
+
+      const profileKey = getActiveProfileKey() ?? FALLBACK_PROFILE
+      const preset = resolvePreset(profileKey)?.config ?? getPreset(FALLBACK_PROFILE)
+      if (!preset) throw new Error(`Preset '${profileKey}' não encontrado`)
+
+      const run = await runSteps([action.step], { profileKey, preset, source: 'rule' }, { signal })
+      if (run.errors > 0) throw new Error(run.outcomes.find(o => o.error)?.error ?? 'etapa falhou')
+      return `Etapa executada (execução ${run.runId})`
+    }
+
+    const resolved = resolvePreset(action.preset)
+    if (!resolved) throw new Error(`Preset '${action.preset}' não encontrado`)
+
+    const run = await runSteps(resolved.config.presetSteps || DEFAULT_PRESET_STEPS, {
+      profileKey: action.preset,
+      preset: resolved.config,
+      source: 'rule'
+    }, { signal })
+    setActiveProfileKey(action.preset)
+
+    const failed = run.errors > 0 ? ` · ${run.errors} de ${run.steps} etapas falharam` : ''
+    return `Preset aplicado (execução ${run.runId})${failed}`
+  }
+
+  private update(patch: Partial<RuleEngineState>): void {
+    this.state = { ...this.state, ...patch }
+    const snapshot = this.getState()
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+}
+
+// Instância singleton do motor de regras
+export const ruleEngine = new RuleEngine()
@@ -0,0 +1,8 @@
+/**
+ * GameBoost AI - Regras de Automação
+ * Regras definidas pelo usuário (condição → ação) avaliadas em segundo plano
+ */
+
+export * from './types'
+export { listRules, saveRule, setRuleEnabled, deleteRule, subscribeRules, listRuleFirings, clearRuleFirings, subscribeRuleFirings } from './store'
+export { ruleEngine, describeAction, describeCondition, type RuleEngineState } from './engine'
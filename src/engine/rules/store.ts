@@ -0,0 +1,135 @@
+/**
+ * GameBoost AI - Store de Regras de Automação
+ * Regras e histórico de disparos persistidos no localStorage
+ */
+
+import { getStep } from '../steps'
+import { getPreset } from '../presetStore'
+import { ruleSchema, type Rule, type RuleAction, type RuleFiring } from './types'
+
+type RuleListener = (rules: Rule[]) => void
+type FiringListener = (firings: RuleFiring[]) => void
+
+const STORAGE_KEY = 'gb.rules'
+const LOG_KEY = 'gb.ruleLog'
+
+// Quantidade máxima de disparos mantidos no histórico
+const MAX_FIRINGS = 50
+
+const listeners = new Set<RuleListener>()
+const firingListeners = new Set<FiringListener>()
+
+function readRules(): Rule[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : null
+    if (!parsed || !Array.isArray(parsed.rules)) return []
+
+    return parsed.rules.flatMap((entry: unknown) => {
+      const result = ruleSchema.safeParse(entry)
+      return result.success ? [result.data] : []
+    })
+  } catch {
+    return []
+  }
+}
+
+function writeRules(rules: Rule[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ rules }))
+  } catch {}
+
+  listeners.forEach(listener => listener([...rules]))
+}
+
+/**
+ * Verifica se a ação aponta para uma etapa/preset existente
+ */
+function validateAction(action: RuleAction): string | null {
+  if (action.kind === 'step' && !getStep(action.step)) return `Etapa '${action.step}' não registrada`
+  if (action.kind === 'preset' && !getPreset(action.preset)) return `Preset '${action.preset}' não encontrado`
+  return null
+}
+
+export function listRules(): Rule[] {
+  return readRules()
+}
+
+/**
+ * Cria ou atualiza uma regra (id ausente = nova)
+ */
+export function saveRule(input: Omit<Rule, 'id'> & { id?: string }): Rule {
+  const rules = readRules()
+  const result = ruleSchema.safeParse({ ...input, id: input.id || `rule_${Date.now().toString(36)}` })
+  if (!result.success) {
+    throw new Error(`Regra inválida: ${result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`)
+  }
+
+  const actionError = validateAction(result.data.action)
+  if (actionError) throw new Error(actionError)
+
+  const index = rules.findIndex(rule => rule.id === result.data.id)
+  if (index >= 0) rules[index] = result.data
+  else rules.push(result.data)
+
+  writeRules(rules)
+  return result.data
+}
+
+export function setRuleEnabled(id: string, enabled: boolean): void {
+  const rules = readRules()
+  const rule = rules.find(r => r.id === id)
+  if (!rule) return
+
+  rule.enabled = enabled
+  writeRules(rules)
+}
+
+export function deleteRule(id: string): boolean {
+  const rules = readRules()
+  const remaining = rules.filter(rule => rule.id !== id)
+  if (remaining.length === rules.length) return false
+
+  writeRules(remaining)
+  return true
+}
+
+export function subscribeRules(listener: RuleListener): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+/**
+ * Histórico de disparos (mais recentes primeiro)
+ */
+export function listRuleFirings(): RuleFiring[] {
+  try {
+    const raw = localStorage.getItem(LOG_KEY)
+    const parsed = raw ? JSON.parse(raw) : null
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export function recordRuleFiring(firing: RuleFiring): void {
+  const firings = [firing, ...listRuleFirings()].slice(0, MAX_FIRINGS)
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(firings))
+  } catch {}
+
+  firingListeners.forEach(listener => listener(firings))
+}
+
+export function clearRuleFirings(): void {
+  try {
+    localStorage.removeItem(LOG_KEY)
+  } catch {}
+
+  firingListeners.forEach(listener => listener([]))
+}
+
+export function subscribeRuleFirings(listener: FiringListener): () => void {
+  firingListeners.add(listener)
+  return () => { firingListeners.delete(listener) }
+}
@@ -0,0 +1,72 @@
+/**
+ * GameBoost AI - Tipos de Regras de Automação
+ * Regra = condições (todas precisam valer) + ação, com intervalo mínimo entre disparos
+ */
+
+import { z } from 'zod'
+
+export const RULE_METRICS = ['ramUsedPct', 'cpuTemp', 'gpuTemp', 'fps'] as const
+
+export type RuleMetric = typeof RULE_METRICS[number]
+
+export const metricConditionSchema = z.object({
+  kind: z.literal('metric'),
+  metric: z.enum(RULE_METRICS),
+  op: z.enum(['>', '<']),
+  value: z.number().finite(),
+  // Condição precisa valer continuamente por este tempo
+  forSeconds: z.number().int().min(0).max(3600)
+})
+
+export const processConditionSchema = z.object({
+  kind: z.literal('process'),
+  // started: apenas no momento em que o processo aparece; running: enquanto estiver aberto
+  event: z.enum(['started', 'running']),
+  process: z.string().trim().min(1).max(80)
+})
+
+export const gameConditionSchema = z.object({
+  kind: z.literal('game'),
+  state: z.enum(['running', 'none'])
+})
+
+export const powerConditionSchema = z.object({
+  kind: z.literal('power'),
+  state: z.enum(['ac', 'battery'])
+})
+
+export const ruleConditionSchema = z.discriminatedUnion('kind', [
+  metricConditionSchema,
+  processConditionSchema,
+  gameConditionSchema,
+  powerConditionSchema
+])
+
+export const ruleActionSchema = z.discriminatedUnion('kind', [
+  // Etapa do registro (ex.: freeRam) com o preset ativo
+  z.object({ kind: z.literal('step'), step: z.string().min(1) }),
+  z.object({ kind: z.literal('preset'), preset: z.string().min(1) })
+])
+
+export const ruleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(60),
+  enabled: z.boolean(),
+  conditions: z.array(ruleConditionSchema).min(1).max(5),
+  action: ruleActionSchema,
+  // Intervalo mínimo entre disparos da mesma regra
+  cooldownSeconds: z.number().int().min(10).max(86400)
+})
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>
+export type RuleAction = z.infer<typeof ruleActionSchema>
+export type Rule = z.infer<typeof ruleSchema>
+
+export interface RuleFiring {
+  at: number
+  ruleId: string
+  ruleName: string
+  action: string
+  success: boolean
+  message: string
+}
@@ -0,0 +1,221 @@
+/**
+ * GameBoost AI - Agendador de Operações
+ * Fila única (mutex) para toda operação que altera o sistema: Turbo, presets, reversões,
+ * proteção térmica, regras e otimizações manuais. Aplica o intervalo mínimo por tipo de operação,
+ * permite cancelar jobs e notifica o estado para a UI.
+ *
+ * Não reentrante: um job não deve agendar outro job e aguardá-lo.
+ */
+
+import { log } from '../lib/logger'
+
+export type OperationKind = 'turbo' | 'preset' | 'revert' | 'thermal' | 'rule' | 'optimize'
+
+export interface SchedulerJob {
+  id: string
+  kind: OperationKind
+  label: string
+  enqueuedAt: number
+  startedAt?: number
+}
+
+export interface SchedulerState {
+  current: SchedulerJob | null
+  queued: SchedulerJob[]
+  // Fim do intervalo mínimo por tipo (timestamp)
+  cooldowns: Partial<Record<OperationKind, number>>
+}
+
+export interface ScheduleOptions {
+  // Ignora o intervalo mínimo (ex.: Turbo automático ao abrir um jogo)
+  skipCooldown?: boolean
+}
+
+type SchedulerListener = (state: SchedulerState) => void
+
+interface QueueEntry {
+  job: SchedulerJob
+  controller: AbortController
+  task: (signal: AbortSignal) => Promise<unknown>
+  resolve: (value: any) => void
+  reject: (error: unknown) => void
+  skipCooldown: boolean
+}
+
+// Intervalo mínimo após cada tipo de operação concluída (segundos)
+export const COOLDOWN_POLICY: Record<OperationKind, number> = {
+  turbo: 60,
+  preset: 0,
+  revert: 0,
+  thermal: 0,
+  rule: 0,
+  optimize: 0
+}
+
+const STORAGE_KEY = 'gb.cooldowns'
+
+// Nome do Web Lock compartilhado entre janelas/abas
+const LOCK_NAME = 'gb.operations'
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+function readCooldowns(): Partial<Record<OperationKind, number>> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : null
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Executa a tarefa sob o Web Lock quando disponível, serializando também entre abas
+ */
+function withCrossTabLock<T>(task: () => Promise<T>): Promise<T> {
+  const locks = typeof navigator !== 'undefined' ? (navigator as Navigator & { locks?: LockManager }).locks : undefined
+  if (!locks) return task()
+  return locks.request(LOCK_NAME, task) as Promise<T>
+}
+
+class OperationScheduler {
+  private current: QueueEntry | null = null
+  private queue: QueueEntry[] = []
+  private listeners = new Set<SchedulerListener>()
+  private nextId = 0
+
+  /**
+   * Enfileira uma operação; resolve com o resultado da tarefa quando ela terminar.
+   * Rejeita se o tipo estiver em intervalo mínimo ou se o job for cancelado antes de iniciar.
+   */
+  run<T>(kind: OperationKind, label: string, task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const remaining = this.getCooldownRemaining(kind)
+    if (!options.skipCooldown && remaining > 0) {
+      return Promise.reject(new Error(`Aguarde ${remaining}s para executar ${label} novamente`))
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const job: SchedulerJob = { id: `job_${Date.now().toString(36)}_${this.nextId++}`, kind, label, enqueuedAt: Date.now() }
+      this.queue.push({ job, controller: new AbortController(), task, resolve, reject, skipCooldown: !!options.skipCooldown })
+
+      if (this.current) log(`[${formatTime()}] ${label} na fila (aguardando ${this.current.job.label})`, 'info')
+      this.notify()
+      this.drain()
+    })
+  }
+
+  /**
+   * Cancela um job: remove da fila ou sinaliza o job em execução (cancelamento cooperativo)
+   */
+  cancel(jobId: string): boolean {
+    const index = this.queue.findIndex(entry => entry.job.id === jobId)
+    if (index >= 0) {
+      const [entry] = this.queue.splice(index, 1)
+      entry.reject(new Error(`${entry.job.label} cancelado`))
+      log(`[${formatTime()}] ${entry.job.label} removido da fila`, 'warning')
+      this.notify()
+      return true
+    }
+
+    if (this.current?.job.id === jobId && !this.current.controller.signal.aborted) {
+      this.current.controller.abort()
+      log(`[${formatTime()}] Cancelando ${this.current.job.label}...`, 'warning')
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Cancela todos os jobs de um tipo (ou todos)
+   */
+  cancelAll(kind?: OperationKind): void {
+    const ids = [...this.queue, ...(this.current ? [this.current] : [])]
+      .filter(entry => !kind || entry.job.kind === kind)
+      .map(entry => entry.job.id)
+    ids.forEach(id => this.cancel(id))
+  }
+
+  isBusy(kind?: OperationKind): boolean {
+    const entries = [...this.queue, ...(this.current ? [this.current] : [])]
+    return entries.some(entry => !kind || entry.job.kind === kind)
+  }
+
+  /**
+   * Segundos restantes do intervalo mínimo do tipo
+   */
+  getCooldownRemaining(kind: OperationKind): number {
+    const until = readCooldowns()[kind]
+    return until ? Math.max(0, Math.ceil((until - Date.now()) / 1000)) : 0
+  }
+
+  /**
+   * Inicia o intervalo mínimo manualmente (ex.: restaurar estado de execuções anteriores)
+   */
+  startCooldown(kind: OperationKind, seconds: number = COOLDOWN_POLICY[kind]): void {
+    if (seconds <= 0) return
+
+    const cooldowns = readCooldowns()
+    cooldowns[kind] = Date.now() + seconds * 1000
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(cooldowns))
+    } catch {}
+    this.notify()
+  }
+
+  getState(): SchedulerState {
+    const now = Date.now()
+    const cooldowns = Object.fromEntries(
+      Object.entries(readCooldowns()).filter(([, until]) => typeof until === 'number' && until > now)
+    ) as SchedulerState['cooldowns']
+
+    return {
+      current: this.current ? { ...this.current.job } : null,
+      queued: this.queue.map(entry => ({ ...entry.job })),
+      cooldowns
+    }
+  }
+
+  subscribe(listener: SchedulerListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.current) return
+
+    const entry = this.queue.shift()
+    if (!entry) return
+
+    this.current = entry
+    entry.job.startedAt = Date.now()
+    this.notify()
+
+    try {
+      const result = await withCrossTabLock(() => {
+        // Intervalo pode ter começado em outra aba enquanto aguardava o lock
+        const remaining = this.getCooldownRemaining(entry.job.kind)
+        if (!entry.skipCooldown && remaining > 0) {
+          throw new Error(`Aguarde ${remaining}s para executar ${entry.job.label} novamente`)
+        }
+        return entry.task(entry.controller.signal)
+      })
+
+      if (!entry.controller.signal.aborted) this.startCooldown(entry.job.kind)
+      entry.resolve(result)
+    } catch (error) {
+      entry.reject(error)
+    } finally {
+      this.current = null
+      this.notify()
+      this.drain()
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getState()
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+}
+
+// Instância singleton do agendador
+export const scheduler = new OperationScheduler()
@@ -4,12 +4,19 @@
  */
 
 import type { Snapshot } from './types'
+import { detectPlatform } from '../util/platform'
 
 export function isDesktop(): boolean {
-  return !!(window as any)?.backend?.runPS
+  return !!window.backend?.invoke
 }
 
 export async function getProvider() {
-  const isDesktop = typeof window !== 'undefined' && !!(window as any)?.backend?.runPS;
-  return isDesktop ? import('./windows') : import('./mock');
-}
\ No newline at end of file
+  switch (detectPlatform()) {
+    case 'linux':
+      return import('./linux')
+    case 'windows':
+      return import('./windows')
+    default:
+      return import('./mock')
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { readFileSync } from 'fs'
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+import * as path from 'path'
+import { readLhmSensors, parseLhmValue, detectDecimalSeparator, type LhmNode } from './lhm'
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'lhm', name), 'utf8')
+
+// Servidor web local no lugar do LHM (Remote Web Server)
+const routes: Record<string, { status: number; body: string }> = {
+  '/en-us/data.json': { status: 200, body: fixture('data-en-us.json') },
+  '/pt-br/data.json': { status: 200, body: fixture('data-pt-br-legacy.json') },
+  '/invalid/data.json': { status: 200, body: '<html>LibreHardwareMonitor</html>' },
+  '/empty/data.json': { status: 200, body: '{"id":0,"Text":"Sensor"}' },
+  '/error/data.json': { status: 500, body: '' }
+}
+
+let server: http.Server
+let baseUrl = ''
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const route = routes[req.url || '']
+    res.writeHead(route?.status ?? 404, { 'Content-Type': 'application/json' })
+    res.end(route?.body ?? '')
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('readLhmSensors', () => {
+  it('lê o data.json atual (Type/SensorId) em en-US', async () => {
+    const reading = await readLhmSensors(`${baseUrl}/en-us/data.json`)
+
+    expect(reading).toEqual({
+      cpu: {
+        name: 'AMD Ryzen 7 5800X',
+        packageTemp: 67.5,
+        coreTemps: [],
+        coreClocks: [4650.2, 4598.7],
+        packagePower: 88.1,
+        load: 23.4
+      },
+      gpu: {
+        name: 'NVIDIA GeForce RTX 3070',
+        coreTemp: 61,
+        hotspotTemp: 72.3,
+        coreClock: 1905,
+        memoryClock: 7000.2,
+        power: 210.4,
+        load: 97
+      },
+      memory: { load: 61.2 },
+      fans: [
+        { name: 'NVIDIA GeForce RTX 3070 GPU Fan 1', rpm: 1450 },
+        { name: 'ASUS ROG STRIX B550-F GAMING Fan #1', rpm: 1032 }
+      ]
+    })
+  })
+
+  it('lê o data.json antigo (ícones) com vírgula decimal e ponto de milhar', async () => {
+    const reading = await readLhmSensors(`${baseUrl}/pt-br/data.json`)
+
+    expect(reading?.cpu).toEqual({
+      name: 'Intel Core i7-12700K',
+      packageTemp: 72,
+      coreTemps: [70, 68],
+      coreClocks: [4700, 4688.5],
+      packagePower: 95.3,
+      load: 35.5
+    })
+    expect(reading?.gpu.name).toBe('AMD Radeon RX 6800')
+    expect(reading?.gpu.coreTemp).toBe(58)
+    expect(reading?.memory.load).toBe(48.7)
+    // "1.234 RPM" é milhar quando o data.json usa vírgula decimal
+    expect(reading?.fans).toEqual([{ name: 'AMD Radeon RX 6800 GPU Fan', rpm: 1234 }])
+  })
+
+  it('retorna null para respostas de erro, JSON inválido ou sem a árvore de hardware', async () => {
+    expect(await readLhmSensors(`${baseUrl}/error/data.json`)).toBeNull()
+    expect(await readLhmSensors(`${baseUrl}/missing/data.json`)).toBeNull()
+    expect(await readLhmSensors(`${baseUrl}/invalid/data.json`)).toBeNull()
+    expect(await readLhmSensors(`${baseUrl}/empty/data.json`)).toBeNull()
+  })
+
+  it('retorna null quando o servidor não está escutando', async () => {
+    const closed = http.createServer()
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve))
+    const { port } = closed.address() as AddressInfo
+    await new Promise(resolve => closed.close(resolve))
+
+    expect(await readLhmSensors(`http://127.0.0.1:${port}/data.json`)).toBeNull()
+  })
+})
+
+describe('parseLhmValue', () => {
+  it('usa o separador decimal informado', () => {
+    expect(parseLhmValue('1,234 RPM', '.')).toBe(1234)
+    expect(parseLhmValue('1,234 V', ',')).toBe(1.234)
+    expect(parseLhmValue('1.234 RPM', ',')).toBe(1234)
+    expect(parseLhmValue('4.700,0 MHz', ',')).toBe(4700)
+  })
+
+  it('sem separador conhecido, trata grupos de 3 dígitos após vírgula como milhar', () => {
+    expect(parseLhmValue('1,234 RPM')).toBe(1234)
+    expect(parseLhmValue('1,234,567 B')).toBe(1234567)
+    expect(parseLhmValue('55,0 °C')).toBe(55)
+    expect(parseLhmValue('1,25 V')).toBe(1.25)
+    expect(parseLhmValue('1.234 V')).toBe(1.234)
+    expect(parseLhmValue('1.234.567 B')).toBe(1234567)
+    expect(parseLhmValue('1.905,5 MHz')).toBe(1905.5)
+    expect(parseLhmValue('1,905.5 MHz')).toBe(1905.5)
+    expect(parseLhmValue('-3,5 °C')).toBe(-3.5)
+  })
+
+  it('ignora valores sem número', () => {
+    expect(parseLhmValue(undefined)).toBeUndefined()
+    expect(parseLhmValue('Value')).toBeUndefined()
+    expect(parseLhmValue('-')).toBeUndefined()
+  })
+})
+
+describe('detectDecimalSeparator', () => {
+  it('decide pelo primeiro valor com casas decimais', () => {
+    expect(detectDecimalSeparator(JSON.parse(fixture('data-en-us.json')) as LhmNode)).toBe('.')
+    expect(detectDecimalSeparator(JSON.parse(fixture('data-pt-br-legacy.json')) as LhmNode)).toBe(',')
+  })
+
+  it('não decide com apenas inteiros ou grupos de milhar', () => {
+    expect(detectDecimalSeparator({ Text: 'Sensor', Children: [{ Text: 'Fan', Value: '1,450 RPM' }, { Text: 'Fan', Value: '900 RPM' }] })).toBeUndefined()
+  })
+})
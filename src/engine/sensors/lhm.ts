@@ -0,0 +1,303 @@
+/**
+ * GameBoost AI - Cliente LibreHardwareMonitor
+ * Lê a árvore hierárquica do data.json do servidor web do LHM e extrai temperaturas, clocks, potência e fans
+ */
+
+const STORAGE_KEY = 'gb.lhm'
+
+// Servidor web do LHM (Options → Remote Web Server), porta padrão 8085
+export const DEFAULT_LHM_ENDPOINT = 'http://localhost:8085/data.json'
+
+const FETCH_TIMEOUT = 2000
+
+/**
+ * Nó da árvore do data.json
+ */
+export interface LhmNode {
+  id?: number
+  Text: string
+  Value?: string
+  Min?: string
+  Max?: string
+  ImageURL?: string
+  // Presentes nas versões mais novas do LHM
+  SensorId?: string
+  Type?: string
+  HardwareId?: string
+  Children?: LhmNode[]
+}
+
+export interface LhmFan {
+  name: string
+  rpm: number
+}
+
+export interface LhmReading {
+  cpu: {
+    name?: string
+    packageTemp?: number
+    coreTemps: number[]
+    // Clock efetivo por núcleo (MHz)
+    coreClocks: number[]
+    packagePower?: number
+    load?: number
+  }
+  gpu: {
+    name?: string
+    coreTemp?: number
+    hotspotTemp?: number
+    coreClock?: number
+    memoryClock?: number
+    power?: number
+    load?: number
+  }
+  memory: {
+    // Uso da RAM física (%)
+    load?: number
+  }
+  fans: LhmFan[]
+}
+
+type HardwareKind = 'cpu' | 'gpu' | 'memory' | 'other'
+
+type SensorType = 'Temperature' | 'Clock' | 'Power' | 'Fan' | 'Load'
+
+// Grupos do data.json antigo (sem campo Type) identificados pelo ícone
+const GROUP_ICONS: Record<string, SensorType> = {
+  'temperature.png': 'Temperature',
+  'clock.png': 'Clock',
+  'power.png': 'Power',
+  'fan.png': 'Fan',
+  'load.png': 'Load'
+}
+
+const CPU_ICONS = ['cpu.png']
+const GPU_ICONS = ['nvidia.png', 'ati.png', 'amd.png', 'intel.png', 'gpu.png']
+const MEMORY_ICONS = ['ram.png']
+
+/**
+ * Endpoint configurado (persistido)
+ */
+export function getLhmEndpoint(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || DEFAULT_LHM_ENDPOINT
+  } catch {
+    return DEFAULT_LHM_ENDPOINT
+  }
+}
+
+/**
+ * Define o endpoint do data.json; vazio volta ao padrão
+ */
+export function setLhmEndpoint(endpoint: string): { success: boolean; message: string } {
+  const value = endpoint.trim()
+
+  if (value) {
+    let url: URL
+    try {
+      url = new URL(value)
+    } catch {
+      return { success: false, message: 'URL inválida' }
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return { success: false, message: 'Use um endereço http:// ou https://' }
+    }
+  }
+
+  try {
+    if (value) localStorage.setItem(STORAGE_KEY, value)
+    else localStorage.removeItem(STORAGE_KEY)
+  } catch {}
+
+  return { success: true, message: value ? `Endpoint do LHM: ${value}` : 'Endpoint do LHM restaurado para o padrão' }
+}
+
+export type DecimalSeparator = '.' | ','
+
+/**
+ * Separador decimal de um número isolado: com os dois separadores, o último é o decimal;
+ * grupos de 3 dígitos ("1,234", "1.234.567") são milhar; o caso ambíguo "1.234" segue o en-US
+ */
+function inferDecimalSeparator(number: string): DecimalSeparator {
+  const comma = number.lastIndexOf(',')
+  const dot = number.lastIndexOf('.')
+  if (comma !== -1 && dot !== -1) return comma > dot ? ',' : '.'
+  if (comma !== -1) return /^-?\d{1,3}(,\d{3})+$/.test(number) ? '.' : ','
+  return /^-?\d{1,3}(\.\d{3}){2,}$/.test(number) ? ',' : '.'
+}
+
+/**
+ * Separador decimal usado no data.json (o LHM formata com a cultura do Windows).
+ * Decidido pelo primeiro valor com 1 ou 2 casas após o separador (ex.: "55,0 °C"), que não pode ser milhar.
+ */
+export function detectDecimalSeparator(root: LhmNode): DecimalSeparator | undefined {
+  const stack = [root]
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    const match = node.Value?.replace(/\s/g, '').match(/\d([.,])\d{1,2}(?![\d.,])/)
+    if (match) return match[1] as DecimalSeparator
+    stack.push(...(node.Children || []))
+  }
+  return undefined
+}
+
+/**
+ * Converte o valor textual do LHM ("55,0 °C", "1.450 RPM") para número
+ * @param decimal - Separador decimal do data.json; sem ele, inferido pelo próprio valor
+ */
+export function parseLhmValue(text?: string, decimal?: DecimalSeparator): number | undefined {
+  if (!text) return undefined
+  const match = text.replace(/\s/g, '').match(/^-?[\d.,]+/)
+  if (!match) return undefined
+
+  const separator = decimal ?? inferDecimalSeparator(match[0])
+  const thousands = separator === ',' ? '.' : ','
+  const number = match[0].split(thousands).join('').replace(separator, '.')
+
+  const value = Number(number)
+  return Number.isFinite(value) ? value : undefined
+}
+
+const iconName = (node: LhmNode) => node.ImageURL?.split('/').pop()?.toLowerCase() || ''
+
+/**
+ * Tipo do hardware: pelo SensorId/HardwareId dos sensores (/amdcpu/0/...) ou pelo ícone
+ */
+function hardwareKind(node: LhmNode): HardwareKind {
+  const id = node.HardwareId || findSensorId(node)
+  if (id) {
+    if (/^\/(intel|amd)cpu\//i.test(id)) return 'cpu'
+    if (/^\/gpu-/i.test(id)) return 'gpu'
+    if (/^\/ram(\/|$)/i.test(id)) return 'memory'
+    return 'other'
+  }
+
+  const icon = iconName(node)
+  if (CPU_ICONS.includes(icon)) return 'cpu'
+  if (GPU_ICONS.includes(icon)) return 'gpu'
+  if (MEMORY_ICONS.includes(icon)) return 'memory'
+  return 'other'
+}
+
+function findSensorId(node: LhmNode): string | undefined {
+  for (const child of node.Children || []) {
+    if (child.SensorId) return child.SensorId
+    const nested = findSensorId(child)
+    if (nested) return nested
+  }
+  return undefined
+}
+
+/**
+ * Lista os sensores (folhas) de um hardware com o tipo resolvido
+ */
+function collectSensors(
+  node: LhmNode,
+  decimal: DecimalSeparator | undefined,
+  groupType?: SensorType
+): { name: string; type: SensorType; value: number }[] {
+  const sensors: { name: string; type: SensorType; value: number }[] = []
+
+  for (const child of node.Children || []) {
+    const children = child.Children || []
+    if (children.length > 0) {
+      sensors.push(...collectSensors(child, decimal, GROUP_ICONS[iconName(child)] || groupType))
+      continue
+    }
+
+    const type = (child.Type as SensorType | undefined) || groupType
+    const value = parseLhmValue(child.Value, decimal)
+    if (type && value !== undefined) sensors.push({ name: child.Text, type, value })
+  }
+
+  return sensors
+}
+
+/**
+ * Nós de hardware: filhos do nó do computador (raiz → máquina → hardware)
+ */
+function hardwareNodes(root: LhmNode): LhmNode[] {
+  const machines = root.Children || []
+  return machines.flatMap(machine => machine.Children || [])
+}
+
+/**
+ * Extrai as leituras relevantes da árvore do data.json
+ */
+export function parseLhmTree(root: LhmNode): LhmReading {
+  const reading: LhmReading = {
+    cpu: { coreTemps: [], coreClocks: [] },
+    gpu: {},
+    memory: {},
+    fans: []
+  }
+
+  const decimal = detectDecimalSeparator(root)
+
+  for (const hardware of hardwareNodes(root)) {
+    const kind = hardwareKind(hardware)
+    const sensors = collectSensors(hardware, decimal)
+    const find = (type: SensorType, pattern: RegExp) =>
+      sensors.find(sensor => sensor.type === type && pattern.test(sensor.name))?.value
+
+    // Fans aparecem na placa-mãe (SuperIO) e nas GPUs
+    for (const sensor of sensors) {
+      if (sensor.type === 'Fan') reading.fans.push({ name: `${hardware.Text} ${sensor.name}`, rpm: sensor.value })
+    }
+
+    // Primeira CPU/GPU encontrada vence (GPU dedicada costuma vir antes da integrada no LHM)
+    if (kind === 'cpu' && !reading.cpu.name) {
+      reading.cpu = {
+        name: hardware.Text,
+        packageTemp: find('Temperature', /^(CPU Package|Core \(Tctl\/Tdie\)|Core \(Tdie\)|Core \(Tctl\))$/i),
+        coreTemps: sensors
+          .filter(sensor => sensor.type === 'Temperature' && /^(CPU )?Core #\d+$/i.test(sensor.name))
+          .map(sensor => sensor.value),
+        coreClocks: sensors
+          .filter(sensor => sensor.type === 'Clock' && /^(CPU )?Core #\d+$/i.test(sensor.name))
+          .map(sensor => sensor.value),
+        packagePower: find('Power', /^(CPU )?Package$/i),
+        load: find('Load', /^CPU Total$/i)
+      }
+    }
+
+    if (kind === 'gpu' && !reading.gpu.name) {
+      reading.gpu = {
+        name: hardware.Text,
+        coreTemp: find('Temperature', /^GPU Core$/i),
+        hotspotTemp: find('Temperature', /^GPU Hot ?Spot$/i),
+        coreClock: find('Clock', /^GPU Core$/i),
+        memoryClock: find('Clock', /^GPU Memory$/i),
+        power: find('Power', /^GPU (Package|Power|Core)$/i),
+        load: find('Load', /^GPU Core$/i)
+      }
+    }
+
+    if (kind === 'memory' && reading.memory.load === undefined) {
+      reading.memory = { load: find('Load', /^Memory$/i) }
+    }
+  }
+
+  return reading
+}
+
+/**
+ * Busca e interpreta o data.json do LHM (null se o servidor não responder)
+ */
+export async function readLhmSensors(endpoint: string = getLhmEndpoint()): Promise<LhmReading | null> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT)
+
+  try {
+    const response = await fetch(endpoint, { signal: controller.signal, cache: 'no-store' })
+    if (!response.ok) return null
+
+    const root = await response.json() as LhmNode
+    if (!root || typeof root !== 'object' || !Array.isArray(root.Children)) return null
+    return parseLhmTree(root)
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * GameBoost AI - Provider de Sensores Linux
+ * /proc e /sys são lidos no processo main (sensors/sysfs.ts); o renderer só recebe o Snapshot
+ */
+
+import type { Snapshot } from './types'
+
+export async function init() {
+  // Primeira leitura no main: o uso de CPU passa a ser calculado por diferença entre amostras
+  await getSnapshot()
+}
+
+export async function getSnapshot(): Promise<Snapshot> {
+  try {
+    if (!window.backend) throw new Error('ponte indisponível')
+    return await window.backend.readLinuxSensors()
+  } catch {
+    return { cpu: { name: 'Unknown' }, gpu: {}, ramUsedPct: undefined, fps: undefined }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { readSnapshot, parseProcStat, parseMeminfo, parseCpuName } from './sysfs'
+
+const fixture = (name: string) => path.join(__dirname, '__fixtures__', name)
+
+describe('readSnapshot', () => {
+  it('lê CPU, GPU dedicada e temperaturas de um desktop AMD', async () => {
+    const snapshot = await readSnapshot(fixture('amd-desktop'))
+
+    expect(snapshot.cpu).toEqual({ name: 'AMD Ryzen 7 5800X 8-Core Processor', usage: 15, temp: 67 })
+    // Placa integrada sem telemetria fica de fora; temperatura pelo label "edge"
+    expect(snapshot.gpu).toEqual({ name: 'AMD GPU (0x73bf)', usage: 42, vramUsedPct: 25, temp: 58 })
+    expect(snapshot.ramUsedPct).toBe(75)
+  })
+
+  it('usa o pacote do coretemp e a GPU integrada sem telemetria em um notebook Intel', async () => {
+    const snapshot = await readSnapshot(fixture('intel-laptop'))
+
+    expect(snapshot.cpu.name).toBe('11th Gen Intel(R) Core(TM) i7-1165G7 @ 2.80GHz')
+    expect(snapshot.cpu.temp).toBe(72)
+    expect(snapshot.gpu).toEqual({ name: 'Intel GPU (0x9a49)', usage: undefined, vramUsedPct: undefined, temp: undefined })
+    // Sem MemAvailable: MemFree + Buffers + Cached
+    expect(snapshot.ramUsedPct).toBe(50)
+  })
+
+  it('retorna campos vazios quando /proc e /sys não existem', async () => {
+    const snapshot = await readSnapshot(fixture('missing'))
+
+    expect(snapshot.cpu).toEqual({ name: undefined, usage: undefined, temp: undefined })
+    expect(snapshot.gpu).toEqual({ temp: undefined })
+    expect(snapshot.ramUsedPct).toBeUndefined()
+  })
+
+  it('calcula o uso de CPU pela diferença entre leituras', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'gb-sysfs-'))
+    try {
+      await fs.cp(fixture('amd-desktop'), root, { recursive: true })
+      expect((await readSnapshot(root)).cpu.usage).toBe(15)
+
+      await fs.writeFile(path.join(root, 'proc/stat'), 'cpu  1600 0 800 8800 600 0 0 0 0 0\n')
+      expect((await readSnapshot(root)).cpu.usage).toBe(50)
+    } finally {
+      await fs.rm(root, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('parsers de /proc', () => {
+  it('soma iowait ao tempo ocioso em /proc/stat', () => {
+    expect(parseProcStat('cpu  10 0 10 70 10 0 0 0 0 0\ncpu0 10 0 10 70 10 0 0 0 0 0')).toEqual({ idle: 80, total: 100 })
+    expect(parseProcStat('intr 1 2 3')).toBeUndefined()
+  })
+
+  it('ignora meminfo sem MemTotal', () => {
+    expect(parseMeminfo('MemFree: 100 kB')).toBeUndefined()
+  })
+
+  it('aceita o campo Hardware de placas ARM', () => {
+    expect(parseCpuName('processor\t: 0\nHardware\t: BCM2835')).toBe('BCM2835')
+  })
+})
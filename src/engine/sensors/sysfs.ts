@@ -0,0 +1,216 @@
+/**
+ * GameBoost AI - Leitura de Sensores Linux (processo main)
+ * Lê /proc e /sys (hwmon, drm) para preencher o Snapshot; o renderer recebe o resultado pela ponte
+ */
+
+import { promises as fs } from 'fs'
+import type { Snapshot } from './types'
+
+interface CpuTimes {
+  idle: number
+  total: number
+}
+
+// Nomes de drivers hwmon por tipo de dispositivo
+const CPU_HWMON = ['coretemp', 'k10temp', 'zenpower', 'cpu_thermal', 'acpitz']
+const GPU_HWMON = ['amdgpu', 'radeon', 'nouveau', 'i915', 'xe']
+
+// Labels preferidos para temperatura do pacote/die
+const CPU_TEMP_LABELS = [/^package id/i, /^tctl$/i, /^tdie$/i, /^tccd1$/i]
+const GPU_TEMP_LABELS = [/^edge$/i, /^junction$/i]
+
+const PCI_VENDORS: Record<string, string> = {
+  '0x1002': 'AMD',
+  '0x10de': 'NVIDIA',
+  '0x8086': 'Intel'
+}
+
+// Última amostra de /proc/stat por raiz (uso de CPU é calculado por diferença)
+const lastCpuTimes = new Map<string, CpuTimes>()
+
+async function readText(path: string): Promise<string | undefined> {
+  try {
+    return (await fs.readFile(path, 'utf8')).trim()
+  } catch {
+    return undefined
+  }
+}
+
+async function readNumber(path: string): Promise<number | undefined> {
+  const text = await readText(path)
+  if (text === undefined) return undefined
+  const value = Number(text)
+  return isFinite(value) ? value : undefined
+}
+
+async function listDir(path: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(path)).sort()
+  } catch {
+    return []
+  }
+}
+
+function join(...parts: string[]): string {
+  return parts.join('/').replace(/\/+/g, '/')
+}
+
+/**
+ * Extrai os tempos agregados da linha "cpu" de /proc/stat
+ */
+export function parseProcStat(text: string): CpuTimes | undefined {
+  const line = text.split('\n').find(l => /^cpu\s/.test(l))
+  if (!line) return undefined
+
+  const values = line.trim().split(/\s+/).slice(1).map(Number)
+  if (values.length < 4 || values.some(v => !isFinite(v))) return undefined
+
+  // idle + iowait contam como ocioso; guest/guest_nice já estão em user/nice
+  const idle = values[3] + (values[4] || 0)
+  const total = values.slice(0, 8).reduce((sum, v) => sum + v, 0)
+  return { idle, total }
+}
+
+/**
+ * Percentual de RAM usada a partir de /proc/meminfo
+ */
+export function parseMeminfo(text: string): number | undefined {
+  const fields: Record<string, number> = {}
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(\w+):\s+(\d+)/)
+    if (match) fields[match[1]] = Number(match[2])
+  }
+
+  const total = fields.MemTotal
+  const available = fields.MemAvailable ?? (fields.MemFree + (fields.Buffers || 0) + (fields.Cached || 0))
+  if (!total || !isFinite(available)) return undefined
+
+  return Math.round((1 - available / total) * 100)
+}
+
+/**
+ * Nome do processador a partir de /proc/cpuinfo
+ */
+export function parseCpuName(text: string): string | undefined {
+  const match = text.match(/^(?:model name|Model|Hardware)\s*:\s*(.+)$/m)
+  return match ? match[1].trim() : undefined
+}
+
+/**
+ * Uso de CPU entre duas amostras (ou desde o boot na primeira leitura)
+ */
+function cpuUsage(root: string, current: CpuTimes): number {
+  const previous = lastCpuTimes.get(root)
+  lastCpuTimes.set(root, current)
+
+  const total = current.total - (previous?.total || 0)
+  const idle = current.idle - (previous?.idle || 0)
+  if (total <= 0) return 0
+
+  return Math.round(Math.min(100, Math.max(0, (1 - idle / total) * 100)))
+}
+
+/**
+ * Temperatura (°C) de um diretório hwmon, priorizando os labels informados
+ */
+async function hwmonTemp(dir: string, preferred: RegExp[]): Promise<number | undefined> {
+  const inputs = (await listDir(dir)).filter(f => /^temp\d+_input$/.test(f))
+  if (inputs.length === 0) return undefined
+
+  const readings: { label: string; value: number }[] = []
+  for (const input of inputs) {
+    const value = await readNumber(join(dir, input))
+    if (value === undefined) continue
+    const label = (await readText(join(dir, input.replace('_input', '_label')))) || ''
+    readings.push({ label, value })
+  }
+
+  const pick = preferred
+    .map(re => readings.find(r => re.test(r.label)))
+    .find(Boolean) || readings[0]
+
+  return pick ? Math.round(pick.value / 1000) : undefined
+}
+
+/**
+ * Temperaturas de CPU e GPU a partir de /sys/class/hwmon
+ */
+async function readHwmon(root: string): Promise<{ cpuTemp?: number; gpuTemp?: number }> {
+  const base = join(root, 'sys/class/hwmon')
+  let cpuTemp: number | undefined
+  let gpuTemp: number | undefined
+
+  for (const entry of await listDir(base)) {
+    const dir = join(base, entry)
+    const name = (await readText(join(dir, 'name'))) || ''
+
+    if (cpuTemp === undefined && CPU_HWMON.includes(name)) {
+      cpuTemp = await hwmonTemp(dir, CPU_TEMP_LABELS)
+    } else if (gpuTemp === undefined && GPU_HWMON.includes(name)) {
+      gpuTemp = await hwmonTemp(dir, GPU_TEMP_LABELS)
+    }
+  }
+
+  return { cpuTemp, gpuTemp }
+}
+
+/**
+ * Dados da GPU a partir de /sys/class/drm (busy percent e VRAM no amdgpu)
+ */
+async function readDrm(root: string): Promise<Snapshot['gpu']> {
+  const base = join(root, 'sys/class/drm')
+  const cards = (await listDir(base)).filter(c => /^card\d+$/.test(c))
+  let fallback: Snapshot['gpu'] = {}
+
+  for (const card of cards) {
+    const device = join(base, card, 'device')
+    const vendorId = await readText(join(device, 'vendor'))
+    if (!vendorId) continue
+
+    const deviceId = await readText(join(device, 'device'))
+    const vendor = PCI_VENDORS[vendorId.toLowerCase()] || vendorId
+    const name = (await readText(join(device, 'product_name'))) || `${vendor} GPU${deviceId ? ` (${deviceId})` : ''}`
+
+    const usage = await readNumber(join(device, 'gpu_busy_percent'))
+    const vramUsed = await readNumber(join(device, 'mem_info_vram_used'))
+    const vramTotal = await readNumber(join(device, 'mem_info_vram_total'))
+    const vramUsedPct = vramUsed !== undefined && vramTotal ? Math.round((vramUsed / vramTotal) * 100) : undefined
+
+    const gpu: Snapshot['gpu'] = { name, usage, vramUsedPct }
+
+    // Preferir a placa com telemetria (dedicada) à integrada
+    if (usage !== undefined || vramUsedPct !== undefined) return gpu
+    if (!fallback.name) fallback = gpu
+  }
+
+  return fallback
+}
+
+/**
+ * Monta o Snapshot a partir de uma raiz de sistema de arquivos (permite árvores falsas)
+ */
+export async function readSnapshot(root: string = '/'): Promise<Snapshot> {
+  const [stat, meminfo, cpuinfo, hwmon, gpu] = await Promise.all([
+    readText(join(root, 'proc/stat')),
+    readText(join(root, 'proc/meminfo')),
+    readText(join(root, 'proc/cpuinfo')),
+    readHwmon(root),
+    readDrm(root)
+  ])
+
+  const times = stat ? parseProcStat(stat) : undefined
+
+  return {
+    cpu: {
+      name: cpuinfo ? parseCpuName(cpuinfo) : undefined,
+      usage: times ? cpuUsage(root, times) : undefined,
+      temp: hwmon.cpuTemp
+    },
+    gpu: {
+      ...gpu,
+      temp: hwmon.gpuTemp
+    },
+    ramUsedPct: meminfo ? parseMeminfo(meminfo) : undefined,
+    fps: undefined
+  }
+}
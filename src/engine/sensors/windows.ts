@@ -5,6 +5,7 @@
 
 import type { Snapshot } from './types'
 import { safeTmpDir } from '../util/tmpdir'
+import { readLhmSensors } from './lhm'
 
 export async function init() {
   // Inicialização para ambiente Windows - preparar ferramentas se necessário
@@ -27,7 +28,15 @@ export async function getSnapshot(): Promise<Snapshot> {
       // parsing opcional depois
     } catch {}
 
-    return { cpu:{ name: cpuName }, gpu:{ name: gpuName }, ramUsedPct, fps: undefined };
+    // Temperaturas e carga vêm do LibreHardwareMonitor, quando o servidor web está ativo
+    const lhm = await readLhmSensors();
+
+    return {
+      cpu: { name: lhm?.cpu.name || cpuName, temp: lhm?.cpu.packageTemp, usage: lhm?.cpu.load },
+      gpu: { name: lhm?.gpu.name || gpuName, temp: lhm?.gpu.coreTemp, usage: lhm?.gpu.load },
+      ramUsedPct,
+      fps: undefined
+    };
   } catch {
     return { cpu:{ name:'Unknown' }, gpu:{}, ramUsedPct: undefined, fps: undefined };
   }
@@ -0,0 +1,9 @@
+/**
+ * GameBoost AI - Sessões
+ * Gravação e histórico de sessões de jogo
+ */
+
+export * from './types'
+export { summarizeSamples, percentile } from './stats'
+export { listSessions, getTimeline, deleteSession } from './store'
+export { sessionRecorder } from './recorder'
@@ -0,0 +1,150 @@
+/**
+ * GameBoost AI - Gravador de Sessões
+ * Acumula a timeline de telemetria, execuções do Turbo e erros da sessão ativa e persiste no IndexedDB
+ */
+
+import * as Telemetry from '../telemetry'
+import { logger } from '../../lib/logger'
+import { summarizeSamples } from './stats'
+import { saveSession, pruneSessions } from './store'
+import type { SessionRecord, SessionSample, SessionTimeline } from './types'
+
+type RecorderListener = (record: SessionRecord | null) => void
+
+// Intervalo de gravação parcial (sessão sobrevive a um fechamento inesperado)
+const FLUSH_INTERVAL = 15000
+
+// Limite de amostras (~12h a 1 amostra/s)
+const MAX_SAMPLES = 43200
+
+class SessionRecorder {
+  private record: SessionRecord | null = null
+  private samples: SessionSample[] = []
+  private cleanup: (() => void)[] = []
+  private flushTimer: ReturnType<typeof setInterval> | null = null
+  private startedCollectors = false
+  private listeners = new Set<RecorderListener>()
+
+  /**
+   * Inicia a gravação de uma nova sessão (encerra a anterior, se houver)
+   */
+  async start(info: { id: string; profile: string; profileName: string; game?: string }): Promise<void> {
+    if (this.record) await this.stop()
+
+    this.record = {
+      ...info,
+      startedAt: Date.now(),
+      turboRuns: [],
+      errors: [],
+      summary: summarizeSamples([], 0)
+    }
+    this.samples = []
+
+    this.cleanup.push(Telemetry.onTelemetry(data => this.addSample(data)))
+    this.cleanup.push(logger.subscribe(entry => {
+      if (entry.type === 'error') this.recordError(entry.message)
+    }))
+
+    // Garantir telemetria durante a sessão; só para os coletores que este gravador iniciou
+    if (!Telemetry.isRunning()) {
+      this.startedCollectors = true
+      await Telemetry.startCollectors()
+    }
+
+    this.flushTimer = setInterval(() => { this.flush() }, FLUSH_INTERVAL)
+    await this.flush()
+  }
+
+  /**
+   * Finaliza a sessão, calcula o resumo e grava
+   */
+  async stop(): Promise<SessionRecord | null> {
+    const record = this.record
+    if (!record) return null
+
+    this.cleanup.forEach(unsubscribe => unsubscribe())
+    this.cleanup = []
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (this.startedCollectors) {
+      this.startedCollectors = false
+      await Telemetry.stopCollectors()
+    }
+
+    record.endedAt = Date.now()
+    await this.flush()
+    await pruneSessions().catch(() => 0)
+
+    this.record = null
+    this.samples = []
+    this.notify()
+    return record
+  }
+
+  isRecording(): boolean {
+    return this.record !== null
+  }
+
+  getCurrent(): SessionRecord | null {
+    return this.record ? { ...this.record } : null
+  }
+
+  /**
+   * Registra uma execução do Turbo na sessão ativa
+   */
+  recordTurbo(run: { runId: string; steps: number; errors: number }): void {
+    if (!this.record) return
+    this.record.turboRuns.push({ ...run, at: Date.now() })
+    this.notify()
+  }
+
+  /**
+   * Registra um erro ocorrido durante a sessão
+   */
+  recordError(message: string): void {
+    if (!this.record) return
+    this.record.errors.push({ at: Date.now(), message })
+  }
+
+  subscribe(listener: RecorderListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private addSample(data: Telemetry.TelemetryData): void {
+    if (!this.record || this.samples.length >= MAX_SAMPLES) return
+
+    this.samples.push({
+      t: data.timestamp - this.record.startedAt,
+      fps: data.fps,
+      cpuTemp: data.cpuTemp,
+      gpuTemp: data.gpuTemp
+    })
+  }
+
+  private async flush(): Promise<void> {
+    const record = this.record
+    if (!record) return
+
+    const end = record.endedAt || Date.now()
+    record.summary = summarizeSamples(this.samples, end - record.startedAt)
+
+    const timeline: SessionTimeline = { id: record.id, samples: [...this.samples] }
+    try {
+      await saveSession({ ...record }, timeline)
+    } catch (error) {
+      console.error('Erro ao gravar sessão:', error)
+    }
+    this.notify()
+  }
+
+  private notify(): void {
+    const snapshot = this.getCurrent()
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+}
+
+// Instância singleton do gravador
+export const sessionRecorder = new SessionRecorder()
@@ -0,0 +1,41 @@
+/**
+ * GameBoost AI - Estatísticas de Sessão
+ */
+
+import type { SessionSample, SessionSummary } from './types'
+
+/**
+ * Percentil por interpolação linear em uma lista ordenada
+ */
+export function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined
+  if (sorted.length === 1) return sorted[0]
+
+  const index = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+// Evita Math.max(...lista) em timelines longas
+const max = (values: number[]) => values.length ? values.reduce((a, b) => (b > a ? b : a)) : undefined
+
+const round1 = (value: number | undefined) => value === undefined ? undefined : Math.round(value * 10) / 10
+
+/**
+ * Resume a timeline: FPS médio, 1% low, picos de temperatura e duração
+ */
+export function summarizeSamples(samples: SessionSample[], durationMs: number): SessionSummary {
+  const fps = samples.map(s => s.fps).filter((v): v is number => typeof v === 'number' && v > 0).sort((a, b) => a - b)
+  const cpuTemps = samples.map(s => s.cpuTemp).filter((v): v is number => typeof v === 'number')
+  const gpuTemps = samples.map(s => s.gpuTemp).filter((v): v is number => typeof v === 'number')
+
+  return {
+    durationMs,
+    sampleCount: samples.length,
+    avgFps: fps.length ? round1(fps.reduce((sum, v) => sum + v, 0) / fps.length) : undefined,
+    low1Fps: round1(percentile(fps, 1)),
+    peakCpuTemp: max(cpuTemps),
+    peakGpuTemp: max(gpuTemps)
+  }
+}
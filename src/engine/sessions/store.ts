@@ -0,0 +1,130 @@
+/**
+ * GameBoost AI - Store de Sessões (IndexedDB)
+ * Metadados e timelines ficam em object stores separados para a listagem não carregar as amostras
+ */
+
+import type { SessionRecord, SessionTimeline } from './types'
+
+const DB_NAME = 'gameboost'
+const DB_VERSION = 1
+const SESSIONS = 'sessions'
+const TIMELINES = 'timelines'
+
+// Quantidade máxima de sessões mantidas no histórico
+const MAX_SESSIONS = 100
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Fallback em memória quando IndexedDB não está disponível (SSR/testes)
+const memory = {
+  sessions: new Map<string, SessionRecord>(),
+  timelines: new Map<string, SessionTimeline>()
+}
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined'
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('startedAt', 'startedAt')
+        }
+        if (!db.objectStoreNames.contains(TIMELINES)) {
+          db.createObjectStore(TIMELINES, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Salva metadados e timeline de uma sessão (sobrescreve a versão anterior)
+ */
+export async function saveSession(record: SessionRecord, timeline?: SessionTimeline): Promise<void> {
+  if (!hasIndexedDB()) {
+    memory.sessions.set(record.id, record)
+    if (timeline) memory.timelines.set(timeline.id, timeline)
+    return
+  }
+
+  const db = await openDb()
+  const tx = db.transaction([SESSIONS, TIMELINES], 'readwrite')
+  tx.objectStore(SESSIONS).put(record)
+  if (timeline) tx.objectStore(TIMELINES).put(timeline)
+  await transactionDone(tx)
+}
+
+/**
+ * Lista sessões gravadas (mais recentes primeiro)
+ */
+export async function listSessions(): Promise<SessionRecord[]> {
+  const records = hasIndexedDB()
+    ? await promisify((await openDb()).transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<SessionRecord[]>)
+    : [...memory.sessions.values()]
+
+  return records.sort((a, b) => b.startedAt - a.startedAt)
+}
+
+/**
+ * Obtém a timeline completa de uma sessão
+ */
+export async function getTimeline(id: string): Promise<SessionTimeline | null> {
+  if (!hasIndexedDB()) return memory.timelines.get(id) || null
+
+  const db = await openDb()
+  const timeline = await promisify(db.transaction(TIMELINES).objectStore(TIMELINES).get(id) as IDBRequest<SessionTimeline | undefined>)
+  return timeline || null
+}
+
+/**
+ * Remove uma sessão e sua timeline
+ */
+export async function deleteSession(id: string): Promise<void> {
+  if (!hasIndexedDB()) {
+    memory.sessions.delete(id)
+    memory.timelines.delete(id)
+    return
+  }
+
+  const db = await openDb()
+  const tx = db.transaction([SESSIONS, TIMELINES], 'readwrite')
+  tx.objectStore(SESSIONS).delete(id)
+  tx.objectStore(TIMELINES).delete(id)
+  await transactionDone(tx)
+}
+
+/**
+ * Descarta as sessões mais antigas além do limite
+ */
+export async function pruneSessions(max: number = MAX_SESSIONS): Promise<number> {
+  const sessions = await listSessions()
+  const excess = sessions.slice(max)
+  for (const session of excess) {
+    await deleteSession(session.id)
+  }
+  return excess.length
+}
@@ -0,0 +1,51 @@
+/**
+ * GameBoost AI - Tipos de Sessões Gravadas
+ */
+
+export interface SessionSample {
+  // Milissegundos desde o início da sessão
+  t: number
+  fps?: number
+  cpuTemp?: number
+  gpuTemp?: number
+}
+
+export interface SessionTurboRun {
+  runId: string
+  at: number
+  steps: number
+  errors: number
+}
+
+export interface SessionError {
+  at: number
+  message: string
+}
+
+export interface SessionSummary {
+  durationMs: number
+  sampleCount: number
+  avgFps?: number
+  // Percentil 1 do FPS (1% low)
+  low1Fps?: number
+  peakCpuTemp?: number
+  peakGpuTemp?: number
+}
+
+// Metadados da sessão (lista de histórico, sem a timeline)
+export interface SessionRecord {
+  id: string
+  profile: string
+  profileName: string
+  game?: string
+  startedAt: number
+  endedAt?: number
+  turboRuns: SessionTurboRun[]
+  errors: SessionError[]
+  summary: SessionSummary
+}
+
+export interface SessionTimeline {
+  id: string
+  samples: SessionSample[]
+}
@@ -0,0 +1,189 @@
+/**
+ * GameBoost AI - Etapas Nativas
+ * Etapas de otimização registradas por padrão (backend Windows ou Linux conforme a plataforma)
+ */
+
+import { getOptimizer as opt, type PowerPlanMode, type CloseAppsMode } from '../optimizer/platform'
+import { safeTmpDir } from '../util/tmpdir'
+import type { OptimizationStep, PlanAction, StepContext } from './types'
+
+/**
+ * Plano de energia alvo: Turbo usa no mínimo Performance, presets seguem o powerMode
+ */
+function toPowerPlan(ctx: StepContext): PowerPlanMode {
+  if (ctx.source === 'turbo' && ctx.preset.powerMode === 'balanced') return 'performance'
+  return ctx.preset.powerMode
+}
+
+const POWER_PLAN_LABELS: Record<PowerPlanMode, string> = {
+  balanced: 'Balanced',
+  performance: 'Performance',
+  ultimate: 'Ultimate'
+}
+
+const targetProcess = (ctx: StepContext) => ctx.targetProcess || 'GameBoostAI'
+
+// Só chamado quando backgroundApps !== 'none' (ver precondition)
+const closeMode = (ctx: StepContext): CloseAppsMode =>
+  ctx.preset.backgroundApps === 'none' ? 'smart' : ctx.preset.backgroundApps
+
+export const builtinSteps: OptimizationStep[] = [
+  {
+    id: 'freeRam',
+    label: 'Liberando RAM',
+    risk: 'low',
+    apply: () => opt().freeRam(),
+    plan: async () => [
+      { kind: 'script', description: 'EmptyStandbyList ou coleta de memória', script: opt().buildFreeRamScript() }
+    ]
+  },
+  {
+    id: 'backgroundApps',
+    label: 'Fechando apps em segundo plano',
+    risk: 'high',
+    precondition: (ctx) => ctx.preset.backgroundApps !== 'none',
+    apply: async (ctx) => {
+      await opt().closeBackgroundApps(closeMode(ctx))
+      return true
+    },
+    plan: async (ctx, { inspect }) => {
+      const mode = closeMode(ctx)
+      const actions: PlanAction[] = [
+        { kind: 'script', description: `Fechar apps (${mode})`, script: opt().buildCloseAppsScript(mode), args: { mode } }
+      ]
+      if (inspect) {
+        for (const app of await opt().listBackgroundApps()) {
+          actions.push({
+            kind: 'closeProcess',
+            description: mode === 'smart' ? 'Fechar janela principal' : 'Encerrar processo',
+            target: app.name,
+            args: { pid: app.pid, path: app.path }
+          })
+        }
+      }
+      return actions
+    },
+    // Listagem pela execução: o main só reabre na reversão os caminhos que ele mesmo listou aqui
+    capture: async (ctx) => {
+      const apps = await opt().listBackgroundApps(ctx.runId)
+      return { apps: Array.from(new Set(apps.map(app => app.path))), pids: apps.map(app => app.pid), run: ctx.runId }
+    },
+    revert: async (prior) => {
+      // Processos suspensos (Linux, modo smart) voltam a executar antes de qualquer reabertura
+      const backend = opt()
+      if (backend.resumeApps && prior?.pids?.length) {
+        await backend.resumeApps(prior.pids)
+      }
+
+      const paths: string[] = prior?.apps || []
+      if (paths.length === 0) return true
+      if (!prior?.run) throw new Error('apps fechados sem registro da execução para reabertura')
+
+      // Reabrir apenas o que não está mais em execução
+      const running = new Set((await backend.listBackgroundApps()).map(app => app.path.toLowerCase()))
+      const missing = paths.filter(p => !running.has(p.toLowerCase()))
+      const started = await backend.startApps(missing, prior.run)
+      return started === missing.length
+    }
+  },
+  {
+    id: 'cpuPriority',
+    label: (ctx) => `Prioridade de CPU (${ctx.preset.cpuPriority})`,
+    risk: 'medium',
+    apply: (ctx) => opt().setProcessPriority({ name: targetProcess(ctx), level: ctx.preset.cpuPriority }),
+    plan: async (ctx) => {
+      const level = ctx.preset.cpuPriority
+      return [{
+        kind: 'script',
+        description: `Prioridade ${level} para ${targetProcess(ctx)}`,
+        script: opt().buildPriorityScript({ name: targetProcess(ctx), level }),
+        args: { name: targetProcess(ctx), level }
+      }]
+    },
+    verify: async (ctx) => (await opt().getProcessPriority({ name: targetProcess(ctx) })) === ctx.preset.cpuPriority,
+    capture: async (ctx) => ({ name: targetProcess(ctx), level: await opt().getProcessPriority({ name: targetProcess(ctx) }) }),
+    captureTarget: (ctx) => targetProcess(ctx).toLowerCase(),
+    revert: async (prior) => {
+      if (!prior?.level) throw new Error('prioridade anterior desconhecida')
+      return opt().setProcessPriority({ name: prior.name, level: prior.level })
+    }
+  },
+  {
+    id: 'powerPlan',
+    label: (ctx) => `Plano de energia (${POWER_PLAN_LABELS[toPowerPlan(ctx)]})`,
+    risk: 'low',
+    apply: (ctx) => opt().applyPowerPlan(toPowerPlan(ctx)),
+    plan: async (ctx) => {
+      const mode = toPowerPlan(ctx)
+      return [{
+        kind: 'script',
+        description: `Ativar plano ${mode}`,
+        script: opt().buildPowerPlanScript(mode),
+        args: { mode, guid: opt().POWER_PLANS[mode] }
+      }]
+    },
+    verify: async (ctx) => opt().isPowerPlanActive(toPowerPlan(ctx)),
+    capture: async () => ({ guid: await opt().getActivePowerPlan() }),
+    captureTarget: () => 'system',
+    revert: async (prior) => {
+      if (!prior?.guid) throw new Error('plano de energia anterior desconhecido')
+      return opt().setActivePowerPlan(prior.guid)
+    }
+  },
+  {
+    id: 'tempCaches',
+    label: 'Limpando cache temporário',
+    risk: 'medium',
+    apply: () => opt().clearTempCaches(),
+    plan: async (_ctx, { inspect }) => {
+      const tmpDir = await safeTmpDir()
+      const actions: PlanAction[] = [{
+        kind: 'script',
+        description: 'Remover arquivos temporários',
+        script: opt().buildTempCleanupScript(tmpDir),
+        args: { dirs: opt().tempCacheDirs(tmpDir).join('; ') }
+      }]
+      if (inspect) {
+        for (const file of await opt().listTempFiles()) {
+          actions.push({ kind: 'deleteFile', description: 'Remover arquivo', target: file })
+        }
+      }
+      return actions
+    }
+  },
+  {
+    id: 'fanSpeed',
+    label: (ctx) => `Fan speed (${ctx.preset.fanSpeed}%)`,
+    risk: 'medium',
+    precondition: () => typeof opt().setFanSpeed === 'function',
+    apply: async (ctx) => (await opt().setFanSpeed(ctx.preset.fanSpeed)).ok,
+    plan: async (ctx) => [
+      { kind: 'setting', description: 'Velocidade da ventoinha (placeholder)', args: { percent: ctx.preset.fanSpeed } }
+    ],
+    // Sem leitura do hardware: só há valor anterior depois de uma aplicação nesta sessão do app
+    capture: async () => ({ percent: opt().getFanSpeed() }),
+    captureTarget: () => 'system',
+    canRevert: (prior) => typeof prior?.percent === 'number',
+    revert: async (prior) => (await opt().setFanSpeed(prior.percent)).ok
+  },
+  {
+    id: 'gpuBoost',
+    label: (ctx) => `GPU boost (${ctx.preset.gpuBoost})`,
+    risk: 'medium',
+    precondition: () => typeof opt().applyGpuBoost === 'function',
+    apply: async (ctx) => (await opt().applyGpuBoost(ctx.preset.gpuBoost)).ok,
+    plan: async (ctx) => [
+      { kind: 'setting', description: 'Modo de boost da GPU (placeholder)', args: { mode: ctx.preset.gpuBoost } }
+    ],
+    capture: async () => ({ mode: opt().getGpuBoost() }),
+    captureTarget: () => 'system',
+    canRevert: (prior) => !!prior?.mode,
+    revert: async (prior) => (await opt().applyGpuBoost(prior.mode)).ok
+  }
+]
+
+// Sequência padrão do Turbo
+export const DEFAULT_TURBO_STEPS = ['freeRam', 'backgroundApps', 'cpuPriority', 'powerPlan', 'tempCaches', 'fanSpeed', 'gpuBoost']
+
+// Sequência padrão ao aplicar um preset
+export const DEFAULT_PRESET_STEPS = ['cpuPriority', 'freeRam', 'powerPlan', 'fanSpeed']
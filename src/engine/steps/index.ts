@@ -0,0 +1,284 @@
+/**
+ * GameBoost AI - Registro de Etapas de Otimização
+ * Registro tipado consumido por Turbo, presets e optimizer; aceita etapas de terceiros
+ */
+
+import { builtinSteps, DEFAULT_TURBO_STEPS, DEFAULT_PRESET_STEPS } from './builtin'
+import { beginRun, recordStep, markStepFailed, finishRun, markEntryReverted, markReverted, getRun, type RevertReport } from '../journal'
+import { getPresetDisplayName } from '../presetStore'
+import { log } from '../../lib/logger'
+import type { ExecutionPlan, OptimizationStep, PlanAction, StepContext, StepOutcome, StepPlan, StepRunResult } from './types'
+
+export type { ExecutionPlan, OptimizationStep, PlanAction, StepContext, StepOutcome, StepPlan, StepRunResult, RiskLevel, StepSource } from './types'
+export { DEFAULT_TURBO_STEPS, DEFAULT_PRESET_STEPS }
+
+const registry = new Map<string, OptimizationStep>()
+
+builtinSteps.forEach(step => registry.set(step.id, step))
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+const isDesktop = (): boolean => {
+  return !!(typeof window !== 'undefined' && window.backend?.invoke)
+}
+
+/**
+ * Registra uma etapa de otimização
+ */
+export function registerStep(step: OptimizationStep, options: { replace?: boolean } = {}): void {
+  if (!step.id || typeof step.apply !== 'function') {
+    throw new Error('Etapa inválida: id e apply são obrigatórios')
+  }
+  if (registry.has(step.id) && !options.replace) {
+    throw new Error(`Etapa '${step.id}' já registrada`)
+  }
+  registry.set(step.id, step)
+}
+
+/**
+ * Remove uma etapa do registro
+ */
+export function unregisterStep(id: string): boolean {
+  return registry.delete(id)
+}
+
+/**
+ * Obtém uma etapa registrada
+ */
+export function getStep(id: string): OptimizationStep | undefined {
+  return registry.get(id)
+}
+
+/**
+ * Lista todas as etapas registradas
+ */
+export function listSteps(): OptimizationStep[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * Resolve o rótulo da etapa para o contexto
+ */
+export function stepLabel(step: OptimizationStep, ctx: StepContext): string {
+  return typeof step.label === 'function' ? step.label(ctx) : step.label
+}
+
+/**
+ * Reversível com o estado capturado (simulações são sempre "revertidas")
+ */
+function isRevertible(step: OptimizationStep, prior: any, simulated: boolean): boolean {
+  return typeof step.revert === 'function' && (simulated || !step.canRevert || step.canRevert(prior))
+}
+
+/**
+ * Gera o plano de execução das etapas sem aplicar nenhuma alteração
+ */
+export async function planSteps(
+  ids: string[],
+  ctx: StepContext,
+  options: { inspect?: boolean } = {}
+): Promise<ExecutionPlan> {
+  const inspect = options.inspect ?? isDesktop()
+  const steps: StepPlan[] = []
+
+  for (const id of ids) {
+    const step = registry.get(id)
+    if (!step) {
+      steps.push({ id, label: id, risk: 'low', status: 'skip', reason: 'etapa não registrada', revertible: false, actions: [] })
+      continue
+    }
+
+    const base = {
+      id,
+      label: stepLabel(step, ctx),
+      risk: step.risk,
+      revertible: typeof step.revert === 'function'
+    }
+
+    try {
+      if (step.precondition && !(await step.precondition(ctx))) {
+        steps.push({ ...base, status: 'skip', reason: 'pré-condição não atendida', actions: [] })
+        continue
+      }
+
+      const actions: PlanAction[] = step.plan
+        ? await step.plan(ctx, { inspect })
+        : [{ kind: 'setting', description: base.label }]
+
+      // Etapas cuja reversão depende do estado atual (capture é somente leitura)
+      if (base.revertible && step.canRevert && step.capture && !step.canRevert(await step.capture(ctx))) {
+        steps.push({ ...base, revertible: false, revertNote: 'valor anterior desconhecido', status: 'run', actions })
+        continue
+      }
+
+      steps.push({ ...base, status: 'run', actions })
+    } catch (e) {
+      steps.push({ ...base, status: 'skip', reason: `erro ao planejar: ${e instanceof Error ? e.message : e}`, actions: [] })
+    }
+  }
+
+  return {
+    profileKey: ctx.profileKey,
+    source: ctx.source,
+    createdAt: Date.now(),
+    inspected: inspect,
+    steps
+  }
+}
+
+/**
+ * Executa etapas em sequência, registrando cada uma no journal de reversão
+ */
+export async function runSteps(
+  ids: string[],
+  context: StepContext,
+  options: { simulate?: boolean; signal?: AbortSignal } = {}
+): Promise<StepRunResult> {
+  const simulate = options.simulate ?? !isDesktop()
+  const journal = beginRun(context.profileKey, context.source)
+  const ctx: StepContext = { ...context, runId: journal.runId }
+  const outcomes: StepOutcome[] = []
+  let steps = 0
+  let errors = 0
+
+  for (const id of ids) {
+    // Cancelamento entre etapas: as já aplicadas continuam no journal para reversão
+    if (options.signal?.aborted) {
+      outcomes.push({ id, label: id, status: 'skipped' })
+      continue
+    }
+
+    const step = registry.get(id)
+    if (!step) {
+      steps++
+      errors++
+      outcomes.push({ id, label: id, status: 'failed', error: 'etapa não registrada' })
+      log(`[${formatTime()}] Etapa desconhecida: ${id}`, 'error')
+      continue
+    }
+
+    const label = stepLabel(step, ctx)
+    let recorded = false
+
+    try {
+      if (step.precondition && !(await step.precondition(ctx))) {
+        outcomes.push({ id, label, status: 'skipped' })
+        log(`[${formatTime()}] ${label} ignorado`, 'info')
+        continue
+      }
+
+      steps++
+      log(`[${formatTime()}] ${label}...`, 'info')
+
+      let prior: any = null
+      if (!simulate && step.capture) {
+        try {
+          prior = await step.capture(ctx)
+        } catch (e) {
+          log(`[${formatTime()}] Não foi possível capturar estado anterior: ${e}`, 'warning')
+        }
+      }
+
+      // Registrado antes de aplicar: uma aplicação parcial ou não verificada continua reversível
+      recordStep(journal.runId, {
+        stepId: id,
+        label,
+        prior,
+        target: step.captureTarget?.(ctx),
+        revertible: isRevertible(step, prior, simulate),
+        simulated: simulate
+      })
+      recorded = true
+
+      if (simulate) {
+        // Preview/simulação
+        await new Promise(r => setTimeout(r, 300))
+        log(`[${formatTime()}] (preview) ${label} simulado`, 'info')
+      } else {
+        if (!(await step.apply(ctx))) {
+          throw new Error('operação não confirmada')
+        }
+        if (step.verify && !(await step.verify(ctx))) {
+          throw new Error('verificação falhou')
+        }
+      }
+
+      outcomes.push({ id, label, status: 'ok' })
+      log(`[${formatTime()}] ${label} OK`, 'success')
+    } catch (e) {
+      errors++
+      const error = e instanceof Error ? e.message : String(e)
+      if (recorded) markStepFailed(journal.runId, id, error)
+      outcomes.push({ id, label, status: 'failed', error })
+      log(`[${formatTime()}] ${label} ERRO: ${error}`, 'error')
+    }
+  }
+
+  finishRun(journal.runId)
+
+  if (options.signal?.aborted) {
+    log(`[${formatTime()}] Execução cancelada antes de concluir todas as etapas`, 'warning')
+  }
+
+  return { runId: journal.runId, steps, errors, outcomes }
+}
+
+/**
+ * Reverte uma execução registrada no journal, desfazendo as etapas em ordem inversa
+ */
+export async function revertRun(runId: string): Promise<RevertReport> {
+  const journal = getRun(runId)
+  if (!journal) {
+    throw new Error(`Execução '${runId}' não encontrada`)
+  }
+  if (journal.reverted) {
+    throw new Error(`Execução '${runId}' já foi revertida`)
+  }
+
+  const report: RevertReport = { runId, reverted: [], skipped: [], failed: [] }
+
+  log(`[${formatTime()}] Revertendo execução de ${getPresetDisplayName(journal.profile)}...`, 'info')
+
+  for (let index = journal.entries.length - 1; index >= 0; index--) {
+    const entry = journal.entries[index]
+    // Restaurada em uma tentativa anterior
+    if (entry.reverted) continue
+
+    if (!entry.revertible) {
+      report.skipped.push(entry.label)
+      log(`[${formatTime()}] ${entry.label}: não reversível`, 'warning')
+      continue
+    }
+
+    if (entry.simulated) {
+      await new Promise(r => setTimeout(r, 150))
+      markEntryReverted(runId, index)
+      report.reverted.push(entry.label)
+      log(`[${formatTime()}] (preview) ${entry.label} revertido`, 'info')
+      continue
+    }
+
+    const step = registry.get(entry.stepId)
+    try {
+      if (!step?.revert) throw new Error('etapa sem reversão definida')
+
+      const ok = await step.revert(entry.prior)
+      if (!ok) throw new Error('restauração não confirmada')
+
+      markEntryReverted(runId, index)
+      report.reverted.push(entry.label)
+      log(`[${formatTime()}] ${entry.label} revertido`, 'success')
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e)
+      report.failed.push({ stepId: entry.stepId, label: entry.label, reason })
+      log(`[${formatTime()}] ${entry.label} NÃO revertido: ${reason}`, 'error')
+    }
+  }
+
+  // Com falhas a execução continua pendente: uma nova reversão tenta apenas as entradas restantes
+  if (report.failed.length === 0) markReverted(runId)
+
+  log(`[${formatTime()}] Reversão finalizada: ${report.reverted.length} revertidas, ${report.failed.length} falhas, ${report.skipped.length} ignoradas`, report.failed.length === 0 ? 'success' : 'error')
+
+  return report
+}
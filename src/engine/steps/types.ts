@@ -0,0 +1,81 @@
+/**
+ * GameBoost AI - Tipos do Registro de Etapas
+ * Define o contrato das etapas de otimização consumidas por Turbo e presets
+ */
+
+import type { PresetConfig } from '../presets'
+
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+export type StepSource = 'turbo' | 'preset' | 'thermal' | 'rule' | 'optimize'
+
+export interface StepContext {
+  profileKey: string
+  preset: PresetConfig
+  source: StepSource
+  targetProcess?: string
+  // Execução do journal em andamento (definida por runSteps)
+  runId?: string
+}
+
+export interface PlanAction {
+  kind: 'script' | 'closeProcess' | 'deleteFile' | 'setting'
+  description: string
+  script?: string
+  args?: Record<string, string | number | boolean | null>
+  target?: string
+}
+
+export interface StepPlan {
+  id: string
+  label: string
+  risk: RiskLevel
+  status: 'run' | 'skip'
+  reason?: string
+  revertible: boolean
+  // Motivo de não ser reversível nesta execução (ex.: valor anterior desconhecido)
+  revertNote?: string
+  actions: PlanAction[]
+}
+
+// Plano serializável: nenhuma etapa é executada ao gerá-lo
+export interface ExecutionPlan {
+  profileKey: string
+  source: StepSource
+  createdAt: number
+  inspected: boolean
+  steps: StepPlan[]
+}
+
+export interface OptimizationStep {
+  id: string
+  label: string | ((ctx: StepContext) => string)
+  risk: RiskLevel
+  // Retorna false para ignorar a etapa neste contexto
+  precondition?: (ctx: StepContext) => boolean | Promise<boolean>
+  apply: (ctx: StepContext) => Promise<boolean>
+  verify?: (ctx: StepContext) => Promise<boolean>
+  // Captura o estado anterior (serializável) para o journal de reversão
+  capture?: (ctx: StepContext) => Promise<any>
+  // Alvo do estado capturado (ex.: processo); regras repetidas no mesmo alvo são compactadas no journal
+  captureTarget?: (ctx: StepContext) => string
+  revert?: (prior: any) => Promise<boolean>
+  // Estado capturado suficiente para reverter (sem o hook, basta revert existir)
+  canRevert?: (prior: any) => boolean
+  // Descreve o que apply faria; inspect permite consultas somente leitura ao sistema
+  plan?: (ctx: StepContext, options: { inspect: boolean }) => Promise<PlanAction[]>
+}
+
+export interface StepOutcome {
+  id: string
+  label: string
+  status: 'ok' | 'failed' | 'skipped'
+  error?: string
+}
+
+export interface StepRunResult {
+  runId: string
+  steps: number
+  errors: number
+  outcomes: StepOutcome[]
+}
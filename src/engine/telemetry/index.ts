@@ -3,12 +3,19 @@
  * Captura FPS (PresentMon) e temperaturas (LibreHardwareMonitor) com fallback simulado
  */
 
-import { safeTmpDir } from '../util/tmpdir'
+import type { FrameTimeStats } from './presentmon'
+import { readLhmSensors, getLhmEndpoint } from '../sensors/lhm'
+import type { FrameMetrics, PresentMonStatus } from '../../../electron/protocol'
+import type { BackendBridge } from '../../../electron/bridge'
+
+export * from './presentmon'
 
 export interface TelemetryData {
   fps?: number
   cpuTemp?: number
   gpuTemp?: number
+  // Uso da RAM física (%)
+  ramUsedPct?: number
   timestamp: number
 }
 
@@ -16,12 +23,17 @@ export type TelemetryCallback = (data: TelemetryData) => void
 
 interface CollectorState {
   isRunning: boolean
-  presentMonProcess?: any
-  lhmProcess?: any
+  // LHM iniciado por este app (encerrado junto com os coletores)
+  lhmStarted?: boolean
   callbacks: TelemetryCallback[]
   intervalId?: NodeJS.Timeout
   simulationMode: boolean
   logs: string[]
+  // Métricas de frame-time enviadas pelo coletor PresentMon do processo main
+  frameSubscription?: () => void
+  frameMetrics?: FrameMetrics
+  frameTarget?: string
+  presentMonStatus?: PresentMonStatus
 }
 
 const state: CollectorState = {
@@ -31,6 +43,12 @@ const state: CollectorState = {
   logs: []
 }
 
+// Métricas mais antigas que isso são descartadas (PresentMon parado ou reiniciando)
+const FRAME_METRICS_MAX_AGE = 3000
+
+const getFrameMetricsBridge = (): BackendBridge['subscribeFrameMetrics'] | undefined =>
+  typeof window !== 'undefined' ? window.backend?.subscribeFrameMetrics : undefined
+
 let logPrefix = () => `[${new Date().toTimeString().slice(0, 8)}] Telemetry:`
 
 // Função para adicionar logs
@@ -75,7 +93,7 @@ export async function startCollectors(): Promise<void> {
 
   try {
     // Verificar se estamos em ambiente desktop
-    const isDesktop = !!(window as any)?.backend?.runPS
+    const isDesktop = !!window.backend?.invoke
     
     if (isDesktop) {
       // Tentar iniciar coletores reais
@@ -154,94 +172,49 @@ export function onTelemetry(callback: TelemetryCallback): () => void {
 }
 
 /**
- * Inicia coletores reais (PresentMon + LibreHardwareMonitor)
+ * Inicia coletores reais (PresentMon + LibreHardwareMonitor); false se nenhum estiver disponível
  */
 async function startRealCollectors(): Promise<boolean> {
-  try {
-    const { spawn } = await import('child_process')
-    const fs = await import('fs')
-    const path = await import('path')
-
-    let collectorsStarted = false
-
-    // Verificar e iniciar PresentMon
-    const presentMonPath = path.join(process.cwd(), 'tools', 'PresentMon', 'PresentMon.exe')
-    if (fs.existsSync(presentMonPath)) {
-      try {
-        addLog('Iniciando PresentMon...', 'info')
-        
-        // Iniciar PresentMon com saída CSV
-        state.presentMonProcess = spawn(presentMonPath, [
-          '-output_stdout',
-          '-terminate_after_timed', '0', // Rodar indefinidamente
-          '-timed', '1', // Capturar a cada 1 segundo
-          '-process_name', 'dwm.exe' // Desktop Window Manager como fallback
-        ], {
-          windowsHide: true,
-          stdio: ['ignore', 'pipe', 'pipe']
-        })
-
-        state.presentMonProcess.stdout?.on('data', (data: Buffer) => {
-          parsePresentMonData(data.toString())
-        })
-
-        state.presentMonProcess.on('error', (error: Error) => {
-          addLog(`PresentMon erro: ${error}`, 'error')
-        })
-
-        collectorsStarted = true
-        addLog('PresentMon iniciado', 'success')
-        
-      } catch (error) {
-        addLog(`Erro ao iniciar PresentMon: ${error}`, 'error')
-      }
-    } else {
-      addLog(`PresentMon não encontrado em: ${presentMonPath}`, 'warning')
-    }
+  const backend = window.backend
+  if (!backend) return false
+
+  let collectorsStarted = false
+  const tools = await backend.getToolsAvailability()
+
+  // PresentMon roda no processo main; aqui só assinamos as métricas
+  if (!tools.presentMon) {
+    state.presentMonStatus = { state: 'unavailable', restarts: 0, error: 'PresentMon não encontrado em tools/PresentMon' }
+    addLog('PresentMon não encontrado, FPS indisponível', 'warning')
+  } else if (subscribeFrameMetrics()) {
+    collectorsStarted = true
+    addLog('Assinatura de métricas do PresentMon iniciada', 'success')
+  } else {
+    addLog('Coletor PresentMon indisponível nesta versão do app', 'warning')
+  }
 
-    // Verificar e iniciar LibreHardwareMonitor
-    const lhmPath = path.join(process.cwd(), 'tools', 'LHM', 'LibreHardwareMonitor.exe')
-    if (fs.existsSync(lhmPath)) {
-      try {
-        addLog('Iniciando LibreHardwareMonitor...', 'info')
-        
-        // Criar diretório para logs se não existir
-        const lhmLogDir = path.join(process.cwd(), 'tools', 'LHM')
-        if (!fs.existsSync(lhmLogDir)) {
-          fs.mkdirSync(lhmLogDir, { recursive: true })
-        }
-
-        // Iniciar LHM com log JSON
-        const logPath = path.join(lhmLogDir, 'sensors.json')
-        state.lhmProcess = spawn(lhmPath, [
-          '/report', // Modo relatório
-          `/log:${logPath}`, // Arquivo de log
-          '/interval:2' // Intervalo de 2 segundos
-        ], {
-          windowsHide: true,
-          stdio: 'ignore'
-        })
-
-        state.lhmProcess.on('error', (error: Error) => {
-          addLog(`LibreHardwareMonitor erro: ${error}`, 'error')
-        })
-
-        collectorsStarted = true
-        addLog('LibreHardwareMonitor iniciado', 'success')
-        
-      } catch (error) {
-        addLog(`Erro ao iniciar LibreHardwareMonitor: ${error}`, 'error')
-      }
-    } else {
-      addLog(`LibreHardwareMonitor não encontrado em: ${lhmPath}`, 'warning')
-    }
+  // Servidor web do LHM já respondendo (aberto pelo usuário ou outra instância)
+  if (await readLhmSensors()) {
+    addLog(`LibreHardwareMonitor respondendo em ${getLhmEndpoint()}`, 'success')
+    return true
+  }
 
+  if (!tools.lhm) {
+    addLog('LibreHardwareMonitor não encontrado em tools/LHM', 'warning')
     return collectorsStarted
-    
-  } catch (error) {
-    addLog(`Erro ao importar módulos Node.js: ${error}`, 'error')
-    return false
   }
+
+  // Leituras vêm do servidor web do LHM (Options → Remote Web Server precisa estar ativo)
+  addLog('Iniciando LibreHardwareMonitor...', 'info')
+  const result = await backend.startLhm()
+  if (result.started) {
+    state.lhmStarted = true
+    collectorsStarted = true
+    addLog(`LibreHardwareMonitor iniciado (data.json: ${getLhmEndpoint()})`, 'success')
+  } else {
+    addLog(`Erro ao iniciar LibreHardwareMonitor: ${result.error}`, 'error')
+  }
+
+  return collectorsStarted
 }
 
 /**
@@ -249,17 +222,18 @@ async function startRealCollectors(): Promise<boolean> {
  */
 async function stopRealCollectors(): Promise<void> {
   try {
-    // Parar PresentMon
-    if (state.presentMonProcess) {
-      state.presentMonProcess.kill()
-      state.presentMonProcess = undefined
+    // Cancelar assinatura do PresentMon (o main encerra o processo sem inscritos)
+    if (state.frameSubscription) {
+      state.frameSubscription()
+      state.frameSubscription = undefined
+      state.frameMetrics = undefined
       addLog('PresentMon parado', 'success')
     }
 
     // Parar LibreHardwareMonitor
-    if (state.lhmProcess) {
-      state.lhmProcess.kill()
-      state.lhmProcess = undefined
+    if (state.lhmStarted) {
+      state.lhmStarted = false
+      await window.backend?.stopLhm()
       addLog('LibreHardwareMonitor parado', 'success')
     }
     
@@ -281,6 +255,7 @@ async function collectTelemetryData(): Promise<void> {
         fps: Math.floor(120 + Math.random() * 60), // 120-180 FPS
         cpuTemp: Math.floor(45 + Math.random() * 25), // 45-70°C
         gpuTemp: Math.floor(55 + Math.random() * 30), // 55-85°C
+        ramUsedPct: Math.floor(40 + Math.random() * 20), // 40-60%
         timestamp: Date.now()
       }
     } else {
@@ -311,100 +286,93 @@ async function collectRealTelemetryData(): Promise<TelemetryData> {
   }
 
   try {
-    // Ler dados de temperatura do LibreHardwareMonitor
-    const temps = await readLHMTemperatures()
-    if (temps.cpuTemp !== undefined) data.cpuTemp = temps.cpuTemp
-    if (temps.gpuTemp !== undefined) data.gpuTemp = temps.gpuTemp
-
-    // FPS será coletado via parsing do PresentMon (já configurado no startRealCollectors)
-    // Por enquanto, usar valor simulado se não tiver dados reais
-    if (data.fps === undefined) {
-      data.fps = Math.floor(100 + Math.random() * 80) // Fallback simulado
-    }
+    // Ler temperaturas e uso de RAM do LibreHardwareMonitor
+    const sensors = await readLHMSensors()
+    if (sensors.cpuTemp !== undefined) data.cpuTemp = sensors.cpuTemp
+    if (sensors.gpuTemp !== undefined) data.gpuTemp = sensors.gpuTemp
+    if (sensors.ramUsedPct !== undefined) data.ramUsedPct = sensors.ramUsedPct
+
+    // FPS calculado pelo coletor PresentMon a partir dos frames recentes
+    // (sem frames, fica indefinido: valores inventados contaminariam as medições do Turbo)
+    const frameStats = getFrameTimeStats()
+    if (frameStats) data.fps = Math.round(frameStats.avgFps)
     
   } catch (error) {
     addLog(`Erro ao coletar dados reais: ${error}`, 'error')
-    
-    // Fallback para dados simulados em caso de erro
-    data.fps = Math.floor(100 + Math.random() * 80)
-    data.cpuTemp = Math.floor(50 + Math.random() * 20)
-    data.gpuTemp = Math.floor(60 + Math.random() * 25)
   }
 
   return data
 }
 
 /**
- * Lê temperaturas do arquivo de log do LibreHardwareMonitor
+ * Lê temperaturas e uso de RAM do servidor web do LibreHardwareMonitor (data.json)
  */
-async function readLHMTemperatures(): Promise<{ cpuTemp?: number; gpuTemp?: number }> {
-  try {
-    const fs = await import('fs')
-    const path = await import('path')
-    
-    const logPath = path.join(process.cwd(), 'tools', 'LHM', 'sensors.json')
-    
-    if (!fs.existsSync(logPath)) {
-      return {}
-    }
+async function readLHMSensors(): Promise<{ cpuTemp?: number; gpuTemp?: number; ramUsedPct?: number }> {
+  const reading = await readLhmSensors()
+  if (!reading) return {}
+
+  // Sem sensor de pacote (algumas CPUs), usar o núcleo mais quente
+  const hottestCore = reading.cpu.coreTemps.length
+    ? reading.cpu.coreTemps.reduce((a, b) => (b > a ? b : a))
+    : undefined
+
+  return {
+    cpuTemp: reading.cpu.packageTemp ?? hottestCore,
+    gpuTemp: reading.gpu.coreTemp,
+    ramUsedPct: reading.memory.load
+  }
+}
 
-    const logData = fs.readFileSync(logPath, 'utf8')
-    const sensors = JSON.parse(logData)
-    
-    let cpuTemp: number | undefined
-    let gpuTemp: number | undefined
-
-    // Procurar temperaturas de CPU e GPU no JSON
-    // Estrutura pode variar dependendo do hardware
-    if (Array.isArray(sensors)) {
-      for (const sensor of sensors) {
-        if (sensor.Name?.includes('CPU') && sensor.SensorType === 'Temperature') {
-          cpuTemp = parseFloat(sensor.Value)
-        }
-        if (sensor.Name?.includes('GPU') && sensor.SensorType === 'Temperature') {
-          gpuTemp = parseFloat(sensor.Value)
-        }
-      }
+/**
+ * Assina as métricas de frame-time do coletor PresentMon (processo main)
+ */
+function subscribeFrameMetrics(): boolean {
+  const subscribe = getFrameMetricsBridge()
+  if (!subscribe) return false
+
+  state.frameSubscription?.()
+  state.frameMetrics = undefined
+  state.frameSubscription = subscribe(
+    { processName: state.frameTarget },
+    metrics => { state.frameMetrics = metrics },
+    status => {
+      const previous = state.presentMonStatus?.state
+      state.presentMonStatus = status
+      if (status.state === previous) return
+
+      if (status.state === 'restarting') addLog(`PresentMon reiniciando (${status.restarts}): ${status.error}`, 'warning')
+      else if (status.state === 'unavailable') addLog(status.error || 'PresentMon indisponível', 'warning')
+      else if (status.state === 'running') addLog(`PresentMon capturando${status.processName ? ` ${status.processName}` : ''}`, 'success')
     }
+  )
+  return true
+}
 
-    return { cpuTemp, gpuTemp }
-    
-  } catch (error) {
-    addLog(`Erro ao ler temperaturas LHM: ${error}`, 'error')
-    return {}
-  }
+/**
+ * Define o processo cuja taxa de quadros é medida (undefined = todos)
+ */
+export function setFrameTarget(processName?: string): void {
+  if (state.frameTarget === processName) return
+  state.frameTarget = processName
+
+  // Reassinar com o novo filtro se a captura já estiver ativa
+  if (state.frameSubscription) subscribeFrameMetrics()
 }
 
 /**
- * Parse dados do PresentMon (CSV)
+ * Estatísticas de frame-time da janela recente (null sem dados do PresentMon)
  */
-function parsePresentMonData(csvData: string): void {
-  try {
-    const lines = csvData.trim().split('\n')
-    
-    for (const line of lines) {
-      if (line.includes('FPS') || line.includes('fps')) {
-        // Parse simples do CSV - estrutura pode variar
-        const columns = line.split(',')
-        
-        // Procurar coluna com FPS
-        for (let i = 0; i < columns.length; i++) {
-          const value = parseFloat(columns[i])
-          if (!isNaN(value) && value > 0 && value < 500) {
-            // Assumir que é FPS se estiver em range razoável
-            addLog(`FPS capturado: ${value}`, 'info')
-            
-            // Atualizar dados globais de FPS (será usado na próxima coleta)
-            ;(globalThis as any).__currentFPS = value
-            break
-          }
-        }
-      }
-    }
-    
-  } catch (error) {
-    addLog(`Erro ao fazer parse do PresentMon: ${error}`, 'error')
-  }
+export function getFrameTimeStats(): FrameTimeStats | null {
+  const metrics = state.frameMetrics
+  if (!metrics || Date.now() - metrics.timestamp > FRAME_METRICS_MAX_AGE) return null
+  return metrics.stats
+}
+
+/**
+ * Estado do coletor PresentMon no processo main
+ */
+export function getPresentMonStatus(): PresentMonStatus | null {
+  return state.presentMonStatus ? { ...state.presentMonStatus } : null
 }
 
 /**
@@ -445,24 +413,14 @@ export async function checkToolsAvailability(): Promise<{
   desktop: boolean
 }> {
   try {
-    const isDesktop = !!(window as any)?.backend?.runPS
-    
-    if (!isDesktop) {
+    if (!window.backend) {
       return { presentMon: false, lhm: false, desktop: false }
     }
 
-    const fs = await import('fs')
-    const path = await import('path')
-    
-    const presentMonPath = path.join(process.cwd(), 'tools', 'PresentMon', 'PresentMon.exe')
-    const lhmPath = path.join(process.cwd(), 'tools', 'LHM', 'LibreHardwareMonitor.exe')
-    
-    return {
-      presentMon: fs.existsSync(presentMonPath),
-      lhm: fs.existsSync(lhmPath),
-      desktop: true
-    }
-    
+    // Verificado no processo main (o renderer não acessa o sistema de arquivos)
+    const tools = await window.backend.getToolsAvailability()
+    return { ...tools, desktop: true }
+
   } catch (error) {
     addLog(`Erro ao verificar ferramentas: ${error}`, 'error')
     return { presentMon: false, lhm: false, desktop: false }
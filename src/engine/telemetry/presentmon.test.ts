@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import * as path from 'path'
+import { parsePresentMonCsv, analyzeFrameTimes, PresentMonParser, type PresentMonFrame } from './presentmon'
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8')
+
+const frames = (times: number[], processName = 'game.exe'): PresentMonFrame[] =>
+  times.map(msBetweenPresents => ({ processName, msBetweenPresents, dropped: false }))
+
+const repeat = (value: number, count: number) => Array<number>(count).fill(value)
+
+describe('parsePresentMonCsv', () => {
+  it('lê o cabeçalho do PresentMon 1.x e a coluna Dropped', () => {
+    const { frames, skipped } = parsePresentMonCsv(fixture('presentmon-1x.csv'), { processName: 'CS2.EXE' })
+
+    expect(frames).toEqual([
+      { processName: 'cs2.exe', processId: 4120, time: 0.016543, msBetweenPresents: 16.667, msBetweenDisplayChange: 16.667, dropped: false },
+      { processName: 'cs2.exe', processId: 4120, time: 0.03321, msBetweenPresents: 16.667, msBetweenDisplayChange: 0, dropped: true },
+      { processName: 'cs2.exe', processId: 4120, time: 0.083211, msBetweenPresents: 33.334, msBetweenDisplayChange: 33.334, dropped: false }
+    ])
+    // Linha com MsBetweenPresents = NA
+    expect(skipped).toBe(1)
+  })
+
+  it('mantém outros processos quando a captura não é filtrada', () => {
+    const { frames } = parsePresentMonCsv(fixture('presentmon-1x.csv'))
+    expect(frames.map(f => f.processName)).toEqual(['cs2.exe', 'dwm.exe', 'cs2.exe', 'cs2.exe'])
+  })
+
+  it('usa FrameTime/DisplayedTime do PresentMon 2.x e marca frames não exibidos como descartados', () => {
+    const { frames, skipped } = parsePresentMonCsv(fixture('presentmon-2x.csv'))
+
+    expect(frames.map(f => [f.msBetweenPresents, f.msBetweenDisplayChange, f.dropped])).toEqual([
+      [6.944, 6.944, false],
+      [6.944, undefined, true],
+      [13.889, 13.889, false]
+    ])
+    // Sem TimeInSeconds no 2.x
+    expect(frames[0].time).toBeUndefined()
+    // Linha truncada no fim da captura
+    expect(skipped).toBe(1)
+  })
+
+  it('ignora linhas antes do cabeçalho e aceita espaços e CRLF', () => {
+    const csv = [
+      'Capturing process...',
+      'Application, ProcessID, MsBetweenPresents',
+      'game.exe, 10, 8.5',
+      ''
+    ].join('\r\n')
+
+    const { frames, skipped } = parsePresentMonCsv(csv)
+    expect(frames).toEqual([{ processName: 'game.exe', processId: 10, time: undefined, msBetweenPresents: 8.5, msBetweenDisplayChange: undefined, dropped: false }])
+    expect(skipped).toBe(0)
+  })
+
+  it('ignora texto sem cabeçalho reconhecido', () => {
+    expect(parsePresentMonCsv('Name,Value\ngame.exe,16.6\n')).toEqual({ frames: [], skipped: 0 })
+  })
+})
+
+describe('PresentMonParser', () => {
+  it('junta linhas divididas entre pedaços do stdout e relê cabeçalhos repetidos', () => {
+    const parser = new PresentMonParser()
+
+    expect(parser.push('Application,MsBetweenPresents\ngame.exe,1')).toEqual([])
+    expect(parser.push('6.5\nProcessID,Application,MsBetweenPresents\n')).toEqual(frames([16.5]))
+    expect(parser.push('7,game.exe,8')).toEqual([])
+    expect(parser.flush()).toEqual([{ processName: 'game.exe', processId: 7, time: undefined, msBetweenPresents: 8, msBetweenDisplayChange: undefined, dropped: false }])
+  })
+})
+
+describe('analyzeFrameTimes', () => {
+  it('calcula FPS médio e os lows de 1% e 0.1% pelos percentis do frame-time', () => {
+    const stats = analyzeFrameTimes(frames([...repeat(10, 990), ...repeat(20, 9), 50]))!
+
+    expect(stats.frameCount).toBe(1000)
+    expect(stats.durationMs).toBe(10130)
+    expect(stats.avgFrameTime).toBe(10.13)
+    expect(stats.avgFps).toBe(98.72)
+    // p99 = 10.1ms, p99.9 = 20.03ms (interpolação linear)
+    expect(stats.frameTime.p99).toBe(10.1)
+    expect(stats.low1Fps).toBe(99.01)
+    expect(stats.frameTime.p999).toBe(20.03)
+    expect(stats.low01Fps).toBe(49.93)
+    expect(stats.maxFrameTime).toBe(50)
+    // Limite de stutter: 2x a mediana (20ms); só o frame de 50ms passa
+    expect(stats.stutterCount).toBe(1)
+  })
+
+  it('conta descartados e filtra pelo processo', () => {
+    const { frames: parsed } = parsePresentMonCsv(fixture('presentmon-1x.csv'))
+    const stats = analyzeFrameTimes(parsed, { processName: 'cs2.exe' })!
+
+    expect(stats.frameCount).toBe(3)
+    expect(stats.droppedCount).toBe(1)
+    expect(stats.avgFps).toBe(45)
+  })
+
+  it('aplica o frame-time mínimo de stutter em capturas de FPS alto', () => {
+    // Mediana de 2ms: 6ms é 3x a mediana, mas abaixo do mínimo de 8ms
+    expect(analyzeFrameTimes(frames([...repeat(2, 98), 6, 9]))!.stutterCount).toBe(1)
+    expect(analyzeFrameTimes(frames([...repeat(2, 98), 6, 9]), { stutterMinMs: 5 })!.stutterCount).toBe(2)
+  })
+
+  it('retorna null sem frames do processo', () => {
+    expect(analyzeFrameTimes([])).toBeNull()
+    expect(analyzeFrameTimes(frames([16]), { processName: 'other.exe' })).toBeNull()
+  })
+})
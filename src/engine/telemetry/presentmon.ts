@@ -0,0 +1,246 @@
+/**
+ * GameBoost AI - Análise de Frame-time (PresentMon)
+ * Parser de CSV guiado pelo cabeçalho e estatísticas de FPS, lows, percentis e stutter
+ */
+
+import { percentile } from '../sessions/stats'
+
+export interface PresentMonFrame {
+  processName: string
+  processId?: number
+  // Segundos desde o início da captura
+  time?: number
+  // Intervalo entre presents (frame-time)
+  msBetweenPresents: number
+  msBetweenDisplayChange?: number
+  dropped: boolean
+}
+
+export interface FrameTimePercentiles {
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+  p999: number
+}
+
+export interface FrameTimeStats {
+  frameCount: number
+  droppedCount: number
+  durationMs: number
+  avgFps: number
+  // FPS equivalente ao frame-time do percentil 99 / 99.9
+  low1Fps: number
+  low01Fps: number
+  avgFrameTime: number
+  maxFrameTime: number
+  frameTime: FrameTimePercentiles
+  stutterCount: number
+}
+
+export interface FrameTimeOptions {
+  // Filtrar por processo (nome do executável, sem diferenciar maiúsculas)
+  processName?: string
+  // Frame é stutter quando excede a mediana por este fator...
+  stutterFactor?: number
+  // ...e ao menos este frame-time absoluto (ms)
+  stutterMinMs?: number
+}
+
+export interface PresentMonParseResult {
+  frames: PresentMonFrame[]
+  // Linhas de dados ignoradas (colunas faltando ou valores inválidos)
+  skipped: number
+}
+
+// Nomes de coluna aceitos (PresentMon 1.x e 2.x)
+const COLUMN_ALIASES = {
+  processName: ['Application', 'ProcessName'],
+  processId: ['ProcessID'],
+  time: ['TimeInSeconds', 'TimeInSeconds(s)'],
+  msBetweenPresents: ['MsBetweenPresents', 'FrameTime'],
+  msBetweenDisplayChange: ['MsBetweenDisplayChange', 'DisplayedTime'],
+  dropped: ['Dropped']
+} as const
+
+type ColumnKey = keyof typeof COLUMN_ALIASES
+type ColumnIndex = Partial<Record<ColumnKey, number>>
+
+const DEFAULT_STUTTER_FACTOR = 2
+const DEFAULT_STUTTER_MIN_MS = 8
+
+/**
+ * Mapeia as colunas conhecidas a partir da linha de cabeçalho; null se não for um cabeçalho PresentMon
+ */
+function readHeader(line: string): ColumnIndex | null {
+  const names = line.split(',').map(name => name.trim())
+  const index: ColumnIndex = {}
+
+  for (const key of Object.keys(COLUMN_ALIASES) as ColumnKey[]) {
+    const position = names.findIndex(name => (COLUMN_ALIASES[key] as readonly string[]).includes(name))
+    if (position >= 0) index[key] = position
+  }
+
+  return index.processName !== undefined && index.msBetweenPresents !== undefined ? index : null
+}
+
+function readFrame(line: string, columns: ColumnIndex): PresentMonFrame | null {
+  const values = line.split(',')
+  const field = (key: ColumnKey) => {
+    const position = columns[key]
+    return position === undefined ? undefined : values[position]?.trim()
+  }
+  const number = (key: ColumnKey) => {
+    const raw = field(key)
+    if (!raw || raw === 'NA') return undefined
+    const value = Number(raw)
+    return Number.isFinite(value) ? value : undefined
+  }
+
+  const processName = field('processName')
+  const msBetweenPresents = number('msBetweenPresents')
+  if (!processName || msBetweenPresents === undefined || msBetweenPresents <= 0) return null
+
+  // PresentMon 2.x não tem "Dropped": frame não exibido aparece com DisplayedTime = NA
+  const droppedRaw = field('dropped')
+  const dropped = droppedRaw !== undefined
+    ? droppedRaw === '1' || droppedRaw.toLowerCase() === 'true'
+    : columns.msBetweenDisplayChange !== undefined && field('msBetweenDisplayChange') === 'NA'
+
+  return {
+    processName,
+    processId: number('processId'),
+    time: number('time'),
+    msBetweenPresents,
+    msBetweenDisplayChange: number('msBetweenDisplayChange'),
+    dropped
+  }
+}
+
+const matchesProcess = (frame: PresentMonFrame, processName?: string) =>
+  !processName || frame.processName.toLowerCase() === processName.toLowerCase()
+
+/**
+ * Parser incremental: aceita a saída do PresentMon em pedaços arbitrários (stdout)
+ */
+export class PresentMonParser {
+  private columns: ColumnIndex | null = null
+  private pending = ''
+  private skipped = 0
+
+  constructor(private readonly processName?: string) {}
+
+  /**
+   * Processa um pedaço de texto e retorna os frames completos encontrados
+   */
+  push(chunk: string): PresentMonFrame[] {
+    const lines = (this.pending + chunk).split(/\r?\n/)
+    this.pending = lines.pop() ?? ''
+    return this.readLines(lines)
+  }
+
+  /**
+   * Processa a última linha pendente (fim do arquivo/processo)
+   */
+  flush(): PresentMonFrame[] {
+    const last = this.pending
+    this.pending = ''
+    return this.readLines([last])
+  }
+
+  getSkipped(): number {
+    return this.skipped
+  }
+
+  private readLines(lines: string[]): PresentMonFrame[] {
+    const frames: PresentMonFrame[] = []
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+
+      // Cabeçalho pode reaparecer (ex.: reinício da captura)
+      const header = readHeader(line)
+      if (header) {
+        this.columns = header
+        continue
+      }
+      if (!this.columns) continue
+
+      const frame = readFrame(line, this.columns)
+      if (!frame) {
+        this.skipped++
+        continue
+      }
+      if (matchesProcess(frame, this.processName)) frames.push(frame)
+    }
+
+    return frames
+  }
+}
+
+/**
+ * Faz o parse de um CSV completo do PresentMon
+ */
+export function parsePresentMonCsv(csv: string, options: { processName?: string } = {}): PresentMonParseResult {
+  const parser = new PresentMonParser(options.processName)
+  const frames = [...parser.push(csv), ...parser.flush()]
+  return { frames, skipped: parser.getSkipped() }
+}
+
+/**
+ * Agrupa frames por processo (útil quando a captura não foi filtrada)
+ */
+export function groupFramesByProcess(frames: PresentMonFrame[]): Map<string, PresentMonFrame[]> {
+  const groups = new Map<string, PresentMonFrame[]>()
+  for (const frame of frames) {
+    const list = groups.get(frame.processName)
+    if (list) list.push(frame)
+    else groups.set(frame.processName, [frame])
+  }
+  return groups
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+const toFps = (frameTime: number) => frameTime > 0 ? round2(1000 / frameTime) : 0
+
+/**
+ * Calcula FPS médio, 1%/0.1% lows, percentis de frame-time e contagem de stutters
+ */
+export function analyzeFrameTimes(frames: PresentMonFrame[], options: FrameTimeOptions = {}): FrameTimeStats | null {
+  const selected = frames.filter(frame => matchesProcess(frame, options.processName))
+  if (selected.length === 0) return null
+
+  const frameTimes = selected.map(frame => frame.msBetweenPresents)
+  const sorted = [...frameTimes].sort((a, b) => a - b)
+  const durationMs = frameTimes.reduce((sum, value) => sum + value, 0)
+  const avgFrameTime = durationMs / frameTimes.length
+
+  const at = (p: number) => round2(percentile(sorted, p) as number)
+  const frameTime: FrameTimePercentiles = {
+    p50: at(50),
+    p90: at(90),
+    p95: at(95),
+    p99: at(99),
+    p999: at(99.9)
+  }
+
+  // Stutter: frame muito acima da mediana da captura
+  const stutterThreshold = Math.max(
+    frameTime.p50 * (options.stutterFactor ?? DEFAULT_STUTTER_FACTOR),
+    options.stutterMinMs ?? DEFAULT_STUTTER_MIN_MS
+  )
+
+  return {
+    frameCount: selected.length,
+    droppedCount: selected.filter(frame => frame.dropped).length,
+    durationMs: round2(durationMs),
+    // FPS médio ponderado pelo tempo (frames / segundos), não média dos FPS instantâneos
+    avgFps: toFps(avgFrameTime),
+    low1Fps: toFps(frameTime.p99),
+    low01Fps: toFps(frameTime.p999),
+    avgFrameTime: round2(avgFrameTime),
+    maxFrameTime: round2(sorted[sorted.length - 1]),
+    frameTime,
+    stutterCount: frameTimes.filter(value => value > stutterThreshold).length
+  }
+}
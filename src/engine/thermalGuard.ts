@@ -0,0 +1,287 @@
+/**
+ * GameBoost AI - Proteção Térmica
+ * Observa as temperaturas da sessão e reduz o preset ativo em níveis quando os limites são excedidos,
+ * restaurando com histerese quando as temperaturas se recuperam
+ */
+
+import { z } from 'zod'
+import { POWER_MODES, GPU_BOOSTS, type PresetConfig } from './presets'
+import { resolvePreset } from './presetResolver'
+import { runSteps, revertRun } from './steps'
+import * as Telemetry from './telemetry'
+import { scheduler } from './scheduler'
+import { log } from '../lib/logger'
+
+export const thermalGuardConfigSchema = z.object({
+  enabled: z.boolean(),
+  cpuLimit: z.number().int().min(60).max(105),
+  gpuLimit: z.number().int().min(60).max(105),
+  // Graus abaixo do limite para considerar recuperado
+  hysteresis: z.number().int().min(1).max(20),
+  // Tempo acima do limite antes de intervir
+  sustainSeconds: z.number().int().min(3).max(120),
+  // Tempo recuperado antes de restaurar um nível
+  recoverSeconds: z.number().int().min(5).max(600)
+})
+
+export type ThermalGuardConfig = z.infer<typeof thermalGuardConfigSchema>
+
+export interface ThermalIntervention {
+  at: number
+  level: number
+  direction: 'down' | 'up'
+  reason: string
+  runId?: string
+}
+
+export interface ThermalGuardState {
+  active: boolean
+  profileKey: string | null
+  level: number
+  interventions: ThermalIntervention[]
+}
+
+type GuardListener = (state: ThermalGuardState) => void
+
+export const DEFAULT_THERMAL_GUARD: ThermalGuardConfig = {
+  enabled: true,
+  cpuLimit: 90,
+  gpuLimit: 85,
+  hysteresis: 5,
+  sustainSeconds: 10,
+  recoverSeconds: 30
+}
+
+const STORAGE_KEY = 'gb.thermalGuard'
+
+// Etapas reaplicadas a cada nível
+const THERMAL_STEPS = ['powerPlan', 'fanSpeed', 'gpuBoost']
+
+export const MAX_THERMAL_LEVEL = 2
+
+// Aumento da ventoinha por nível (%)
+const FAN_STEP = 15
+
+// GPU não desce abaixo de 'balanced' por intervenção
+const MIN_GPU_BOOST = GPU_BOOSTS.indexOf('balanced')
+
+const formatTime = () => new Date().toTimeString().slice(0, 8)
+
+const configListeners = new Set<(config: ThermalGuardConfig) => void>()
+
+/**
+ * Configuração persistida (valores inválidos voltam ao padrão)
+ */
+export function getThermalGuardConfig(): ThermalGuardConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw) {
+      const result = thermalGuardConfigSchema.safeParse({ ...DEFAULT_THERMAL_GUARD, ...JSON.parse(raw) })
+      if (result.success) return result.data
+    }
+  } catch {}
+  return { ...DEFAULT_THERMAL_GUARD }
+}
+
+export function setThermalGuardConfig(patch: Partial<ThermalGuardConfig>): { success: boolean; message: string; config?: ThermalGuardConfig } {
+  const result = thermalGuardConfigSchema.safeParse({ ...getThermalGuardConfig(), ...patch })
+  if (!result.success) {
+    return { success: false, message: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ') }
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(result.data))
+  } catch {}
+
+  configListeners.forEach(listener => listener({ ...result.data }))
+  if (!result.data.enabled) {
+    thermalGuard.stop()
+      .catch(error => log(`[${formatTime()}] Erro ao parar proteção térmica: ${error}`, 'error'))
+  }
+
+  return { success: true, message: 'Proteção térmica atualizada', config: result.data }
+}
+
+export function subscribeThermalGuardConfig(listener: (config: ThermalGuardConfig) => void): () => void {
+  configListeners.add(listener)
+  return () => { configListeners.delete(listener) }
+}
+
+/**
+ * Configuração do preset reduzida em `level` níveis: plano de energia e boost da GPU
+ * descem um degrau por nível, ventoinha sobe
+ */
+export function stepDownPreset(config: PresetConfig, level: number): PresetConfig {
+  if (level <= 0) return config
+
+  const power = POWER_MODES.indexOf(config.powerMode)
+  const gpu = GPU_BOOSTS.indexOf(config.gpuBoost)
+
+  return {
+    ...config,
+    powerMode: POWER_MODES[Math.max(0, power - level)],
+    gpuBoost: gpu <= MIN_GPU_BOOST ? config.gpuBoost : GPU_BOOSTS[Math.max(MIN_GPU_BOOST, gpu - level)],
+    fanSpeed: Math.min(100, config.fanSpeed + FAN_STEP * level)
+  }
+}
+
+class ThermalGuard {
+  private state: ThermalGuardState = { active: false, profileKey: null, level: 0, interventions: [] }
+  private executable?: string
+  private unsubscribe: (() => void) | null = null
+  // Execuções aplicadas por nível (revertidas ao restaurar)
+  private runs: string[] = []
+  private overSince: number | null = null
+  private underSince: number | null = null
+  private busy = false
+  private listeners = new Set<GuardListener>()
+
+  /**
+   * Passa a observar a telemetria da sessão do perfil
+   */
+  start(profileKey: string, options: { executable?: string } = {}): void {
+    if (!getThermalGuardConfig().enabled) return
+    if (this.state.active) this.detach()
+
+    this.executable = options.executable
+    this.runs = []
+    this.overSince = null
+    this.underSince = null
+    this.unsubscribe = Telemetry.onTelemetry(data => {
+      this.evaluate(data)
+        .catch(error => log(`[${formatTime()}] Erro na proteção térmica: ${error}`, 'error'))
+    })
+    this.update({ active: true, profileKey, level: 0, interventions: [] })
+
+    const config = getThermalGuardConfig()
+    log(`[${formatTime()}] 🌡️ Proteção térmica ativa (CPU ${config.cpuLimit}°C, GPU ${config.gpuLimit}°C)`, 'info')
+  }
+
+  /**
+   * Para de observar e desfaz as reduções aplicadas, da mais recente para a mais antiga,
+   * em uma única operação na fila (níveis ainda na fila entram antes dela)
+   */
+  async stop(): Promise<void> {
+    if (!this.state.active) return
+    this.detach()
+
+    await scheduler.run('revert', 'Reversão da proteção térmica', async () => {
+      while (this.runs.length > 0) {
+        const runId = this.runs.pop()!
+        try {
+          await revertRun(runId)
+        } catch (error) {
+          log(`[${formatTime()}] Erro ao reverter proteção térmica (${runId}): ${error}`, 'error')
+        }
+      }
+    }, { skipCooldown: true })
+    this.update({ active: false, profileKey: null, level: 0 })
+  }
+
+  getState(): ThermalGuardState {
+    return { ...this.state, interventions: [...this.state.interventions] }
+  }
+
+  subscribe(listener: GuardListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private detach(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  private async evaluate(data: Telemetry.TelemetryData): Promise<void> {
+    if (this.busy || !this.state.active) return
+
+    const config = getThermalGuardConfig()
+    const now = data.timestamp
+    const hot = this.describeExcess(data, config)
+    const cool = (data.cpuTemp === undefined || data.cpuTemp <= config.cpuLimit - config.hysteresis)
+      && (data.gpuTemp === undefined || data.gpuTemp <= config.gpuLimit - config.hysteresis)
+
+    if (hot) {
+      this.underSince = null
+      this.overSince ??= now
+      if (now - this.overSince >= config.sustainSeconds * 1000 && this.state.level < MAX_THERMAL_LEVEL) {
+        // Nova janela completa antes do próximo nível
+        this.overSince = now
+        await this.stepDown(`${hot} por ${config.sustainSeconds}s`)
+      }
+    } else if (cool && this.state.level > 0) {
+      this.overSince = null
+      this.underSince ??= now
+      if (now - this.underSince >= config.recoverSeconds * 1000) {
+        this.underSince = now
+        await this.stepUp(`temperaturas normalizadas por ${config.recoverSeconds}s`)
+      }
+    } else {
+      // Faixa de histerese: mantém o nível atual
+      this.overSince = null
+      this.underSince = null
+    }
+  }
+
+  private describeExcess(data: Telemetry.TelemetryData, config: ThermalGuardConfig): string | null {
+    const excess: string[] = []
+    if (data.cpuTemp !== undefined && data.cpuTemp >= config.cpuLimit) excess.push(`CPU ${data.cpuTemp}°C ≥ ${config.cpuLimit}°C`)
+    if (data.gpuTemp !== undefined && data.gpuTemp >= config.gpuLimit) excess.push(`GPU ${data.gpuTemp}°C ≥ ${config.gpuLimit}°C`)
+    return excess.length ? excess.join(', ') : null
+  }
+
+  private async stepDown(reason: string): Promise<void> {
+    const profileKey = this.state.profileKey
+    const resolved = profileKey ? resolvePreset(profileKey, { executable: this.executable }) : null
+    if (!profileKey || !resolved) return
+
+    const level = this.state.level + 1
+    const preset = stepDownPreset(resolved.config, level)
+
+    this.busy = true
+    try {
+      log(`[${formatTime()}] 🌡️ Proteção térmica: ${reason} — nível ${level} (${preset.powerMode}, GPU ${preset.gpuBoost}, fan ${preset.fanSpeed}%)`, 'warning')
+
+      const run = await scheduler.run('thermal', `Proteção térmica nível ${level}`, async signal => {
+        const result = await runSteps(THERMAL_STEPS, { profileKey, preset, source: 'thermal', targetProcess: this.executable }, { signal })
+        // Registrado dentro da operação para que uma parada já na fila o reverta
+        this.runs.push(result.runId)
+        return result
+      })
+      this.record({ at: Date.now(), level, direction: 'down', reason, runId: run.runId })
+    } finally {
+      this.busy = false
+    }
+  }
+
+  private async stepUp(reason: string): Promise<void> {
+    const runId = this.runs.pop()
+    const level = this.state.level - 1
+
+    this.busy = true
+    try {
+      log(`[${formatTime()}] 🌡️ Proteção térmica: ${reason} — restaurando para nível ${level}`, 'success')
+
+      if (runId) await scheduler.run('thermal', `Proteção térmica nível ${level}`, () => revertRun(runId))
+      this.record({ at: Date.now(), level, direction: 'up', reason, runId })
+    } finally {
+      this.busy = false
+    }
+  }
+
+  private record(intervention: ThermalIntervention): void {
+    this.update({
+      level: intervention.level,
+      interventions: [...this.state.interventions, intervention]
+    })
+  }
+
+  private update(patch: Partial<ThermalGuardState>): void {
+    this.state = { ...this.state, ...patch }
+    const snapshot = this.getState()
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+}
+
+// Instância singleton da proteção térmica
+export const thermalGuard = new ThermalGuard()
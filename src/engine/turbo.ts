@@ -3,16 +3,25 @@
  * Sistema de otimização inteligente integrado ao perfil ativo
  */
 
-import * as WinOpt from './optimizer/windows'
-import { presets, presetDisplayNames, type PresetConfig } from './presets'
+import { getPresetDisplayName, resolveProfileKey } from './presetStore'
+import { resolvePreset } from './presetResolver'
+import { runSteps, planSteps, revertRun, DEFAULT_TURBO_STEPS, type ExecutionPlan } from './steps'
+import { getLastRun, listRuns, type RevertReport } from './journal'
+import { sessionRecorder } from './sessions'
+import { thermalGuard, getThermalGuardConfig } from './thermalGuard'
+import { beginMeasurement, completeMeasurement, discardMeasurement, type PendingMeasurement } from './effectiveness'
+import { scheduler } from './scheduler'
 import { log } from '../lib/logger'
 
 export interface TurboResult {
+  runId: string
   steps: number
   errors: number
   tempGuard: boolean
   executionTime: number
   profile: string
+  // Janela de comparação em andamento; resultado chega via subscribeEffectiveness
+  measuring: boolean
 }
 
 export interface TurboSession {
@@ -23,32 +32,14 @@ export interface TurboSession {
   active: boolean
 }
 
-export interface TelemetryBoost {
-  fpsBoost: number
-  ramReduction: number
-  tempReduction: number
-  duration: number
-}
-
 // Estado global da sessão
 let currentSession: TurboSession | null = null
 
-// Estado da telemetria
-let activeTelemetry: TelemetryBoost | null = null
-let telemetryStartTime: number = 0
-
-/**
- * Verificar se está rodando no desktop
- */
-const isDesktop = (): boolean => {
-  return !!(typeof window !== 'undefined' && (window as any)?.backend?.runPS)
-}
-
 /**
  * Verificar se tem privilégios de admin
  */
 const isAdmin = (): boolean => {
-  return !!(typeof window !== 'undefined' && (window as any)?.env?.isAdmin)
+  return !!(typeof window !== 'undefined' && window.env?.isAdmin)
 }
 
 /**
@@ -60,177 +51,86 @@ const formatTime = () => {
 }
 
 /**
- * Calcular boost de FPS baseado no perfil
+ * Executa o Turbo Mode com base no perfil ativo (enfileirado no agendador, com intervalo mínimo)
+ * @param profileIdentifier - Identificador interno do perfil (ex: 'esports', 'battlefield6')
+ * @param options.targetProcess - Processo que recebe a prioridade de CPU (ex: jogo detectado)
+ * @param options.measure - Medir telemetria antes/depois para calcular a efetividade (padrão: false; só o botão do Turbo mede)
+ * @param options.skipCooldown - Ignorar o intervalo mínimo (ex.: Turbo automático ao abrir um jogo)
  */
-const calculateFpsBoost = (profileKey: string): number => {
-  switch (profileKey) {
-    case 'esports':
-    case 'battleroyale':
-      return 5
-    case 'aaa':
-      return 3
-    case 'battlefield6':
-      return 6
-    case 'streamgame':
-      return 4
-    case 'silent':
-      return 0
-    case 'arcriders':
-      return 4
-    case 'warzone':
-      return 5
-    default:
-      return 4
-  }
-}
+export async function runTurbo(
+  profileIdentifier: string,
+  options: { targetProcess?: string; measure?: boolean; skipCooldown?: boolean } = {}
+): Promise<TurboResult> {
+  // Linha de base medida fora da fila: os 10s de captura não seguram as demais operações.
+  // Em intervalo mínimo o agendador recusa o Turbo, então nem começa a medir
+  const canRun = options.skipCooldown || scheduler.getCooldownRemaining('turbo') === 0
+  const measurement = options.measure && canRun
+    ? await beginMeasurement().catch(error => {
+        log(`[${formatTime()}] Medição de efetividade indisponível: ${error instanceof Error ? error.message : error}`, 'warning')
+        return null
+      })
+    : null
 
-/**
- * Função helper para executar etapas com fallback
- */
-async function step(label: string, fnReal: Function | null, ...args: any[]): Promise<boolean> {
-  log(`[${formatTime()}] ${label}...`, 'info')
-  
   try {
-    if (isDesktop() && typeof fnReal === 'function') {
-      await fnReal(...args)
-    } else {
-      // Preview/simulação
-      await new Promise(r => setTimeout(r, 300))
-      log(`[${formatTime()}] (preview) ${label} simulado`, 'info')
-    }
-    
-    log(`[${formatTime()}] ${label} OK`, 'success')
-    return true
-  } catch (e) {
-    log(`[${formatTime()}] ${label} ERRO: ${e}`, 'error')
-    return false
+    return await scheduler.run('turbo', 'Turbo', signal => executeTurbo(profileIdentifier, options, measurement, signal), { skipCooldown: options.skipCooldown })
+  } catch (error) {
+    // Turbo recusado, cancelado ou com falha antes da janela de comparação
+    if (measurement) await discardMeasurement(measurement)
+    throw error
   }
 }
 
-/**
- * Ativar telemetria de boost temporário
- */
-export function activateTelemetryBoost(profileKey: string, tempGuard: boolean): void {
-  const fpsBoost = calculateFpsBoost(profileKey)
-  const ramReduction = Math.floor(Math.random() * 5) + 8 // 8-12%
-  const tempReduction = tempGuard ? Math.floor(Math.random() * 3) + 2 : 0 // 2-4°C se tempGuard ativo
-  
-  activeTelemetry = {
-    fpsBoost,
-    ramReduction,
-    tempReduction,
-    duration: 60000 // 60 segundos
-  }
-  
-  telemetryStartTime = Date.now()
-  
-  // Usar nome bonito para log visual
-  const displayName = presetDisplayNames[profileKey] || profileKey
-  log(`[${formatTime()}] Telemetria ativa: FPS +${fpsBoost}%, RAM -${ramReduction}%${tempGuard ? `, GPU -${tempReduction}°C` : ''}`, 'success')
-}
-
-/**
- * Obter boost ativo da telemetria
- */
-export function getActiveTelemetryBoost(): TelemetryBoost | null {
-  if (!activeTelemetry) return null
-  
-  const elapsed = Date.now() - telemetryStartTime
-  if (elapsed >= activeTelemetry.duration) {
-    // Reverter gradualmente
-    const fadeTime = 5000 // 5 segundos para reverter
-    if (elapsed >= activeTelemetry.duration + fadeTime) {
-      activeTelemetry = null
-      return null
-    }
-    
-    // Fade out gradual
-    const fadeProgress = (elapsed - activeTelemetry.duration) / fadeTime
-    const fadeMultiplier = 1 - fadeProgress
-    
-    return {
-      fpsBoost: activeTelemetry.fpsBoost * fadeMultiplier,
-      ramReduction: activeTelemetry.ramReduction * fadeMultiplier,
-      tempReduction: activeTelemetry.tempReduction * fadeMultiplier,
-      duration: activeTelemetry.duration
-    }
-  }
-  
-  return activeTelemetry
-}
-
-/**
- * Executa o Turbo Mode com base no perfil ativo
- * @param profileIdentifier - Identificador interno do perfil (ex: 'esports', 'battlefield6')
- */
-export async function runTurbo(profileIdentifier: string): Promise<TurboResult> {
+async function executeTurbo(
+  profileIdentifier: string,
+  options: { targetProcess?: string },
+  measurement: PendingMeasurement | null,
+  signal: AbortSignal
+): Promise<TurboResult> {
   const startTime = Date.now()
-  let steps = 0
-  let errors = 0
-  let tempGuard = false
   
-  // Normalizar identificador para garantir que seja a chave correta
-  const profileKey = profileIdentifier.toLowerCase().replace(/[\s\-]+/g, '')
+  // Resolver identificador (nativo ou personalizado) para a chave correta
+  const profileKey = resolveProfileKey(profileIdentifier)
   
-  // Buscar configuração do perfil
-  const preset = presets[profileKey]
-  if (!preset) {
+  // Buscar configuração efetiva do perfil (herança + ajustes do jogo alvo)
+  const resolved = resolvePreset(profileKey, { executable: options.targetProcess })
+  if (!profileKey || !resolved) {
     throw new Error(`Perfil '${profileIdentifier}' não encontrado`)
   }
+  const preset = resolved.config
 
   // Obter nome bonito para logs
-  const displayName = presetDisplayNames[profileKey] || profileIdentifier
+  const displayName = getPresetDisplayName(profileKey)
 
   log(`[${formatTime()}] TURBO iniciado — perfil: ${displayName}`, 'success')
+
+  for (const layer of resolved.layers.filter(l => l.kind === 'game')) {
+    log(`[${formatTime()}] Ajuste do jogo ${layer.label}: ${Object.keys(layer.values).join(', ')}`, 'info')
+  }
   
   // Verificar se é BF6 para logs especiais
   const isBF6 = profileKey === 'battlefield6'
   if (isBF6) {
     log(`[${formatTime()}] BF6: priorização multicore + buffer VRAM`, 'info')
-    tempGuard = true // BF6 sempre ativa tempGuard
   }
 
-  // Verificar disponibilidade das funções opcionais
-  const hasFan = typeof WinOpt.setFanSpeed === 'function'
-  const hasGpu = typeof WinOpt.applyGpuBoost === 'function'
-
-  // Executar operações sequencialmente usando o optimizer real
-  const operations = [
-    () => step('Liberando RAM', WinOpt.freeRam),
-    () => step('Fechando apps em segundo plano', WinOpt.closeBackgroundApps, preset.backgroundApps),
-    () => step(`Prioridade de CPU (${preset.cpuPriority})`, WinOpt.setProcessPriority, { 
-      name: 'GameBoostAI', 
-      level: (preset.cpuPriority === 'realtime' || preset.cpuPriority === 'realtime-multicore') ? 'RealTime' : 
-             (preset.cpuPriority === 'high' ? 'High' : 'Normal') 
-    }),
-    () => step('Plano de energia (Performance)', WinOpt.applyPowerPlan, 'performance'),
-    () => step('Limpando cache temporário', WinOpt.clearTempCaches),
-    () => step(`Fan speed (${preset.fanSpeed}%)`, hasFan ? WinOpt.setFanSpeed : null, preset.fanSpeed),
-    () => step(`GPU boost (${preset.gpuBoost})`, hasGpu ? WinOpt.applyGpuBoost : null, preset.gpuBoost)
-  ]
-
-  for (const operation of operations) {
-    try {
-      const success = await operation()
-      steps++
-      if (!success) {
-        errors++
-      }
-    } catch (error) {
-      steps++
-      errors++
-      log(`[${formatTime()}] Erro na operação: ${error}`, 'error')
-    }
-  }
+  // Executar etapas do registro selecionadas pelo preset
+  const run = await runSteps(preset.turboSteps || DEFAULT_TURBO_STEPS, {
+    profileKey,
+    preset,
+    source: 'turbo',
+    targetProcess: options.targetProcess
+  }, { signal })
+  const { steps, errors } = run
+  sessionRecorder.recordTurbo({ runId: run.runId, steps, errors })
 
   const executionTime = Date.now() - startTime
+
+  // Proteção térmica atua durante a sessão, observando a telemetria
+  const tempGuard = getThermalGuardConfig().enabled
   
   // Log final com resumo usando nome bonito
   log(`[${formatTime()}] TURBO finalizado: ${steps} etapas, ${errors} erros, tempGuard:${tempGuard}`, errors === 0 ? 'success' : 'error')
 
-  // Ativar telemetria de boost usando chave interna
-  activateTelemetryBoost(profileKey, tempGuard)
-  
   // Salvar dados de persistência usando chave interna
   const turboData = {
     lastTurboAt: Date.now(),
@@ -238,15 +138,79 @@ export async function runTurbo(profileIdentifier: string): Promise<TurboResult>
   }
   localStorage.setItem('gb.turbo', JSON.stringify(turboData))
 
+  // Janela de comparação roda em segundo plano e grava o resultado junto da execução
+  if (measurement) {
+    completeMeasurement(measurement, run.runId)
+      .catch(error => log(`[${formatTime()}] Erro ao medir efetividade: ${error instanceof Error ? error.message : error}`, 'error'))
+  }
+
   return {
+    runId: run.runId,
     steps,
     errors,
     tempGuard,
     executionTime,
-    profile: displayName // Retornar nome bonito para exibição
+    profile: displayName, // Retornar nome bonito para exibição
+    measuring: measurement !== null
   }
 }
 
+/**
+ * Reverte o último Turbo ainda não revertido
+ */
+export async function revertLastTurbo(): Promise<RevertReport> {
+  const journal = getLastRun('turbo')
+  if (!journal) {
+    throw new Error('Nenhum Turbo para reverter')
+  }
+  return scheduler.run('revert', 'Reversão do Turbo', () => revertRun(journal.runId))
+}
+
+/**
+ * Reversão de emergência: cancela o que estiver na fila ou em execução e reverte
+ * todas as execuções pendentes (Turbo, presets, proteção térmica e regras), da mais recente para a mais antiga
+ */
+export async function revertEverything(): Promise<RevertReport[]> {
+  scheduler.cancelAll()
+
+  // Proteção térmica desfaz as próprias reduções e para de reaplicá-las
+  try {
+    await thermalGuard.stop()
+  } catch (error) {
+    log(`[${formatTime()}] Erro ao parar proteção térmica: ${error}`, 'error')
+  }
+
+  return scheduler.run('revert', 'Reversão de emergência', async () => {
+    const pending = listRuns().filter(run => !run.reverted)
+    log(`[${formatTime()}] 🛑 Reversão de emergência: ${pending.length} execução(ões) pendente(s)`, 'warning')
+
+    const reports: RevertReport[] = []
+    for (const journal of pending) {
+      reports.push(await revertRun(journal.runId))
+    }
+    return reports
+  }, { skipCooldown: true })
+}
+
+/**
+ * Gera o plano do Turbo para o perfil sem executar nenhuma etapa
+ */
+export async function planTurbo(profileIdentifier: string, options: { targetProcess?: string } = {}): Promise<ExecutionPlan> {
+  const profileKey = resolveProfileKey(profileIdentifier)
+  const resolved = resolvePreset(profileKey, { executable: options.targetProcess })
+  if (!profileKey || !resolved) {
+    throw new Error(`Perfil '${profileIdentifier}' não encontrado`)
+  }
+  const preset = resolved.config
+
+  return planSteps(preset.turboSteps || DEFAULT_TURBO_STEPS, {
+    profileKey,
+    preset,
+    source: 'turbo',
+    targetProcess: options.targetProcess
+  })
+}
+
 /**
  * Obter dados persistidos do último turbo
  */
@@ -260,14 +224,15 @@ export function getLastTurboData(): { lastTurboAt: number; lastTurboProfile: str
 }
 
 /**
- * Inicia uma sessão de jogo
+ * Inicia uma sessão de jogo (gravada com a timeline de telemetria e com proteção térmica)
+ * @param options.executable - Executável do jogo, para os ajustes por jogo do preset
  */
-export function startSession(profileIdentifier: string): string {
+export function startSession(profileIdentifier: string, options: { game?: string; executable?: string } = {}): string {
   const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   
   // Normalizar identificador
-  const profileKey = profileIdentifier.toLowerCase().replace(/[\s\-]+/g, '')
-  const displayName = presetDisplayNames[profileKey] || profileIdentifier
+  const profileKey = resolveProfileKey(profileIdentifier) || profileIdentifier
+  const displayName = getPresetDisplayName(profileKey)
   
   currentSession = {
     id: sessionId,
@@ -276,14 +241,18 @@ export function startSession(profileIdentifier: string): string {
     active: true
   }
   
+  sessionRecorder.start({ id: sessionId, profile: profileKey, profileName: displayName, game: options.game })
+    .catch(error => log(`Erro ao gravar sessão: ${error instanceof Error ? error.message : error}`, 'error'))
+  thermalGuard.start(profileKey, { executable: options.executable })
+
   log(`🎮 Sessão iniciada: ${displayName} (${sessionId})`, 'info')
   return sessionId
 }
 
 /**
- * Encerra a sessão de jogo ativa
+ * Encerra a sessão de jogo ativa e aguarda a reversão da proteção térmica
  */
-export function endSession(): void {
+export async function endSession(): Promise<void> {
   if (currentSession) {
     currentSession.endTime = new Date()
     currentSession.active = false
@@ -292,10 +261,18 @@ export function endSession(): void {
     const durationMinutes = Math.floor(duration / 60000)
     
     // Usar nome bonito para log
-    const displayName = presetDisplayNames[currentSession.profile] || currentSession.profile
+    const displayName = getPresetDisplayName(currentSession.profile)
     
     log(`🏁 Sessão encerrada: ${durationMinutes}min (${displayName})`, 'info')
     currentSession = null
+
+    sessionRecorder.stop()
+      .catch(error => log(`Erro ao gravar sessão: ${error instanceof Error ? error.message : error}`, 'error'))
+    try {
+      await thermalGuard.stop()
+    } catch (error) {
+      log(`Erro ao restaurar proteção térmica: ${error instanceof Error ? error.message : error}`, 'error')
+    }
   }
 }
 
@@ -0,0 +1,17 @@
+/**
+ * GameBoost AI - Detecção de Plataforma
+ * Identifica o sistema operacional do backend desktop (ou web/preview)
+ */
+
+export type Platform = 'windows' | 'linux' | 'web'
+
+export function detectPlatform(): Platform {
+  if (typeof window === 'undefined' || !window.backend?.invoke) return 'web'
+
+  const platform: string =
+    window.env?.platform ||
+    (typeof process !== 'undefined' ? process.platform : '') ||
+    (typeof navigator !== 'undefined' ? navigator.userAgent : '')
+
+  return /linux/i.test(platform) ? 'linux' : 'windows'
+}
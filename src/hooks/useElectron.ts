@@ -1,28 +1,62 @@
 // 'use client'
-
-type W = (Window & { backend?: { runPS?: (s: string) => Promise<string> } }) | any
+import { useEffect, useState } from 'react'
+import type { PSResult } from '../../electron/protocol'
+import type { OperationArgs, OperationName, OperationResults } from '../../electron/operations'
+import { getEnvironmentInfo, type EnvironmentInfo } from '../lib/powershell'
 
 export function isDesktop(): boolean {
-  const w: W = typeof window !== 'undefined' ? (window as any) : {}
-  return !!w.backend?.runPS
+  return typeof window !== 'undefined' && !!window.backend?.invoke
 }
 
 // flag booleana para quem usa como valor
 export const isDesktopFlag: boolean =
-  typeof window !== 'undefined' ? !!(window as any)?.backend?.runPS : false
+  typeof window !== 'undefined' ? !!window.backend?.invoke : false
+
+// privilégio resolvido pelo main antes de abrir a janela
+export function isAdmin(): boolean {
+  return typeof window !== 'undefined' && !!window.env?.isAdmin
+}
 
 export function useElectron() {
-  const w: W = typeof window !== 'undefined' ? (window as any) : {}
+  const [envInfo, setEnvInfo] = useState<EnvironmentInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let active = true
+    getEnvironmentInfo()
+      .then(info => { if (active) setEnvInfo(info) })
+      .finally(() => { if (active) setLoading(false) })
+    return () => { active = false }
+  }, [])
+
+  const platform = envInfo?.platform ?? (typeof window !== 'undefined' ? window.env?.platform : undefined) ?? 'web'
+
   return {
     // manter ambos para compatibilidade
     isDesktop: isDesktop(),
     isDesktopFlag,
-    runPS: async (script: string) => {
-      if (w.backend?.runPS) return w.backend.runPS(script)
+    envInfo,
+    loading,
+    isElectron: envInfo?.isDesktop ?? isDesktop(),
+    isAdmin: envInfo?.isAdmin ?? isAdmin(),
+    platform,
+    isWindows: platform === 'win32',
+    invoke: async <N extends OperationName>(name: N, args: OperationArgs<N>): Promise<PSResult<OperationResults[N]>> => {
+      if (typeof window !== 'undefined' && window.backend) return window.backend.invoke(name, args)
       // fallback no preview web
-      return '(preview) runPS not available'
+      return {
+        requestId: 'preview',
+        ok: false,
+        code: null,
+        stdout: '',
+        stderr: '',
+        duration: 0,
+        timedOut: false,
+        cancelled: false,
+        error: '(preview) operações não disponíveis'
+      }
     },
   }
 }
 
-export default useElectron
\ No newline at end of file
+export default useElectron
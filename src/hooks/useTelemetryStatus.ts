@@ -17,7 +17,7 @@ export function useTelemetryStatus() {
   })
 
   // Ambiente Desktop detectado
-  const isDesktop = typeof window !== 'undefined' && !!(window as any)?.backend?.runPS
+  const isDesktop = typeof window !== 'undefined' && !!window.backend?.invoke
 
   // Checagem segura sem fs/path
   const checkToolsAvailability = useCallback(() => {
@@ -9,9 +9,12 @@ export interface LogEntry {
   type: 'info' | 'success' | 'warning' | 'error'
 }
 
+type LogListener = (entry: LogEntry) => void
+
 class Logger {
   private logs: LogEntry[] = []
   private maxLogs = 100
+  private listeners = new Set<LogListener>()
 
   /**
    * Adiciona uma entrada de log
@@ -38,6 +41,16 @@ class Logger {
 
     // Log no console para debug
     console.log(`[${timestamp}] ${message}`)
+
+    this.listeners.forEach(listener => listener(entry))
+  }
+
+  /**
+   * Registra listener chamado a cada nova entrada
+   */
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
   }
 
   /**
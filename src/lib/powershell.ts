@@ -1,31 +1,23 @@
 /**
  * PowerShell Utility - Integração com Backend Node.js
- * Fornece interface para executar comandos PowerShell com segurança
+ * Cliente tipado das operações do catálogo do main (nome + argumentos; o script é montado no main)
  */
 
 import { log } from '../lib/logger'
-import { safeTmpDir } from '../engine/util/tmpdir'
+import type { PSResult } from '../../electron/protocol'
+import type { OperationArgs, OperationName, OperationResults } from '../../electron/operations'
+import type { ElevationResult, EnvironmentInfo, FileReadResult } from '../../electron/bridge'
 
-// Tipos para resultados PowerShell
-export interface PowerShellResult {
-  stdout: string
-  stderr: string
-  code: number
-  duration: number
-}
+export type { ElevationResult, EnvironmentInfo, FileReadResult }
 
-export interface FileReadResult {
-  success: boolean
-  content?: string
-  error?: string
-}
+// Envelope estruturado retornado pelas operações
+export type PowerShellResult<T = any> = PSResult<T>
 
-export interface EnvironmentInfo {
-  isDesktop: boolean
-  isAdmin: boolean
-  platform: string
-  arch: string
-  version: string
+export interface OperationOptions {
+  requestId?: string
+  signal?: AbortSignal
+  // Não registrar no log (consultas periódicas, ex.: lista de processos)
+  silent?: boolean
 }
 
 /**
@@ -39,7 +31,7 @@ export class PowerShellManager {
   constructor() {
     // Verificar se está rodando no Electron
     this.isElectron = typeof window !== 'undefined' && 
-                     typeof (window as any).backend !== 'undefined'
+                     typeof window.backend !== 'undefined'
   }
 
   static getInstance(): PowerShellManager {
@@ -57,10 +49,11 @@ export class PowerShellManager {
       return this.envInfo
     }
 
-    if (this.isElectron && (window as any).env) {
+    if (this.isElectron && window.env) {
       try {
-        this.envInfo = await (window as any).env.getInfo()
-        return this.envInfo
+        const info = await window.env.getInfo()
+        this.envInfo = info
+        return info
       } catch (error) {
         log(`Erro ao obter informações do ambiente: ${error}`, 'error')
       }
@@ -70,6 +63,7 @@ export class PowerShellManager {
     this.envInfo = {
       isDesktop: false,
       isAdmin: false,
+      privileged: false,
       platform: 'web',
       arch: 'unknown',
       version: '0.0.0'
@@ -79,46 +73,99 @@ export class PowerShellManager {
   }
 
   /**
-   * Executar comando PowerShell
+   * Executar operação do catálogo
    */
-  async runPS(command: string, timeout: number = 30000): Promise<PowerShellResult> {
+  async invoke<N extends OperationName>(
+    name: N,
+    args: OperationArgs<N>,
+    options: OperationOptions = {}
+  ): Promise<PowerShellResult<OperationResults[N]>> {
     const startTime = Date.now()
+    const requestId = options.requestId || `op_${startTime}_${Math.random().toString(36).slice(2, 9)}`
     
-    // Log do comando
-    log(`Executando PowerShell: ${command.slice(0, 50)}${command.length > 50 ? '...' : ''}`, 'info')
+    // Log da operação
+    if (!options.silent) log(`Executando operação: ${name}`, 'info')
+
+    if (options.signal?.aborted) {
+      return this.failedResult(requestId, startTime, 'Cancelado', { cancelled: true })
+    }
 
-    if (!this.isElectron || !(window as any).backend) {
+    const backend = this.isElectron ? window.backend : undefined
+    if (!backend) {
       // Simular execução em ambiente web
-      log('Simulando comando PowerShell (ambiente web)', 'info')
+      if (!options.silent) log('Simulando operação (ambiente web)', 'info')
       
       await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 800))
       
       return {
-        stdout: `Comando simulado: ${command}`,
-        stderr: '',
+        requestId,
+        ok: true,
         code: 0,
-        duration: Date.now() - startTime
+        stdout: `Operação simulada: ${name}`,
+        stderr: '',
+        duration: Date.now() - startTime,
+        timedOut: false,
+        cancelled: false
       }
     }
 
+    const onAbort = () => { this.cancel(requestId) }
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
     try {
-      const result = await (window as any).backend.runPS(command, timeout)
+      const result: PowerShellResult<OperationResults[N]> = await backend.invoke(name, args, requestId)
       
       // Log do resultado
-      const status = result.code === 0 ? 'OK' : 'ERRO'
-      log(`PowerShell ${status} (${result.duration}ms)`, result.code === 0 ? 'success' : 'error')
+      const status = result.ok ? 'OK' : result.timedOut ? 'TIMEOUT' : result.cancelled ? 'CANCELADO' : 'ERRO'
+      if (!options.silent || !result.ok) log(`Operação ${name} ${status} (${result.duration}ms)`, result.ok ? 'success' : 'error')
       
       return result
       
     } catch (error) {
-      log(`Erro no PowerShell: ${error}`, 'error')
+      log(`Erro na operação ${name}: ${error}`, 'error')
       
-      return {
-        stdout: '',
-        stderr: error instanceof Error ? error.message : 'Erro desconhecido',
-        code: 1,
-        duration: Date.now() - startTime
-      }
+      return this.failedResult(requestId, startTime, error instanceof Error ? error.message : 'Erro desconhecido')
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * Cancelar operação em execução
+   */
+  async cancel(requestId: string): Promise<boolean> {
+    const backend = this.isElectron ? window.backend : undefined
+    if (!backend) {
+      return false
+    }
+
+    try {
+      return await backend.cancel(requestId)
+    } catch (error) {
+      log(`Erro ao cancelar operação: ${error}`, 'error')
+      return false
+    }
+  }
+
+  /**
+   * Montar envelope de falha local (sem processo executado)
+   */
+  private failedResult<T>(
+    requestId: string,
+    startTime: number,
+    error: string,
+    flags: { cancelled?: boolean } = {}
+  ): PowerShellResult<T> {
+    return {
+      requestId,
+      ok: false,
+      code: null,
+      stdout: '',
+      stderr: error,
+      duration: Date.now() - startTime,
+      timedOut: false,
+      cancelled: !!flags.cancelled,
+      error
     }
   }
 
@@ -128,7 +175,8 @@ export class PowerShellManager {
   async readFile(filePath: string): Promise<FileReadResult> {
     log(`Lendo arquivo: ${filePath}`, 'info')
 
-    if (!this.isElectron || !(window as any).backend) {
+    const backend = this.isElectron ? window.backend : undefined
+    if (!backend) {
       // Simular leitura em ambiente web
       log('Simulando leitura de arquivo (ambiente web)', 'info')
       
@@ -139,7 +187,7 @@ export class PowerShellManager {
     }
 
     try {
-      const result = await (window as any).backend.readFile(filePath)
+      const result = await backend.readFile(filePath)
       
       if (result.success) {
         log(`Arquivo lido com sucesso: ${result.content?.length || 0} caracteres`, 'success')
@@ -163,10 +211,11 @@ export class PowerShellManager {
   /**
    * Solicitar elevação de privilégios
    */
-  async requestElevation(): Promise<{ success: boolean; message: string }> {
+  async requestElevation(): Promise<ElevationResult> {
     log('Solicitando elevação de privilégios', 'info')
 
-    if (!this.isElectron || !(window as any).backend) {
+    const backend = this.isElectron ? window.backend : undefined
+    if (!backend) {
       return {
         success: false,
         message: 'Elevação não disponível em ambiente web'
@@ -174,7 +223,7 @@ export class PowerShellManager {
     }
 
     try {
-      const result = await (window as any).backend.requestElevation()
+      const result = await backend.requestElevation()
       
       if (result.success) {
         log('Elevação solicitada com sucesso', 'success')
@@ -194,88 +243,14 @@ export class PowerShellManager {
       }
     }
   }
-
-  /**
-   * Comandos PowerShell pré-definidos para otimização
-   */
-  async optimizeSystem(): Promise<PowerShellResult[]> {
-    const commands = [
-      'Get-Process | Where-Object {$_.WorkingSet -gt 100MB} | Select-Object Name, WorkingSet',
-      'Get-WmiObject -Class Win32_PerfRawData_PerfOS_Memory | Select-Object AvailableBytes',
-      'Get-Counter "\\Processor(_Total)\\% Processor Time" -SampleInterval 1 -MaxSamples 1',
-      'Get-WmiObject -Class Win32_VideoController | Select-Object Name, AdapterRAM'
-    ]
-
-    const results: PowerShellResult[] = []
-    
-    for (const command of commands) {
-      const result = await this.runPS(command, 10000)
-      results.push(result)
-      
-      // Pequeno delay entre comandos
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
-
-    return results
-  }
-
-  /**
-   * Limpar cache do sistema
-   */
-  async clearSystemCache(): Promise<PowerShellResult> {
-    const tmpDir = await safeTmpDir()
-    
-    const command = `
-      # Limpar cache DNS
-      Clear-DnsClientCache
-      
-      # Limpar arquivos temporários (seguro)
-      Get-ChildItem -Path "${tmpDir}" -Recurse -Force -ErrorAction SilentlyContinue | 
-      Where-Object { $_.LastWriteTime -lt (Get-Date).AddDays(-1) } | 
-      Remove-Item -Force -Recurse -ErrorAction SilentlyContinue
-      
-      Write-Output "Cache do sistema limpo"
-    `
-    
-    return await this.runPS(command, 30000)
-  }
-
-  /**
-   * Otimizar configurações de rede para gaming
-   */
-  async optimizeNetworkForGaming(): Promise<PowerShellResult> {
-    const command = `
-      # Otimizar configurações TCP para gaming
-      netsh int tcp set global autotuninglevel=normal
-      netsh int tcp set global rss=enabled
-      netsh int tcp set global netdma=enabled
-      
-      Write-Output "Configurações de rede otimizadas para gaming"
-    `
-    
-    return await this.runPS(command, 15000)
-  }
-
-  /**
-   * Verificar temperatura do sistema
-   */
-  async checkSystemTemperature(): Promise<PowerShellResult> {
-    const command = `
-      Get-WmiObject -Namespace "root/OpenHardwareMonitor" -Class Sensor | 
-      Where-Object { $_.SensorType -eq "Temperature" } | 
-      Select-Object Name, Value | 
-      Format-Table -AutoSize
-    `
-    
-    return await this.runPS(command, 10000)
-  }
 }
 
 // Instância singleton
 export const powerShell = PowerShellManager.getInstance()
 
 // Funções de conveniência
-export const runPS = (command: string, timeout?: number) => powerShell.runPS(command, timeout)
+export const invokeOperation = <N extends OperationName>(name: N, args: OperationArgs<N>, options?: OperationOptions) => powerShell.invoke(name, args, options)
+export const cancelOperation = (requestId: string) => powerShell.cancel(requestId)
 export const readFile = (filePath: string) => powerShell.readFile(filePath)
 export const requestElevation = () => powerShell.requestElevation()
 export const getEnvironmentInfo = () => powerShell.getEnvironmentInfo()
\ No newline at end of file